@@ -191,6 +191,18 @@ async function main() {
 
   console.log(`✅ Created ${users.length} users`);
 
+  // Technician skills, used to pick technicians for automatic assignment
+  await prisma.technicianSkill.createMany({
+    data: [
+      { technicianId: users[6].id, productCategory: 'Television' },
+      { technicianId: users[6].id, productCategory: 'Refrigerator' },
+      { technicianId: users[6].id, productCategory: 'Washing Machine' },
+      { technicianId: users[7].id, productCategory: 'Solar Panel' },
+      { technicianId: users[8].id, productCategory: 'Router' },
+      { technicianId: users[9].id, productCategory: 'Printer' },
+    ],
+  });
+
   // Create sample customers
   console.log('Creating customers...');
   const customers = await Promise.all([
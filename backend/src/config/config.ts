@@ -20,15 +20,64 @@ export const config = {
   smtpUser: process.env.SMTP_USER || '',
   smtpPass: process.env.SMTP_PASS || '',
   smtpFrom: process.env.SMTP_FROM || 'no-reply@company.com',
+  smtpSecure: process.env.SMTP_SECURE === 'true',
+  emailEnabled: process.env.EMAIL_ENABLED === 'true',
+  emailMaxAttempts: parseInt(process.env.EMAIL_MAX_ATTEMPTS || '5', 10),
+  emailRetryBaseMs: parseInt(process.env.EMAIL_RETRY_BASE_MS || '60000', 10), // doubles after each failed attempt
+  appUrl: process.env.APP_URL || process.env.CORS_ORIGIN || 'http://localhost:3000',
   
   // SLA Configuration (in hours)
   slaUnderWarranty: parseInt(process.env.SLA_UNDER_WARRANTY || '168', 10), // 7 days
   slaOutOfWarranty: parseInt(process.env.SLA_OUT_OF_WARRANTY || '240', 10), // 10 days
   slaOnsiteBuffer: parseInt(process.env.SLA_ONSITE_BUFFER || '48', 10), // 2 days
+
+  // SLA escalation thresholds (percent of SLA time elapsed; overdue is always 100%)
+  slaWarningPercent: parseInt(process.env.SLA_WARNING_PERCENT || '75', 10),
+  slaExecutiveEscalationPercent: parseInt(process.env.SLA_EXECUTIVE_ESCALATION_PERCENT || '150', 10),
+
+  // Statuses that pause the SLA clock (comma-separated, custom statuses allowed)
+  slaPauseStatuses: (process.env.SLA_PAUSE_STATUSES || 'WAITING_PARTS').split(',').map(status => status.trim()).filter(Boolean),
+
+  // Request numbers, used when no default format is configured in the database
+  requestNumberFormat: process.env.REQUEST_NUMBER_FORMAT || 'REQ{YY}{MM}{DD}-{SEQ:3}',
+  requestNumberReset: process.env.REQUEST_NUMBER_RESET || 'DAILY',
   
+  // Scheduled jobs (cron expressions)
+  jobsEnabled: process.env.JOBS_ENABLED !== 'false',
+  jobsTimezone: process.env.JOBS_TIMEZONE || 'Asia/Damascus',
+  jobLockTtlMs: parseInt(process.env.JOB_LOCK_TTL_MS || '600000', 10), // 10 minutes
+  jobSlaOverdueSchedule: process.env.JOB_SLA_OVERDUE_SCHEDULE || '*/15 * * * *', // every 15 minutes
+  jobNotificationCleanupSchedule: process.env.JOB_NOTIFICATION_CLEANUP_SCHEDULE || '0 3 * * *', // daily at 03:00
+  jobOverdueDigestSchedule: process.env.JOB_OVERDUE_DIGEST_SCHEDULE || '0 8 * * *', // daily at 08:00
+  jobDeliveryOutboxSchedule: process.env.JOB_DELIVERY_OUTBOX_SCHEDULE || '* * * * *', // every minute
+  jobNotificationDigestSchedule: process.env.JOB_NOTIFICATION_DIGEST_SCHEDULE || '0 17 * * *', // daily at 17:00
+  jobCertificationExpirySchedule: process.env.JOB_CERTIFICATION_EXPIRY_SCHEDULE || '0 7 * * *', // daily at 07:00
+  jobMaintenancePlanSchedule: process.env.JOB_MAINTENANCE_PLAN_SCHEDULE || '0 6 * * *', // daily at 06:00
+  notificationRetentionDays: parseInt(process.env.NOTIFICATION_RETENTION_DAYS || '30', 10),
+
+  // Real-time event stream
+  realtimeHeartbeatMs: parseInt(process.env.REALTIME_HEARTBEAT_MS || '25000', 10),
+
+  // Automatic technician assignment
+  autoAssignOnCreate: process.env.AUTO_ASSIGN_ON_CREATE === 'true',
+  autoAssignMaxOpenRequests: parseInt(process.env.AUTO_ASSIGN_MAX_OPEN_REQUESTS || '10', 10), // per technician
+  certificationExpiryWarningDays: parseInt(process.env.CERTIFICATION_EXPIRY_WARNING_DAYS || '30', 10),
+
+  // Quotations
+  quotationValidityDays: parseInt(process.env.QUOTATION_VALIDITY_DAYS || '14', 10),
+
+  // Invoices
+  invoiceNumberFormat: process.env.INVOICE_NUMBER_FORMAT || 'INV{YYYY}-{SEQ:5}',
+  invoiceNumberReset: process.env.INVOICE_NUMBER_RESET || 'YEARLY',
+  invoiceTaxRate: parseFloat(process.env.INVOICE_TAX_RATE || '0'), // percent
+  invoicePaymentDays: parseInt(process.env.INVOICE_PAYMENT_DAYS || '30', 10),
+
   // File Upload
   maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '5242880', 10), // 5MB
   uploadPath: process.env.UPLOAD_PATH || './uploads',
+  fileStorageDriver: process.env.FILE_STORAGE_DRIVER || 'local',
+  attachmentMaxFiles: parseInt(process.env.ATTACHMENT_MAX_FILES || '10', 10), // per upload
+  attachmentThumbnailSize: parseInt(process.env.ATTACHMENT_THUMBNAIL_SIZE || '320', 10), // px, longest side
   
   // Rate Limiting
   rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
@@ -0,0 +1,135 @@
+import { Response } from 'express';
+import { Readable } from 'stream';
+import { AuthenticatedRequest, ApiResponse, ValidationError, ForbiddenError, ActivityType, UserRole } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { logActivity } from '../services/activity.service';
+import {
+  getRequestAttachments,
+  saveAttachments,
+  getAttachment,
+  openAttachment,
+  deleteAttachment,
+} from '../services/attachment.service';
+
+// List attachments of a request
+export const getAttachments = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const requestId = parseInt(req.params.id);
+  const attachments = await getRequestAttachments(requestId);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { attachments },
+  };
+
+  res.status(200).json(response);
+});
+
+// Upload one or more attachments (multipart field "files")
+export const uploadAttachments = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const requestId = parseInt(req.params.id);
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+  if (files.length === 0) {
+    throw new ValidationError('At least one file is required');
+  }
+
+  const attachments = await saveAttachments(
+    requestId,
+    req.user.id,
+    files.map(file => ({
+      ...file,
+      // multer decodes file names as latin1; browsers send UTF-8 (Arabic names)
+      originalname: Buffer.from(file.originalname, 'latin1').toString('utf8'),
+    })),
+    { category: req.body.category, description: req.body.description }
+  );
+
+  await logActivity(
+    requestId,
+    req.user.id,
+    ActivityType.UPDATED,
+    `Attachments added: ${attachments.map(attachment => attachment.originalName).join(', ')}`
+  );
+
+  logger.info(`${attachments.length} attachment(s) uploaded to request ${requestId} by user ${req.user.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Attachments uploaded successfully',
+    data: { attachments },
+  };
+
+  res.status(201).json(response);
+});
+
+// Pipe a stored file to the response; a read error ends the response instead of leaving it hanging
+const pipeAttachment = (stream: Readable, res: Response, attachmentId: number) => {
+  stream.on('error', error => {
+    logger.error(`Could not stream attachment ${attachmentId}:`, error);
+    if (res.headersSent) {
+      res.destroy(error);
+      return;
+    }
+    res.removeHeader('Content-Disposition');
+    res.status(500).json({ success: false, message: 'Attachment file could not be read' });
+  });
+  stream.pipe(res);
+};
+
+// Stream an attachment file
+export const downloadAttachment = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const attachment = await getAttachment(parseInt(req.params.id), parseInt(req.params.attachmentId));
+  const stream = await openAttachment(attachment);
+
+  const disposition = req.query.inline === 'true' ? 'inline' : 'attachment';
+  res.status(200).set({
+    'Content-Type': attachment.mimeType,
+    'Content-Length': String(attachment.size),
+    'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.originalName)}`,
+  });
+  pipeAttachment(stream, res, attachment.id);
+});
+
+// Stream the JPEG thumbnail of an image attachment
+export const getAttachmentThumbnail = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const attachment = await getAttachment(parseInt(req.params.id), parseInt(req.params.attachmentId));
+  const stream = await openAttachment(attachment, true);
+
+  res.status(200).set({
+    'Content-Type': 'image/jpeg',
+    'Cache-Control': 'private, max-age=86400',
+  });
+  pipeAttachment(stream, res, attachment.id);
+});
+
+// Delete an attachment (uploader, or supervisor level and above)
+export const removeAttachment = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const requestId = parseInt(req.params.id);
+  const attachment = await getAttachment(requestId, parseInt(req.params.attachmentId));
+
+  if (req.user.role === UserRole.TECHNICIAN && attachment.uploadedById !== req.user.id) {
+    throw new ForbiddenError('Technicians can only delete their own attachments');
+  }
+
+  await deleteAttachment(attachment);
+
+  await logActivity(requestId, req.user.id, ActivityType.UPDATED, `Attachment deleted: ${attachment.originalName}`);
+
+  logger.info(`Attachment ${attachment.id} deleted from request ${requestId} by user ${req.user.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Attachment deleted successfully',
+  };
+
+  res.status(200).json(response);
+});
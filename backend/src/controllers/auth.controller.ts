@@ -6,6 +6,7 @@ import { config } from '../config/config';
 import { AuthenticatedRequest, ApiResponse, UnauthorizedError, ValidationError, ForbiddenError, JWTPayload, UserRole } from '../types';
 import { asyncHandler } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import { getNotificationPreferences, updateNotificationPreferences } from '../services/notification-preference.service';
 
 // Generate JWT token
 const generateToken = (payload: JWTPayload): string => {
@@ -258,6 +259,52 @@ export const changePassword = asyncHandler(async (req: AuthenticatedRequest, res
   res.status(200).json(response);
 });
 
+// Get the current user's notification preferences
+export const getNotificationSettings = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new UnauthorizedError('Authentication required');
+  }
+
+  const settings = await getNotificationPreferences(req.user.id);
+
+  const response: ApiResponse = {
+    success: true,
+    data: settings,
+  };
+
+  res.status(200).json(response);
+});
+
+// Update the current user's notification preferences, quiet hours and digest option
+export const updateNotificationSettings = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new UnauthorizedError('Authentication required');
+  }
+
+  const { preferences, quietHoursStart, quietHoursEnd, dailyDigest } = req.body;
+
+  if (preferences !== undefined && !Array.isArray(preferences)) {
+    throw new ValidationError('Preferences must be an array');
+  }
+
+  const settings = await updateNotificationPreferences(req.user.id, {
+    preferences,
+    quietHoursStart,
+    quietHoursEnd,
+    dailyDigest,
+  });
+
+  logger.info(`User ${req.user.username} updated notification preferences`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Notification preferences updated successfully',
+    data: settings,
+  };
+
+  res.status(200).json(response);
+});
+
 // Verify token (for frontend to check if token is still valid)
 export const verifyToken = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   // If we reach here, the token is valid (middleware already verified it)
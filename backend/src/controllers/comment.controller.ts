@@ -0,0 +1,125 @@
+import { Response } from 'express';
+import { AuthenticatedRequest, ApiResponse, ValidationError, ActivityType } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import { logActivity } from '../services/activity.service';
+import { publishRequestEvent, RealtimeEvent } from '../services/realtime.service';
+import {
+  getRequestComments,
+  createComment,
+  updateComment,
+  deleteComment,
+  getCommentHistory,
+} from '../services/comment.service';
+
+// Tell everyone viewing the request that its conversation changed
+const publishCommentEvent = async (requestId: number, commentId: number, action: string, userId: number) => {
+  const request = await prisma.request.findUnique({
+    where: { id: requestId },
+    select: { id: true, departmentId: true, assignedTechnicianId: true, receivedById: true },
+  });
+  if (request) {
+    publishRequestEvent(request, RealtimeEvent.REQUEST_COMMENT, { requestId, commentId, action, updatedBy: userId });
+  }
+};
+
+// List the comment threads of a request
+export const getComments = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const comments = await getRequestComments(parseInt(req.params.id));
+
+  const response: ApiResponse = {
+    success: true,
+    data: { comments },
+  };
+
+  res.status(200).json(response);
+});
+
+// Add a comment or reply
+export const addComment = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const requestId = parseInt(req.params.id);
+  const { body, visibility, parentId } = req.body;
+
+  const comment = await createComment(requestId, req.user, { body, visibility, parentId });
+
+  await logActivity(
+    requestId,
+    req.user.id,
+    ActivityType.COMMENT,
+    comment.visibility === 'INTERNAL' ? 'Internal note added' : 'Comment added'
+  );
+  await publishCommentEvent(requestId, comment.id, 'created', req.user.id);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Comment added successfully',
+    data: { comment },
+  };
+
+  res.status(201).json(response);
+});
+
+// Edit a comment
+export const editComment = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const requestId = parseInt(req.params.id);
+  const commentId = parseInt(req.params.commentId);
+  const { body, visibility } = req.body;
+
+  const comment = await updateComment(requestId, commentId, req.user, { body, visibility });
+  await publishCommentEvent(requestId, commentId, 'updated', req.user.id);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Comment updated successfully',
+    data: { comment },
+  };
+
+  res.status(200).json(response);
+});
+
+// Delete a comment
+export const removeComment = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const requestId = parseInt(req.params.id);
+  const commentId = parseInt(req.params.commentId);
+
+  await deleteComment(requestId, commentId, req.user);
+  await publishCommentEvent(requestId, commentId, 'deleted', req.user.id);
+
+  logger.info(`Comment ${commentId} on request ${requestId} deleted by user ${req.user.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Comment deleted successfully',
+  };
+
+  res.status(200).json(response);
+});
+
+// Edit/delete history of a comment
+export const getHistory = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const revisions = await getCommentHistory(parseInt(req.params.id), parseInt(req.params.commentId), req.user);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { revisions },
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,385 @@
+import { Response } from 'express';
+import { prisma } from '../index';
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+} from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import {
+  ContractKind,
+  ContractScope,
+  ContractStatus,
+  contractInclude,
+  countContractVisits,
+  formatCostTypes,
+  parseCostTypes,
+  UNCOUNTED_STATUSES,
+} from '../services/contract.service';
+import { addMonths } from '../services/warranty.service';
+
+const parseVisitsIncluded = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const visits = Number(value);
+  if (!Number.isInteger(visits) || visits < 0) {
+    throw new ValidationError('Included visits must be a whole number of zero or more');
+  }
+  return visits;
+};
+
+const parseDate = (value: unknown, label: string): Date => {
+  const date = new Date(String(value));
+  if (!value || isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid ${label}`);
+  }
+  return date;
+};
+
+const withCostTypes = <T extends { coveredCostTypes: string }>(record: T) => ({
+  ...record,
+  coveredCostTypes: parseCostTypes(record.coveredCostTypes),
+});
+
+// Installed units listed on a UNITS contract, all of them owned by the contract's customer
+const getContractUnitIds = async (unitIds: unknown, customerId: number): Promise<number[]> => {
+  const ids = Array.isArray(unitIds) ? Array.from(new Set(unitIds.map(id => parseInt(String(id))))) : [];
+  if (ids.length === 0) {
+    throw new ValidationError('Select at least one installed unit for a unit contract');
+  }
+  const units = await prisma.installedUnit.findMany({
+    where: { id: { in: ids }, customerId },
+    select: { id: true },
+  });
+  if (units.length !== ids.length) {
+    throw new ValidationError('Every installed unit must belong to the contract customer');
+  }
+  return ids;
+};
+
+// Get contract types (add ?includeInactive=true for retired ones)
+export const getContractTypes = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { includeInactive } = req.query as any;
+
+  const types = await prisma.contractType.findMany({
+    where: includeInactive === 'true' ? {} : { isActive: true },
+    orderBy: { name: 'asc' },
+    include: { _count: { select: { contracts: true } } },
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: { types: types.map(withCostTypes) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Create a contract type
+export const createContractType = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { name, description, kind, coveredCostTypes, durationMonths = 12, visitsIncluded } = req.body;
+
+  if (!name || !kind) {
+    throw new ValidationError('Name and kind are required');
+  }
+  if (!Object.values(ContractKind).includes(kind)) {
+    throw new ValidationError(`Invalid kind: ${kind}`);
+  }
+  const months = Number(durationMonths);
+  if (!Number.isInteger(months) || months <= 0) {
+    throw new ValidationError('Duration must be a positive whole number of months');
+  }
+
+  const existing = await prisma.contractType.findUnique({ where: { name } });
+  if (existing) {
+    throw new ConflictError(`A contract type named ${name} already exists`);
+  }
+
+  const type = await prisma.contractType.create({
+    data: {
+      name,
+      description: description || null,
+      kind,
+      coveredCostTypes: formatCostTypes(coveredCostTypes),
+      durationMonths: months,
+      visitsIncluded: parseVisitsIncluded(visitsIncluded),
+    },
+  });
+
+  logger.info(`Contract type ${type.name} created by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Contract type created successfully',
+    data: { type: withCostTypes(type) },
+  };
+
+  res.status(201).json(response);
+});
+
+// Update a contract type; contracts already sold keep their own coverage
+export const updateContractType = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const typeId = parseInt(req.params.id);
+  const { name, description, kind, coveredCostTypes, durationMonths, visitsIncluded, isActive } = req.body;
+
+  const existing = await prisma.contractType.findUnique({ where: { id: typeId } });
+  if (!existing) {
+    throw new NotFoundError('Contract type not found');
+  }
+
+  const data: any = {};
+  if (name !== undefined && name !== existing.name) {
+    const duplicate = await prisma.contractType.findUnique({ where: { name } });
+    if (duplicate) {
+      throw new ConflictError(`A contract type named ${name} already exists`);
+    }
+    data.name = name;
+  }
+  if (kind !== undefined) {
+    if (!Object.values(ContractKind).includes(kind)) {
+      throw new ValidationError(`Invalid kind: ${kind}`);
+    }
+    data.kind = kind;
+  }
+  if (durationMonths !== undefined) {
+    const months = Number(durationMonths);
+    if (!Number.isInteger(months) || months <= 0) {
+      throw new ValidationError('Duration must be a positive whole number of months');
+    }
+    data.durationMonths = months;
+  }
+  if (description !== undefined) data.description = description || null;
+  if (coveredCostTypes !== undefined) data.coveredCostTypes = formatCostTypes(coveredCostTypes);
+  if (visitsIncluded !== undefined) data.visitsIncluded = parseVisitsIncluded(visitsIncluded);
+  if (isActive !== undefined) data.isActive = Boolean(isActive);
+
+  const type = await prisma.contractType.update({ where: { id: typeId }, data });
+
+  logger.info(`Contract type ${type.name} updated by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Contract type updated successfully',
+    data: { type: withCostTypes(type) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Get service contracts (?customerId=, ?unitId=, ?status=, ?search= contract number or customer)
+export const getContracts = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { page = 1, limit = 20, customerId, unitId, status, search } = req.query as any;
+
+  const where: any = {};
+  if (customerId) where.customerId = parseInt(customerId);
+  if (status) where.status = status;
+  if (unitId) {
+    where.OR = [
+      { scope: ContractScope.UNITS, units: { some: { unitId: parseInt(unitId) } } },
+      { scope: ContractScope.CUSTOMER, customer: { installedUnits: { some: { id: parseInt(unitId) } } } },
+    ];
+  }
+  if (search) {
+    where.AND = [{
+      OR: [
+        { contractNumber: { contains: String(search).trim() } },
+        { customer: { name: { contains: String(search).trim() } } },
+        { customer: { phone: { contains: String(search).trim() } } },
+      ],
+    }];
+  }
+
+  const skip = (Number(page) - 1) * Number(limit);
+
+  const [contracts, total] = await Promise.all([
+    prisma.serviceContract.findMany({
+      where,
+      skip,
+      take: Number(limit),
+      orderBy: { endDate: 'desc' },
+      // Requests counted the way they use up the contract's visits
+      include: { ...contractInclude, _count: { select: { requests: { where: { status: { notIn: UNCOUNTED_STATUSES } } } } } },
+    }),
+    prisma.serviceContract.count({ where }),
+  ]);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { contracts: contracts.map(withCostTypes) },
+    meta: { page: Number(page), limit: Number(limit), total, totalPages: Math.ceil(total / Number(limit)) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Get a contract with the requests raised under it
+export const getContractById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const contractId = parseInt(req.params.id);
+
+  const contract = await prisma.serviceContract.findUnique({
+    where: { id: contractId },
+    include: {
+      ...contractInclude,
+      requests: {
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, requestNumber: true, status: true, issueDescription: true, createdAt: true },
+      },
+    },
+  });
+
+  if (!contract) {
+    throw new NotFoundError('Contract not found');
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: { contract: { ...withCostTypes(contract), visitsUsed: await countContractVisits(contract.id) } },
+  };
+
+  res.status(200).json(response);
+});
+
+// Sell a contract to a customer; coverage, visits and end date default to the contract type's
+export const createContract = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const {
+    contractNumber,
+    typeId,
+    customerId,
+    scope = ContractScope.CUSTOMER,
+    unitIds,
+    startDate,
+    endDate,
+    coveredCostTypes,
+    visitsIncluded,
+    price,
+    currency = 'SYP',
+    notes,
+  } = req.body;
+
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const number = String(contractNumber ?? '').trim();
+  if (!number || !typeId || !customerId || !startDate) {
+    throw new ValidationError('Contract number, type, customer and start date are required');
+  }
+  if (!Object.values(ContractScope).includes(scope)) {
+    throw new ValidationError(`Invalid scope: ${scope}`);
+  }
+
+  const [type, customer, existing] = await Promise.all([
+    prisma.contractType.findUnique({ where: { id: parseInt(typeId) } }),
+    prisma.customer.findUnique({ where: { id: parseInt(customerId) } }),
+    prisma.serviceContract.findUnique({ where: { contractNumber: number } }),
+  ]);
+
+  if (!type || !type.isActive) {
+    throw new ValidationError('Contract type not found');
+  }
+  if (!customer) {
+    throw new ValidationError('Customer not found');
+  }
+  if (existing) {
+    throw new ConflictError(`Contract ${number} already exists`);
+  }
+
+  const start = parseDate(startDate, 'start date');
+  const end = endDate ? parseDate(endDate, 'end date') : addMonths(start, type.durationMonths);
+  if (end < start) {
+    throw new ValidationError('The contract must end after it starts');
+  }
+
+  const units = scope === ContractScope.UNITS ? await getContractUnitIds(unitIds, customer.id) : [];
+
+  const contract = await prisma.serviceContract.create({
+    data: {
+      contractNumber: number,
+      typeId: type.id,
+      customerId: customer.id,
+      scope,
+      startDate: start,
+      endDate: end,
+      coveredCostTypes: coveredCostTypes !== undefined ? formatCostTypes(coveredCostTypes) : type.coveredCostTypes,
+      visitsIncluded: visitsIncluded !== undefined ? parseVisitsIncluded(visitsIncluded) : type.visitsIncluded,
+      price: price !== undefined && price !== '' && price !== null ? Number(price) : null,
+      currency,
+      notes: notes || null,
+      createdById: req.user.id,
+      units: { create: units.map(unitId => ({ unitId })) },
+    },
+    include: contractInclude,
+  });
+
+  logger.info(`Contract ${contract.contractNumber} created for customer ${customer.id} by user ${req.user.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Contract created successfully',
+    data: { contract: withCostTypes(contract) },
+  };
+
+  res.status(201).json(response);
+});
+
+// Update a contract's dates, coverage, units or status
+export const updateContract = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const contractId = parseInt(req.params.id);
+  const { scope, unitIds, startDate, endDate, coveredCostTypes, visitsIncluded, price, currency, status, notes } = req.body;
+
+  const existing = await prisma.serviceContract.findUnique({ where: { id: contractId } });
+  if (!existing) {
+    throw new NotFoundError('Contract not found');
+  }
+
+  const data: any = {};
+  if (scope !== undefined) {
+    if (!Object.values(ContractScope).includes(scope)) {
+      throw new ValidationError(`Invalid scope: ${scope}`);
+    }
+    data.scope = scope;
+  }
+  if (status !== undefined) {
+    if (!Object.values(ContractStatus).includes(status)) {
+      throw new ValidationError(`Invalid status: ${status}`);
+    }
+    data.status = status;
+  }
+  if (startDate !== undefined) data.startDate = parseDate(startDate, 'start date');
+  if (endDate !== undefined) data.endDate = parseDate(endDate, 'end date');
+  if ((data.endDate ?? existing.endDate) < (data.startDate ?? existing.startDate)) {
+    throw new ValidationError('The contract must end after it starts');
+  }
+  if (coveredCostTypes !== undefined) data.coveredCostTypes = formatCostTypes(coveredCostTypes);
+  if (visitsIncluded !== undefined) data.visitsIncluded = parseVisitsIncluded(visitsIncluded);
+  if (price !== undefined) data.price = price === '' || price === null ? null : Number(price);
+  if (currency !== undefined) data.currency = currency;
+  if (notes !== undefined) data.notes = notes || null;
+
+  // The unit list is replaced when given, and cleared for customer-wide contracts
+  const finalScope = data.scope ?? existing.scope;
+  if (finalScope === ContractScope.CUSTOMER && scope !== undefined) {
+    data.units = { deleteMany: {} };
+  } else if (finalScope === ContractScope.UNITS && (unitIds !== undefined || scope !== undefined)) {
+    const units = await getContractUnitIds(unitIds, existing.customerId);
+    data.units = { deleteMany: {}, create: units.map(unitId => ({ unitId })) };
+  }
+
+  const contract = await prisma.serviceContract.update({
+    where: { id: contractId },
+    data,
+    include: contractInclude,
+  });
+
+  logger.info(`Contract ${contract.contractNumber} updated by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Contract updated successfully',
+    data: { contract: withCostTypes(contract) },
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,85 @@
+import { Response } from 'express';
+import { AuthenticatedRequest, ApiResponse, ValidationError, NotificationType } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { getChannels, getDeliveries, retryDelivery } from '../services/delivery.service';
+import { sendEmail, verifyEmailTransport } from '../services/email.service';
+import { renderNotificationEmail } from '../services/email-templates';
+
+// List outbox entries with their delivery status
+export const getDeliveryList = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { page = 1, limit = 20, status, channel, userId, notificationId } = req.query as any;
+
+  const { deliveries, total } = await getDeliveries(
+    {
+      status,
+      channel,
+      userId: userId ? Number(userId) : undefined,
+      notificationId: notificationId ? Number(notificationId) : undefined,
+    },
+    Number(page),
+    Number(limit)
+  );
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      deliveries,
+      channels: getChannels().map(c => ({ name: c.name, enabled: c.isEnabled() })),
+    },
+    meta: { page: Number(page), limit: Number(limit), total, totalPages: Math.ceil(total / Number(limit)) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Retry a delivery immediately
+export const retry = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const delivery = await retryDelivery(parseInt(req.params.id, 10));
+
+  const response: ApiResponse = {
+    success: delivery.status === 'SENT',
+    message: delivery.status === 'SENT' ? 'Delivery sent' : `Delivery failed: ${delivery.lastError}`,
+    data: { delivery: { ...delivery, body: undefined } },
+  };
+
+  res.status(200).json(response);
+});
+
+// Send a test email to the current user, bypassing the outbox
+export const sendTestEmail = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const to = req.body.to || req.user.email;
+  if (!to) {
+    throw new ValidationError('Recipient email is required');
+  }
+
+  const connected = await verifyEmailTransport();
+  if (!connected) {
+    throw new ValidationError(`Cannot connect to SMTP server ${config.smtpHost}:${config.smtpPort}`);
+  }
+
+  const { subject, body } = renderNotificationEmail(
+    {
+      title: 'Test email / رسالة تجريبية',
+      message: 'Email notifications are configured correctly.\nتم إعداد إشعارات البريد الإلكتروني بشكل صحيح.',
+      type: NotificationType.STATUS_CHANGE,
+    },
+    `${req.user.firstName} ${req.user.lastName}`
+  );
+
+  await sendEmail(to, subject, body);
+
+  logger.info(`Test email sent to ${to} by user ${req.user.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: `Test email sent to ${to}`,
+  };
+
+  res.status(200).json(response);
+});
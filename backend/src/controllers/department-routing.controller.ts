@@ -0,0 +1,219 @@
+import { Response } from 'express';
+import { prisma } from '../index';
+import { AuthenticatedRequest, ApiResponse, ValidationError, NotFoundError } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import {
+  ensureDefaultRoutingRules,
+  resolveDepartment,
+  validateRoutingRule,
+} from '../services/department-routing.service';
+
+const ruleInclude = {
+  department: { select: { id: true, name: true } },
+};
+
+const trimOrNull = (value: any): string | null => {
+  const text = value === undefined || value === null ? '' : String(value).trim();
+  return text || null;
+};
+
+// Validate rule fields and convert them to their stored form
+const buildRuleData = async (body: any, existing?: any) => {
+  const { name, departmentId, keywords, pattern, productCategory, customerCity, priority, isDefault, isActive } = body;
+  const data: any = {};
+
+  if (!existing && (!name || !departmentId)) {
+    throw new ValidationError('Name and department are required');
+  }
+
+  if (name !== undefined) data.name = String(name).trim();
+  if (keywords !== undefined) data.keywords = trimOrNull(keywords);
+  if (pattern !== undefined) data.pattern = trimOrNull(pattern);
+  if (productCategory !== undefined) data.productCategory = trimOrNull(productCategory);
+  if (customerCity !== undefined) data.customerCity = trimOrNull(customerCity);
+  if (isDefault !== undefined) data.isDefault = Boolean(isDefault);
+  if (isActive !== undefined) data.isActive = Boolean(isActive);
+
+  if (departmentId !== undefined) {
+    const department = await prisma.department.findUnique({ where: { id: parseInt(departmentId, 10) } });
+    if (!department) {
+      throw new ValidationError('Department not found');
+    }
+    data.departmentId = department.id;
+  }
+
+  if (priority !== undefined) {
+    const value = Number(priority);
+    if (!Number.isInteger(value) || value < 0) {
+      throw new ValidationError('Priority must be a whole number of 0 or more');
+    }
+    data.priority = value;
+  }
+
+  validateRoutingRule({ ...existing, ...data });
+
+  return data;
+};
+
+// Only one rule can be the default; saving a new default demotes the previous one
+const clearOtherDefaults = async (ruleId: number) => {
+  await prisma.departmentRoutingRule.updateMany({
+    where: { isDefault: true, id: { not: ruleId } },
+    data: { isDefault: false },
+  });
+};
+
+// Get all routing rules in evaluation order
+export const getRules = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { includeInactive } = req.query as any;
+
+  await ensureDefaultRoutingRules();
+
+  const rules = await prisma.departmentRoutingRule.findMany({
+    where: includeInactive === 'true' ? {} : { isActive: true },
+    orderBy: [{ isDefault: 'asc' }, { priority: 'asc' }, { id: 'asc' }],
+    include: ruleInclude,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: { rules },
+  };
+
+  res.status(200).json(response);
+});
+
+// Get a single routing rule
+export const getRuleById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const rule = await prisma.departmentRoutingRule.findUnique({
+    where: { id: parseInt(req.params.id, 10) },
+    include: ruleInclude,
+  });
+
+  if (!rule) {
+    throw new NotFoundError('Routing rule not found');
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: { rule },
+  };
+
+  res.status(200).json(response);
+});
+
+// Create a routing rule
+export const createRule = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const data = await buildRuleData(req.body);
+
+  const existing = await prisma.departmentRoutingRule.findUnique({ where: { name: data.name } });
+  if (existing) {
+    throw new ValidationError('A routing rule with this name already exists');
+  }
+
+  const rule = await prisma.departmentRoutingRule.create({
+    data,
+    include: ruleInclude,
+  });
+
+  if (rule.isDefault) {
+    await clearOtherDefaults(rule.id);
+  }
+
+  logger.info(`Routing rule "${rule.name}" created by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Routing rule created successfully',
+    data: { rule },
+  };
+
+  res.status(201).json(response);
+});
+
+// Update a routing rule
+export const updateRule = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const ruleId = parseInt(req.params.id, 10);
+
+  const existing = await prisma.departmentRoutingRule.findUnique({ where: { id: ruleId } });
+  if (!existing) {
+    throw new NotFoundError('Routing rule not found');
+  }
+
+  const data = await buildRuleData(req.body, existing);
+
+  if (data.name && data.name !== existing.name) {
+    const duplicate = await prisma.departmentRoutingRule.findUnique({ where: { name: data.name } });
+    if (duplicate) {
+      throw new ValidationError('A routing rule with this name already exists');
+    }
+  }
+
+  const rule = await prisma.departmentRoutingRule.update({
+    where: { id: ruleId },
+    data,
+    include: ruleInclude,
+  });
+
+  if (rule.isDefault) {
+    await clearOtherDefaults(rule.id);
+  }
+
+  logger.info(`Routing rule "${rule.name}" updated by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Routing rule updated successfully',
+    data: { rule },
+  };
+
+  res.status(200).json(response);
+});
+
+// Delete a routing rule
+export const deleteRule = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const ruleId = parseInt(req.params.id, 10);
+
+  const existing = await prisma.departmentRoutingRule.findUnique({ where: { id: ruleId } });
+  if (!existing) {
+    throw new NotFoundError('Routing rule not found');
+  }
+
+  await prisma.departmentRoutingRule.delete({ where: { id: ruleId } });
+
+  logger.info(`Routing rule "${existing.name}" deleted by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Routing rule deleted successfully',
+  };
+
+  res.status(200).json(response);
+});
+
+// Show which rule would route a description, with the result of every rule checked
+export const testRouting = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { description, productCategory, customerCity } = req.body;
+
+  if (!description || !String(description).trim()) {
+    throw new ValidationError('Description is required');
+  }
+
+  const result = await resolveDepartment({
+    description: String(description),
+    productCategory: trimOrNull(productCategory),
+    customerCity: trimOrNull(customerCity),
+  });
+
+  const department = result.departmentId
+    ? await prisma.department.findUnique({ where: { id: result.departmentId }, select: { id: true, name: true } })
+    : null;
+
+  const response: ApiResponse = {
+    success: true,
+    data: { ...result, department },
+  };
+
+  res.status(200).json(response);
+});
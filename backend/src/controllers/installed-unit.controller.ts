@@ -0,0 +1,246 @@
+import { Response } from 'express';
+import { prisma } from '../index';
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  UserRole,
+} from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { getDefaultUnitExpiry, normalizeSerialNumber, unitInclude } from '../services/installed-unit.service';
+import { computeUnitWarranty } from '../services/warranty.service';
+
+const parseOptionalDate = (value: unknown, label: string): Date | null => {
+  if (!value) return null;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid ${label}`);
+  }
+  return date;
+};
+
+const trimOrNull = (value: unknown): string | null => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  return text || null;
+};
+
+// Installer of a unit, when it is one of our technicians
+const getInstaller = async (installedById: unknown) => {
+  if (!installedById) return null;
+  const technician = await prisma.user.findFirst({
+    where: { id: parseInt(String(installedById)), role: UserRole.TECHNICIAN },
+    select: { id: true },
+  });
+  if (!technician) {
+    throw new ValidationError('Installer must be a technician');
+  }
+  return technician.id;
+};
+
+// Get installed units with optional search by serial number, customer or product
+export const getUnits = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { page = 1, limit = 20, search, customerId, productId } = req.query as any;
+
+  const where: any = {};
+  if (customerId) where.customerId = parseInt(customerId);
+  if (productId) where.productId = parseInt(productId);
+  if (search) {
+    const term = String(search).trim();
+    where.OR = [
+      { serialNumber: { contains: normalizeSerialNumber(term) } },
+      { customer: { name: { contains: term } } },
+      { customer: { phone: { contains: term } } },
+      { product: { name: { contains: term } } },
+      { product: { model: { contains: term } } },
+    ];
+  }
+
+  const skip = (Number(page) - 1) * Number(limit);
+
+  const [units, total] = await Promise.all([
+    prisma.installedUnit.findMany({
+      where,
+      skip,
+      take: Number(limit),
+      orderBy: { createdAt: 'desc' },
+      include: { ...unitInclude, _count: { select: { requests: true } } },
+    }),
+    prisma.installedUnit.count({ where }),
+  ]);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { units },
+    meta: { page: Number(page), limit: Number(limit), total, totalPages: Math.ceil(total / Number(limit)) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Get a unit with every request ever raised on it
+export const getUnitById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const unitId = parseInt(req.params.id);
+
+  const unit = await prisma.installedUnit.findUnique({
+    where: { id: unitId },
+    include: {
+      ...unitInclude,
+      requests: {
+        orderBy: { createdAt: 'desc' },
+        select: {
+          id: true,
+          requestNumber: true,
+          status: true,
+          priority: true,
+          warrantyStatus: true,
+          issueDescription: true,
+          finalNotes: true,
+          createdAt: true,
+          completedAt: true,
+          closedAt: true,
+          department: { select: { id: true, name: true } },
+          assignedTechnician: { select: { id: true, firstName: true, lastName: true } },
+          costs: { select: { costType: true, amount: true, currency: true } },
+          requestParts: {
+            select: {
+              quantityUsed: true,
+              totalCost: true,
+              sparePart: { select: { name: true, partNumber: true, currency: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!unit) {
+    throw new NotFoundError('Installed unit not found');
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: { unit: { ...unit, warranty: computeUnitWarranty(unit) } },
+  };
+
+  res.status(200).json(response);
+});
+
+// Register a unit sold to or installed at a customer
+export const createUnit = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { productId, customerId, serialNumber, purchaseDate, installedAt, installedById, installerName, warrantyExpiresAt, address, notes } = req.body;
+
+  const serial = normalizeSerialNumber(serialNumber);
+  if (!productId || !customerId || !serial) {
+    throw new ValidationError('Product, customer and serial number are required');
+  }
+
+  const [product, customer, existing] = await Promise.all([
+    prisma.product.findUnique({ where: { id: parseInt(productId) } }),
+    prisma.customer.findUnique({ where: { id: parseInt(customerId) } }),
+    prisma.installedUnit.findUnique({ where: { serialNumber: serial } }),
+  ]);
+
+  if (!product) {
+    throw new ValidationError('Product not found');
+  }
+  if (!customer) {
+    throw new ValidationError('Customer not found');
+  }
+  if (existing) {
+    throw new ConflictError(`A unit with serial number ${serial} is already registered`);
+  }
+
+  const purchase = parseOptionalDate(purchaseDate, 'purchase date');
+  const unit = await prisma.installedUnit.create({
+    data: {
+      productId: product.id,
+      customerId: customer.id,
+      serialNumber: serial,
+      purchaseDate: purchase,
+      installedAt: parseOptionalDate(installedAt, 'installation date'),
+      installedById: await getInstaller(installedById),
+      installerName: trimOrNull(installerName),
+      warrantyExpiresAt: parseOptionalDate(warrantyExpiresAt, 'warranty expiry') ?? getDefaultUnitExpiry(purchase, product.warrantyMonths),
+      address: trimOrNull(address),
+      notes: trimOrNull(notes),
+    },
+    include: unitInclude,
+  });
+
+  logger.info(`Unit ${unit.serialNumber} registered for customer ${customer.id} by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Installed unit registered successfully',
+    data: { unit },
+  };
+
+  res.status(201).json(response);
+});
+
+// Update a unit's owner, dates, installer or warranty expiry
+export const updateUnit = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const unitId = parseInt(req.params.id);
+  const body = req.body;
+
+  const existing = await prisma.installedUnit.findUnique({ where: { id: unitId }, include: { product: true } });
+  if (!existing) {
+    throw new NotFoundError('Installed unit not found');
+  }
+
+  const data: any = {};
+
+  if (body.serialNumber !== undefined) {
+    const serial = normalizeSerialNumber(body.serialNumber);
+    if (!serial) {
+      throw new ValidationError('Serial number cannot be empty');
+    }
+    if (serial !== existing.serialNumber) {
+      const duplicate = await prisma.installedUnit.findUnique({ where: { serialNumber: serial } });
+      if (duplicate) {
+        throw new ConflictError(`A unit with serial number ${serial} is already registered`);
+      }
+      data.serialNumber = serial;
+    }
+  }
+
+  if (body.customerId !== undefined) {
+    const customer = await prisma.customer.findUnique({ where: { id: parseInt(body.customerId) } });
+    if (!customer) {
+      throw new ValidationError('Customer not found');
+    }
+    data.customerId = customer.id;
+  }
+
+  if (body.purchaseDate !== undefined) data.purchaseDate = parseOptionalDate(body.purchaseDate, 'purchase date');
+  if (body.installedAt !== undefined) data.installedAt = parseOptionalDate(body.installedAt, 'installation date');
+  if (body.installedById !== undefined) data.installedById = await getInstaller(body.installedById);
+  if (body.installerName !== undefined) data.installerName = trimOrNull(body.installerName);
+  if (body.address !== undefined) data.address = trimOrNull(body.address);
+  if (body.notes !== undefined) data.notes = trimOrNull(body.notes);
+
+  // An empty expiry is recomputed from the purchase date
+  if (body.warrantyExpiresAt !== undefined) {
+    data.warrantyExpiresAt = parseOptionalDate(body.warrantyExpiresAt, 'warranty expiry')
+      ?? getDefaultUnitExpiry(data.purchaseDate !== undefined ? data.purchaseDate : existing.purchaseDate, existing.product.warrantyMonths);
+  }
+
+  const unit = await prisma.installedUnit.update({
+    where: { id: unitId },
+    data,
+    include: unitInclude,
+  });
+
+  logger.info(`Unit ${unit.serialNumber} updated by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Installed unit updated successfully',
+    data: { unit },
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,257 @@
+import { Response } from 'express';
+import { prisma } from '../index';
+import { config } from '../config/config';
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  ValidationError,
+  NotFoundError,
+  ForbiddenError,
+  UserRole,
+} from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { canAccessRequest } from '../middleware/auth';
+import {
+  InvoiceStatus,
+  PaymentMethod,
+  createInvoice,
+  getCustomerBalances,
+  getUninvoicedLines,
+  invoiceInclude,
+  recordPayment,
+  voidInvoice,
+} from '../services/invoice.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const withBalance = <T extends { total: number; amountPaid: number }>(invoice: T) => ({
+  ...invoice,
+  balance: Math.round((invoice.total - invoice.amountPaid) * 100) / 100,
+});
+
+const parseDate = (value: unknown, label: string): Date => {
+  const date = new Date(String(value));
+  if (!value || isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid ${label}`);
+  }
+  return date;
+};
+
+// Load a request and check the user may bill it
+const getBillableRequest = async (req: AuthenticatedRequest, requestId: number) => {
+  const request = await prisma.request.findUnique({
+    where: { id: requestId },
+    select: { id: true, requestNumber: true, customerId: true, departmentId: true, assignedTechnicianId: true, receivedById: true },
+  });
+
+  if (!request) {
+    throw new NotFoundError('Request not found');
+  }
+
+  if (!canAccessRequest(req.user!, request)) {
+    throw new ForbiddenError('Access denied to this request');
+  }
+
+  return request;
+};
+
+// Load an invoice and check the user may see its request
+const getAccessibleInvoice = async (req: AuthenticatedRequest) => {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: parseInt(req.params.id) },
+    include: invoiceInclude,
+  });
+
+  if (!invoice) {
+    throw new NotFoundError('Invoice not found');
+  }
+
+  await getBillableRequest(req, invoice.requestId);
+  return invoice;
+};
+
+// Get invoices (?customerId=, ?requestId=, ?status=, ?search= invoice or request number)
+export const getInvoices = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { customerId, requestId, status, search, page = 1, limit = 20 } = req.query as any;
+
+  const where: any = {};
+  if (customerId) where.customerId = parseInt(customerId);
+  if (requestId) where.requestId = parseInt(requestId);
+  if (status) where.status = String(status);
+  if (search) {
+    where.OR = [
+      { invoiceNumber: { contains: String(search).trim() } },
+      { request: { requestNumber: { contains: String(search).trim() } } },
+    ];
+  }
+
+  // Department staff only see invoices of their department's requests
+  if (req.user && (req.user.role === UserRole.DEPARTMENT_MANAGER || req.user.role === UserRole.SECTION_SUPERVISOR)) {
+    where.request = { ...where.request, departmentId: req.user.departmentId };
+  }
+
+  const skip = (Number(page) - 1) * Number(limit);
+  const [invoices, total] = await Promise.all([
+    prisma.invoice.findMany({
+      where,
+      skip,
+      take: Number(limit),
+      orderBy: { issuedAt: 'desc' },
+      include: {
+        request: { select: { id: true, requestNumber: true } },
+        customer: { select: { id: true, name: true } },
+      },
+    }),
+    prisma.invoice.count({ where }),
+  ]);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { invoices: invoices.map(withBalance) },
+    meta: { page: Number(page), limit: Number(limit), total, totalPages: Math.ceil(total / Number(limit)) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Get an invoice with its lines and payments
+export const getInvoiceById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const invoice = await getAccessibleInvoice(req);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { invoice: withBalance(invoice) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Billable costs and parts of a request not invoiced yet, grouped by currency
+export const getUninvoiced = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const requestId = parseInt(req.query.requestId as string);
+  if (!requestId) {
+    throw new ValidationError('requestId is required');
+  }
+
+  await getBillableRequest(req, requestId);
+  const lines = await getUninvoicedLines(requestId);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { lines, defaultTaxRate: config.invoiceTaxRate },
+  };
+
+  res.status(200).json(response);
+});
+
+// Outstanding balance per currency for each customer with open invoices (?customerId=)
+export const getBalances = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const customerId = req.query.customerId ? parseInt(req.query.customerId as string) : undefined;
+  const balances = await getCustomerBalances(customerId ? [customerId] : undefined);
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      balances: Array.from(balances.entries()).map(([id, outstanding]) => ({ customerId: id, outstanding })),
+    },
+  };
+
+  res.status(200).json(response);
+});
+
+// Issue an invoice for a request's billable lines in one currency
+export const createRequestInvoice = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { requestId, currency = 'SYP', discountAmount, discountPercent, taxRate, dueDate, notes } = req.body;
+
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  if (!requestId) {
+    throw new ValidationError('requestId is required');
+  }
+
+  const request = await getBillableRequest(req, parseInt(requestId));
+  const due = dueDate ? parseDate(dueDate, 'due date') : new Date(Date.now() + config.invoicePaymentDays * DAY_MS);
+
+  const invoice = await createInvoice(request, req.user.id, {
+    currency: String(currency),
+    discountAmount,
+    discountPercent,
+    taxRate,
+    dueDate: due,
+    notes,
+    defaultTaxRate: config.invoiceTaxRate,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    message: `Invoice ${invoice.invoiceNumber} issued successfully`,
+    data: { invoice: withBalance(invoice) },
+  };
+
+  res.status(201).json(response);
+});
+
+// Record a cash or transfer payment, full or partial
+export const addPayment = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { amount, method, reference, paidAt, notes } = req.body;
+
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const value = Math.round(Number(amount) * 100) / 100;
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new ValidationError('Payment amount must be greater than zero');
+  }
+
+  if (!Object.values(PaymentMethod).includes(method)) {
+    throw new ValidationError(`Invalid payment method: ${method}`);
+  }
+
+  if (method === PaymentMethod.TRANSFER && !String(reference ?? '').trim()) {
+    throw new ValidationError('A transfer reference is required');
+  }
+
+  const existing = await getAccessibleInvoice(req);
+  const invoice = await recordPayment(existing.id, req.user.id, {
+    amount: value,
+    method,
+    reference: reference ? String(reference).trim() : null,
+    paidAt: paidAt ? parseDate(paidAt, 'payment date') : new Date(),
+    notes,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    message: invoice.status === InvoiceStatus.PAID ? 'Invoice paid in full' : 'Partial payment recorded',
+    data: { invoice: withBalance(invoice) },
+  };
+
+  res.status(201).json(response);
+});
+
+// Void an invoice issued by mistake (reason required)
+export const cancelInvoice = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  if (!reason) {
+    throw new ValidationError('A reason is required to void an invoice');
+  }
+
+  const existing = await getAccessibleInvoice(req);
+  const invoice = await voidInvoice(existing.id, req.user.id, reason);
+
+  const response: ApiResponse = {
+    success: true,
+    message: `Invoice ${invoice.invoiceNumber} voided`,
+    data: { invoice: withBalance(invoice) },
+  };
+
+  res.status(200).json(response);
+});
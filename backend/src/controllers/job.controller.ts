@@ -0,0 +1,82 @@
+import { Response } from 'express';
+import { AuthenticatedRequest, ApiResponse, ValidationError } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import {
+  listJobs,
+  getJobRuns,
+  runJob,
+  updateJobSettings,
+  JobTrigger,
+} from '../services/scheduler.service';
+
+// List scheduled jobs with their last run
+export const getJobs = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const jobs = await listJobs();
+
+  const response: ApiResponse = {
+    success: true,
+    data: { jobs },
+  };
+
+  res.status(200).json(response);
+});
+
+// Get run history for a job
+export const getJobHistory = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { page = 1, limit = 20 } = req.query as any;
+  const { runs, total } = await getJobRuns(req.params.name, Number(page), Number(limit));
+
+  const response: ApiResponse = {
+    success: true,
+    data: { runs },
+    meta: { page: Number(page), limit: Number(limit), total, totalPages: Math.ceil(total / Number(limit)) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Trigger a job manually and return its result
+export const triggerJob = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const run = await runJob(req.params.name, JobTrigger.MANUAL, req.user.id);
+
+  logger.info(`Job ${req.params.name} triggered manually by user ${req.user.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Job executed',
+    data: { run },
+  };
+
+  res.status(200).json(response);
+});
+
+// Update a job's schedule or enabled flag
+export const updateJob = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { schedule, isEnabled } = req.body;
+
+  if (schedule === undefined && isEnabled === undefined) {
+    throw new ValidationError('schedule or isEnabled is required');
+  }
+
+  if (isEnabled !== undefined && typeof isEnabled !== 'boolean') {
+    throw new ValidationError('isEnabled must be true or false');
+  }
+
+  const job = await updateJobSettings(req.params.name, {
+    schedule,
+    isEnabled,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Job updated successfully',
+    data: { job },
+  };
+
+  res.status(200).json(response);
+});
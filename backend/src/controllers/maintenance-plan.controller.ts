@@ -0,0 +1,296 @@
+import { Response } from 'express';
+import { prisma } from '../index';
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  ValidationError,
+  NotFoundError,
+  RequestPriority,
+  ExecutionMethod,
+} from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { getCustomerUnit } from '../services/installed-unit.service';
+import {
+  MaintenanceRecurrence,
+  OccurrenceStatus,
+  formatSeasonMonths,
+  getNextDueDate,
+  parseSeasonMonths,
+  planInclude,
+  skipNextOccurrence,
+} from '../services/maintenance-plan.service';
+
+const SCHEDULE_FIELDS = ['recurrence', 'intervalMonths', 'seasonMonths', 'dayOfMonth', 'startDate', 'endDate'];
+
+const parseDate = (value: unknown, label: string): Date => {
+  const date = new Date(String(value));
+  if (!value || isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid ${label}`);
+  }
+  return date;
+};
+
+const parseWholeNumber = (value: unknown, label: string, min: number, max?: number): number => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || (max !== undefined && number > max)) {
+    throw new ValidationError(max !== undefined ? `${label} must be between ${min} and ${max}` : `${label} must be ${min} or more`);
+  }
+  return number;
+};
+
+const withSeasonMonths = <T extends { seasonMonths: string | null }>(plan: T) => ({
+  ...plan,
+  seasonMonths: parseSeasonMonths(plan.seasonMonths),
+});
+
+// Validate plan fields and convert them to their stored form
+const buildPlanData = (body: any) => {
+  const { name, issueDescription, priority, executionMethod, recurrence, intervalMonths, seasonMonths, dayOfMonth, leadDays, startDate, endDate, notes } = body;
+  const data: any = {};
+
+  if (name !== undefined) {
+    if (!String(name).trim()) throw new ValidationError('Name cannot be empty');
+    data.name = String(name).trim();
+  }
+  if (issueDescription !== undefined) {
+    if (!String(issueDescription).trim()) throw new ValidationError('Issue description cannot be empty');
+    data.issueDescription = String(issueDescription).trim();
+  }
+  if (priority !== undefined) {
+    if (!Object.values(RequestPriority).includes(priority)) throw new ValidationError(`Invalid priority: ${priority}`);
+    data.priority = priority;
+  }
+  if (executionMethod !== undefined) {
+    if (!Object.values(ExecutionMethod).includes(executionMethod)) throw new ValidationError(`Invalid execution method: ${executionMethod}`);
+    data.executionMethod = executionMethod;
+  }
+  if (recurrence !== undefined) {
+    if (!Object.values(MaintenanceRecurrence).includes(recurrence)) throw new ValidationError(`Invalid recurrence: ${recurrence}`);
+    data.recurrence = recurrence;
+  }
+  if (intervalMonths !== undefined) {
+    data.intervalMonths = intervalMonths === null || intervalMonths === '' ? null : parseWholeNumber(intervalMonths, 'Interval months', 1);
+  }
+  if (seasonMonths !== undefined) {
+    data.seasonMonths = seasonMonths === null || seasonMonths === '' ? null : formatSeasonMonths(seasonMonths);
+  }
+  if (dayOfMonth !== undefined) data.dayOfMonth = parseWholeNumber(dayOfMonth, 'Day of month', 1, 31);
+  if (leadDays !== undefined) data.leadDays = parseWholeNumber(leadDays, 'Lead days', 0, 365);
+  if (startDate !== undefined) data.startDate = parseDate(startDate, 'start date');
+  if (endDate !== undefined) data.endDate = endDate ? parseDate(endDate, 'end date') : null;
+  if (notes !== undefined) data.notes = notes || null;
+
+  return data;
+};
+
+// A plan must carry the settings its recurrence needs
+const checkSchedule = (plan: { recurrence: string; intervalMonths: number | null; seasonMonths: string | null; startDate: Date; endDate: Date | null }) => {
+  if (plan.recurrence === MaintenanceRecurrence.INTERVAL && !plan.intervalMonths) {
+    throw new ValidationError('Interval plans need the number of months between visits');
+  }
+  if (plan.recurrence === MaintenanceRecurrence.SEASONAL && !plan.seasonMonths) {
+    throw new ValidationError('Seasonal plans need one or more months');
+  }
+  if (plan.endDate && plan.endDate < plan.startDate) {
+    throw new ValidationError('The plan must end after it starts');
+  }
+};
+
+// Get maintenance plans (?customerId=, ?unitId=, ?includeInactive=true)
+export const getPlans = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { customerId, unitId, includeInactive } = req.query as any;
+
+  const where: any = {};
+  if (customerId) where.customerId = parseInt(customerId);
+  if (unitId) where.installedUnitId = parseInt(unitId);
+  if (includeInactive !== 'true') where.isActive = true;
+
+  const plans = await prisma.maintenancePlan.findMany({
+    where,
+    orderBy: [{ isActive: 'desc' }, { nextDueDate: 'asc' }],
+    include: {
+      ...planInclude,
+      _count: { select: { occurrences: { where: { status: OccurrenceStatus.SKIPPED } } } },
+    },
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      plans: plans.map(({ _count, ...plan }) => ({ ...withSeasonMonths(plan), skippedCount: _count.occurrences })),
+    },
+  };
+
+  res.status(200).json(response);
+});
+
+// Get a plan with its past visits, generated and skipped
+export const getPlanById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const planId = parseInt(req.params.id);
+
+  const plan = await prisma.maintenancePlan.findUnique({
+    where: { id: planId },
+    include: {
+      ...planInclude,
+      occurrences: {
+        orderBy: { dueDate: 'desc' },
+        include: {
+          request: { select: { id: true, requestNumber: true, status: true } },
+          skippedBy: { select: { id: true, firstName: true, lastName: true } },
+        },
+      },
+    },
+  });
+
+  if (!plan) {
+    throw new NotFoundError('Maintenance plan not found');
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: { plan: withSeasonMonths(plan) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Create a plan for a customer, optionally for one of its units
+export const createPlan = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { customerId, installedUnitId, departmentId } = req.body;
+
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const data = buildPlanData(req.body);
+  if (!customerId || !data.name || !data.issueDescription || !data.recurrence || !data.startDate) {
+    throw new ValidationError('Customer, name, issue description, recurrence and start date are required');
+  }
+
+  const customer = await prisma.customer.findUnique({ where: { id: parseInt(customerId) } });
+  if (!customer) {
+    throw new ValidationError('Customer not found');
+  }
+
+  // The unit's product decides the department unless one is chosen
+  const unit = installedUnitId ? await getCustomerUnit(parseInt(installedUnitId), customer.id) : null;
+  const department = departmentId
+    ? await prisma.department.findUnique({ where: { id: parseInt(departmentId) } })
+    : unit ? await prisma.department.findUnique({ where: { id: unit.product.departmentId } }) : null;
+  if (!department) {
+    throw new ValidationError(departmentId ? 'Department not found' : 'Select a department or an installed unit');
+  }
+
+  const schedule = {
+    recurrence: data.recurrence,
+    intervalMonths: data.intervalMonths ?? null,
+    seasonMonths: data.seasonMonths ?? null,
+    dayOfMonth: data.dayOfMonth ?? 1,
+    startDate: data.startDate,
+    endDate: data.endDate ?? null,
+  };
+  checkSchedule(schedule);
+
+  const plan = await prisma.maintenancePlan.create({
+    data: {
+      ...data,
+      customerId: customer.id,
+      installedUnitId: unit?.id ?? null,
+      departmentId: department.id,
+      nextDueDate: getNextDueDate(schedule, new Date()),
+      createdById: req.user.id,
+    },
+    include: planInclude,
+  });
+
+  logger.info(`Maintenance plan ${plan.id} created for customer ${customer.id} by user ${req.user.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Maintenance plan created successfully',
+    data: { plan: withSeasonMonths(plan) },
+  };
+
+  res.status(201).json(response);
+});
+
+// Update a plan; a changed schedule is recomputed from today, after the last visit already handled
+export const updatePlan = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const planId = parseInt(req.params.id);
+
+  const existing = await prisma.maintenancePlan.findUnique({
+    where: { id: planId },
+    include: { occurrences: { orderBy: { dueDate: 'desc' }, take: 1 } },
+  });
+  if (!existing) {
+    throw new NotFoundError('Maintenance plan not found');
+  }
+
+  const data = buildPlanData(req.body);
+  if (req.body.isActive !== undefined) data.isActive = Boolean(req.body.isActive);
+  if (req.body.departmentId !== undefined) {
+    const department = await prisma.department.findUnique({ where: { id: parseInt(req.body.departmentId) } });
+    if (!department) {
+      throw new ValidationError('Department not found');
+    }
+    data.departmentId = department.id;
+  }
+
+  const schedule = {
+    recurrence: data.recurrence ?? existing.recurrence,
+    intervalMonths: data.intervalMonths !== undefined ? data.intervalMonths : existing.intervalMonths,
+    seasonMonths: data.seasonMonths !== undefined ? data.seasonMonths : existing.seasonMonths,
+    dayOfMonth: data.dayOfMonth ?? existing.dayOfMonth,
+    startDate: data.startDate ?? existing.startDate,
+    endDate: data.endDate !== undefined ? data.endDate : existing.endDate,
+  };
+  checkSchedule(schedule);
+
+  if (SCHEDULE_FIELDS.some(field => req.body[field] !== undefined) || data.isActive === true) {
+    const lastHandled = existing.occurrences[0]?.dueDate;
+    const today = new Date();
+    const from = lastHandled && lastHandled >= today ? new Date(lastHandled.getTime() + 24 * 60 * 60 * 1000) : today;
+    data.nextDueDate = getNextDueDate(schedule, from);
+  }
+
+  const plan = await prisma.maintenancePlan.update({
+    where: { id: planId },
+    data,
+    include: planInclude,
+  });
+
+  logger.info(`Maintenance plan ${plan.id} updated by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Maintenance plan updated successfully',
+    data: { plan: withSeasonMonths(plan) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Skip the next visit of a plan, e.g. when the customer is away
+export const skipNextVisit = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const planId = parseInt(req.params.id);
+  const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+  if (!reason) {
+    throw new ValidationError('A reason is required to skip a visit');
+  }
+
+  const skippedDate = await skipNextOccurrence(planId, req.user.id, reason);
+  const plan = await prisma.maintenancePlan.findUnique({ where: { id: planId }, include: planInclude });
+
+  const response: ApiResponse = {
+    success: true,
+    message: `Visit due on ${skippedDate.toISOString().slice(0, 10)} skipped`,
+    data: { plan: plan && withSeasonMonths(plan) },
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,197 @@
+import { Response } from 'express';
+import { prisma } from '../index';
+import { config } from '../config/config';
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  ValidationError,
+  NotFoundError,
+  FINISHED_STATUSES,
+  WarrantyStatus,
+} from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import {
+  createQuotation,
+  decideQuotation,
+  expireQuotations,
+  getCustomerLink,
+  isQuotationDecision,
+  quotationInclude,
+} from '../services/quotation.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const withCustomerLink = <T extends { token: string }>(quotation: T) => ({
+  ...quotation,
+  customerLink: getCustomerLink(quotation.token),
+});
+
+// Get every version of a request's quotation, newest first
+export const getRequestQuotations = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const requestId = parseInt(req.params.id);
+
+  await expireQuotations({ requestId });
+
+  const quotations = await prisma.quotation.findMany({
+    where: { requestId },
+    orderBy: { version: 'desc' },
+    include: quotationInclude,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: { quotations: quotations.map(withCustomerLink) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Issue a new quotation version from planned parts and labor
+export const createRequestQuotation = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const requestId = parseInt(req.params.id);
+  const { lines, validUntil, notes } = req.body;
+
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const request = await prisma.request.findUnique({
+    where: { id: requestId },
+    select: { id: true, requestNumber: true, status: true, warrantyStatus: true },
+  });
+
+  if (!request) {
+    throw new NotFoundError('Request not found');
+  }
+
+  if (request.warrantyStatus !== WarrantyStatus.OUT_OF_WARRANTY) {
+    throw new ValidationError('Quotations are only issued for out-of-warranty requests');
+  }
+
+  if (FINISHED_STATUSES.includes(request.status)) {
+    throw new ValidationError('Cannot issue a quotation for a finished request');
+  }
+
+  const expiry = validUntil ? new Date(validUntil) : new Date(Date.now() + config.quotationValidityDays * DAY_MS);
+  if (isNaN(expiry.getTime()) || expiry <= new Date()) {
+    throw new ValidationError('The quotation must be valid until a future date');
+  }
+
+  const quotation = await createQuotation(request, req.user.id, { lines, validUntil: expiry, notes });
+
+  const response: ApiResponse = {
+    success: true,
+    message: `Quotation version ${quotation.version} created successfully`,
+    data: { quotation: withCustomerLink(quotation) },
+  };
+
+  res.status(201).json(response);
+});
+
+// Record the customer's answer given in person or by phone
+export const recordQuotationDecision = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const requestId = parseInt(req.params.id);
+  const quotationId = parseInt(req.params.quotationId);
+  const { decision, note } = req.body;
+
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  if (!isQuotationDecision(decision)) {
+    throw new ValidationError('Decision must be ACCEPTED or REJECTED');
+  }
+
+  const existing = await prisma.quotation.findFirst({ where: { id: quotationId, requestId } });
+  if (!existing) {
+    throw new NotFoundError('Quotation not found');
+  }
+
+  const quotation = await decideQuotation(quotationId, decision, note ? String(note).trim() : null, req.user.id);
+
+  const response: ApiResponse = {
+    success: true,
+    message: `Quotation ${decision.toLowerCase()}`,
+    data: { quotation: withCustomerLink(quotation) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Load the quotation behind a customer link with only what the customer may see
+const getQuotationForCustomer = async (token: string) => {
+  const quotation = await prisma.quotation.findUnique({ where: { token }, select: { id: true } });
+  if (!quotation) {
+    throw new NotFoundError('Quotation not found');
+  }
+
+  await expireQuotations({ id: quotation.id });
+
+  return prisma.quotation.findUniqueOrThrow({
+    where: { id: quotation.id },
+    select: {
+      version: true,
+      status: true,
+      validUntil: true,
+      totalSyp: true,
+      totalUsd: true,
+      notes: true,
+      decidedAt: true,
+      decisionNote: true,
+      createdAt: true,
+      lines: {
+        orderBy: { id: 'asc' },
+        select: { lineType: true, description: true, quantity: true, unitPrice: true, currency: true, total: true },
+      },
+      request: {
+        select: {
+          requestNumber: true,
+          issueDescription: true,
+          customer: { select: { name: true } },
+          product: { select: { name: true, model: true } },
+          department: { select: { name: true } },
+        },
+      },
+    },
+  });
+};
+
+// Public: view a quotation through its customer link
+export const getQuotationByToken = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const quotation = await getQuotationForCustomer(req.params.token);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { quotation },
+  };
+
+  res.status(200).json(response);
+});
+
+// Public: the customer accepts or rejects a quotation through its link
+export const respondToQuotation = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { decision, note } = req.body;
+
+  if (!isQuotationDecision(decision)) {
+    throw new ValidationError('Decision must be ACCEPTED or REJECTED');
+  }
+
+  const existing = await prisma.quotation.findUnique({ where: { token: req.params.token }, select: { id: true } });
+  if (!existing) {
+    throw new NotFoundError('Quotation not found');
+  }
+
+  await decideQuotation(existing.id, decision, note ? String(note).trim().slice(0, 1000) : null, null);
+  const quotation = await getQuotationForCustomer(req.params.token);
+
+  logger.info(`Quotation ${existing.id} answered through its customer link`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: decision === 'ACCEPTED' ? 'Thank you, the quotation was accepted' : 'The quotation was rejected',
+    data: { quotation },
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,28 @@
+import { Response } from 'express';
+import * as jwt from 'jsonwebtoken';
+import { AuthenticatedRequest, JWTPayload, UnauthorizedError } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { addClient, removeClient } from '../services/realtime.service';
+
+// Open a Server-Sent Events stream with live notifications and request updates for the current user
+export const stream = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new UnauthorizedError('Authentication required');
+  }
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // disable nginx response buffering
+  });
+  res.flushHeaders();
+
+  // authenticateToken already verified the token; its expiry ends the stream
+  const token = req.headers['authorization']?.split(' ')[1];
+  const payload = token ? (jwt.decode(token) as JWTPayload | null) : null;
+  const clientId = addClient(req.user, res, payload?.exp ? payload.exp * 1000 : null);
+  res.write(`event: connected\ndata: ${JSON.stringify({ userId: req.user.id })}\n\n`);
+
+  req.on('close', () => removeClient(clientId));
+});
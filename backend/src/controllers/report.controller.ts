@@ -0,0 +1,125 @@
+import { Response } from 'express';
+import { AuthenticatedRequest, ApiResponse, ReportFilters, UserRole, ValidationError, ForbiddenError } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import {
+  getTechnicianPerformance,
+  getSLAComplianceReport,
+  getCostSummary,
+  getUnpaidInvoicesReport,
+} from '../services/report.service';
+
+// Parse report filters from the query string and scope them to the user's department
+const parseReportFilters = (req: AuthenticatedRequest): ReportFilters => {
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const { dateFrom, dateTo, departmentId, technicianId, status, warrantyStatus } = req.query as any;
+
+  // Default to the last 30 days
+  const to = dateTo ? new Date(String(dateTo)) : new Date();
+  const from = dateFrom ? new Date(String(dateFrom)) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throw new ValidationError('Invalid date range');
+  }
+
+  // Include the whole last day when only a date is given
+  if (dateTo && String(dateTo).length <= 10) {
+    to.setHours(23, 59, 59, 999);
+  }
+
+  if (from > to) {
+    throw new ValidationError('dateFrom must be before dateTo');
+  }
+
+  const filters: ReportFilters = {
+    dateFrom: from.toISOString(),
+    dateTo: to.toISOString(),
+    departmentId: departmentId ? parseInt(String(departmentId)) : undefined,
+    technicianId: technicianId ? parseInt(String(technicianId)) : undefined,
+    status: status ? String(status) : undefined,
+    warrantyStatus: warrantyStatus ? String(warrantyStatus) : undefined,
+  };
+
+  // Department managers only see their own department, and nothing without one
+  if (req.user.role === UserRole.DEPARTMENT_MANAGER) {
+    if (!req.user.departmentId) {
+      throw new ForbiddenError('You are not assigned to a department');
+    }
+    filters.departmentId = req.user.departmentId;
+  }
+
+  return filters;
+};
+
+// Get technician performance report
+export const getTechnicianReport = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const filters = parseReportFilters(req);
+  const technicians = await getTechnicianPerformance(filters);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { filters, technicians },
+  };
+
+  res.status(200).json(response);
+});
+
+// Get SLA compliance report per department
+export const getSLAReport = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const filters = parseReportFilters(req);
+  const sla = await getSLAComplianceReport(filters);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { filters, ...sla },
+  };
+
+  res.status(200).json(response);
+});
+
+// Get parts and labor cost summary
+export const getCostReport = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const filters = parseReportFilters(req);
+  const costs = await getCostSummary(filters);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { filters, costs },
+  };
+
+  res.status(200).json(response);
+});
+
+// Get open invoices with their outstanding balances
+export const getUnpaidInvoiceReport = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const filters = parseReportFilters(req);
+  const unpaidInvoices = await getUnpaidInvoicesReport(filters);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { filters, unpaidInvoices },
+  };
+
+  res.status(200).json(response);
+});
+
+// Get all reports at once for the same filters
+export const getReportsOverview = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const filters = parseReportFilters(req);
+
+  const [technicians, sla, costs, unpaidInvoices] = await Promise.all([
+    getTechnicianPerformance(filters),
+    getSLAComplianceReport(filters),
+    getCostSummary(filters),
+    getUnpaidInvoicesReport(filters),
+  ]);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { filters, technicians, sla, costs, unpaidInvoices },
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,107 @@
+import { Response } from 'express';
+import { prisma } from '../index';
+import { AuthenticatedRequest, ApiResponse, NotFoundError } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { config } from '../config/config';
+import {
+  validateNumberFormat,
+  previewRequestNumber,
+  RequestNumberSettings,
+  SequenceResetPeriod,
+} from '../services/request-number.service';
+
+// "default" addresses the format shared by all departments, otherwise a department ID
+const parseDepartmentParam = async (value: string): Promise<number | null> => {
+  if (value === 'default') return null;
+
+  const department = await prisma.department.findUnique({ where: { id: parseInt(value) } });
+  if (!department) {
+    throw new NotFoundError('Department not found');
+  }
+  return department.id;
+};
+
+const buildSettings = (body: any): RequestNumberSettings => {
+  const settings: RequestNumberSettings = {
+    prefix: body.prefix ? String(body.prefix).trim() : null,
+    format: typeof body.format === 'string' ? body.format.trim() : '',
+    resetPeriod: body.resetPeriod || SequenceResetPeriod.NEVER,
+  };
+  validateNumberFormat(settings);
+  return settings;
+};
+
+// Get the configured request number formats
+export const getNumberFormats = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const formats = await prisma.requestNumberFormat.findMany({
+    orderBy: { departmentId: 'asc' },
+    include: { department: { select: { id: true, name: true } } },
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      formats,
+      environmentDefault: { format: config.requestNumberFormat, resetPeriod: config.requestNumberReset },
+      nextDefault: await previewRequestNumber(null),
+    },
+  };
+
+  res.status(200).json(response);
+});
+
+// Create or replace the default format or a department's format
+export const saveNumberFormat = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const departmentId = await parseDepartmentParam(req.params.departmentId);
+  const settings = buildSettings(req.body);
+
+  const existing = await prisma.requestNumberFormat.findFirst({ where: { departmentId } });
+  const format = existing
+    ? await prisma.requestNumberFormat.update({ where: { id: existing.id }, data: settings })
+    : await prisma.requestNumberFormat.create({ data: { ...settings, departmentId } });
+
+  logger.info(`Request number format for ${departmentId ? `department ${departmentId}` : 'all departments'} set to ${settings.format} by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Request number format saved successfully',
+    data: { format, preview: await previewRequestNumber(departmentId) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Remove a format so the department falls back to the default (or the default to the environment)
+export const deleteNumberFormat = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const departmentId = await parseDepartmentParam(req.params.departmentId);
+
+  const existing = await prisma.requestNumberFormat.findFirst({ where: { departmentId } });
+  if (!existing) {
+    throw new NotFoundError('Request number format not found');
+  }
+
+  await prisma.requestNumberFormat.delete({ where: { id: existing.id } });
+
+  logger.info(`Request number format ${existing.id} deleted by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Request number format deleted successfully',
+  };
+
+  res.status(200).json(response);
+});
+
+// Preview the next number for a department, optionally with an unsaved format
+export const previewNumberFormat = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const departmentId = await parseDepartmentParam(String(req.query.departmentId || 'default'));
+  const settings = req.query.format ? buildSettings(req.query) : undefined;
+
+  const response: ApiResponse = {
+    success: true,
+    data: { preview: await previewRequestNumber(departmentId, settings) },
+  };
+
+  res.status(200).json(response);
+});
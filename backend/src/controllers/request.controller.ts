@@ -6,7 +6,8 @@ import {
   UserRole, 
   ActivityType,
   RequestPriority,
-  NotificationType 
+  NotificationType,
+  FINISHED_STATUSES
 } from '../types';
 import { prisma } from '../index';
 import { 
@@ -20,34 +21,71 @@ import {
 import { asyncHandler } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
 import { isManagerLevel, canAssignTechnicians } from '../middleware/auth';
-import { calculateSLADueDate, checkSLAOverdue } from '../services/sla.service';
+import { calculateSLADueDate, recalculateSLADueDate, getSLARemainingHours, getSLAPauseUpdate, resolveSLATarget } from '../services/sla.service';
 import { createNotification } from '../services/notification.service';
+import { publishRequestEvent, RealtimeEvent } from '../services/realtime.service';
 import { logActivity } from '../services/activity.service';
+import { resolveTransition, getAvailableTransitions, canTransition } from '../services/workflow.service';
+import { createWithRequestNumber } from '../services/request-number.service';
+import { resolveDepartment } from '../services/department-routing.service';
+import { autoAssignRequest } from '../services/technician-assignment.service';
+import { computeUnitWarranty, computeWarranty, resolveWarranty, WarrantyResolution } from '../services/warranty.service';
+import { getCustomerUnit } from '../services/installed-unit.service';
+import { applyContractWarranty, findActiveCoverage, parseCostTypes } from '../services/contract.service';
+import { assertQuoteApproved } from '../services/quotation.service';
+import { config } from '../config/config';
+
+interface WarrantyDecision {
+  status: WarrantyStatus;
+  overridden: boolean;
+  reason: string | null;
+}
+
+// Use the computed warranty status unless one is given by hand; a status given against the computed
+// one needs a justification, and one is required when nothing can be computed
+const decideWarrantyStatus = (
+  requested: unknown,
+  warranty: WarrantyResolution,
+  overrideReason: unknown
+): WarrantyDecision => {
+  if (requested && !Object.values(WarrantyStatus).includes(requested as WarrantyStatus)) {
+    throw new ValidationError(`Invalid warrantyStatus: ${requested}`);
+  }
 
-// Generate unique request number
-const generateRequestNumber = async (): Promise<string> => {
-  const today = new Date();
-  const year = today.getFullYear().toString().slice(-2);
-  const month = (today.getMonth() + 1).toString().padStart(2, '0');
-  const day = today.getDate().toString().padStart(2, '0');
-  
-  const prefix = `REQ${year}${month}${day}`;
-  
-  // Get the count of requests created today
-  const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-  const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
-  
-  const todayCount = await prisma.request.count({
-    where: {
-      createdAt: {
-        gte: startOfDay,
-        lt: endOfDay,
-      },
-    },
-  });
-  
-  const sequence = (todayCount + 1).toString().padStart(3, '0');
-  return `${prefix}-${sequence}`;
+  if (!warranty.status) {
+    if (!requested) {
+      throw new ValidationError(`Warranty status is required when it cannot be computed (${warranty.reason.toLowerCase()})`);
+    }
+    return { status: requested as WarrantyStatus, overridden: false, reason: null };
+  }
+
+  if (!requested || requested === warranty.status) {
+    return { status: warranty.status, overridden: false, reason: null };
+  }
+
+  const reason = typeof overrideReason === 'string' ? overrideReason.trim() : '';
+  if (!reason) {
+    throw new ValidationError(`${warranty.reason}; a justification is required to set the status to ${requested}`);
+  }
+  return { status: requested as WarrantyStatus, overridden: true, reason };
+};
+
+const parseExtendedWarrantyMonths = (value: unknown): number => {
+  if (value === undefined || value === null || value === '') return 0;
+  const months = Number(value);
+  if (!Number.isInteger(months) || months < 0) {
+    throw new ValidationError('Extended warranty months must be a whole number of zero or more');
+  }
+  return months;
+};
+
+const parsePurchaseDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new ValidationError('Invalid purchase date');
+  }
+  return date;
 };
 
 // Create new request
@@ -55,10 +93,15 @@ export const createRequest = asyncHandler(async (req: AuthenticatedRequest, res:
   const {
     customerId,
     productId,
+    installedUnitId,
     issueDescription,
     executionMethod,
     warrantyStatus,
+    warrantyOverrideReason,
+    extendedWarrantyMonths,
     purchaseDate,
+    productCategory,
+    autoAssign,
     priority = RequestPriority.NORMAL,
   } = req.body;
 
@@ -67,7 +110,7 @@ export const createRequest = asyncHandler(async (req: AuthenticatedRequest, res:
   }
 
   // Validate required fields
-  if (!customerId || !issueDescription || !executionMethod || !warrantyStatus) {
+  if (!customerId || !issueDescription || !executionMethod) {
     throw new ValidationError('Missing required fields');
   }
 
@@ -80,13 +123,20 @@ export const createRequest = asyncHandler(async (req: AuthenticatedRequest, res:
     throw new ValidationError('Customer not found');
   }
 
+  // A request raised on a registered unit takes its product and purchase date from the unit
+  const unit = installedUnitId ? await getCustomerUnit(parseInt(installedUnitId), customer.id) : null;
+  if (unit && productId && parseInt(productId) !== unit.productId) {
+    throw new ValidationError('Installed unit is a different product');
+  }
+  const selectedProductId = unit ? unit.productId : productId ? parseInt(productId) : null;
+
   // Validate product if provided
   let product = null;
   let departmentId = null;
 
-  if (productId) {
+  if (selectedProductId) {
     product = await prisma.product.findUnique({
-      where: { id: parseInt(productId) },
+      where: { id: selectedProductId },
       include: { department: true },
     });
 
@@ -97,60 +147,73 @@ export const createRequest = asyncHandler(async (req: AuthenticatedRequest, res:
     departmentId = product.departmentId;
   }
 
-  // If no product provided, try to auto-assign department based on issue description
+  // Without a product, route the request by the department routing rules
+  let routingReason: string | null = null;
   if (!departmentId) {
-    // Simple keyword matching for department assignment
-    const description = issueDescription.toLowerCase();
-    
-    if (description.includes('tv') || description.includes('refrigerator') || 
-        description.includes('washing') || description.includes('dishwasher') || 
-        description.includes('air condition') || description.includes('lg')) {
-      const lgDept = await prisma.department.findFirst({ where: { name: 'LG Maintenance' } });
-      departmentId = lgDept?.id || 1;
-    } else if (description.includes('solar') || description.includes('panel')) {
-      const solarDept = await prisma.department.findFirst({ where: { name: 'Solar Energy' } });
-      departmentId = solarDept?.id || 2;
-    } else if (description.includes('tp-link') || description.includes('router') || description.includes('wifi')) {
-      const tplinkDept = await prisma.department.findFirst({ where: { name: 'TP-Link' } });
-      departmentId = tplinkDept?.id || 3;
-    } else if (description.includes('printer') || description.includes('epson')) {
-      const epsonDept = await prisma.department.findFirst({ where: { name: 'Epson' } });
-      departmentId = epsonDept?.id || 4;
-    } else {
-      // Default to LG Maintenance if no match
-      const lgDept = await prisma.department.findFirst({ where: { name: 'LG Maintenance' } });
-      departmentId = lgDept?.id || 1;
+    const routing = await resolveDepartment({
+      description: issueDescription,
+      productCategory,
+      customerCity: customer.city,
+    });
+
+    if (!routing.departmentId) {
+      throw new ValidationError('No department could be determined; select a product or configure a default routing rule');
     }
-  }
 
-  // Generate request number
-  const requestNumber = await generateRequestNumber();
+    departmentId = routing.departmentId;
+    routingReason = routing.reason;
+  }
 
-  // Calculate SLA due date
-  const slaDueDate = calculateSLADueDate(
-    warrantyStatus as WarrantyStatus,
-    executionMethod as ExecutionMethod
+  // Compute the warranty from the purchase date and the product's warranty months
+  const parsedPurchaseDate = parsePurchaseDate(purchaseDate) ?? unit?.purchaseDate ?? null;
+  const extendedMonths = parseExtendedWarrantyMonths(extendedWarrantyMonths);
+  const coverage = await findActiveCoverage(customer.id, unit?.id ?? null);
+  const warranty = applyContractWarranty(
+    unit
+      ? computeUnitWarranty(unit, extendedMonths)
+      : computeWarranty(parsedPurchaseDate, product?.warrantyMonths, extendedMonths),
+    coverage
   );
+  const warrantyDecision = decideWarrantyStatus(warrantyStatus, warranty, warrantyOverrideReason);
 
-  // Create the request
-  const newRequest = await prisma.request.create({
+  // Resolve the SLA policy and calculate the due date
+  const slaTarget = await resolveSLATarget({
+    priority,
+    departmentId,
+    productCategory: product?.category,
+    warrantyStatus: warrantyDecision.status,
+    executionMethod: executionMethod as ExecutionMethod,
+  });
+  const slaDueDate = await calculateSLADueDate(slaTarget.hours, departmentId);
+
+  // Create the request under the next number of its department's sequence
+  const receivedById = req.user.id;
+  const newRequest = await createWithRequestNumber(departmentId, (tx, requestNumber) => tx.request.create({
     data: {
       requestNumber,
       customerId: parseInt(customerId),
-      productId: productId ? parseInt(productId) : null,
+      productId: selectedProductId,
+      installedUnitId: unit?.id ?? null,
+      contractId: coverage?.id ?? null,
       departmentId,
-      receivedById: req.user.id,
+      receivedById,
       issueDescription,
       executionMethod: executionMethod as ExecutionMethod,
-      warrantyStatus: warrantyStatus as WarrantyStatus,
-      purchaseDate: purchaseDate ? new Date(purchaseDate) : null,
+      warrantyStatus: warrantyDecision.status,
+      warrantyExpiresAt: warranty.expiresAt,
+      warrantyOverridden: warrantyDecision.overridden,
+      extendedWarrantyMonths: extendedMonths,
+      purchaseDate: parsedPurchaseDate,
       priority: priority as RequestPriority,
       slaDueDate,
+      slaPolicyId: slaTarget.policyId,
+      slaTargetHours: slaTarget.hours,
       status: RequestStatus.NEW,
     },
     include: {
       customer: true,
       product: true,
+      installedUnit: { select: { id: true, serialNumber: true } },
       department: true,
       receivedBy: {
         select: {
@@ -160,10 +223,40 @@ export const createRequest = asyncHandler(async (req: AuthenticatedRequest, res:
         },
       },
     },
-  });
+  }));
+
+  const { requestNumber } = newRequest;
 
   // Log activity
-  await logActivity(newRequest.id, req.user.id, ActivityType.CREATED, 'Request created');
+  await logActivity(
+    newRequest.id,
+    req.user.id,
+    ActivityType.CREATED,
+    routingReason ? `Request created. ${routingReason}` : 'Request created'
+  );
+
+  if (coverage) {
+    const visits = coverage.visitsIncluded === null
+      ? 'unlimited visits'
+      : `visit ${coverage.visitsUsed + 1} of ${coverage.visitsIncluded}`;
+    await logActivity(
+      newRequest.id,
+      req.user.id,
+      ActivityType.CONTRACT_COVERAGE,
+      `Covered by ${coverage.typeName} contract ${coverage.contractNumber} (${visits}, covers ${coverage.coveredCostTypes.join(', ') || 'no costs'})`
+    );
+  }
+
+  if (warrantyDecision.overridden) {
+    await logActivity(
+      newRequest.id,
+      req.user.id,
+      ActivityType.WARRANTY_OVERRIDE,
+      `Warranty status overridden. ${warranty.reason}. Reason: ${warrantyDecision.reason}`,
+      warranty.status,
+      warrantyDecision.status
+    );
+  }
 
   // Notify department manager/supervisor
   const departmentUsers = await prisma.user.findMany({
@@ -185,12 +278,29 @@ export const createRequest = asyncHandler(async (req: AuthenticatedRequest, res:
     });
   }
 
+  // Optionally hand the request to a technician right away; a failure leaves it unassigned.
+  // Only users who may assign technicians can override the configured default
+  const assignerRole = canAssignTechnicians(req.user.role) ? req.user.role : undefined;
+  const shouldAutoAssign = assignerRole && autoAssign !== undefined
+    ? autoAssign === true || autoAssign === 'true'
+    : config.autoAssignOnCreate;
+
+  let createdRequest: any = newRequest;
+  if (shouldAutoAssign) {
+    try {
+      const assignment = await autoAssignRequest(newRequest.id, req.user.id, assignerRole);
+      createdRequest = { ...newRequest, ...assignment.request };
+    } catch (error) {
+      logger.warn(`Automatic assignment of request ${requestNumber} skipped: ${(error as Error).message}`);
+    }
+  }
+
   logger.info(`Request ${requestNumber} created by user ${req.user.username}`);
 
   const response: ApiResponse = {
     success: true,
     message: 'Request created successfully',
-    data: { request: newRequest },
+    data: { request: createdRequest },
   };
 
   res.status(201).json(response);
@@ -259,6 +369,7 @@ export const getRequests = asyncHandler(async (req: AuthenticatedRequest, res: R
         { customer: { name: { contains: searchTerm, mode: 'insensitive' } } },
         { customer: { phone: { contains: searchTerm, mode: 'insensitive' } } },
         { product: { name: { contains: searchTerm, mode: 'insensitive' } } },
+        { installedUnit: { serialNumber: { contains: searchTerm.toUpperCase() } } },
       ];
 
       if (whereClause.AND) {
@@ -321,17 +432,6 @@ export const getRequests = asyncHandler(async (req: AuthenticatedRequest, res: R
     },
   });
 
-  // Check for overdue requests and update if necessary
-  const overdueRequestIds = await checkSLAOverdue();
-  if (overdueRequestIds.length > 0) {
-    // Update the overdue status in our results if any match
-    requests.forEach(request => {
-      if (overdueRequestIds.includes(request.id)) {
-        request.isOverdue = true;
-      }
-    });
-  }
-
   const response: ApiResponse = {
     success: true,
     data: { requests },
@@ -346,6 +446,27 @@ export const getRequests = asyncHandler(async (req: AuthenticatedRequest, res: R
   res.status(200).json(response);
 });
 
+// Compute the warranty and contract coverage a new request would get, for the creation form
+export const previewWarranty = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { customerId, installedUnitId, productId, purchaseDate, extendedWarrantyMonths } = req.query;
+  const unitId = installedUnitId ? parseInt(String(installedUnitId)) : null;
+
+  const coverage = customerId ? await findActiveCoverage(parseInt(String(customerId)), unitId) : null;
+  const warranty = applyContractWarranty(await resolveWarranty({
+    installedUnitId: unitId,
+    productId: productId ? parseInt(String(productId)) : null,
+    purchaseDate: parsePurchaseDate(purchaseDate),
+    extendedWarrantyMonths: parseExtendedWarrantyMonths(extendedWarrantyMonths),
+  }), coverage);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { warranty, coverage },
+  };
+
+  res.status(200).json(response);
+});
+
 // Get single request by ID
 export const getRequestById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const requestId = parseInt(req.params.id);
@@ -359,7 +480,27 @@ export const getRequestById = asyncHandler(async (req: AuthenticatedRequest, res
     include: {
       customer: true,
       product: true,
+      installedUnit: { select: { id: true, serialNumber: true, warrantyExpiresAt: true } },
+      contract: {
+        select: {
+          id: true,
+          contractNumber: true,
+          endDate: true,
+          coveredCostTypes: true,
+          type: { select: { name: true, kind: true } },
+        },
+      },
       department: true,
+      slaPolicy: {
+        select: {
+          id: true,
+          name: true,
+          targetHours: true,
+        },
+      },
+      slaEscalations: {
+        orderBy: { level: 'asc' },
+      },
       assignedTechnician: {
         select: {
           id: true,
@@ -407,9 +548,300 @@ export const getRequestById = asyncHandler(async (req: AuthenticatedRequest, res
     throw new NotFoundError('Request not found');
   }
 
+  // Remaining SLA time in business hours for open requests
+  const slaRemainingHours = FINISHED_STATUSES.includes(request.status)
+    ? null
+    : await getSLARemainingHours(request.slaDueDate, request.departmentId, request.slaPausedAt);
+
   const response: ApiResponse = {
     success: true,
-    data: { request },
+    data: { request: { ...request, slaRemainingHours } },
+  };
+
+  res.status(200).json(response);
+});
+
+// Fields of a request that can be corrected after creation
+const EDITABLE_REQUEST_FIELDS = [
+  'issueDescription',
+  'installedUnitId',
+  'productId',
+  'priority',
+  'warrantyStatus',
+  'executionMethod',
+  'purchaseDate',
+  'extendedWarrantyMonths',
+] as const;
+
+type EditableRequestField = typeof EDITABLE_REQUEST_FIELDS[number];
+
+// Fields that feed the SLA policy, so changing them recalculates the due date
+const SLA_INPUT_FIELDS: EditableRequestField[] = ['productId', 'priority', 'warrantyStatus', 'executionMethod'];
+
+// Fields the warranty is computed from
+const WARRANTY_INPUT_FIELDS: EditableRequestField[] = ['installedUnitId', 'productId', 'purchaseDate', 'extendedWarrantyMonths'];
+
+const formatDateValue = (date: Date | null): string | null => {
+  return date ? date.toISOString().slice(0, 10) : null;
+};
+
+// Update request details, logging one activity per changed field
+export const updateRequest = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const requestId = parseInt(req.params.id);
+
+  if (!requestId) {
+    throw new ValidationError('Invalid request ID');
+  }
+
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const request = await prisma.request.findUnique({
+    where: { id: requestId },
+    include: {
+      product: true,
+      installedUnit: { include: { product: true } },
+      contract: { select: { contractNumber: true, endDate: true, type: { select: { kind: true } } } },
+    },
+  });
+
+  if (!request) {
+    throw new NotFoundError('Request not found');
+  }
+
+  // Closed requests can only be corrected by company management
+  if (
+    request.status === RequestStatus.CLOSED &&
+    req.user.role !== UserRole.COMPANY_MANAGER &&
+    req.user.role !== UserRole.DEPUTY_MANAGER
+  ) {
+    throw new ForbiddenError('Closed requests can only be edited by company managers');
+  }
+
+  const updateData: Record<string, any> = {};
+  const changes: { field: EditableRequestField; oldValue: string | null; newValue: string | null }[] = [];
+  let product = request.product;
+  let unit = request.installedUnit;
+
+  for (const field of EDITABLE_REQUEST_FIELDS) {
+    if (req.body[field] === undefined) continue;
+    const value = req.body[field];
+
+    switch (field) {
+      case 'issueDescription': {
+        const text = typeof value === 'string' ? value.trim() : '';
+        if (!text) {
+          throw new ValidationError('Issue description cannot be empty');
+        }
+        if (text !== request.issueDescription) {
+          updateData.issueDescription = text;
+          changes.push({ field, oldValue: request.issueDescription, newValue: text });
+        }
+        break;
+      }
+      case 'installedUnitId': {
+        const unitId = value ? parseInt(value) : null;
+        if (unitId === request.installedUnitId) break;
+
+        unit = unitId ? await getCustomerUnit(unitId, request.customerId) : null;
+        if (unit && unit.product.departmentId !== request.departmentId) {
+          throw new ValidationError('Installed unit belongs to a different department');
+        }
+
+        updateData.installedUnitId = unitId;
+        changes.push({ field, oldValue: request.installedUnit?.serialNumber ?? null, newValue: unit?.serialNumber ?? null });
+
+        // The product of a request always follows its unit
+        if (unit && unit.productId !== request.productId) {
+          product = unit.product;
+          updateData.productId = unit.productId;
+          changes.push({
+            field: 'productId',
+            oldValue: request.product ? `${request.product.name} ${request.product.model}` : null,
+            newValue: `${unit.product.name} ${unit.product.model}`,
+          });
+        }
+        break;
+      }
+      case 'productId': {
+        const productId = value ? parseInt(value) : null;
+        if (productId === (updateData.productId !== undefined ? updateData.productId : request.productId)) break;
+        if (unit) {
+          throw new ValidationError('The product of a request linked to an installed unit comes from the unit');
+        }
+
+        product = null;
+        if (productId) {
+          product = await prisma.product.findUnique({ where: { id: productId } });
+          if (!product) {
+            throw new ValidationError('Product not found');
+          }
+          if (product.departmentId !== request.departmentId) {
+            throw new ValidationError('Product belongs to a different department');
+          }
+        }
+
+        updateData.productId = productId;
+        changes.push({
+          field,
+          oldValue: request.product ? `${request.product.name} ${request.product.model}` : null,
+          newValue: product ? `${product.name} ${product.model}` : null,
+        });
+        break;
+      }
+      case 'priority':
+      case 'executionMethod': {
+        const allowed: string[] = Object.values(field === 'priority' ? RequestPriority : ExecutionMethod);
+        if (!allowed.includes(value)) {
+          throw new ValidationError(`Invalid ${field}: ${value}`);
+        }
+        if (value !== request[field]) {
+          updateData[field] = value;
+          changes.push({ field, oldValue: request[field], newValue: value });
+        }
+        break;
+      }
+      case 'purchaseDate': {
+        const purchaseDate = value ? new Date(value) : null;
+        if (purchaseDate && isNaN(purchaseDate.getTime())) {
+          throw new ValidationError('Invalid purchase date');
+        }
+        const oldValue = formatDateValue(request.purchaseDate);
+        const newValue = formatDateValue(purchaseDate);
+        if (oldValue !== newValue) {
+          updateData.purchaseDate = purchaseDate;
+          changes.push({ field, oldValue, newValue });
+        }
+        break;
+      }
+      case 'extendedWarrantyMonths': {
+        const months = parseExtendedWarrantyMonths(value);
+        if (months !== request.extendedWarrantyMonths) {
+          updateData.extendedWarrantyMonths = months;
+          changes.push({ field, oldValue: String(request.extendedWarrantyMonths), newValue: String(months) });
+        }
+        break;
+      }
+      case 'warrantyStatus':
+        // Decided below against the computed warranty
+        break;
+    }
+  }
+
+  // Recompute the warranty when one of its inputs changed or the status is set by hand
+  let warrantyOverride: { computed: WarrantyResolution; reason: string } | null = null;
+  const requestedWarranty = req.body.warrantyStatus;
+  if (requestedWarranty !== undefined || changes.some(change => WARRANTY_INPUT_FIELDS.includes(change.field))) {
+    const extendedMonths = updateData.extendedWarrantyMonths ?? request.extendedWarrantyMonths;
+    const contract = request.contract
+      ? { kind: request.contract.type.kind, contractNumber: request.contract.contractNumber, endDate: request.contract.endDate }
+      : null;
+    const warranty = applyContractWarranty(
+      unit
+        ? computeUnitWarranty(unit, extendedMonths)
+        : computeWarranty(
+          updateData.purchaseDate !== undefined ? updateData.purchaseDate : request.purchaseDate,
+          product?.warrantyMonths,
+          extendedMonths
+        ),
+      contract
+    );
+
+    // An earlier override, or a status entered where none can be computed, stays until changed by hand
+    const keepsStatus = (requestedWarranty === undefined || requestedWarranty === request.warrantyStatus)
+      && (request.warrantyOverridden || !warranty.status);
+    const decision: WarrantyDecision = keepsStatus
+      ? {
+        status: request.warrantyStatus as WarrantyStatus,
+        overridden: warranty.status !== null && warranty.status !== request.warrantyStatus,
+        reason: null,
+      }
+      : decideWarrantyStatus(requestedWarranty, warranty, req.body.warrantyOverrideReason);
+
+    updateData.warrantyExpiresAt = warranty.expiresAt;
+    updateData.warrantyOverridden = decision.overridden;
+    if (decision.status !== request.warrantyStatus) {
+      updateData.warrantyStatus = decision.status;
+      changes.push({ field: 'warrantyStatus', oldValue: request.warrantyStatus, newValue: decision.status });
+    }
+    if (decision.reason) {
+      warrantyOverride = { computed: warranty, reason: decision.reason };
+    }
+  }
+
+  if (changes.length === 0) {
+    throw new ValidationError('No changes to save');
+  }
+
+  // Re-resolve the SLA target when one of its inputs changed (the clock still starts at creation)
+  let slaChange: { oldValue: string | null; newValue: string } | null = null;
+  if (changes.some(change => SLA_INPUT_FIELDS.includes(change.field))) {
+    const slaTarget = await resolveSLATarget({
+      priority: updateData.priority ?? request.priority,
+      departmentId: request.departmentId,
+      productCategory: product?.category,
+      warrantyStatus: (updateData.warrantyStatus ?? request.warrantyStatus) as WarrantyStatus,
+      executionMethod: (updateData.executionMethod ?? request.executionMethod) as ExecutionMethod,
+    });
+
+    if (slaTarget.hours !== request.slaTargetHours || slaTarget.policyId !== request.slaPolicyId) {
+      const slaDueDate = await recalculateSLADueDate(request, slaTarget.hours);
+      updateData.slaPolicyId = slaTarget.policyId;
+      updateData.slaTargetHours = slaTarget.hours;
+      updateData.slaDueDate = slaDueDate;
+      // Finished requests keep their overdue flag from when they finished
+      if (!FINISHED_STATUSES.includes(request.status)) {
+        updateData.isOverdue = slaDueDate < new Date();
+      }
+
+      if (slaDueDate.getTime() !== request.slaDueDate?.getTime()) {
+        slaChange = { oldValue: request.slaDueDate?.toISOString() ?? null, newValue: slaDueDate.toISOString() };
+      }
+    }
+  }
+
+  const updatedRequest = await prisma.request.update({
+    where: { id: requestId },
+    data: updateData,
+    include: {
+      customer: true,
+      product: true,
+      installedUnit: { select: { id: true, serialNumber: true } },
+      department: true,
+    },
+  });
+
+  for (const change of changes) {
+    await logActivity(requestId, req.user.id, ActivityType.UPDATED, `Field updated: ${change.field}`, change.oldValue, change.newValue);
+  }
+  if (slaChange) {
+    await logActivity(requestId, req.user.id, ActivityType.UPDATED, 'Field updated: slaDueDate', slaChange.oldValue, slaChange.newValue);
+  }
+  if (warrantyOverride) {
+    await logActivity(
+      requestId,
+      req.user.id,
+      ActivityType.WARRANTY_OVERRIDE,
+      `Warranty status overridden. ${warrantyOverride.computed.reason}. Reason: ${warrantyOverride.reason}`,
+      warrantyOverride.computed.status,
+      updatedRequest.warrantyStatus
+    );
+  }
+
+  publishRequestEvent(updatedRequest, RealtimeEvent.REQUEST_UPDATED, {
+    requestId,
+    requestNumber: updatedRequest.requestNumber,
+    fields: changes.map(change => change.field),
+    updatedBy: req.user.id,
+  });
+
+  logger.info(`Request ${updatedRequest.requestNumber} updated by user ${req.user.username}: ${changes.map(change => change.field).join(', ')}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Request updated successfully',
+    data: { request: updatedRequest },
   };
 
   res.status(200).json(response);
@@ -448,30 +880,14 @@ export const updateRequestStatus = asyncHandler(async (req: AuthenticatedRequest
     throw new ForbiddenError('Cannot update this request');
   }
 
-  // Check if user can change status (only admin and supervisor roles)
-  const canChangeStatus = 
-    req.user.role === UserRole.COMPANY_MANAGER ||
-    req.user.role === UserRole.DEPUTY_MANAGER ||
-    req.user.role === UserRole.DEPARTMENT_MANAGER ||
-    req.user.role === UserRole.SECTION_SUPERVISOR;
-
-  if (!canChangeStatus) {
-    throw new ForbiddenError('Only administrators and supervisors can change request status');
-  }
-
   const oldStatus = request.status;
-  const updateData: any = { status };
 
-  // Set timestamps based on status
-  if (status === RequestStatus.UNDER_INSPECTION && !request.startedAt) {
-    updateData.startedAt = new Date();
-  }
-  if (status === RequestStatus.COMPLETED && !request.completedAt) {
-    updateData.completedAt = new Date();
-  }
-  if (status === RequestStatus.CLOSED && !request.closedAt) {
-    updateData.closedAt = new Date();
-  }
+  // Enforce the configured workflow (allowed roles, required fields, timestamps)
+  const updateData = await resolveTransition(request, status, req.user.role, comment);
+  await assertQuoteApproved(request, status);
+
+  // Pause or resume the SLA clock when entering or leaving a paused status
+  Object.assign(updateData, await getSLAPauseUpdate(request, status));
 
   const updatedRequest = await prisma.request.update({
     where: { id: requestId },
@@ -504,7 +920,9 @@ export const updateRequestStatus = asyncHandler(async (req: AuthenticatedRequest
       'WAITING_PARTS': 'في انتظار القطع',
       'IN_REPAIR': 'قيد الإصلاح',
       'COMPLETED': 'مكتمل',
-      'CLOSED': 'مغلق'
+      'CLOSED': 'مغلق',
+      'CANCELLED': 'ملغي',
+      'REJECTED': 'مرفوض'
     };
     
     const oldStatusLabel = statusLabels[oldStatus as keyof typeof statusLabels] || oldStatus;
@@ -530,7 +948,9 @@ export const updateRequestStatus = asyncHandler(async (req: AuthenticatedRequest
       'WAITING_PARTS': 'في انتظار القطع',
       'IN_REPAIR': 'قيد الإصلاح',
       'COMPLETED': 'مكتمل',
-      'CLOSED': 'مغلق'
+      'CLOSED': 'مغلق',
+      'CANCELLED': 'ملغي',
+      'REJECTED': 'مرفوض'
     };
     
     const oldStatusLabel = statusLabels[oldStatus as keyof typeof statusLabels] || oldStatus;
@@ -577,7 +997,9 @@ export const updateRequestStatus = asyncHandler(async (req: AuthenticatedRequest
       'WAITING_PARTS': 'في انتظار القطع',
       'IN_REPAIR': 'قيد الإصلاح',
       'COMPLETED': 'مكتمل',
-      'CLOSED': 'مغلق'
+      'CLOSED': 'مغلق',
+      'CANCELLED': 'ملغي',
+      'REJECTED': 'مرفوض'
     };
     
     const oldStatusLabel = statusLabels[oldStatus as keyof typeof statusLabels] || oldStatus;
@@ -603,6 +1025,14 @@ export const updateRequestStatus = asyncHandler(async (req: AuthenticatedRequest
     }
   }
 
+  publishRequestEvent(updatedRequest, RealtimeEvent.REQUEST_STATUS, {
+    requestId,
+    requestNumber: updatedRequest.requestNumber,
+    oldStatus,
+    status,
+    updatedBy: req.user.id,
+  });
+
   logger.info(`Request ${updatedRequest.requestNumber} status updated to ${status} by user ${req.user.username}`);
 
   const response: ApiResponse = {
@@ -614,6 +1044,36 @@ export const updateRequestStatus = asyncHandler(async (req: AuthenticatedRequest
   res.status(200).json(response);
 });
 
+// Get the status transitions the current user can perform on a request
+export const getRequestTransitions = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const requestId = parseInt(req.params.id);
+
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const request = await prisma.request.findUnique({
+    where: { id: requestId },
+    select: { id: true, status: true, assignedTechnicianId: true },
+  });
+
+  if (!request) {
+    throw new NotFoundError('Request not found');
+  }
+
+  // Technicians may only move requests assigned to them
+  const transitions = req.user.role === UserRole.TECHNICIAN && request.assignedTechnicianId !== req.user.id
+    ? []
+    : await getAvailableTransitions(request.status, req.user.role);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { transitions },
+  };
+
+  res.status(200).json(response);
+});
+
 // Assign technician to request
 export const assignTechnician = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const requestId = parseInt(req.params.id);
@@ -648,6 +1108,10 @@ export const assignTechnician = asyncHandler(async (req: AuthenticatedRequest, r
     throw new NotFoundError('Request not found');
   }
 
+  if (FINISHED_STATUSES.includes(request.status)) {
+    throw new ValidationError(`Request is already ${request.status.toLowerCase()}`);
+  }
+
   // Store old technician info for notification
   const oldTechnician = request.assignedTechnician;
   const oldTechnicianId = request.assignedTechnicianId;
@@ -670,12 +1134,19 @@ export const assignTechnician = asyncHandler(async (req: AuthenticatedRequest, r
     throw new ForbiddenError('Cannot assign technician from different department');
   }
 
+  // The request moves to ASSIGNED only when the workflow allows it; otherwise it keeps its status
+  const movesToAssigned = request.status !== RequestStatus.ASSIGNED
+    && await canTransition(request.status, RequestStatus.ASSIGNED, req.user.role);
+
   const updatedRequest = await prisma.request.update({
     where: { id: requestId },
     data: {
       assignedTechnicianId: parseInt(technicianId),
       assignedAt: new Date(),
-      status: RequestStatus.ASSIGNED,
+      ...(movesToAssigned && {
+        status: RequestStatus.ASSIGNED,
+        ...(await getSLAPauseUpdate(request, RequestStatus.ASSIGNED)),
+      }),
     },
     include: {
       assignedTechnician: {
@@ -725,6 +1196,15 @@ export const assignTechnician = asyncHandler(async (req: AuthenticatedRequest, r
     });
   }
 
+  publishRequestEvent(updatedRequest, RealtimeEvent.REQUEST_ASSIGNED, {
+    requestId,
+    requestNumber: updatedRequest.requestNumber,
+    technician: updatedRequest.assignedTechnician,
+    previousTechnicianId: oldTechnicianId,
+    status: updatedRequest.status,
+    updatedBy: req.user.id,
+  });
+
   logger.info(`Request ${updatedRequest.requestNumber} assigned to technician ${technician.firstName} ${technician.lastName} by user ${req.user.username}`);
 
   const response: ApiResponse = {
@@ -736,6 +1216,33 @@ export const assignTechnician = asyncHandler(async (req: AuthenticatedRequest, r
   res.status(200).json(response);
 });
 
+// Assign a technician automatically by skills, workload and round-robin
+export const autoAssignTechnician = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const requestId = parseInt(req.params.id);
+
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  if (!canAssignTechnicians(req.user.role)) {
+    throw new ForbiddenError('Insufficient permissions to assign technicians');
+  }
+
+  const { request, choice, changed } = await autoAssignRequest(requestId, req.user.id, req.user.role);
+
+  if (changed) {
+    logger.info(`Request ${request.requestNumber} auto-assigned by user ${req.user.username}`);
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    message: changed ? 'Technician assigned successfully' : 'The selected technician is already assigned',
+    data: { request, reason: choice.reason, candidates: choice.candidates },
+  };
+
+  res.status(200).json(response);
+});
+
 // Add cost to request
 export const addCost = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const requestId = parseInt(req.params.id);
@@ -755,6 +1262,7 @@ export const addCost = asyncHandler(async (req: AuthenticatedRequest, res: Respo
 
   const request = await prisma.request.findUnique({
     where: { id: requestId },
+    include: { contract: { select: { contractNumber: true, coveredCostTypes: true } } },
   });
 
   if (!request) {
@@ -766,6 +1274,9 @@ export const addCost = asyncHandler(async (req: AuthenticatedRequest, res: Respo
     throw new ForbiddenError('Cannot add costs to under-warranty requests');
   }
 
+  // Costs of a type paid by the request's service contract are not billed to the customer
+  const coveredByContract = !!request.contract && parseCostTypes(request.contract.coveredCostTypes).includes(costType);
+
   const cost = await prisma.requestCost.create({
     data: {
       requestId,
@@ -773,6 +1284,7 @@ export const addCost = asyncHandler(async (req: AuthenticatedRequest, res: Respo
       amount: parseFloat(amount),
       costType,
       currency,
+      isBillable: !coveredByContract,
       addedById: req.user.id,
     },
     include: {
@@ -791,7 +1303,7 @@ export const addCost = asyncHandler(async (req: AuthenticatedRequest, res: Respo
     requestId,
     req.user.id,
     ActivityType.COST_ADDED,
-    `Cost added: ${description} - $${amount}`,
+    `Cost added: ${description} - $${amount}${coveredByContract ? ` (covered by contract ${request.contract?.contractNumber})` : ''}`,
     null,
     `${description}: $${amount}`
   );
@@ -937,6 +1449,14 @@ export const closeRequest = asyncHandler(async (req: AuthenticatedRequest, res:
     }
   }
 
+  publishRequestEvent(updatedRequest, RealtimeEvent.REQUEST_STATUS, {
+    requestId,
+    requestNumber: updatedRequest.requestNumber,
+    oldStatus: RequestStatus.COMPLETED,
+    status: RequestStatus.CLOSED,
+    updatedBy: req.user.id,
+  });
+
   logger.info(`Request ${request.requestNumber} closed by user ${req.user.username}`);
 
   const response: ApiResponse = {
@@ -947,3 +1467,223 @@ export const closeRequest = asyncHandler(async (req: AuthenticatedRequest, res:
 
   res.status(200).json(response);
 });
+
+const getLifecycleReason = (reason: unknown): string => {
+  const text = typeof reason === 'string' ? reason.trim() : '';
+  if (!text) {
+    throw new ValidationError('A reason is required');
+  }
+  return text;
+};
+
+const getLifecycleUserLabel = (user: NonNullable<AuthenticatedRequest['user']>): string => {
+  const userRole = user.role === UserRole.COMPANY_MANAGER ? 'مدير الشركة' :
+                  user.role === UserRole.DEPUTY_MANAGER ? 'نائب المدير' :
+                  user.role === UserRole.DEPARTMENT_MANAGER ? 'مدير القسم' :
+                  'مشرف القسم';
+  return `${userRole} ${user.firstName || 'Unknown'} ${user.lastName || 'User'}`;
+};
+
+// End an open request without a repair (cancelled by the customer or rejected as not covered)
+const endRequestWithoutRepair = async (
+  req: AuthenticatedRequest,
+  status: RequestStatus.CANCELLED | RequestStatus.REJECTED
+) => {
+  const requestId = parseInt(req.params.id);
+
+  if (!requestId) {
+    throw new ValidationError('Request ID is required');
+  }
+
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const reason = getLifecycleReason(req.body.reason);
+
+  const request = await prisma.request.findUnique({
+    where: { id: requestId },
+  });
+
+  if (!request) {
+    throw new NotFoundError('Request not found');
+  }
+
+  if (FINISHED_STATUSES.includes(request.status)) {
+    throw new ValidationError(`Request is already ${request.status.toLowerCase()}`);
+  }
+
+  // Close an open SLA pause so its time is counted; whether the request was overdue stays recorded for SLA reports
+  const pauseUpdate = await getSLAPauseUpdate(request, status);
+  delete pauseUpdate.isOverdue;
+
+  const updatedRequest = await prisma.request.update({
+    where: { id: requestId },
+    data: {
+      status,
+      closedAt: new Date(),
+      closureReason: reason,
+      ...pauseUpdate,
+    },
+  });
+
+  const action = status === RequestStatus.CANCELLED ? 'cancelled' : 'rejected';
+  await logActivity(
+    requestId,
+    req.user.id,
+    ActivityType.STATUS_CHANGE,
+    `Request ${action}. Reason: ${reason}`,
+    request.status,
+    status
+  );
+
+  if (request.assignedTechnicianId && request.assignedTechnicianId !== req.user.id) {
+    await createNotification({
+      userId: request.assignedTechnicianId,
+      requestId,
+      title: status === RequestStatus.CANCELLED ? 'تم إلغاء الطلب' : 'تم رفض الطلب',
+      message: `${getLifecycleUserLabel(req.user)} قام ${status === RequestStatus.CANCELLED ? 'بإلغاء' : 'برفض'} الطلب ${request.requestNumber}: ${reason}`,
+      type: NotificationType.STATUS_CHANGE,
+      createdById: req.user.id,
+    });
+  }
+
+  publishRequestEvent(updatedRequest, RealtimeEvent.REQUEST_STATUS, {
+    requestId,
+    requestNumber: updatedRequest.requestNumber,
+    oldStatus: request.status,
+    status,
+    updatedBy: req.user.id,
+  });
+
+  logger.info(`Request ${request.requestNumber} ${action} by user ${req.user.username}`);
+
+  return updatedRequest;
+};
+
+// Cancel request (customer withdrew it)
+export const cancelRequest = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const request = await endRequestWithoutRepair(req, RequestStatus.CANCELLED);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Request cancelled successfully',
+    data: { request },
+  };
+
+  res.status(200).json(response);
+});
+
+// Reject request (not covered by the service)
+export const rejectRequest = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const request = await endRequestWithoutRepair(req, RequestStatus.REJECTED);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Request rejected successfully',
+    data: { request },
+  };
+
+  res.status(200).json(response);
+});
+
+// Reopen a finished request (failed repair that came back, or a mistaken cancellation)
+export const reopenRequest = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const requestId = parseInt(req.params.id);
+
+  if (!requestId) {
+    throw new ValidationError('Request ID is required');
+  }
+
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const reason = getLifecycleReason(req.body.reason);
+
+  const request = await prisma.request.findUnique({
+    where: { id: requestId },
+  });
+
+  if (!request) {
+    throw new NotFoundError('Request not found');
+  }
+
+  if (!FINISHED_STATUSES.includes(request.status)) {
+    throw new ValidationError('Only completed, closed, cancelled or rejected requests can be reopened');
+  }
+
+  // Supervisors can reopen completed work; closed, cancelled and rejected requests need a manager
+  if (request.status !== RequestStatus.COMPLETED && !isManagerLevel(req.user.role)) {
+    throw new ForbiddenError('Only managers can reopen this request');
+  }
+
+  const status = request.assignedTechnicianId ? RequestStatus.ASSIGNED : RequestStatus.NEW;
+
+  // The reopened request gets a fresh SLA window from now
+  const slaTargetHours = request.slaTargetHours ?? (await resolveSLATarget({
+    priority: request.priority,
+    departmentId: request.departmentId,
+    warrantyStatus: request.warrantyStatus as WarrantyStatus,
+    executionMethod: request.executionMethod as ExecutionMethod,
+  })).hours;
+  const slaDueDate = await calculateSLADueDate(slaTargetHours, request.departmentId);
+
+  const [, updatedRequest] = await prisma.$transaction([
+    // Escalations belong to the previous SLA window
+    prisma.slaEscalation.deleteMany({ where: { requestId } }),
+    prisma.request.update({
+      where: { id: requestId },
+      data: {
+        status,
+        completedAt: null,
+        closedAt: null,
+        closureReason: null,
+        slaDueDate,
+        slaTargetHours,
+        slaPausedAt: null,
+        isOverdue: false,
+        reopenCount: { increment: 1 },
+        reopenedAt: new Date(),
+      },
+    }),
+  ]);
+
+  await logActivity(
+    requestId,
+    req.user.id,
+    ActivityType.STATUS_CHANGE,
+    `Request reopened. Reason: ${reason}`,
+    request.status,
+    status
+  );
+
+  if (request.assignedTechnicianId && request.assignedTechnicianId !== req.user.id) {
+    await createNotification({
+      userId: request.assignedTechnicianId,
+      requestId,
+      title: 'تمت إعادة فتح الطلب',
+      message: `${getLifecycleUserLabel(req.user)} أعاد فتح الطلب ${request.requestNumber}: ${reason}`,
+      type: NotificationType.STATUS_CHANGE,
+      createdById: req.user.id,
+    });
+  }
+
+  publishRequestEvent(updatedRequest, RealtimeEvent.REQUEST_STATUS, {
+    requestId,
+    requestNumber: updatedRequest.requestNumber,
+    oldStatus: request.status,
+    status,
+    updatedBy: req.user.id,
+  });
+
+  logger.info(`Request ${request.requestNumber} reopened by user ${req.user.username} (reopen #${updatedRequest.reopenCount})`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Request reopened successfully',
+    data: { request: updatedRequest },
+  };
+
+  res.status(200).json(response);
+});
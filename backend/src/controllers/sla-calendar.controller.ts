@@ -0,0 +1,287 @@
+import { Response } from 'express';
+import { prisma } from '../index';
+import { AuthenticatedRequest, ApiResponse, ValidationError, NotFoundError } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { isValidTimezone, parseTimeOfDay } from '../services/sla-calendar.service';
+
+const calendarInclude = {
+  holidays: { orderBy: { date: 'asc' as const } },
+  departments: { select: { id: true, name: true } },
+};
+
+// Serialize a calendar row for API responses
+const formatCalendar = <T extends { workingDays: string }>(calendar: T) => ({
+  ...calendar,
+  workingDays: calendar.workingDays.split(',').filter(Boolean).map(day => parseInt(day, 10)),
+});
+
+// Validate calendar fields and convert them to their stored form
+const buildCalendarData = (body: any, isCreate: boolean) => {
+  const { name, timezone, workingDays, workDayStart, workDayEnd, isDefault } = body;
+  const data: any = {};
+
+  if (isCreate && !name) {
+    throw new ValidationError('Calendar name is required');
+  }
+  if (name !== undefined) data.name = name;
+
+  if (timezone !== undefined) {
+    if (!isValidTimezone(timezone)) {
+      throw new ValidationError(`Invalid timezone: ${timezone}`);
+    }
+    data.timezone = timezone;
+  }
+
+  if (workingDays !== undefined) {
+    if (!Array.isArray(workingDays) || workingDays.length === 0 ||
+        workingDays.some((day: any) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new ValidationError('workingDays must be a non-empty list of weekdays (0 = Sunday … 6 = Saturday)');
+    }
+    data.workingDays = Array.from(new Set<number>(workingDays)).sort().join(',');
+  }
+
+  if (workDayStart !== undefined) {
+    parseTimeOfDay(workDayStart);
+    data.workDayStart = workDayStart;
+  }
+  if (workDayEnd !== undefined) {
+    parseTimeOfDay(workDayEnd);
+    data.workDayEnd = workDayEnd;
+  }
+
+  if (isDefault !== undefined) data.isDefault = Boolean(isDefault);
+
+  return data;
+};
+
+const ensureWorkingHours = (start: string, end: string) => {
+  if (parseTimeOfDay(start) >= parseTimeOfDay(end)) {
+    throw new ValidationError('workDayStart must be before workDayEnd');
+  }
+};
+
+// Get all SLA calendars
+export const getCalendars = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const calendars = await prisma.slaCalendar.findMany({
+    orderBy: { name: 'asc' },
+    include: calendarInclude,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: { calendars: calendars.map(formatCalendar) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Get a single SLA calendar
+export const getCalendarById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const calendar = await prisma.slaCalendar.findUnique({
+    where: { id: parseInt(req.params.id, 10) },
+    include: calendarInclude,
+  });
+
+  if (!calendar) {
+    throw new NotFoundError('SLA calendar not found');
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: { calendar: formatCalendar(calendar) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Create an SLA calendar
+export const createCalendar = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const data = buildCalendarData(req.body, true);
+  ensureWorkingHours(data.workDayStart || '08:00', data.workDayEnd || '16:00');
+
+  const existing = await prisma.slaCalendar.findUnique({ where: { name: data.name } });
+  if (existing) {
+    throw new ValidationError('A calendar with this name already exists');
+  }
+
+  const calendar = await prisma.$transaction(async (tx) => {
+    if (data.isDefault) {
+      await tx.slaCalendar.updateMany({ data: { isDefault: false } });
+    }
+    return tx.slaCalendar.create({ data, include: calendarInclude });
+  });
+
+  logger.info(`SLA calendar "${calendar.name}" created by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'SLA calendar created successfully',
+    data: { calendar: formatCalendar(calendar) },
+  };
+
+  res.status(201).json(response);
+});
+
+// Update an SLA calendar
+export const updateCalendar = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const calendarId = parseInt(req.params.id, 10);
+
+  const existing = await prisma.slaCalendar.findUnique({ where: { id: calendarId } });
+  if (!existing) {
+    throw new NotFoundError('SLA calendar not found');
+  }
+
+  const data = buildCalendarData(req.body, false);
+  ensureWorkingHours(data.workDayStart || existing.workDayStart, data.workDayEnd || existing.workDayEnd);
+
+  if (data.name && data.name !== existing.name) {
+    const duplicate = await prisma.slaCalendar.findUnique({ where: { name: data.name } });
+    if (duplicate) {
+      throw new ValidationError('A calendar with this name already exists');
+    }
+  }
+
+  const calendar = await prisma.$transaction(async (tx) => {
+    if (data.isDefault) {
+      await tx.slaCalendar.updateMany({ where: { id: { not: calendarId } }, data: { isDefault: false } });
+    }
+    return tx.slaCalendar.update({ where: { id: calendarId }, data, include: calendarInclude });
+  });
+
+  logger.info(`SLA calendar "${calendar.name}" updated by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'SLA calendar updated successfully',
+    data: { calendar: formatCalendar(calendar) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Delete an SLA calendar; its departments fall back to the default calendar
+export const deleteCalendar = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const calendarId = parseInt(req.params.id, 10);
+
+  const existing = await prisma.slaCalendar.findUnique({ where: { id: calendarId } });
+  if (!existing) {
+    throw new NotFoundError('SLA calendar not found');
+  }
+
+  await prisma.$transaction([
+    prisma.department.updateMany({ where: { slaCalendarId: calendarId }, data: { slaCalendarId: null } }),
+    prisma.slaCalendar.delete({ where: { id: calendarId } }),
+  ]);
+
+  logger.info(`SLA calendar "${existing.name}" deleted by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'SLA calendar deleted successfully',
+  };
+
+  res.status(200).json(response);
+});
+
+// Assign departments to an SLA calendar
+export const assignDepartments = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const calendarId = parseInt(req.params.id, 10);
+  const { departmentIds } = req.body;
+
+  if (!Array.isArray(departmentIds)) {
+    throw new ValidationError('departmentIds must be an array');
+  }
+
+  const existing = await prisma.slaCalendar.findUnique({ where: { id: calendarId } });
+  if (!existing) {
+    throw new NotFoundError('SLA calendar not found');
+  }
+
+  const ids = departmentIds.map((id: any) => parseInt(id, 10));
+
+  await prisma.$transaction([
+    prisma.department.updateMany({
+      where: { slaCalendarId: calendarId, id: { notIn: ids } },
+      data: { slaCalendarId: null },
+    }),
+    prisma.department.updateMany({
+      where: { id: { in: ids } },
+      data: { slaCalendarId: calendarId },
+    }),
+  ]);
+
+  const calendar = await prisma.slaCalendar.findUnique({
+    where: { id: calendarId },
+    include: calendarInclude,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Departments assigned successfully',
+    data: { calendar: calendar && formatCalendar(calendar) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Add a holiday to an SLA calendar
+export const addHoliday = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const calendarId = parseInt(req.params.id, 10);
+  const { date, name } = req.body;
+
+  if (!date || !name) {
+    throw new ValidationError('Date and name are required');
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+    throw new ValidationError('Date must be in YYYY-MM-DD format');
+  }
+
+  const existing = await prisma.slaCalendar.findUnique({ where: { id: calendarId } });
+  if (!existing) {
+    throw new NotFoundError('SLA calendar not found');
+  }
+
+  const duplicate = await prisma.slaHoliday.findUnique({
+    where: { calendarId_date: { calendarId, date } },
+  });
+  if (duplicate) {
+    throw new ValidationError('A holiday already exists on this date');
+  }
+
+  const holiday = await prisma.slaHoliday.create({
+    data: { calendarId, date, name },
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Holiday added successfully',
+    data: { holiday },
+  };
+
+  res.status(201).json(response);
+});
+
+// Remove a holiday from an SLA calendar
+export const deleteHoliday = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const calendarId = parseInt(req.params.id, 10);
+  const holidayId = parseInt(req.params.holidayId, 10);
+
+  const holiday = await prisma.slaHoliday.findFirst({
+    where: { id: holidayId, calendarId },
+  });
+
+  if (!holiday) {
+    throw new NotFoundError('Holiday not found');
+  }
+
+  await prisma.slaHoliday.delete({ where: { id: holidayId } });
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Holiday deleted successfully',
+  };
+
+  res.status(200).json(response);
+});
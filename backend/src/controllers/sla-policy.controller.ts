@@ -0,0 +1,188 @@
+import { Response } from 'express';
+import { prisma } from '../index';
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  ValidationError,
+  NotFoundError,
+  RequestPriority,
+  WarrantyStatus,
+  ExecutionMethod,
+} from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const policyInclude = {
+  department: { select: { id: true, name: true } },
+  _count: { select: { requests: true } },
+};
+
+const checkEnumValue = (value: any, allowed: object, field: string) => {
+  if (value !== undefined && value !== null && value !== '' && !Object.values(allowed).includes(value)) {
+    throw new ValidationError(`Invalid ${field}: ${value}`);
+  }
+};
+
+// Validate policy fields and convert them to their stored form
+const buildPolicyData = async (body: any, isCreate: boolean) => {
+  const { name, priority, departmentId, productCategory, warrantyStatus, executionMethod, targetHours, isActive } = body;
+  const data: any = {};
+
+  if (isCreate && (!name || targetHours === undefined)) {
+    throw new ValidationError('Name and target hours are required');
+  }
+
+  checkEnumValue(priority, RequestPriority, 'priority');
+  checkEnumValue(warrantyStatus, WarrantyStatus, 'warranty status');
+  checkEnumValue(executionMethod, ExecutionMethod, 'execution method');
+
+  if (name !== undefined) data.name = name;
+  if (priority !== undefined) data.priority = priority || null;
+  if (productCategory !== undefined) data.productCategory = productCategory || null;
+  if (warrantyStatus !== undefined) data.warrantyStatus = warrantyStatus || null;
+  if (executionMethod !== undefined) data.executionMethod = executionMethod || null;
+  if (isActive !== undefined) data.isActive = Boolean(isActive);
+
+  if (departmentId !== undefined) {
+    if (departmentId) {
+      const department = await prisma.department.findUnique({ where: { id: parseInt(departmentId, 10) } });
+      if (!department) {
+        throw new ValidationError('Department not found');
+      }
+      data.departmentId = department.id;
+    } else {
+      data.departmentId = null;
+    }
+  }
+
+  if (targetHours !== undefined) {
+    const hours = Number(targetHours);
+    if (!Number.isInteger(hours) || hours <= 0) {
+      throw new ValidationError('Target hours must be a positive whole number');
+    }
+    data.targetHours = hours;
+  }
+
+  return data;
+};
+
+// Get all SLA policies
+export const getPolicies = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { includeInactive } = req.query as any;
+
+  const policies = await prisma.slaPolicy.findMany({
+    where: includeInactive === 'true' ? {} : { isActive: true },
+    orderBy: { name: 'asc' },
+    include: policyInclude,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: { policies },
+  };
+
+  res.status(200).json(response);
+});
+
+// Get a single SLA policy
+export const getPolicyById = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const policy = await prisma.slaPolicy.findUnique({
+    where: { id: parseInt(req.params.id, 10) },
+    include: policyInclude,
+  });
+
+  if (!policy) {
+    throw new NotFoundError('SLA policy not found');
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: { policy },
+  };
+
+  res.status(200).json(response);
+});
+
+// Create an SLA policy
+export const createPolicy = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const data = await buildPolicyData(req.body, true);
+
+  const existing = await prisma.slaPolicy.findUnique({ where: { name: data.name } });
+  if (existing) {
+    throw new ValidationError('A policy with this name already exists');
+  }
+
+  const policy = await prisma.slaPolicy.create({
+    data,
+    include: policyInclude,
+  });
+
+  logger.info(`SLA policy "${policy.name}" created by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'SLA policy created successfully',
+    data: { policy },
+  };
+
+  res.status(201).json(response);
+});
+
+// Update an SLA policy
+export const updatePolicy = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const policyId = parseInt(req.params.id, 10);
+
+  const existing = await prisma.slaPolicy.findUnique({ where: { id: policyId } });
+  if (!existing) {
+    throw new NotFoundError('SLA policy not found');
+  }
+
+  const data = await buildPolicyData(req.body, false);
+
+  if (data.name && data.name !== existing.name) {
+    const duplicate = await prisma.slaPolicy.findUnique({ where: { name: data.name } });
+    if (duplicate) {
+      throw new ValidationError('A policy with this name already exists');
+    }
+  }
+
+  const policy = await prisma.slaPolicy.update({
+    where: { id: policyId },
+    data,
+    include: policyInclude,
+  });
+
+  logger.info(`SLA policy "${policy.name}" updated by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'SLA policy updated successfully',
+    data: { policy },
+  };
+
+  res.status(200).json(response);
+});
+
+// Delete an SLA policy (soft delete, requests keep their reference)
+export const deletePolicy = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const policyId = parseInt(req.params.id, 10);
+
+  const existing = await prisma.slaPolicy.findUnique({ where: { id: policyId } });
+  if (!existing) {
+    throw new NotFoundError('SLA policy not found');
+  }
+
+  await prisma.slaPolicy.update({
+    where: { id: policyId },
+    data: { isActive: false },
+  });
+
+  logger.info(`SLA policy "${existing.name}" deactivated by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'SLA policy deleted successfully',
+  };
+
+  res.status(200).json(response);
+});
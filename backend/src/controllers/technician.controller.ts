@@ -0,0 +1,339 @@
+import { Response } from 'express';
+import { prisma } from '../index';
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  ValidationError,
+  NotFoundError,
+  ForbiddenError,
+  UserRole,
+  FINISHED_STATUSES,
+} from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import {
+  activeLeavesInclude,
+  getRequestSkillCriteria,
+  getTechnicianAvailability,
+  skillMatches,
+  SkillCriteria,
+} from '../services/technician-profile.service';
+
+const technicianSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  isActive: true,
+  isAvailable: true,
+  departmentId: true,
+  department: { select: { id: true, name: true } },
+  skills: { orderBy: { id: 'asc' as const } },
+};
+
+const trimOrNull = (value: any): string | null => {
+  const text = value === undefined || value === null ? '' : String(value).trim();
+  return text || null;
+};
+
+const parseDate = (value: any, field: string): Date => {
+  const date = new Date(value);
+  if (!value || isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid ${field}`);
+  }
+  return date;
+};
+
+// Load a technician the current user may manage; supervisors and department managers only manage their department
+const getManagedTechnician = async (req: AuthenticatedRequest) => {
+  const technician = await prisma.user.findFirst({
+    where: { id: parseInt(req.params.id), role: UserRole.TECHNICIAN },
+  });
+
+  if (!technician) {
+    throw new NotFoundError('Technician not found');
+  }
+
+  const companyWide = req.user!.role === UserRole.COMPANY_MANAGER || req.user!.role === UserRole.DEPUTY_MANAGER;
+  if (!companyWide && technician.departmentId !== req.user!.departmentId) {
+    throw new ForbiddenError('Cannot manage technicians of another department');
+  }
+
+  return technician;
+};
+
+// Validate skill fields and convert them to their stored form
+const buildSkillData = (body: any, existing?: any) => {
+  const { productCategory, brand, certification, certificationExpiresAt } = body;
+  const data: any = {};
+
+  if (productCategory !== undefined) data.productCategory = trimOrNull(productCategory);
+  if (brand !== undefined) data.brand = trimOrNull(brand);
+  if (certification !== undefined) data.certification = trimOrNull(certification);
+
+  if (certificationExpiresAt !== undefined) {
+    data.certificationExpiresAt = certificationExpiresAt
+      ? parseDate(certificationExpiresAt, 'certification expiry date')
+      : null;
+    // A new expiry date gets its own warning
+    if (data.certificationExpiresAt?.getTime() !== existing?.certificationExpiresAt?.getTime()) {
+      data.expiryNotifiedAt = null;
+    }
+  }
+
+  const merged = { ...existing, ...data };
+  if (!merged.productCategory && !merged.brand) {
+    throw new ValidationError('A skill needs a product category or a brand');
+  }
+  if (merged.certificationExpiresAt && !merged.certification) {
+    throw new ValidationError('An expiry date needs a certification');
+  }
+
+  return data;
+};
+
+// Get technicians with their skills, availability and leaves; with ?requestId= also whether each one fits the request
+export const getTechnicians = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { departmentId, requestId, includeInactive } = req.query as any;
+
+  const where: any = { role: UserRole.TECHNICIAN };
+  if (includeInactive !== 'true') where.isActive = true;
+  if (departmentId) where.departmentId = parseInt(departmentId);
+
+  // Department managers and supervisors only see their own department, as in getManagedTechnician
+  if (req.user!.role === UserRole.DEPARTMENT_MANAGER || req.user!.role === UserRole.SECTION_SUPERVISOR) {
+    where.departmentId = req.user!.departmentId;
+  }
+
+  let criteria: SkillCriteria | null = null;
+  if (requestId) {
+    const request = await prisma.request.findUnique({
+      where: { id: parseInt(requestId) },
+      include: {
+        product: { select: { category: true, name: true, model: true } },
+        department: { select: { name: true } },
+      },
+    });
+    if (!request) {
+      throw new NotFoundError('Request not found');
+    }
+    criteria = getRequestSkillCriteria(request);
+  }
+
+  const technicians = await prisma.user.findMany({
+    where,
+    orderBy: { firstName: 'asc' },
+    select: { ...technicianSelect, leaves: activeLeavesInclude() },
+  });
+
+  const openCounts = await prisma.request.groupBy({
+    by: ['assignedTechnicianId'],
+    where: {
+      assignedTechnicianId: { in: technicians.map(technician => technician.id) },
+      status: { notIn: FINISHED_STATUSES },
+    },
+    _count: { _all: true },
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      technicians: technicians.map(technician => ({
+        ...technician,
+        availability: getTechnicianAvailability(technician),
+        openRequests: openCounts.find(row => row.assignedTechnicianId === technician.id)?._count._all || 0,
+        matchesRequest: criteria
+          ? technician.skills.some(skill => skillMatches(skill, criteria!))
+          : null,
+      })),
+    },
+  };
+
+  res.status(200).json(response);
+});
+
+// Get a technician's skills, availability and leaves
+export const getTechnicianProfile = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const technicianId = parseInt(req.params.id);
+
+  // Technicians may look at their own profile
+  if (req.user!.role === UserRole.TECHNICIAN && req.user!.id !== technicianId) {
+    throw new ForbiddenError('Access denied');
+  }
+  if (req.user!.role !== UserRole.TECHNICIAN) {
+    await getManagedTechnician(req);
+  }
+
+  const technician = await prisma.user.findUnique({
+    where: { id: technicianId },
+    select: {
+      ...technicianSelect,
+      leaves: { orderBy: { startDate: 'desc' }, take: 50 },
+    },
+  });
+
+  if (!technician) {
+    throw new NotFoundError('Technician not found');
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: { technician: { ...technician, availability: getTechnicianAvailability(technician) } },
+  };
+
+  res.status(200).json(response);
+});
+
+// Mark a technician available or unavailable (outside leave periods)
+export const updateAvailability = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const technician = await getManagedTechnician(req);
+  const { isAvailable } = req.body;
+
+  if (typeof isAvailable !== 'boolean') {
+    throw new ValidationError('isAvailable must be true or false');
+  }
+
+  await prisma.user.update({
+    where: { id: technician.id },
+    data: { isAvailable },
+  });
+
+  logger.info(`Technician ${technician.username} marked ${isAvailable ? 'available' : 'unavailable'} by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Availability updated successfully',
+    data: { isAvailable },
+  };
+
+  res.status(200).json(response);
+});
+
+// Add a skill or certification
+export const addSkill = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const technician = await getManagedTechnician(req);
+  const data = buildSkillData(req.body);
+
+  const skill = await prisma.technicianSkill.create({
+    data: { ...data, technicianId: technician.id },
+  });
+
+  logger.info(`Skill ${skill.id} added to technician ${technician.username} by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Skill added successfully',
+    data: { skill },
+  };
+
+  res.status(201).json(response);
+});
+
+// Update a skill or certification
+export const updateSkill = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const technician = await getManagedTechnician(req);
+
+  const existing = await prisma.technicianSkill.findFirst({
+    where: { id: parseInt(req.params.skillId), technicianId: technician.id },
+  });
+  if (!existing) {
+    throw new NotFoundError('Skill not found');
+  }
+
+  const skill = await prisma.technicianSkill.update({
+    where: { id: existing.id },
+    data: buildSkillData(req.body, existing),
+  });
+
+  logger.info(`Skill ${skill.id} of technician ${technician.username} updated by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Skill updated successfully',
+    data: { skill },
+  };
+
+  res.status(200).json(response);
+});
+
+// Remove a skill or certification
+export const deleteSkill = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const technician = await getManagedTechnician(req);
+
+  const existing = await prisma.technicianSkill.findFirst({
+    where: { id: parseInt(req.params.skillId), technicianId: technician.id },
+  });
+  if (!existing) {
+    throw new NotFoundError('Skill not found');
+  }
+
+  await prisma.technicianSkill.delete({ where: { id: existing.id } });
+
+  logger.info(`Skill ${existing.id} of technician ${technician.username} deleted by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Skill deleted successfully',
+  };
+
+  res.status(200).json(response);
+});
+
+// Record a leave period
+export const addLeave = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const technician = await getManagedTechnician(req);
+  const startDate = parseDate(req.body.startDate, 'start date');
+  const endDate = parseDate(req.body.endDate, 'end date');
+
+  if (endDate < startDate) {
+    throw new ValidationError('End date must not be before the start date');
+  }
+
+  const overlapping = await prisma.technicianLeave.findFirst({
+    where: { technicianId: technician.id, startDate: { lte: endDate }, endDate: { gte: startDate } },
+  });
+  if (overlapping) {
+    throw new ValidationError('The technician already has leave in this period');
+  }
+
+  const leave = await prisma.technicianLeave.create({
+    data: {
+      technicianId: technician.id,
+      startDate,
+      endDate,
+      reason: trimOrNull(req.body.reason),
+    },
+  });
+
+  logger.info(`Leave ${leave.id} recorded for technician ${technician.username} by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Leave recorded successfully',
+    data: { leave },
+  };
+
+  res.status(201).json(response);
+});
+
+// Remove a leave period
+export const deleteLeave = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const technician = await getManagedTechnician(req);
+
+  const existing = await prisma.technicianLeave.findFirst({
+    where: { id: parseInt(req.params.leaveId), technicianId: technician.id },
+  });
+  if (!existing) {
+    throw new NotFoundError('Leave not found');
+  }
+
+  await prisma.technicianLeave.delete({ where: { id: existing.id } });
+
+  logger.info(`Leave ${existing.id} of technician ${technician.username} deleted by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Leave deleted successfully',
+  };
+
+  res.status(200).json(response);
+});
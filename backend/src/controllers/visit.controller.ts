@@ -0,0 +1,368 @@
+import { Response } from 'express';
+import { prisma } from '../index';
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  ValidationError,
+  NotFoundError,
+  ForbiddenError,
+  ActivityType,
+  ExecutionMethod,
+  FINISHED_STATUSES,
+  UserRole,
+} from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { canAccessRequest, canAssignTechnicians } from '../middleware/auth';
+import { logActivity } from '../services/activity.service';
+import { publishRequestEvent, RealtimeEvent } from '../services/realtime.service';
+import {
+  VisitOutcome,
+  VisitStatus,
+  assertTechnicianFree,
+  notifyVisitChange,
+  validateVisitWindow,
+  visitInclude,
+} from '../services/visit.service';
+
+// Longest range the calendar returns at once
+const MAX_CALENDAR_DAYS = 62;
+
+const formatTime = (date: Date) => date.toISOString().slice(0, 16).replace('T', ' ');
+
+// Load a visit with its request and check the user may see that request
+const getAccessibleVisit = async (req: AuthenticatedRequest) => {
+  const visit = await prisma.requestVisit.findUnique({
+    where: { id: parseInt(req.params.id) },
+    include: visitInclude,
+  });
+
+  if (!visit) {
+    throw new NotFoundError('Visit not found');
+  }
+
+  const request = await prisma.request.findUnique({
+    where: { id: visit.requestId },
+    select: { departmentId: true, assignedTechnicianId: true, receivedById: true },
+  });
+
+  if (!request || (!canAccessRequest(req.user!, request) && visit.technicianId !== req.user!.id)) {
+    throw new ForbiddenError('Access denied to this visit');
+  }
+
+  return visit;
+};
+
+// Check the technician of a visit; below company level only technicians of the user's own department
+const getVisitTechnician = async (req: AuthenticatedRequest, technicianId: any) => {
+  const technician = await prisma.user.findFirst({
+    where: { id: parseInt(technicianId), role: UserRole.TECHNICIAN, isActive: true },
+  });
+
+  if (!technician) {
+    throw new ValidationError('Valid technician not found');
+  }
+
+  const companyWide = req.user!.role === UserRole.COMPANY_MANAGER || req.user!.role === UserRole.DEPUTY_MANAGER;
+  if (!companyWide && technician.departmentId !== req.user!.departmentId) {
+    throw new ForbiddenError('Cannot book a technician from a different department');
+  }
+
+  return technician;
+};
+
+const publishVisitEvent = (request: { id: number; departmentId: number }, visitId: number, action: string, userId: number) => {
+  publishRequestEvent(request, RealtimeEvent.REQUEST_UPDATED, { requestId: request.id, visitId, action, updatedBy: userId });
+};
+
+// Get the visits of a request
+export const getRequestVisits = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const visits = await prisma.requestVisit.findMany({
+    where: { requestId: parseInt(req.params.id) },
+    include: visitInclude,
+    orderBy: { scheduledStart: 'desc' },
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: { visits },
+  };
+
+  res.status(200).json(response);
+});
+
+// Book an on-site visit for a request
+export const createVisit = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new ValidationError('Authentication required');
+  }
+
+  const requestId = parseInt(req.params.id);
+  const { scheduledStart, scheduledEnd, technicianId, address, city, notes } = req.body;
+
+  const request = await prisma.request.findUnique({
+    where: { id: requestId },
+    include: { customer: true },
+  });
+
+  if (!request) {
+    throw new NotFoundError('Request not found');
+  }
+
+  if (request.executionMethod !== ExecutionMethod.ON_SITE) {
+    throw new ValidationError('Visits can only be booked for on-site requests');
+  }
+
+  if (FINISHED_STATUSES.includes(request.status)) {
+    throw new ValidationError('Cannot book a visit for a finished request');
+  }
+
+  const start = new Date(scheduledStart);
+  const end = new Date(scheduledEnd);
+  validateVisitWindow(start, end);
+
+  const selectedTechnicianId = technicianId || request.assignedTechnicianId;
+  if (!selectedTechnicianId) {
+    throw new ValidationError('Select a technician or assign one to the request first');
+  }
+  const technician = await getVisitTechnician(req, selectedTechnicianId);
+
+  // Check after the write in the same transaction, so of two bookings made at once the later one sees the other
+  const visit = await prisma.$transaction(async tx => {
+    const created = await tx.requestVisit.create({
+      data: {
+        requestId,
+        technicianId: technician.id,
+        scheduledStart: start,
+        scheduledEnd: end,
+        address: address?.trim() || request.customer.address,
+        city: city?.trim() || request.customer.city,
+        notes: notes?.trim() || null,
+        createdById: req.user!.id,
+      },
+      include: visitInclude,
+    });
+
+    await assertTechnicianFree(technician.id, start, end, created.id, tx);
+    return created;
+  });
+
+  await logActivity(
+    requestId,
+    req.user.id,
+    ActivityType.VISIT,
+    `Visit booked with ${technician.firstName} ${technician.lastName} for ${formatTime(start)} - ${formatTime(end)}`
+  );
+  await notifyVisitChange(visit, 'BOOKED', req.user.id);
+  publishVisitEvent(request, visit.id, 'created', req.user.id);
+
+  logger.info(`Visit ${visit.id} booked for request ${request.requestNumber} by user ${req.user.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Visit booked successfully',
+    data: { visit },
+  };
+
+  res.status(201).json(response);
+});
+
+// Reschedule a visit or change its technician or address
+export const updateVisit = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const visit = await getAccessibleVisit(req);
+  const { scheduledStart, scheduledEnd, technicianId, address, city, notes } = req.body;
+
+  if (!canAssignTechnicians(req.user!.role)) {
+    throw new ForbiddenError('Insufficient permissions to change visits');
+  }
+
+  if (visit.status !== VisitStatus.SCHEDULED) {
+    throw new ValidationError('Only scheduled visits can be changed');
+  }
+
+  const start = scheduledStart !== undefined ? new Date(scheduledStart) : visit.scheduledStart;
+  const end = scheduledEnd !== undefined ? new Date(scheduledEnd) : visit.scheduledEnd;
+  validateVisitWindow(start, end);
+
+  const technician = technicianId !== undefined && parseInt(technicianId) !== visit.technicianId
+    ? await getVisitTechnician(req, technicianId)
+    : null;
+  const newTechnicianId = technician?.id ?? visit.technicianId;
+
+  const timeChanged = start.getTime() !== visit.scheduledStart.getTime() || end.getTime() !== visit.scheduledEnd.getTime();
+  const updated = await prisma.$transaction(async tx => {
+    const saved = await tx.requestVisit.update({
+      where: { id: visit.id },
+      data: {
+        scheduledStart: start,
+        scheduledEnd: end,
+        technicianId: newTechnicianId,
+        ...(address !== undefined ? { address: String(address).trim() || visit.address } : {}),
+        ...(city !== undefined ? { city: city ? String(city).trim() : null } : {}),
+        ...(notes !== undefined ? { notes: notes ? String(notes).trim() : null } : {}),
+      },
+      include: visitInclude,
+    });
+
+    // Checked after the write, as when booking
+    if (timeChanged || technician) {
+      await assertTechnicianFree(newTechnicianId, start, end, visit.id, tx);
+    }
+    return saved;
+  });
+
+  const appointmentChanged = timeChanged || !!technician || updated.address !== visit.address;
+  if (appointmentChanged) {
+    await logActivity(
+      visit.requestId,
+      req.user!.id,
+      ActivityType.VISIT,
+      `Visit rescheduled to ${formatTime(start)} - ${formatTime(end)} with ${updated.technician.firstName} ${updated.technician.lastName}`,
+      formatTime(visit.scheduledStart),
+      formatTime(start)
+    );
+    await notifyVisitChange(updated, 'CHANGED', req.user!.id, visit.technicianId);
+  }
+  publishVisitEvent(visit.request, visit.id, 'updated', req.user!.id);
+
+  logger.info(`Visit ${visit.id} updated by user ${req.user!.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Visit updated successfully',
+    data: { visit: updated },
+  };
+
+  res.status(200).json(response);
+});
+
+// Record the outcome of a visit (the visiting technician or a supervisor)
+export const recordVisitOutcome = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const visit = await getAccessibleVisit(req);
+  const { outcome, outcomeNotes } = req.body;
+
+  if (req.user!.role === UserRole.TECHNICIAN && visit.technicianId !== req.user!.id) {
+    throw new ForbiddenError('Only the visiting technician can record the outcome');
+  }
+
+  if (visit.status !== VisitStatus.SCHEDULED) {
+    throw new ValidationError('The outcome of this visit was already recorded or it was cancelled');
+  }
+
+  if (!Object.values(VisitOutcome).includes(outcome)) {
+    throw new ValidationError(`Invalid outcome: ${outcome}`);
+  }
+
+  const updated = await prisma.requestVisit.update({
+    where: { id: visit.id },
+    data: {
+      status: VisitStatus.COMPLETED,
+      outcome,
+      outcomeNotes: outcomeNotes ? String(outcomeNotes).trim() : null,
+      completedAt: new Date(),
+    },
+    include: visitInclude,
+  });
+
+  await logActivity(
+    visit.requestId,
+    req.user!.id,
+    ActivityType.VISIT,
+    `Visit completed: ${outcome}${updated.outcomeNotes ? `. ${updated.outcomeNotes}` : ''}`
+  );
+  publishVisitEvent(visit.request, visit.id, 'completed', req.user!.id);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Visit outcome recorded successfully',
+    data: { visit: updated },
+  };
+
+  res.status(200).json(response);
+});
+
+// Cancel a scheduled visit
+export const cancelVisit = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const visit = await getAccessibleVisit(req);
+  const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+  if (!canAssignTechnicians(req.user!.role)) {
+    throw new ForbiddenError('Insufficient permissions to cancel visits');
+  }
+
+  if (!reason) {
+    throw new ValidationError('A reason is required');
+  }
+
+  if (visit.status !== VisitStatus.SCHEDULED) {
+    throw new ValidationError('Only scheduled visits can be cancelled');
+  }
+
+  const updated = await prisma.requestVisit.update({
+    where: { id: visit.id },
+    data: { status: VisitStatus.CANCELLED, cancelReason: reason },
+    include: visitInclude,
+  });
+
+  await logActivity(
+    visit.requestId,
+    req.user!.id,
+    ActivityType.VISIT,
+    `Visit of ${formatTime(visit.scheduledStart)} cancelled. Reason: ${reason}`
+  );
+  await notifyVisitChange(updated, 'CANCELLED', req.user!.id);
+  publishVisitEvent(visit.request, visit.id, 'cancelled', req.user!.id);
+
+  logger.info(`Visit ${visit.id} cancelled by user ${req.user!.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Visit cancelled successfully',
+    data: { visit: updated },
+  };
+
+  res.status(200).json(response);
+});
+
+// Get visits in a date range for the technician / department calendar
+export const getVisitCalendar = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { from, to, technicianId, departmentId, includeCancelled } = req.query as any;
+  const user = req.user!;
+
+  const start = new Date(from);
+  const end = new Date(to);
+  if (!from || !to || isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+    throw new ValidationError('Valid from and to dates are required');
+  }
+  if (end.getTime() - start.getTime() > MAX_CALENDAR_DAYS * 24 * 60 * 60 * 1000) {
+    throw new ValidationError(`The calendar range cannot be longer than ${MAX_CALENDAR_DAYS} days`);
+  }
+
+  const where: any = {
+    scheduledStart: { lt: end },
+    scheduledEnd: { gt: start },
+  };
+  if (includeCancelled !== 'true') where.status = { not: VisitStatus.CANCELLED };
+  if (technicianId) where.technicianId = parseInt(technicianId);
+  if (departmentId) where.request = { departmentId: parseInt(departmentId) };
+
+  // Technicians see their own visits, department staff their department's
+  if (user.role === UserRole.TECHNICIAN) {
+    where.technicianId = user.id;
+  } else if (user.role === UserRole.DEPARTMENT_MANAGER || user.role === UserRole.SECTION_SUPERVISOR) {
+    where.request = { departmentId: user.departmentId };
+  }
+
+  const visits = await prisma.requestVisit.findMany({
+    where,
+    include: visitInclude,
+    orderBy: { scheduledStart: 'asc' },
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: { visits },
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,164 @@
+import { Response } from 'express';
+import { prisma } from '../index';
+import { AuthenticatedRequest, ApiResponse, ValidationError, NotFoundError, ForbiddenError } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import {
+  ensureDefaultWorkflow,
+  formatTransition,
+  validateTransitionDefinition,
+} from '../services/workflow.service';
+
+const transitionInclude = {
+  createdBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      username: true,
+    },
+  },
+};
+
+// Get all configured status transitions
+export const getTransitions = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  await ensureDefaultWorkflow();
+
+  const { fromStatus, includeInactive } = req.query as any;
+
+  const transitions = await prisma.statusTransition.findMany({
+    where: {
+      ...(fromStatus && { fromStatus }),
+      ...(includeInactive !== 'true' && { isActive: true }),
+    },
+    orderBy: [{ fromStatus: 'asc' }, { id: 'asc' }],
+    include: transitionInclude,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Status transitions retrieved successfully',
+    data: { transitions: transitions.map(formatTransition) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Create a new status transition
+export const createTransition = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new ForbiddenError('Authentication required');
+  }
+
+  const { fromStatus, toStatus, allowedRoles, requiresComment, requiresTechnician, setsTimestamp } = req.body;
+
+  if (!fromStatus || !toStatus || !allowedRoles) {
+    throw new ValidationError('fromStatus, toStatus and allowedRoles are required');
+  }
+
+  await ensureDefaultWorkflow();
+  await validateTransitionDefinition({ fromStatus, toStatus, allowedRoles, setsTimestamp });
+
+  const existingTransition = await prisma.statusTransition.findUnique({
+    where: { fromStatus_toStatus: { fromStatus, toStatus } },
+  });
+
+  if (existingTransition) {
+    throw new ValidationError('A transition between these statuses already exists');
+  }
+
+  const transition = await prisma.statusTransition.create({
+    data: {
+      fromStatus,
+      toStatus,
+      allowedRoles: allowedRoles.join(','),
+      requiresComment: Boolean(requiresComment),
+      requiresTechnician: Boolean(requiresTechnician),
+      setsTimestamp: setsTimestamp || null,
+      createdById: req.user.id,
+    },
+    include: transitionInclude,
+  });
+
+  logger.info(`Status transition ${fromStatus} -> ${toStatus} created by user ${req.user.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Status transition created successfully',
+    data: { transition: formatTransition(transition) },
+  };
+
+  res.status(201).json(response);
+});
+
+// Update a status transition
+export const updateTransition = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new ForbiddenError('Authentication required');
+  }
+
+  const transitionId = parseInt(req.params.id, 10);
+  const { allowedRoles, requiresComment, requiresTechnician, setsTimestamp, isActive } = req.body;
+
+  const existingTransition = await prisma.statusTransition.findUnique({
+    where: { id: transitionId },
+  });
+
+  if (!existingTransition) {
+    throw new NotFoundError('Status transition not found');
+  }
+
+  await validateTransitionDefinition({ allowedRoles, setsTimestamp });
+
+  const transition = await prisma.statusTransition.update({
+    where: { id: transitionId },
+    data: {
+      ...(allowedRoles !== undefined && { allowedRoles: allowedRoles.join(',') }),
+      ...(requiresComment !== undefined && { requiresComment: Boolean(requiresComment) }),
+      ...(requiresTechnician !== undefined && { requiresTechnician: Boolean(requiresTechnician) }),
+      ...(setsTimestamp !== undefined && { setsTimestamp: setsTimestamp || null }),
+      ...(isActive !== undefined && { isActive: Boolean(isActive) }),
+    },
+    include: transitionInclude,
+  });
+
+  logger.info(`Status transition ${transition.fromStatus} -> ${transition.toStatus} updated by user ${req.user.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Status transition updated successfully',
+    data: { transition: formatTransition(transition) },
+  };
+
+  res.status(200).json(response);
+});
+
+// Delete a status transition
+export const deleteTransition = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new ForbiddenError('Authentication required');
+  }
+
+  const transitionId = parseInt(req.params.id, 10);
+
+  const existingTransition = await prisma.statusTransition.findUnique({
+    where: { id: transitionId },
+  });
+
+  if (!existingTransition) {
+    throw new NotFoundError('Status transition not found');
+  }
+
+  await prisma.statusTransition.delete({
+    where: { id: transitionId },
+  });
+
+  logger.info(`Status transition ${existingTransition.fromStatus} -> ${existingTransition.toStatus} deleted by user ${req.user.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Status transition deleted successfully',
+  };
+
+  res.status(200).json(response);
+});
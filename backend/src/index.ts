@@ -27,6 +27,26 @@ import { exportRoutes } from './routes/export.routes';
 import storageRoutes from './routes/storage.routes';
 import requestPartsRoutes from './routes/request-parts.routes';
 import statusRoutes from './routes/status.routes';
+import jobRoutes from './routes/job.routes';
+import workflowRoutes from './routes/workflow.routes';
+import slaCalendarRoutes from './routes/sla-calendar.routes';
+import slaPolicyRoutes from './routes/sla-policy.routes';
+import requestNumberRoutes from './routes/request-number.routes';
+import departmentRoutingRoutes from './routes/department-routing.routes';
+import technicianRoutes from './routes/technician.routes';
+import visitRoutes from './routes/visit.routes';
+import installedUnitRoutes from './routes/installed-unit.routes';
+import contractRoutes from './routes/contract.routes';
+import maintenancePlanRoutes from './routes/maintenance-plan.routes';
+import deliveryRoutes from './routes/delivery.routes';
+import realtimeRoutes from './routes/realtime.routes';
+import quotationRoutes from './routes/quotation.routes';
+import invoiceRoutes from './routes/invoice.routes';
+import { registerDefaultJobs } from './services/jobs.service';
+import { startScheduler, stopScheduler } from './services/scheduler.service';
+import { registerChannel } from './services/delivery.service';
+import { emailChannel } from './services/email.service';
+import { closeAllClients } from './services/realtime.service';
 
 // Initialize Prisma Client
 export const prisma = new PrismaClient();
@@ -82,6 +102,7 @@ app.get('/health', (req, res) => {
 
 // Public routes (no authentication required)
 app.use('/api/auth', authRoutes);
+app.use('/api/quotes', quotationRoutes);
 
 // Protected routes (authentication required)
 app.use('/api/users', authenticateToken, userRoutes);
@@ -95,6 +116,20 @@ app.use('/api/reports', authenticateToken, reportRoutes);
 app.use('/api/storage', authenticateToken, storageRoutes);
 app.use('/api/request-parts', authenticateToken, requestPartsRoutes);
 app.use('/api/statuses', authenticateToken, statusRoutes);
+app.use('/api/jobs', authenticateToken, jobRoutes);
+app.use('/api/workflow', authenticateToken, workflowRoutes);
+app.use('/api/sla-calendars', authenticateToken, slaCalendarRoutes);
+app.use('/api/sla-policies', authenticateToken, slaPolicyRoutes);
+app.use('/api/request-numbering', authenticateToken, requestNumberRoutes);
+app.use('/api/routing-rules', authenticateToken, departmentRoutingRoutes);
+app.use('/api/technicians', authenticateToken, technicianRoutes);
+app.use('/api/visits', authenticateToken, visitRoutes);
+app.use('/api/units', authenticateToken, installedUnitRoutes);
+app.use('/api/contracts', authenticateToken, contractRoutes);
+app.use('/api/maintenance-plans', authenticateToken, maintenancePlanRoutes);
+app.use('/api/invoices', authenticateToken, invoiceRoutes);
+app.use('/api/deliveries', authenticateToken, deliveryRoutes);
+app.use('/api/realtime', authenticateToken, realtimeRoutes);
 
 // Serve static files from React build (for production)
 if (config.nodeEnv === 'production') {
@@ -136,6 +171,11 @@ async function startServer() {
       logger.info(`📱 Environment: ${config.nodeEnv}`);
       logger.info(`🔗 Health check: http://localhost:${PORT}/health`);
     });
+
+    // Register notification delivery channels and start background jobs
+    registerChannel(emailChannel);
+    registerDefaultJobs();
+    await startScheduler();
   } catch (error) {
     logger.error('Failed to start server:', error);
     process.exit(1);
@@ -145,12 +185,16 @@ async function startServer() {
 // Graceful shutdown
 process.on('SIGINT', async () => {
   logger.info('Received SIGINT, shutting down gracefully...');
+  stopScheduler();
+  closeAllClients();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   logger.info('Received SIGTERM, shutting down gracefully...');
+  stopScheduler();
+  closeAllClients();
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -92,6 +92,32 @@ export const requireDepartmentAccess = (req: AuthenticatedRequest, res: Response
   next();
 };
 
+// Whether a user may see a request: managers see everything, department roles their
+// department, technicians the requests assigned to them or received by them
+export const canAccessRequest = (
+  user: { id: number; role: UserRole; departmentId?: number | null },
+  request: { departmentId: number; assignedTechnicianId?: number | null; receivedById?: number | null }
+): boolean => {
+  const { role, departmentId, id: userId } = user;
+
+  // Company and deputy managers can access all requests
+  if (role === UserRole.COMPANY_MANAGER || role === UserRole.DEPUTY_MANAGER) {
+    return true;
+  }
+
+  // Department managers and section supervisors can access requests in their department
+  if ((role === UserRole.DEPARTMENT_MANAGER || role === UserRole.SECTION_SUPERVISOR) && departmentId === request.departmentId) {
+    return true;
+  }
+
+  // Technicians can only access their assigned requests or those they received
+  if (role === UserRole.TECHNICIAN) {
+    return request.assignedTechnicianId === userId || request.receivedById === userId;
+  }
+
+  return false;
+};
+
 // Middleware to check if user can modify specific requests
 export const requireRequestAccess = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
@@ -118,30 +144,10 @@ export const requireRequestAccess = async (req: AuthenticatedRequest, res: Respo
       return next(new ForbiddenError('Request not found'));
     }
 
-    const { role, departmentId, id: userId } = req.user;
-
-    // Company and deputy managers can access all requests
-    if (role === UserRole.COMPANY_MANAGER || role === UserRole.DEPUTY_MANAGER) {
+    if (canAccessRequest(req.user, request)) {
       return next();
     }
 
-    // Department managers can access requests in their department
-    if (role === UserRole.DEPARTMENT_MANAGER && departmentId === request.departmentId) {
-      return next();
-    }
-
-    // Section supervisors can access requests in their department
-    if (role === UserRole.SECTION_SUPERVISOR && departmentId === request.departmentId) {
-      return next();
-    }
-
-    // Technicians can only access their assigned requests or those they received
-    if (role === UserRole.TECHNICIAN) {
-      if (request.assignedTechnicianId === userId || request.receivedById === userId) {
-        return next();
-      }
-    }
-
     return next(new ForbiddenError('Cannot access this request'));
   } catch (error) {
     next(error);
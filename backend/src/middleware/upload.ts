@@ -0,0 +1,19 @@
+import multer from 'multer';
+import { config } from '../config/config';
+import { ValidationError } from '../types';
+import { ALLOWED_ATTACHMENT_TYPES } from '../services/attachment.service';
+
+// Multipart parser for request attachments; files stay in memory until validated and stored
+export const uploadAttachments = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.maxFileSize,
+    files: config.attachmentMaxFiles,
+  },
+  fileFilter: (req, file, callback) => {
+    if (!ALLOWED_ATTACHMENT_TYPES[file.mimetype]) {
+      return callback(new ValidationError(`File type ${file.mimetype} is not allowed`));
+    }
+    callback(null, true);
+  },
+}).array('files', config.attachmentMaxFiles);
@@ -83,6 +83,20 @@ router.post('/notifications/read-all', authenticateToken, async (req: any, res)
   res.status(ok ? 200 : 400).json({ success: ok });
 });
 
+/**
+ * @route   GET /api/auth/notification-preferences
+ * @desc    Get current user's notification preferences, quiet hours and digest option
+ * @access  Private
+ */
+router.get('/notification-preferences', authenticateToken, authController.getNotificationSettings);
+
+/**
+ * @route   PUT /api/auth/notification-preferences
+ * @desc    Update current user's notification preferences, quiet hours and digest option
+ * @access  Private
+ */
+router.put('/notification-preferences', authenticateToken, authController.updateNotificationSettings);
+
 /**
  * @route   POST /api/auth/restore-admin
  * @desc    Restore admin account with default credentials
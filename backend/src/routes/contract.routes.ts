@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import * as contractController from '../controllers/contract.controller';
+import { requireRoles } from '../middleware/auth';
+import { UserRole } from '../types';
+
+const router = Router();
+
+const MANAGER_ROLES = [UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER];
+
+const SUPERVISOR_ROLES = [
+  ...MANAGER_ROLES,
+  UserRole.DEPARTMENT_MANAGER,
+  UserRole.SECTION_SUPERVISOR,
+];
+
+/**
+ * @route   GET /api/contracts/types
+ * @desc    Get contract types (add ?includeInactive=true for retired ones)
+ * @access  Private
+ */
+router.get('/types', contractController.getContractTypes);
+
+/**
+ * @route   POST /api/contracts/types
+ * @desc    Create a contract type (name, kind, coveredCostTypes, durationMonths, visitsIncluded)
+ * @access  Private (Company and deputy managers)
+ */
+router.post('/types', requireRoles(MANAGER_ROLES), contractController.createContractType);
+
+/**
+ * @route   PUT /api/contracts/types/:id
+ * @desc    Update or retire a contract type
+ * @access  Private (Company and deputy managers)
+ */
+router.put('/types/:id', requireRoles(MANAGER_ROLES), contractController.updateContractType);
+
+/**
+ * @route   GET /api/contracts
+ * @desc    Get service contracts (?customerId=, ?unitId=, ?status=, ?search=)
+ * @access  Private
+ */
+router.get('/', contractController.getContracts);
+
+/**
+ * @route   GET /api/contracts/:id
+ * @desc    Get a service contract with the requests raised under it
+ * @access  Private
+ */
+router.get('/:id', contractController.getContractById);
+
+/**
+ * @route   POST /api/contracts
+ * @desc    Sell a contract to a customer (contractNumber, typeId, customerId, scope, unitIds, startDate)
+ * @access  Private (Supervisor level and above)
+ */
+router.post('/', requireRoles(SUPERVISOR_ROLES), contractController.createContract);
+
+/**
+ * @route   PUT /api/contracts/:id
+ * @desc    Update a contract's dates, coverage and units, or cancel it
+ * @access  Private (Supervisor level and above)
+ */
+router.put('/:id', requireRoles(SUPERVISOR_ROLES), contractController.updateContract);
+
+export default router;
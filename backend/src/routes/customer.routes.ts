@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { prisma } from '../index';
 import { ApiResponse, ValidationError, AuthenticatedRequest, UserRole } from '../types';
 import { authenticateToken, requireRoles } from '../middleware/auth';
+import { getCustomerBalances } from '../services/invoice.service';
 
 const router = Router();
 
@@ -56,9 +57,16 @@ router.get('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
     prisma.customer.count({ where }),
   ]);
 
+  // Outstanding invoice balances per currency; technicians don't handle billing
+  const balances = user.role === 'TECHNICIAN' ? null : await getCustomerBalances(customers.map(customer => customer.id));
+
   const response: ApiResponse = {
     success: true,
-    data: { customers },
+    data: {
+      customers: balances
+        ? customers.map(customer => ({ ...customer, outstanding: balances.get(customer.id) || {} }))
+        : customers,
+    },
     meta: { page: Number(page), limit: Number(limit), total, totalPages: Math.ceil(total / Number(limit)) },
   };
 
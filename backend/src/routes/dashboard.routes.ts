@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
+import { FINISHED_STATUSES } from '../types';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -35,12 +36,12 @@ router.get('/stats', authenticateToken, asyncHandler(async (req: Request, res: R
   // Get total requests
   const totalRequests = await prisma.request.count({ where: whereClause });
   
-  // Get pending requests (not completed or closed)
+  // Get pending requests (not finished)
   const pendingRequests = await prisma.request.count({
     where: {
       ...whereClause,
       status: {
-        notIn: ['COMPLETED', 'CLOSED']
+        notIn: FINISHED_STATUSES
       }
     }
   });
@@ -51,7 +52,7 @@ router.get('/stats', authenticateToken, asyncHandler(async (req: Request, res: R
       ...whereClause,
       isOverdue: true,
       status: {
-        notIn: ['COMPLETED', 'CLOSED']
+        notIn: FINISHED_STATUSES
       }
     }
   });
@@ -64,6 +65,29 @@ router.get('/stats', authenticateToken, asyncHandler(async (req: Request, res: R
     }
   });
   
+  // Get requests ended without a repair
+  const cancelledRequests = await prisma.request.count({
+    where: {
+      ...whereClause,
+      status: 'CANCELLED'
+    }
+  });
+
+  const rejectedRequests = await prisma.request.count({
+    where: {
+      ...whereClause,
+      status: 'REJECTED'
+    }
+  });
+
+  // Get requests that were reopened at least once (counted separately from their current status)
+  const reopenedRequests = await prisma.request.count({
+    where: {
+      ...whereClause,
+      reopenCount: { gt: 0 }
+    }
+  });
+
   // Get warranty stats
   const underWarranty = await prisma.request.count({
     where: {
@@ -147,6 +171,9 @@ router.get('/stats', authenticateToken, asyncHandler(async (req: Request, res: R
     pendingRequests,
     overdueRequests,
     completedRequests,
+    cancelledRequests,
+    rejectedRequests,
+    reopenedRequests,
     underWarranty,
     outOfWarranty,
     requestsByDepartment: requestsByDepartment.map(item => {
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import * as deliveryController from '../controllers/delivery.controller';
+import { requireRoles } from '../middleware/auth';
+import { UserRole } from '../types';
+
+const router = Router();
+
+router.use(requireRoles([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER]));
+
+/**
+ * @route   GET /api/deliveries
+ * @desc    List notification deliveries (email outbox) with their status
+ * @access  Private (Company and deputy managers)
+ */
+router.get('/', deliveryController.getDeliveryList);
+
+/**
+ * @route   POST /api/deliveries/test-email
+ * @desc    Send a test email to the current user or to the given address
+ * @access  Private (Company and deputy managers)
+ */
+router.post('/test-email', deliveryController.sendTestEmail);
+
+/**
+ * @route   POST /api/deliveries/:id/retry
+ * @desc    Retry a pending or failed delivery now
+ * @access  Private (Company and deputy managers)
+ */
+router.post('/:id/retry', deliveryController.retry);
+
+export default router;
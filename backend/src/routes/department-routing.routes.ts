@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import * as routingController from '../controllers/department-routing.controller';
+import { requireRoles } from '../middleware/auth';
+import { UserRole } from '../types';
+
+const router = Router();
+
+router.use(requireRoles([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER]));
+
+/**
+ * @route   GET /api/routing-rules
+ * @desc    Get department routing rules in evaluation order (add ?includeInactive=true for disabled ones)
+ * @access  Private (Company and deputy managers)
+ */
+router.get('/', routingController.getRules);
+
+/**
+ * @route   POST /api/routing-rules/test
+ * @desc    Show which rule would route a description (body: description, productCategory, customerCity)
+ * @access  Private (Company and deputy managers)
+ */
+router.post('/test', routingController.testRouting);
+
+/**
+ * @route   GET /api/routing-rules/:id
+ * @desc    Get a single routing rule
+ * @access  Private (Company and deputy managers)
+ */
+router.get('/:id', routingController.getRuleById);
+
+/**
+ * @route   POST /api/routing-rules
+ * @desc    Create a routing rule
+ * @access  Private (Company and deputy managers)
+ */
+router.post('/', routingController.createRule);
+
+/**
+ * @route   PUT /api/routing-rules/:id
+ * @desc    Update a routing rule
+ * @access  Private (Company and deputy managers)
+ */
+router.put('/:id', routingController.updateRule);
+
+/**
+ * @route   DELETE /api/routing-rules/:id
+ * @desc    Delete a routing rule
+ * @access  Private (Company and deputy managers)
+ */
+router.delete('/:id', routingController.deleteRule);
+
+export default router;
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { prisma } from '../index';
-import { ApiResponse } from '../types';
+import { requireRoles } from '../middleware/auth';
+import { ApiResponse, AuthenticatedRequest, NotFoundError, UserRole, ValidationError } from '../types';
+import { logger } from '../utils/logger';
 
 const router = Router();
 
@@ -27,4 +29,42 @@ router.get('/', async (req, res) => {
   res.status(200).json(response);
 });
 
+/**
+ * @route   PUT /api/departments/:id/quote-policy
+ * @desc    Require an accepted quotation before out-of-warranty repairs (body: requiresQuoteApproval)
+ * @access  Private (Company and deputy managers)
+ */
+router.put('/:id/quote-policy', requireRoles([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER]), async (req: AuthenticatedRequest, res) => {
+  const departmentId = parseInt(req.params.id);
+  const { requiresQuoteApproval } = req.body;
+
+  if (typeof requiresQuoteApproval !== 'boolean') {
+    const error = new ValidationError('requiresQuoteApproval must be true or false');
+    res.status(error.statusCode).json({ success: false, message: error.message });
+    return;
+  }
+
+  const existing = await prisma.department.findUnique({ where: { id: departmentId } });
+  if (!existing) {
+    const error = new NotFoundError('Department not found');
+    res.status(error.statusCode).json({ success: false, message: error.message });
+    return;
+  }
+
+  const department = await prisma.department.update({
+    where: { id: departmentId },
+    data: { requiresQuoteApproval },
+  });
+
+  logger.info(`Quote approval ${requiresQuoteApproval ? 'required' : 'not required'} for department ${department.name} by user ${req.user?.username}`);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Department quotation policy updated',
+    data: { department },
+  };
+
+  res.status(200).json(response);
+});
+
 export default router;
@@ -35,6 +35,8 @@ router.get('/requests/status/:status', authenticateToken, requireRoles([UserRole
       'IN_REPAIR': 'in_repair',
       'COMPLETED': 'completed_requests',
       'CLOSED': 'closed_requests',
+      'CANCELLED': 'cancelled_requests',
+      'REJECTED': 'rejected_requests',
     };
     
     const fileName = statusFileNames[status as keyof typeof statusFileNames] || status;
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import * as unitController from '../controllers/installed-unit.controller';
+import { requireRoles } from '../middleware/auth';
+import { UserRole } from '../types';
+
+const router = Router();
+
+const SUPERVISOR_ROLES = [
+  UserRole.COMPANY_MANAGER,
+  UserRole.DEPUTY_MANAGER,
+  UserRole.DEPARTMENT_MANAGER,
+  UserRole.SECTION_SUPERVISOR,
+];
+
+/**
+ * @route   GET /api/units
+ * @desc    Get installed units (?search= serial, customer or product, ?customerId=, ?productId=)
+ * @access  Private
+ */
+router.get('/', unitController.getUnits);
+
+/**
+ * @route   GET /api/units/:id
+ * @desc    Get an installed unit with its repair history
+ * @access  Private
+ */
+router.get('/:id', unitController.getUnitById);
+
+/**
+ * @route   POST /api/units
+ * @desc    Register a customer-owned unit (productId, customerId, serialNumber, purchaseDate, installer, warrantyExpiresAt)
+ * @access  Private (Supervisor level and above)
+ */
+router.post('/', requireRoles(SUPERVISOR_ROLES), unitController.createUnit);
+
+/**
+ * @route   PUT /api/units/:id
+ * @desc    Update an installed unit; an empty warrantyExpiresAt is recomputed from the purchase date
+ * @access  Private (Supervisor level and above)
+ */
+router.put('/:id', requireRoles(SUPERVISOR_ROLES), unitController.updateUnit);
+
+export default router;
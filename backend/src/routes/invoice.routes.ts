@@ -0,0 +1,67 @@
+import { Router } from 'express';
+import * as invoiceController from '../controllers/invoice.controller';
+import { requireRoles } from '../middleware/auth';
+import { UserRole } from '../types';
+
+const router = Router();
+
+const SUPERVISOR_ROLES = [
+  UserRole.COMPANY_MANAGER,
+  UserRole.DEPUTY_MANAGER,
+  UserRole.DEPARTMENT_MANAGER,
+  UserRole.SECTION_SUPERVISOR,
+];
+
+// Billing is handled by supervisors and managers
+router.use(requireRoles(SUPERVISOR_ROLES));
+
+/**
+ * @route   GET /api/invoices
+ * @desc    Get invoices (?customerId=, ?requestId=, ?status=, ?search=, pagination)
+ * @access  Private (Supervisor level and above)
+ */
+router.get('/', invoiceController.getInvoices);
+
+/**
+ * @route   GET /api/invoices/uninvoiced
+ * @desc    Get the billable costs and parts of a request not invoiced yet (?requestId=)
+ * @access  Private (Supervisor level and above)
+ */
+router.get('/uninvoiced', invoiceController.getUninvoiced);
+
+/**
+ * @route   GET /api/invoices/balances
+ * @desc    Get the outstanding balance per currency of customers with open invoices (?customerId=)
+ * @access  Private (Supervisor level and above)
+ */
+router.get('/balances', invoiceController.getBalances);
+
+/**
+ * @route   GET /api/invoices/:id
+ * @desc    Get an invoice with its lines and payments
+ * @access  Private (Supervisor level and above)
+ */
+router.get('/:id', invoiceController.getInvoiceById);
+
+/**
+ * @route   POST /api/invoices
+ * @desc    Invoice a request's billable lines in one currency (requestId, currency, discountAmount or discountPercent, taxRate, dueDate, notes)
+ * @access  Private (Supervisor level and above)
+ */
+router.post('/', invoiceController.createRequestInvoice);
+
+/**
+ * @route   POST /api/invoices/:id/payments
+ * @desc    Record a payment (amount, method CASH or TRANSFER, reference, paidAt, notes)
+ * @access  Private (Supervisor level and above)
+ */
+router.post('/:id/payments', invoiceController.addPayment);
+
+/**
+ * @route   PUT /api/invoices/:id/void
+ * @desc    Void an invoice without payments (reason required)
+ * @access  Private (Supervisor level and above)
+ */
+router.put('/:id/void', invoiceController.cancelInvoice);
+
+export default router;
@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import * as jobController from '../controllers/job.controller';
+import { requireRoles } from '../middleware/auth';
+import { UserRole } from '../types';
+
+const router = Router();
+
+// Job administration is limited to company-level managers
+router.use(requireRoles([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER]));
+
+/**
+ * @route   GET /api/jobs
+ * @desc    List scheduled jobs with their schedule and last result
+ * @access  Private (Company and deputy managers)
+ */
+router.get('/', jobController.getJobs);
+
+/**
+ * @route   GET /api/jobs/:name/runs
+ * @desc    Get the run history of a job
+ * @access  Private (Company and deputy managers)
+ */
+router.get('/:name/runs', jobController.getJobHistory);
+
+/**
+ * @route   POST /api/jobs/:name/run
+ * @desc    Trigger a job manually
+ * @access  Private (Company and deputy managers)
+ */
+router.post('/:name/run', jobController.triggerJob);
+
+/**
+ * @route   PUT /api/jobs/:name
+ * @desc    Update a job's schedule or enable/disable it
+ * @access  Private (Company and deputy managers)
+ */
+router.put('/:name', jobController.updateJob);
+
+export default router;
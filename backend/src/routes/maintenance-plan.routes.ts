@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import * as planController from '../controllers/maintenance-plan.controller';
+import { requireRoles } from '../middleware/auth';
+import { UserRole } from '../types';
+
+const router = Router();
+
+const SUPERVISOR_ROLES = [
+  UserRole.COMPANY_MANAGER,
+  UserRole.DEPUTY_MANAGER,
+  UserRole.DEPARTMENT_MANAGER,
+  UserRole.SECTION_SUPERVISOR,
+];
+
+/**
+ * @route   GET /api/maintenance-plans
+ * @desc    Get maintenance plans (?customerId=, ?unitId=, ?includeInactive=true)
+ * @access  Private
+ */
+router.get('/', planController.getPlans);
+
+/**
+ * @route   GET /api/maintenance-plans/:id
+ * @desc    Get a maintenance plan with its generated and skipped visits
+ * @access  Private
+ */
+router.get('/:id', planController.getPlanById);
+
+/**
+ * @route   POST /api/maintenance-plans
+ * @desc    Create a plan (customerId, installedUnitId, departmentId, recurrence, intervalMonths or seasonMonths, leadDays)
+ * @access  Private (Supervisor level and above)
+ */
+router.post('/', requireRoles(SUPERVISOR_ROLES), planController.createPlan);
+
+/**
+ * @route   PUT /api/maintenance-plans/:id
+ * @desc    Update, pause or resume a maintenance plan
+ * @access  Private (Supervisor level and above)
+ */
+router.put('/:id', requireRoles(SUPERVISOR_ROLES), planController.updatePlan);
+
+/**
+ * @route   POST /api/maintenance-plans/:id/skip
+ * @desc    Skip the next visit of a plan with a reason
+ * @access  Private (Supervisor level and above)
+ */
+router.post('/:id/skip', requireRoles(SUPERVISOR_ROLES), planController.skipNextVisit);
+
+export default router;
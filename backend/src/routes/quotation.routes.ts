@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import * as quotationController from '../controllers/quotation.controller';
+
+// Customer-facing quotation links; the token in the path is the only credential
+const router = Router();
+
+/**
+ * @route   GET /api/quotes/:token
+ * @desc    View a quotation through its customer link
+ * @access  Public
+ */
+router.get('/:token', quotationController.getQuotationByToken);
+
+/**
+ * @route   POST /api/quotes/:token/decision
+ * @desc    Accept or reject a quotation (body: decision ACCEPTED or REJECTED, note)
+ * @access  Public
+ */
+router.post('/:token/decision', quotationController.respondToQuotation);
+
+export default router;
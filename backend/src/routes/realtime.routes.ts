@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import * as realtimeController from '../controllers/realtime.controller';
+
+const router = Router();
+
+/**
+ * @route   GET /api/realtime/stream
+ * @desc    Server-Sent Events stream of new notifications, request status changes and assignments
+ * @access  Private (request events are limited to requests the user can access)
+ */
+router.get('/stream', realtimeController.stream);
+
+export default router;
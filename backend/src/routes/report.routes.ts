@@ -1,14 +1,46 @@
 import { Router } from 'express';
+import * as reportController from '../controllers/report.controller';
+import { requireRoles } from '../middleware/auth';
+import { UserRole } from '../types';
 
 const router = Router();
 
+// Reports are available to managers only
+router.use(requireRoles([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER]));
+
 /**
  * @route   GET /api/reports
- * @desc    Get various reports
- * @access  Private
+ * @desc    Get technician, SLA and cost reports for the same filters
+ * @access  Private (Manager level)
+ */
+router.get('/', reportController.getReportsOverview);
+
+/**
+ * @route   GET /api/reports/technicians
+ * @desc    Get technician performance report
+ * @access  Private (Manager level)
+ */
+router.get('/technicians', reportController.getTechnicianReport);
+
+/**
+ * @route   GET /api/reports/sla
+ * @desc    Get SLA compliance report per department
+ * @access  Private (Manager level)
+ */
+router.get('/sla', reportController.getSLAReport);
+
+/**
+ * @route   GET /api/reports/costs
+ * @desc    Get parts and labor cost summary
+ * @access  Private (Manager level)
+ */
+router.get('/costs', reportController.getCostReport);
+
+/**
+ * @route   GET /api/reports/unpaid-invoices
+ * @desc    Get open invoices issued up to dateTo with balances per customer and currency
+ * @access  Private (Manager level)
  */
-router.get('/', (req, res) => {
-  res.json({ success: true, message: 'Reports endpoint - to be implemented' });
-});
+router.get('/unpaid-invoices', reportController.getUnpaidInvoiceReport);
 
 export default router;
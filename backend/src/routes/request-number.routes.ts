@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import * as requestNumberController from '../controllers/request-number.controller';
+import { requireRoles } from '../middleware/auth';
+import { UserRole } from '../types';
+
+const router = Router();
+
+// Request numbers are shared across the company, so only company-level managers configure them
+router.use(requireRoles([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER]));
+
+/**
+ * @route   GET /api/request-numbering
+ * @desc    Get the default and per-department request number formats
+ * @access  Private (Company and deputy managers)
+ */
+router.get('/', requestNumberController.getNumberFormats);
+
+/**
+ * @route   GET /api/request-numbering/preview
+ * @desc    Preview the next request number (?departmentId=, optional unsaved format, prefix and resetPeriod)
+ * @access  Private (Company and deputy managers)
+ */
+router.get('/preview', requestNumberController.previewNumberFormat);
+
+/**
+ * @route   PUT /api/request-numbering/:departmentId
+ * @desc    Set the request number format of a department, or "default" for all departments
+ * @access  Private (Company and deputy managers)
+ */
+router.put('/:departmentId', requestNumberController.saveNumberFormat);
+
+/**
+ * @route   DELETE /api/request-numbering/:departmentId
+ * @desc    Remove a department's format (or "default") so the fallback format applies
+ * @access  Private (Company and deputy managers)
+ */
+router.delete('/:departmentId', requestNumberController.deleteNumberFormat);
+
+export default router;
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { prisma } from '../index';
-import { ApiResponse, ValidationError } from '../types';
+import { ApiResponse, ConflictError, CostType, ValidationError } from '../types';
+import { parseCostTypes } from '../services/contract.service';
+import { isRequestPartInvoiced } from '../services/invoice.service';
 
 const router = Router();
 
@@ -46,6 +48,7 @@ router.post('/', async (req, res) => {
   // Check if request exists
   const request = await prisma.request.findUnique({
     where: { id: Number(requestId) },
+    include: { contract: { select: { coveredCostTypes: true } } },
   });
 
   if (!request) {
@@ -84,6 +87,8 @@ router.post('/', async (req, res) => {
         quantityUsed: Number(quantityUsed),
         unitPrice: sparePart.unitPrice,
         totalCost,
+        // Parts paid by the request's service contract are not billed to the customer
+        isBillable: !request.contract || !parseCostTypes(request.contract.coveredCostTypes).includes(CostType.PARTS),
         addedById: Number(addedById),
       },
       include: {
@@ -132,6 +137,12 @@ router.delete('/:id', async (req, res) => {
     return;
   }
 
+  if (await isRequestPartInvoiced(requestPart.id)) {
+    const error = new ConflictError('An invoiced part cannot be removed until its invoice is voided');
+    res.status(error.statusCode).json({ success: false, message: error.message });
+    return;
+  }
+
   // Remove request part and restore quantity in a transaction
   await prisma.$transaction(async (tx) => {
     // Delete request part
@@ -183,6 +194,12 @@ router.put('/:id', async (req, res) => {
     return;
   }
 
+  if (await isRequestPartInvoiced(requestPart.id)) {
+    const error = new ConflictError('An invoiced part cannot be changed until its invoice is voided');
+    res.status(error.statusCode).json({ success: false, message: error.message });
+    return;
+  }
+
   const quantityDifference = Number(quantityUsed) - requestPart.quantityUsed;
   const newSparePartQuantity = requestPart.sparePart.quantity - quantityDifference;
 
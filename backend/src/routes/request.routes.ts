@@ -1,6 +1,11 @@
 import { Router } from 'express';
 import * as requestController from '../controllers/request.controller';
+import * as attachmentController from '../controllers/attachment.controller';
+import * as commentController from '../controllers/comment.controller';
+import * as visitController from '../controllers/visit.controller';
+import * as quotationController from '../controllers/quotation.controller';
 import { requireRoles, requireRequestAccess } from '../middleware/auth';
+import { uploadAttachments } from '../middleware/upload';
 import { UserRole } from '../types';
 
 const router = Router();
@@ -19,6 +24,13 @@ router.get('/', requestController.getRequests);
  */
 router.post('/', requireRoles([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR]), requestController.createRequest);
 
+/**
+ * @route   GET /api/requests/warranty-preview
+ * @desc    Compute warranty status and expiry (query: installedUnitId or productId and purchaseDate, extendedWarrantyMonths)
+ * @access  Private (Managers and supervisors only, not technicians)
+ */
+router.get('/warranty-preview', requireRoles([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR]), requestController.previewWarranty);
+
 /**
  * @route   GET /api/requests/:id
  * @desc    Get single request by ID
@@ -26,6 +38,31 @@ router.post('/', requireRoles([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER
  */
 router.get('/:id', requireRequestAccess, requestController.getRequestById);
 
+/**
+ * @route   PUT /api/requests/:id
+ * @desc    Update request details (issue, installed unit, product, priority, warranty, execution method, purchase date);
+ *          a warranty status against the computed one needs warrantyOverrideReason
+ * @access  Private (Supervisor level and above with access to the request; closed requests company managers only)
+ */
+router.put(
+  '/:id',
+  requireRoles([
+    UserRole.COMPANY_MANAGER,
+    UserRole.DEPUTY_MANAGER,
+    UserRole.DEPARTMENT_MANAGER,
+    UserRole.SECTION_SUPERVISOR
+  ]),
+  requireRequestAccess,
+  requestController.updateRequest
+);
+
+/**
+ * @route   GET /api/requests/:id/transitions
+ * @desc    Get the status transitions available to the current user
+ * @access  Private (Request access required)
+ */
+router.get('/:id/transitions', requireRequestAccess, requestController.getRequestTransitions);
+
 /**
  * @route   PUT /api/requests/:id/status
  * @desc    Update request status
@@ -49,6 +86,23 @@ router.put(
   requestController.assignTechnician
 );
 
+/**
+ * @route   POST /api/requests/:id/auto-assign
+ * @desc    Assign a technician automatically by skills, workload and round-robin
+ * @access  Private (Supervisor level and above)
+ */
+router.post(
+  '/:id/auto-assign',
+  requireRoles([
+    UserRole.COMPANY_MANAGER,
+    UserRole.DEPUTY_MANAGER,
+    UserRole.DEPARTMENT_MANAGER,
+    UserRole.SECTION_SUPERVISOR
+  ]),
+  requireRequestAccess,
+  requestController.autoAssignTechnician
+);
+
 /**
  * @route   POST /api/requests/:id/costs
  * @desc    Add cost to request
@@ -72,4 +126,189 @@ router.put(
   requestController.closeRequest
 );
 
+/**
+ * @route   PUT /api/requests/:id/cancel
+ * @desc    Cancel an open request (reason required)
+ * @access  Private (Supervisor level and above with access to the request)
+ */
+router.put(
+  '/:id/cancel',
+  requireRoles([
+    UserRole.COMPANY_MANAGER,
+    UserRole.DEPUTY_MANAGER,
+    UserRole.DEPARTMENT_MANAGER,
+    UserRole.SECTION_SUPERVISOR
+  ]),
+  requireRequestAccess,
+  requestController.cancelRequest
+);
+
+/**
+ * @route   PUT /api/requests/:id/reject
+ * @desc    Reject an open request as not covered (reason required)
+ * @access  Private (Manager level and above with access to the request)
+ */
+router.put(
+  '/:id/reject',
+  requireRoles([
+    UserRole.COMPANY_MANAGER,
+    UserRole.DEPUTY_MANAGER,
+    UserRole.DEPARTMENT_MANAGER
+  ]),
+  requireRequestAccess,
+  requestController.rejectRequest
+);
+
+/**
+ * @route   PUT /api/requests/:id/reopen
+ * @desc    Reopen a completed, closed, cancelled or rejected request (reason required)
+ * @access  Private (Supervisors for completed requests, managers otherwise)
+ */
+router.put(
+  '/:id/reopen',
+  requireRoles([
+    UserRole.COMPANY_MANAGER,
+    UserRole.DEPUTY_MANAGER,
+    UserRole.DEPARTMENT_MANAGER,
+    UserRole.SECTION_SUPERVISOR
+  ]),
+  requireRequestAccess,
+  requestController.reopenRequest
+);
+
+/**
+ * @route   GET /api/requests/:id/attachments
+ * @desc    List request attachments (photos, invoices, diagnostic reports)
+ * @access  Private (Request access required)
+ */
+router.get('/:id/attachments', requireRequestAccess, attachmentController.getAttachments);
+
+/**
+ * @route   POST /api/requests/:id/attachments
+ * @desc    Upload attachments (multipart field "files", optional category and description)
+ * @access  Private (Request access required)
+ */
+router.post('/:id/attachments', requireRequestAccess, uploadAttachments, attachmentController.uploadAttachments);
+
+/**
+ * @route   GET /api/requests/:id/attachments/:attachmentId/download
+ * @desc    Download an attachment (?inline=true to display in the browser)
+ * @access  Private (Request access required)
+ */
+router.get('/:id/attachments/:attachmentId/download', requireRequestAccess, attachmentController.downloadAttachment);
+
+/**
+ * @route   GET /api/requests/:id/attachments/:attachmentId/thumbnail
+ * @desc    Get the thumbnail of an image attachment
+ * @access  Private (Request access required)
+ */
+router.get('/:id/attachments/:attachmentId/thumbnail', requireRequestAccess, attachmentController.getAttachmentThumbnail);
+
+/**
+ * @route   DELETE /api/requests/:id/attachments/:attachmentId
+ * @desc    Delete an attachment
+ * @access  Private (Uploader, or supervisor level and above with request access)
+ */
+router.delete('/:id/attachments/:attachmentId', requireRequestAccess, attachmentController.removeAttachment);
+
+/**
+ * @route   GET /api/requests/:id/comments
+ * @desc    List comment threads (internal notes and customer-visible comments)
+ * @access  Private (Request access required)
+ */
+router.get('/:id/comments', requireRequestAccess, commentController.getComments);
+
+/**
+ * @route   POST /api/requests/:id/comments
+ * @desc    Add a comment or reply (body, visibility INTERNAL/CUSTOMER, optional parentId); @username mentions notify
+ * @access  Private (Request access required)
+ */
+router.post('/:id/comments', requireRequestAccess, commentController.addComment);
+
+/**
+ * @route   PUT /api/requests/:id/comments/:commentId
+ * @desc    Edit a comment, keeping the previous version in its history
+ * @access  Private (Comment author)
+ */
+router.put('/:id/comments/:commentId', requireRequestAccess, commentController.editComment);
+
+/**
+ * @route   DELETE /api/requests/:id/comments/:commentId
+ * @desc    Delete a comment (kept in its history)
+ * @access  Private (Comment author or manager level)
+ */
+router.delete('/:id/comments/:commentId', requireRequestAccess, commentController.removeComment);
+
+/**
+ * @route   GET /api/requests/:id/comments/:commentId/history
+ * @desc    Get the edit and delete history of a comment
+ * @access  Private (Comment author or manager level)
+ */
+router.get('/:id/comments/:commentId/history', requireRequestAccess, commentController.getHistory);
+
+/**
+ * @route   GET /api/requests/:id/visits
+ * @desc    Get the on-site visits of a request
+ * @access  Private (Request access required)
+ */
+router.get('/:id/visits', requireRequestAccess, visitController.getRequestVisits);
+
+/**
+ * @route   POST /api/requests/:id/visits
+ * @desc    Book an on-site visit (scheduledStart, scheduledEnd, technicianId, address, city, notes)
+ * @access  Private (Supervisor level and above)
+ */
+router.post(
+  '/:id/visits',
+  requireRoles([
+    UserRole.COMPANY_MANAGER,
+    UserRole.DEPUTY_MANAGER,
+    UserRole.DEPARTMENT_MANAGER,
+    UserRole.SECTION_SUPERVISOR
+  ]),
+  requireRequestAccess,
+  visitController.createVisit
+);
+
+/**
+ * @route   GET /api/requests/:id/quotes
+ * @desc    Get every version of the request's quotation with its customer link
+ * @access  Private (Request access required)
+ */
+router.get('/:id/quotes', requireRequestAccess, quotationController.getRequestQuotations);
+
+/**
+ * @route   POST /api/requests/:id/quotes
+ * @desc    Issue a new quotation version (lines: lineType, description, sparePartId, quantity, unitPrice, currency; validUntil, notes)
+ * @access  Private (Supervisor level and above)
+ */
+router.post(
+  '/:id/quotes',
+  requireRoles([
+    UserRole.COMPANY_MANAGER,
+    UserRole.DEPUTY_MANAGER,
+    UserRole.DEPARTMENT_MANAGER,
+    UserRole.SECTION_SUPERVISOR
+  ]),
+  requireRequestAccess,
+  quotationController.createRequestQuotation
+);
+
+/**
+ * @route   PUT /api/requests/:id/quotes/:quotationId/decision
+ * @desc    Record the customer's answer to a quotation (decision ACCEPTED or REJECTED, note)
+ * @access  Private (Supervisor level and above)
+ */
+router.put(
+  '/:id/quotes/:quotationId/decision',
+  requireRoles([
+    UserRole.COMPANY_MANAGER,
+    UserRole.DEPUTY_MANAGER,
+    UserRole.DEPARTMENT_MANAGER,
+    UserRole.SECTION_SUPERVISOR
+  ]),
+  requireRequestAccess,
+  quotationController.recordQuotationDecision
+);
+
 export default router;
@@ -0,0 +1,67 @@
+import { Router } from 'express';
+import * as slaCalendarController from '../controllers/sla-calendar.controller';
+import { requireRoles } from '../middleware/auth';
+import { UserRole } from '../types';
+
+const router = Router();
+
+// SLA calendars affect every department's due dates, so only company-level managers manage them
+router.use(requireRoles([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER]));
+
+/**
+ * @route   GET /api/sla-calendars
+ * @desc    Get all SLA calendars with their holidays and departments
+ * @access  Private (Company and deputy managers)
+ */
+router.get('/', slaCalendarController.getCalendars);
+
+/**
+ * @route   GET /api/sla-calendars/:id
+ * @desc    Get a single SLA calendar
+ * @access  Private (Company and deputy managers)
+ */
+router.get('/:id', slaCalendarController.getCalendarById);
+
+/**
+ * @route   POST /api/sla-calendars
+ * @desc    Create an SLA calendar
+ * @access  Private (Company and deputy managers)
+ */
+router.post('/', slaCalendarController.createCalendar);
+
+/**
+ * @route   PUT /api/sla-calendars/:id
+ * @desc    Update an SLA calendar's working days, hours or timezone
+ * @access  Private (Company and deputy managers)
+ */
+router.put('/:id', slaCalendarController.updateCalendar);
+
+/**
+ * @route   DELETE /api/sla-calendars/:id
+ * @desc    Delete an SLA calendar
+ * @access  Private (Company and deputy managers)
+ */
+router.delete('/:id', slaCalendarController.deleteCalendar);
+
+/**
+ * @route   PUT /api/sla-calendars/:id/departments
+ * @desc    Set the departments that use an SLA calendar
+ * @access  Private (Company and deputy managers)
+ */
+router.put('/:id/departments', slaCalendarController.assignDepartments);
+
+/**
+ * @route   POST /api/sla-calendars/:id/holidays
+ * @desc    Add a holiday to an SLA calendar
+ * @access  Private (Company and deputy managers)
+ */
+router.post('/:id/holidays', slaCalendarController.addHoliday);
+
+/**
+ * @route   DELETE /api/sla-calendars/:id/holidays/:holidayId
+ * @desc    Remove a holiday from an SLA calendar
+ * @access  Private (Company and deputy managers)
+ */
+router.delete('/:id/holidays/:holidayId', slaCalendarController.deleteHoliday);
+
+export default router;
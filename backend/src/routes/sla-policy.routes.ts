@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import * as slaPolicyController from '../controllers/sla-policy.controller';
+import { requireRoles } from '../middleware/auth';
+import { UserRole } from '../types';
+
+const router = Router();
+
+router.use(requireRoles([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER]));
+
+/**
+ * @route   GET /api/sla-policies
+ * @desc    Get SLA policies (add ?includeInactive=true for deleted ones)
+ * @access  Private (Company and deputy managers)
+ */
+router.get('/', slaPolicyController.getPolicies);
+
+/**
+ * @route   GET /api/sla-policies/:id
+ * @desc    Get a single SLA policy
+ * @access  Private (Company and deputy managers)
+ */
+router.get('/:id', slaPolicyController.getPolicyById);
+
+/**
+ * @route   POST /api/sla-policies
+ * @desc    Create an SLA policy
+ * @access  Private (Company and deputy managers)
+ */
+router.post('/', slaPolicyController.createPolicy);
+
+/**
+ * @route   PUT /api/sla-policies/:id
+ * @desc    Update an SLA policy's match rules or target
+ * @access  Private (Company and deputy managers)
+ */
+router.put('/:id', slaPolicyController.updatePolicy);
+
+/**
+ * @route   DELETE /api/sla-policies/:id
+ * @desc    Delete an SLA policy (soft delete)
+ * @access  Private (Company and deputy managers)
+ */
+router.delete('/:id', slaPolicyController.deletePolicy);
+
+export default router;
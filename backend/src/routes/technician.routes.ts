@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import * as technicianController from '../controllers/technician.controller';
+import { requireRoles } from '../middleware/auth';
+import { UserRole } from '../types';
+
+const router = Router();
+
+const SUPERVISOR_ROLES = [
+  UserRole.COMPANY_MANAGER,
+  UserRole.DEPUTY_MANAGER,
+  UserRole.DEPARTMENT_MANAGER,
+  UserRole.SECTION_SUPERVISOR,
+];
+
+/**
+ * @route   GET /api/technicians
+ * @desc    Get technicians with skills, availability and leaves (?departmentId=, ?requestId= to match a request)
+ * @access  Private (Supervisor level and above)
+ */
+router.get('/', requireRoles(SUPERVISOR_ROLES), technicianController.getTechnicians);
+
+/**
+ * @route   GET /api/technicians/:id
+ * @desc    Get a technician's skills, certifications, availability and leaves
+ * @access  Private (Supervisor level and above, or the technician)
+ */
+router.get('/:id', requireRoles([...SUPERVISOR_ROLES, UserRole.TECHNICIAN]), technicianController.getTechnicianProfile);
+
+/**
+ * @route   PUT /api/technicians/:id/availability
+ * @desc    Mark a technician available or unavailable
+ * @access  Private (Supervisor level and above)
+ */
+router.put('/:id/availability', requireRoles(SUPERVISOR_ROLES), technicianController.updateAvailability);
+
+/**
+ * @route   POST /api/technicians/:id/skills
+ * @desc    Add a skill or certification (productCategory, brand, certification, certificationExpiresAt)
+ * @access  Private (Supervisor level and above)
+ */
+router.post('/:id/skills', requireRoles(SUPERVISOR_ROLES), technicianController.addSkill);
+
+/**
+ * @route   PUT /api/technicians/:id/skills/:skillId
+ * @desc    Update a skill or certification
+ * @access  Private (Supervisor level and above)
+ */
+router.put('/:id/skills/:skillId', requireRoles(SUPERVISOR_ROLES), technicianController.updateSkill);
+
+/**
+ * @route   DELETE /api/technicians/:id/skills/:skillId
+ * @desc    Remove a skill or certification
+ * @access  Private (Supervisor level and above)
+ */
+router.delete('/:id/skills/:skillId', requireRoles(SUPERVISOR_ROLES), technicianController.deleteSkill);
+
+/**
+ * @route   POST /api/technicians/:id/leaves
+ * @desc    Record a leave period (startDate, endDate, reason)
+ * @access  Private (Supervisor level and above)
+ */
+router.post('/:id/leaves', requireRoles(SUPERVISOR_ROLES), technicianController.addLeave);
+
+/**
+ * @route   DELETE /api/technicians/:id/leaves/:leaveId
+ * @desc    Remove a leave period
+ * @access  Private (Supervisor level and above)
+ */
+router.delete('/:id/leaves/:leaveId', requireRoles(SUPERVISOR_ROLES), technicianController.deleteLeave);
+
+export default router;
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import * as visitController from '../controllers/visit.controller';
+import { requireRoles } from '../middleware/auth';
+import { UserRole } from '../types';
+
+const router = Router();
+
+const SUPERVISOR_ROLES = [
+  UserRole.COMPANY_MANAGER,
+  UserRole.DEPUTY_MANAGER,
+  UserRole.DEPARTMENT_MANAGER,
+  UserRole.SECTION_SUPERVISOR,
+];
+
+/**
+ * @route   GET /api/visits
+ * @desc    Get visits between ?from= and ?to= for the calendar (?technicianId=, ?departmentId=, ?includeCancelled=true)
+ * @access  Private (Supervisor level and above; technicians get their own visits)
+ */
+router.get('/', requireRoles([...SUPERVISOR_ROLES, UserRole.TECHNICIAN]), visitController.getVisitCalendar);
+
+/**
+ * @route   PUT /api/visits/:id
+ * @desc    Reschedule a visit or change its technician or address
+ * @access  Private (Supervisor level and above)
+ */
+router.put('/:id', requireRoles(SUPERVISOR_ROLES), visitController.updateVisit);
+
+/**
+ * @route   PUT /api/visits/:id/outcome
+ * @desc    Record the outcome of a visit
+ * @access  Private (Supervisor level and above, or the visiting technician)
+ */
+router.put('/:id/outcome', requireRoles([...SUPERVISOR_ROLES, UserRole.TECHNICIAN]), visitController.recordVisitOutcome);
+
+/**
+ * @route   PUT /api/visits/:id/cancel
+ * @desc    Cancel a scheduled visit (reason required)
+ * @access  Private (Supervisor level and above)
+ */
+router.put('/:id/cancel', requireRoles(SUPERVISOR_ROLES), visitController.cancelVisit);
+
+export default router;
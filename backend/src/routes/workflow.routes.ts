@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import * as workflowController from '../controllers/workflow.controller';
+import { requireRoles } from '../middleware/auth';
+import { UserRole } from '../types';
+
+const router = Router();
+
+const workflowAdmins = requireRoles([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER]);
+
+/**
+ * @route   GET /api/workflow/transitions
+ * @desc    Get the configured status transitions
+ * @access  Private
+ */
+router.get('/transitions', workflowController.getTransitions);
+
+/**
+ * @route   POST /api/workflow/transitions
+ * @desc    Create a status transition
+ * @access  Private (Company and deputy managers)
+ */
+router.post('/transitions', workflowAdmins, workflowController.createTransition);
+
+/**
+ * @route   PUT /api/workflow/transitions/:id
+ * @desc    Update a status transition's roles, requirements or active flag
+ * @access  Private (Company and deputy managers)
+ */
+router.put('/transitions/:id', workflowAdmins, workflowController.updateTransition);
+
+/**
+ * @route   DELETE /api/workflow/transitions/:id
+ * @desc    Delete a status transition
+ * @access  Private (Company and deputy managers)
+ */
+router.delete('/transitions/:id', workflowAdmins, workflowController.deleteTransition);
+
+export default router;
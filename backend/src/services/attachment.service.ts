@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+import { prisma } from '../index';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../types';
+import { getFileStorage } from './file-storage.service';
+
+export enum AttachmentCategory {
+  PHOTO = 'PHOTO',
+  INVOICE = 'INVOICE',
+  DIAGNOSTIC = 'DIAGNOSTIC',
+  OTHER = 'OTHER',
+}
+
+// Accepted upload types and the extension they are stored with
+export const ALLOWED_ATTACHMENT_TYPES: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'application/pdf': '.pdf',
+  'text/plain': '.txt',
+};
+
+const isImage = (mimeType: string): boolean => mimeType.startsWith('image/');
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+const uploaderSelect = {
+  select: {
+    id: true,
+    firstName: true,
+    lastName: true,
+  },
+};
+
+// Reject files whose content does not match the declared type (a renamed executable is not a PDF)
+const validateContent = async (file: UploadedFile): Promise<void> => {
+  if (!ALLOWED_ATTACHMENT_TYPES[file.mimetype]) {
+    throw new ValidationError(`File type ${file.mimetype} is not allowed`);
+  }
+  if (file.size > config.maxFileSize) {
+    throw new ValidationError(`File ${file.originalname} exceeds the ${Math.round(config.maxFileSize / 1024 / 1024)}MB limit`);
+  }
+
+  if (isImage(file.mimetype)) {
+    try {
+      await sharp(file.buffer).metadata();
+    } catch {
+      throw new ValidationError(`File ${file.originalname} is not a valid image`);
+    }
+  } else if (file.mimetype === 'application/pdf' && file.buffer.subarray(0, 5).toString('latin1') !== '%PDF-') {
+    throw new ValidationError(`File ${file.originalname} is not a valid PDF`);
+  }
+};
+
+const createThumbnail = async (buffer: Buffer): Promise<Buffer> => {
+  return sharp(buffer)
+    .rotate() // honour EXIF orientation from phone cameras
+    .resize(config.attachmentThumbnailSize, config.attachmentThumbnailSize, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+};
+
+// List a request's attachments, newest first
+export const getRequestAttachments = async (requestId: number) => {
+  return prisma.requestAttachment.findMany({
+    where: { requestId },
+    include: { uploadedBy: uploaderSelect },
+    orderBy: { createdAt: 'desc' },
+  });
+};
+
+// Validate, store and record uploaded files for a request
+export const saveAttachments = async (
+  requestId: number,
+  uploadedById: number,
+  files: UploadedFile[],
+  options: { category?: string; description?: string }
+) => {
+  const category = options.category || AttachmentCategory.OTHER;
+  if (!Object.values(AttachmentCategory).includes(category as AttachmentCategory)) {
+    throw new ValidationError(`Invalid attachment category: ${category}`);
+  }
+
+  for (const file of files) {
+    await validateContent(file);
+  }
+
+  const storage = getFileStorage();
+  const attachments = [];
+
+  for (const file of files) {
+    const baseKey = `requests/${requestId}/${Date.now()}-${crypto.randomBytes(8).toString('hex')}`;
+    const storageKey = `${baseKey}${ALLOWED_ATTACHMENT_TYPES[file.mimetype]}`;
+    const savedKeys: string[] = [];
+
+    try {
+      await storage.save(storageKey, file.buffer);
+      savedKeys.push(storageKey);
+
+      let thumbnailKey: string | null = null;
+      if (isImage(file.mimetype)) {
+        try {
+          thumbnailKey = `${baseKey}.thumb.jpg`;
+          await storage.save(thumbnailKey, await createThumbnail(file.buffer));
+          savedKeys.push(thumbnailKey);
+        } catch (error) {
+          logger.warn(`Could not create thumbnail for ${file.originalname}:`, error);
+          thumbnailKey = null;
+        }
+      }
+
+      attachments.push(
+        await prisma.requestAttachment.create({
+          data: {
+            requestId,
+            uploadedById,
+            category,
+            originalName: path.basename(file.originalname),
+            mimeType: file.mimetype,
+            size: file.size,
+            storageKey,
+            thumbnailKey,
+            description: options.description || null,
+          },
+          include: { uploadedBy: uploaderSelect },
+        })
+      );
+    } catch (error) {
+      // Files without a record would never be listed or removed
+      for (const key of savedKeys) {
+        await storage.remove(key).catch(removeError => {
+          logger.warn(`Could not remove orphaned attachment file ${key}:`, removeError);
+        });
+      }
+      throw error;
+    }
+  }
+
+  return attachments;
+};
+
+export const getAttachment = async (requestId: number, attachmentId: number) => {
+  const attachment = await prisma.requestAttachment.findFirst({
+    where: { id: attachmentId, requestId },
+  });
+  if (!attachment) {
+    throw new NotFoundError('Attachment not found');
+  }
+  return attachment;
+};
+
+// Open the stored file (or its thumbnail) for streaming
+export const openAttachment = async (
+  attachment: { storageKey: string; thumbnailKey: string | null },
+  thumbnail: boolean = false
+) => {
+  const key = thumbnail ? attachment.thumbnailKey : attachment.storageKey;
+  if (!key) {
+    throw new NotFoundError('Attachment has no thumbnail');
+  }
+  return getFileStorage().read(key);
+};
+
+// Remove an attachment record and its stored files
+export const deleteAttachment = async (attachment: { id: number; storageKey: string; thumbnailKey: string | null }) => {
+  await prisma.requestAttachment.delete({ where: { id: attachment.id } });
+
+  const storage = getFileStorage();
+  try {
+    await storage.remove(attachment.storageKey);
+    if (attachment.thumbnailKey) {
+      await storage.remove(attachment.thumbnailKey);
+    }
+  } catch (error) {
+    logger.warn(`Attachment ${attachment.id} deleted but its files could not be removed:`, error);
+  }
+};
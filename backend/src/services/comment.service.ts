@@ -0,0 +1,266 @@
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import { NotFoundError, ValidationError, ForbiddenError, NotificationType, UserRole } from '../types';
+import { canAccessRequest, isManagerLevel } from '../middleware/auth';
+import { sendBulkNotifications } from './notification.service';
+
+export enum CommentVisibility {
+  INTERNAL = 'INTERNAL',
+  CUSTOMER = 'CUSTOMER',
+}
+
+const MAX_COMMENT_LENGTH = 5000;
+
+const authorSelect = {
+  select: {
+    id: true,
+    username: true,
+    firstName: true,
+    lastName: true,
+    role: true,
+  },
+};
+
+// Usernames referenced as @username in a comment body
+export const extractMentions = (body: string): string[] => {
+  const matches = body.match(/(?:^|[^\w@])@([\w.-]+)/g) || [];
+  const usernames = matches.map(match => match.slice(match.indexOf('@') + 1).replace(/[.-]+$/, ''));
+  return Array.from(new Set(usernames.filter(Boolean)));
+};
+
+const validateInput = (body: unknown, visibility: unknown): { body: string; visibility: CommentVisibility } => {
+  const text = typeof body === 'string' ? body.trim() : '';
+  if (!text) {
+    throw new ValidationError('Comment text is required');
+  }
+  if (text.length > MAX_COMMENT_LENGTH) {
+    throw new ValidationError(`Comment cannot be longer than ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  const value = (visibility || CommentVisibility.INTERNAL) as CommentVisibility;
+  if (!Object.values(CommentVisibility).includes(value)) {
+    throw new ValidationError(`Invalid comment visibility: ${visibility}`);
+  }
+
+  return { body: text, visibility: value };
+};
+
+// Hide the text of deleted comments; they stay in the thread so replies keep their context
+const present = <T extends { body: string; deletedAt: Date | null }>(comment: T): T => {
+  return comment.deletedAt ? { ...comment, body: '' } : comment;
+};
+
+// Notify mentioned users who can see the request (the author is never notified)
+const notifyMentions = async (
+  request: { id: number; requestNumber: string; departmentId: number; assignedTechnicianId: number | null; receivedById: number },
+  usernames: string[],
+  author: { id: number; firstName?: string; lastName?: string },
+  body: string
+): Promise<number> => {
+  if (usernames.length === 0) return 0;
+
+  const users = await prisma.user.findMany({
+    where: { username: { in: usernames }, isActive: true, id: { not: author.id } },
+    select: { id: true, role: true, departmentId: true },
+  });
+
+  const recipients = users
+    .filter(user => canAccessRequest({ ...user, role: user.role as UserRole }, request))
+    .map(user => user.id);
+
+  if (recipients.length > 0) {
+    const excerpt = body.length > 200 ? `${body.slice(0, 200)}…` : body;
+    await sendBulkNotifications(
+      recipients,
+      `إشارة في الطلب ${request.requestNumber}`,
+      `${author.firstName || ''} ${author.lastName || ''}: ${excerpt}`.trim(),
+      NotificationType.MENTION,
+      request.id
+    );
+  }
+
+  return recipients.length;
+};
+
+const getRequestForComments = async (requestId: number) => {
+  const request = await prisma.request.findUnique({
+    where: { id: requestId },
+    select: {
+      id: true,
+      requestNumber: true,
+      departmentId: true,
+      assignedTechnicianId: true,
+      receivedById: true,
+    },
+  });
+  if (!request) {
+    throw new NotFoundError('Request not found');
+  }
+  return request;
+};
+
+// Comments of a request as threads: top-level comments oldest first, each with its replies
+export const getRequestComments = async (requestId: number) => {
+  const comments = await prisma.requestComment.findMany({
+    where: { requestId, parentId: null },
+    orderBy: { createdAt: 'asc' },
+    include: {
+      author: authorSelect,
+      _count: { select: { revisions: true } },
+      replies: {
+        orderBy: { createdAt: 'asc' },
+        include: {
+          author: authorSelect,
+          _count: { select: { revisions: true } },
+        },
+      },
+    },
+  });
+
+  return comments.map(comment => ({
+    ...present(comment),
+    replies: comment.replies.map(present),
+  }));
+};
+
+// Add a comment or a reply; replies to a reply join the top-level thread
+export const createComment = async (
+  requestId: number,
+  author: { id: number; firstName?: string; lastName?: string },
+  input: { body: unknown; visibility?: unknown; parentId?: unknown }
+) => {
+  const { body, visibility } = validateInput(input.body, input.visibility);
+  const request = await getRequestForComments(requestId);
+
+  let parentId: number | null = null;
+  if (input.parentId) {
+    const parent = await prisma.requestComment.findFirst({
+      where: { id: Number(input.parentId), requestId },
+      select: { id: true, parentId: true },
+    });
+    if (!parent) {
+      throw new ValidationError('Parent comment not found on this request');
+    }
+    parentId = parent.parentId ?? parent.id;
+  }
+
+  const comment = await prisma.requestComment.create({
+    data: { requestId, authorId: author.id, parentId, body, visibility },
+    include: { author: authorSelect },
+  });
+
+  const mentioned = await notifyMentions(request, extractMentions(body), author, body);
+  if (mentioned > 0) {
+    logger.info(`Comment ${comment.id} on request ${request.requestNumber} mentioned ${mentioned} user(s)`);
+  }
+
+  return comment;
+};
+
+const getComment = async (requestId: number, commentId: number) => {
+  const comment = await prisma.requestComment.findFirst({ where: { id: commentId, requestId } });
+  if (!comment || comment.deletedAt) {
+    throw new NotFoundError('Comment not found');
+  }
+  return comment;
+};
+
+// Edit a comment (author only), keeping the previous text as a revision
+export const updateComment = async (
+  requestId: number,
+  commentId: number,
+  editor: { id: number; firstName?: string; lastName?: string },
+  input: { body: unknown; visibility?: unknown }
+) => {
+  const existing = await getComment(requestId, commentId);
+  if (existing.authorId !== editor.id) {
+    throw new ForbiddenError('Only the author can edit a comment');
+  }
+
+  const { body, visibility } = validateInput(input.body, input.visibility ?? existing.visibility);
+
+  const [, comment] = await prisma.$transaction([
+    prisma.requestCommentRevision.create({
+      data: {
+        commentId,
+        action: 'EDITED',
+        body: existing.body,
+        visibility: existing.visibility,
+        changedById: editor.id,
+      },
+    }),
+    prisma.requestComment.update({
+      where: { id: commentId },
+      data: { body, visibility, editedAt: new Date() },
+      include: { author: authorSelect },
+    }),
+  ]);
+
+  // Only people newly mentioned by the edit are notified
+  const previous = new Set(extractMentions(existing.body));
+  const added = extractMentions(body).filter(username => !previous.has(username));
+  await notifyMentions(await getRequestForComments(requestId), added, editor, body);
+
+  return comment;
+};
+
+// Soft-delete a comment (author, or manager level), keeping its text as a revision
+export const deleteComment = async (
+  requestId: number,
+  commentId: number,
+  user: { id: number; role: UserRole }
+) => {
+  const existing = await getComment(requestId, commentId);
+  if (existing.authorId !== user.id && !isManagerLevel(user.role)) {
+    throw new ForbiddenError('Cannot delete this comment');
+  }
+
+  await prisma.$transaction([
+    prisma.requestCommentRevision.create({
+      data: {
+        commentId,
+        action: 'DELETED',
+        body: existing.body,
+        visibility: existing.visibility,
+        changedById: user.id,
+      },
+    }),
+    prisma.requestComment.update({
+      where: { id: commentId },
+      data: { deletedAt: new Date() },
+    }),
+  ]);
+};
+
+// Edit and delete history of a comment, newest first (author or manager level, since it
+// includes the text of deleted comments)
+export const getCommentHistory = async (
+  requestId: number,
+  commentId: number,
+  user: { id: number; role: UserRole }
+) => {
+  const comment = await prisma.requestComment.findFirst({
+    where: { id: commentId, requestId },
+    select: { id: true, authorId: true },
+  });
+  if (!comment) {
+    throw new NotFoundError('Comment not found');
+  }
+  if (comment.authorId !== user.id && !isManagerLevel(user.role)) {
+    throw new ForbiddenError('Cannot view the history of this comment');
+  }
+
+  return prisma.requestCommentRevision.findMany({
+    where: { commentId },
+    orderBy: { createdAt: 'desc' },
+    include: {
+      changedBy: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+  });
+};
@@ -0,0 +1,131 @@
+import { prisma } from '../index';
+import { CostType, RequestStatus, ValidationError, WarrantyStatus } from '../types';
+import { WarrantyResolution } from './warranty.service';
+
+export enum ContractKind {
+  EXTENDED_WARRANTY = 'EXTENDED_WARRANTY',
+  MAINTENANCE = 'MAINTENANCE',
+}
+
+export enum ContractScope {
+  CUSTOMER = 'CUSTOMER', // every request of the customer
+  UNITS = 'UNITS', // only requests on the listed installed units
+}
+
+export enum ContractStatus {
+  ACTIVE = 'ACTIVE',
+  CANCELLED = 'CANCELLED',
+}
+
+// Requests that do not use up a visit of the contract
+export const UNCOUNTED_STATUSES: string[] = [RequestStatus.CANCELLED, RequestStatus.REJECTED];
+
+export const contractInclude = {
+  type: { select: { id: true, name: true, kind: true } },
+  customer: { select: { id: true, name: true, phone: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+  units: {
+    select: {
+      unit: { select: { id: true, serialNumber: true, product: { select: { id: true, name: true, model: true } } } },
+    },
+  },
+};
+
+export interface ContractCoverage {
+  id: number;
+  contractNumber: string;
+  kind: string;
+  typeName: string;
+  endDate: Date;
+  coveredCostTypes: CostType[];
+  visitsIncluded: number | null;
+  visitsUsed: number;
+}
+
+export const parseCostTypes = (value: string): CostType[] => {
+  return value.split(',').map(type => type.trim()).filter(Boolean) as CostType[];
+};
+
+// Validate a list of cost types and convert it to its stored form
+export const formatCostTypes = (value: unknown): string => {
+  const types = Array.isArray(value) ? value : String(value ?? '').split(',');
+  const cleaned = Array.from(new Set(types.map(type => String(type).trim()).filter(Boolean)));
+  const invalid = cleaned.filter(type => !Object.values(CostType).includes(type as CostType));
+  if (invalid.length > 0) {
+    throw new ValidationError(`Invalid cost type: ${invalid.join(', ')}`);
+  }
+  return cleaned.join(',');
+};
+
+// Requests already raised under a contract, each one uses a visit
+export const countContractVisits = async (contractId: number): Promise<number> => {
+  return prisma.request.count({
+    where: { contractId, status: { notIn: UNCOUNTED_STATUSES } },
+  });
+};
+
+// Active contract covering a customer's request on a given day; a contract listing the unit wins over a customer-wide one
+export const findActiveCoverage = async (
+  customerId: number,
+  installedUnitId: number | null,
+  at: Date = new Date()
+): Promise<ContractCoverage | null> => {
+  // Dates are stored as midnight UTC, so the end day itself is still covered (as for warranty expiry)
+  const day = new Date(at.toISOString().slice(0, 10));
+  const contracts = await prisma.serviceContract.findMany({
+    where: {
+      customerId,
+      status: ContractStatus.ACTIVE,
+      startDate: { lte: at },
+      endDate: { gte: day },
+      OR: [
+        { scope: ContractScope.CUSTOMER },
+        ...(installedUnitId ? [{ scope: ContractScope.UNITS, units: { some: { unitId: installedUnitId } } }] : []),
+      ],
+    },
+    include: { type: { select: { name: true, kind: true } } },
+    orderBy: { endDate: 'desc' },
+  });
+
+  const ordered = [
+    ...contracts.filter(contract => contract.scope === ContractScope.UNITS),
+    ...contracts.filter(contract => contract.scope !== ContractScope.UNITS),
+  ];
+
+  for (const contract of ordered) {
+    const visitsUsed = await countContractVisits(contract.id);
+    if (contract.visitsIncluded !== null && visitsUsed >= contract.visitsIncluded) {
+      continue;
+    }
+    return {
+      id: contract.id,
+      contractNumber: contract.contractNumber,
+      kind: contract.type.kind,
+      typeName: contract.type.name,
+      endDate: contract.endDate,
+      coveredCostTypes: parseCostTypes(contract.coveredCostTypes),
+      visitsIncluded: contract.visitsIncluded,
+      visitsUsed,
+    };
+  }
+
+  return null;
+};
+
+// An extended warranty contract keeps the request under warranty until the contract ends
+export const applyContractWarranty = (
+  warranty: WarrantyResolution,
+  coverage: Pick<ContractCoverage, 'kind' | 'contractNumber' | 'endDate'> | null
+): WarrantyResolution => {
+  if (!coverage || coverage.kind !== ContractKind.EXTENDED_WARRANTY || warranty.status === WarrantyStatus.UNDER_WARRANTY) {
+    return warranty;
+  }
+
+  return {
+    ...warranty,
+    status: WarrantyStatus.UNDER_WARRANTY,
+    expiresAt: coverage.endDate,
+    reason: `Covered by extended warranty contract ${coverage.contractNumber} until ${coverage.endDate.toISOString().slice(0, 10)}`,
+  };
+};
+
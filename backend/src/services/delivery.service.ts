@@ -0,0 +1,371 @@
+import { prisma } from '../index';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { NotFoundError, NotificationType } from '../types';
+import { getDisabledChannels, getQuietHoursEnd } from './notification-preference.service';
+
+export enum DeliveryStatus {
+  PENDING = 'PENDING',
+  HELD = 'HELD', // waiting for the user's daily digest
+  SENT = 'SENT',
+  FAILED = 'FAILED',
+  DIGESTED = 'DIGESTED', // folded into a digest delivery
+}
+
+export interface DeliveryContent {
+  title: string;
+  message: string;
+  type: NotificationType;
+  requestId?: number | null;
+  requestNumber?: string | null;
+}
+
+export interface DeliveryRecipient {
+  id: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+// An external delivery channel; database notifications are always written, channels are extra
+export interface DeliveryChannel {
+  name: string;
+  maxAttempts: number;
+  isEnabled: () => boolean;
+  getAddress: (user: DeliveryRecipient) => string | null;
+  render: (content: DeliveryContent, user: DeliveryRecipient) => { subject: string; body: string };
+  // Channels that can batch several notifications support the daily digest
+  renderDigest?: (contents: DeliveryContent[], user: DeliveryRecipient) => { subject: string; body: string };
+  send: (recipient: string, subject: string, body: string) => Promise<void>;
+}
+
+const channels = new Map<string, DeliveryChannel>();
+
+// Register a delivery channel (call once at startup)
+export const registerChannel = (channel: DeliveryChannel): void => {
+  channels.set(channel.name, channel);
+};
+
+export const getChannels = (): DeliveryChannel[] => Array.from(channels.values());
+
+// Queue outbox entries for every enabled channel, honouring each user's preferences,
+// quiet hours and daily digest setting
+export const queueDeliveries = async (
+  notifications: Array<{ id?: number; userId: number }>,
+  content: DeliveryContent
+): Promise<number> => {
+  const enabledChannels = getChannels().filter(channel => channel.isEnabled());
+  if (enabledChannels.length === 0 || notifications.length === 0) {
+    return 0;
+  }
+
+  try {
+    if (content.requestId && !content.requestNumber) {
+      const request = await prisma.request.findUnique({
+        where: { id: content.requestId },
+        select: { requestNumber: true },
+      });
+      content = { ...content, requestNumber: request?.requestNumber };
+    }
+
+    const users = await prisma.user.findMany({
+      where: {
+        id: { in: notifications.map(notification => notification.userId) },
+        isActive: true,
+      },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        quietHoursStart: true,
+        quietHoursEnd: true,
+        dailyDigest: true,
+      },
+    });
+    const disabledChannels = await getDisabledChannels(users.map(user => user.id), content.type);
+
+    const data = [];
+    for (const notification of notifications) {
+      const user = users.find(u => u.id === notification.userId);
+      if (!user) continue;
+
+      const quietHoursEnd = getQuietHoursEnd(user);
+
+      for (const channel of enabledChannels) {
+        if (disabledChannels.get(user.id)?.has(channel.name)) continue;
+
+        const recipient = channel.getAddress(user);
+        if (!recipient) continue;
+
+        const { subject, body } = channel.render(content, user);
+        data.push({
+          notificationId: notification.id ?? null,
+          userId: user.id,
+          channel: channel.name,
+          recipient,
+          subject,
+          body,
+          status: user.dailyDigest && channel.renderDigest ? DeliveryStatus.HELD : DeliveryStatus.PENDING,
+          nextAttemptAt: quietHoursEnd ?? new Date(),
+        });
+      }
+    }
+
+    if (data.length > 0) {
+      await prisma.notificationDelivery.createMany({ data });
+    }
+
+    return data.length;
+  } catch (error) {
+    logger.error('Error queueing notification deliveries:', error);
+    return 0;
+  }
+};
+
+// Queue an email (or other channel message) to a customer; customers have no preferences,
+// quiet hours or digests, so only the enabled channels and a known address matter
+export const queueCustomerDelivery = async (
+  customer: { id: number; name: string; email: string | null },
+  content: DeliveryContent
+): Promise<number> => {
+  const enabledChannels = getChannels().filter(channel => channel.isEnabled());
+  if (enabledChannels.length === 0 || !customer.email) {
+    return 0;
+  }
+
+  try {
+    const recipient: DeliveryRecipient = { id: customer.id, email: customer.email, firstName: customer.name, lastName: '' };
+    const data = [];
+    for (const channel of enabledChannels) {
+      const address = channel.getAddress(recipient);
+      if (!address) continue;
+
+      const { subject, body } = channel.render(content, recipient);
+      data.push({ customerId: customer.id, channel: channel.name, recipient: address, subject, body });
+    }
+
+    if (data.length > 0) {
+      await prisma.notificationDelivery.createMany({ data });
+    }
+
+    return data.length;
+  } catch (error) {
+    logger.error('Error queueing customer delivery:', error);
+    return 0;
+  }
+};
+
+// Delay before the next attempt: base delay doubled after each failure
+const getBackoffMs = (attempts: number): number => {
+  return config.emailRetryBaseMs * Math.pow(2, Math.max(attempts - 1, 0));
+};
+
+const attemptDelivery = async (delivery: {
+  id: number;
+  channel: string;
+  recipient: string;
+  subject: string;
+  body: string;
+  attempts: number;
+}) => {
+  const channel = channels.get(delivery.channel);
+  const attempts = delivery.attempts + 1;
+
+  try {
+    if (!channel) {
+      throw new Error(`Delivery channel ${delivery.channel} is not registered`);
+    }
+
+    await channel.send(delivery.recipient, delivery.subject, delivery.body);
+
+    return prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: DeliveryStatus.SENT,
+        attempts,
+        sentAt: new Date(),
+        lastError: null,
+      },
+    });
+  } catch (error: any) {
+    const maxAttempts = channel?.maxAttempts ?? 1;
+    const failed = attempts >= maxAttempts;
+
+    logger.warn(`Delivery ${delivery.id} via ${delivery.channel} failed (attempt ${attempts}/${maxAttempts}): ${error?.message}`);
+
+    return prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: failed ? DeliveryStatus.FAILED : DeliveryStatus.PENDING,
+        attempts,
+        lastError: error?.message || String(error),
+        nextAttemptAt: new Date(Date.now() + getBackoffMs(attempts)),
+      },
+    });
+  }
+};
+
+// Send pending deliveries that are due (outbox job)
+export const processOutbox = async (batchSize: number = 50) => {
+  const due = await prisma.notificationDelivery.findMany({
+    where: {
+      status: DeliveryStatus.PENDING,
+      nextAttemptAt: { lte: new Date() },
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: batchSize,
+  });
+
+  let sent = 0;
+  let failed = 0;
+  for (const delivery of due) {
+    const result = await attemptDelivery(delivery);
+    if (result.status === DeliveryStatus.SENT) {
+      sent++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { processed: due.length, sent, failed };
+};
+
+// Fold each user's held deliveries into a single digest delivery per channel (daily digest job)
+export const sendDailyDigests = async () => {
+  // Only staff deliveries are held; customer emails are sent right away
+  const held = await prisma.notificationDelivery.findMany({
+    where: { status: DeliveryStatus.HELD, userId: { not: null } },
+    orderBy: { createdAt: 'asc' },
+    include: {
+      notification: {
+        select: {
+          title: true,
+          message: true,
+          type: true,
+          requestId: true,
+          request: { select: { requestNumber: true } },
+        },
+      },
+      user: {
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          quietHoursStart: true,
+          quietHoursEnd: true,
+        },
+      },
+    },
+  });
+
+  const groups = new Map<string, typeof held>();
+  held.forEach(delivery => {
+    const key = `${delivery.userId}:${delivery.channel}`;
+    groups.set(key, [...(groups.get(key) || []), delivery]);
+  });
+
+  let digests = 0;
+  for (const deliveries of Array.from(groups.values())) {
+    const { user, channel: channelName } = deliveries[0];
+    const channel = channels.get(channelName);
+    const ids = deliveries.map(delivery => delivery.id);
+    if (!user) continue;
+
+    // The channel no longer batches: release the held entries as they are
+    if (!channel?.renderDigest) {
+      await prisma.notificationDelivery.updateMany({
+        where: { id: { in: ids } },
+        data: { status: DeliveryStatus.PENDING, nextAttemptAt: new Date() },
+      });
+      continue;
+    }
+
+    const contents: DeliveryContent[] = deliveries.map(delivery => ({
+      title: delivery.notification?.title ?? delivery.subject,
+      message: delivery.notification?.message ?? '',
+      type: (delivery.notification?.type as NotificationType) ?? NotificationType.STATUS_CHANGE,
+      requestId: delivery.notification?.requestId,
+      requestNumber: delivery.notification?.request?.requestNumber,
+    }));
+    const { subject, body } = channel.renderDigest(contents, user);
+
+    await prisma.$transaction([
+      prisma.notificationDelivery.create({
+        data: {
+          userId: user.id,
+          channel: channelName,
+          recipient: deliveries[deliveries.length - 1].recipient,
+          subject,
+          body,
+          nextAttemptAt: getQuietHoursEnd(user) ?? new Date(),
+        },
+      }),
+      prisma.notificationDelivery.updateMany({
+        where: { id: { in: ids } },
+        data: { status: DeliveryStatus.DIGESTED },
+      }),
+    ]);
+    digests++;
+  }
+
+  logger.info(`Daily digest: ${held.length} held deliveries folded into ${digests} digests`);
+  return { held: held.length, digests };
+};
+
+// List outbox entries for delivery status tracking
+export const getDeliveries = async (
+  filters: { status?: string; channel?: string; userId?: number; notificationId?: number },
+  page: number = 1,
+  limit: number = 20
+) => {
+  const where: any = {};
+  if (filters.status) where.status = filters.status;
+  if (filters.channel) where.channel = filters.channel;
+  if (filters.userId) where.userId = filters.userId;
+  if (filters.notificationId) where.notificationId = filters.notificationId;
+
+  const [deliveries, total] = await Promise.all([
+    prisma.notificationDelivery.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        notificationId: true,
+        channel: true,
+        recipient: true,
+        subject: true,
+        status: true,
+        attempts: true,
+        nextAttemptAt: true,
+        lastError: true,
+        sentAt: true,
+        createdAt: true,
+        user: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        customer: { select: { id: true, name: true } },
+      },
+    }),
+    prisma.notificationDelivery.count({ where }),
+  ]);
+
+  return { deliveries, total };
+};
+
+// Put a failed delivery back in the queue and try it now
+export const retryDelivery = async (id: number) => {
+  const delivery = await prisma.notificationDelivery.findUnique({ where: { id } });
+  if (!delivery) {
+    throw new NotFoundError('Delivery not found');
+  }
+
+  return attemptDelivery({ ...delivery, attempts: delivery.status === DeliveryStatus.FAILED ? 0 : delivery.attempts });
+};
@@ -0,0 +1,296 @@
+import { DepartmentRoutingRule } from '@prisma/client';
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import { ValidationError } from '../types';
+import { seedOnce } from './seed.service';
+
+export interface RoutingCriteria {
+  description: string;
+  productCategory?: string | null;
+  customerCity?: string | null;
+}
+
+export interface RuleEvaluation {
+  ruleId: number;
+  name: string;
+  departmentId: number;
+  priority: number;
+  matched: boolean;
+  // Condition that failed, or the keyword / pattern that matched
+  detail: string;
+}
+
+export interface RoutingResult {
+  departmentId: number | null;
+  rule: DepartmentRoutingRule | null;
+  reason: string;
+  evaluations: RuleEvaluation[];
+}
+
+// Rules created the first time routing is used; departments are looked up by name
+const DEFAULT_RULES = [
+  {
+    name: 'LG home appliances',
+    department: 'LG Maintenance',
+    keywords: 'tv, television, refrigerator, fridge, washing, dishwasher, air condition, lg, تلفزيون, شاشة, براد, ثلاجة, غسالة, جلاية, مكيف, تكييف',
+    priority: 10,
+  },
+  {
+    name: 'Solar energy',
+    department: 'Solar Energy',
+    keywords: 'solar, panel, inverter, طاقة شمسية, الواح, لوح, انفرتر, بطارية',
+    priority: 20,
+  },
+  {
+    name: 'TP-Link networking',
+    department: 'TP-Link',
+    keywords: 'tp-link, tplink, router, wifi, wi-fi, access point, راوتر, موجه, واي فاي, انترنت, شبكة',
+    priority: 30,
+  },
+  {
+    name: 'Epson printers',
+    department: 'Epson',
+    keywords: 'printer, epson, scanner, طابعة, ابسون, حبر, سكانر',
+    priority: 40,
+  },
+];
+const DEFAULT_DEPARTMENT = 'LG Maintenance';
+
+// Lowercase and fold Arabic spelling variants so "الطابعة" and "الطابعه" compare equal
+export const normalizeText = (value: string): string => {
+  return value
+    .toLowerCase()
+    .replace(/[\u064B-\u065F\u0670\u0640]/g, '') // diacritics and tatweel
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+export const parseKeywords = (keywords: string | null): string[] => {
+  if (!keywords) return [];
+  return keywords.split(/[,\n،]/).map(keyword => normalizeText(keyword)).filter(Boolean);
+};
+
+// Limits that keep admin-defined patterns from stalling request creation
+const MAX_PATTERN_LENGTH = 200;
+const MAX_MATCHED_DESCRIPTION_LENGTH = 2000;
+
+// Reject patterns prone to catastrophic backtracking: a repeated group that contains a quantifier,
+// such as (a+)+ or (\w*)*, or an alternation, such as (a|a)+, and backreferences
+const findUnsafePatternConstruct = (pattern: string): string | null => {
+  const groups: Array<{ hasQuantifier: boolean; hasAlternation: boolean }> = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] || '')) {
+        return 'backreferences are not allowed';
+      }
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (char === ']') inClass = false;
+      continue;
+    }
+
+    const current = groups[groups.length - 1];
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push({ hasQuantifier: false, hasAlternation: false });
+    } else if (char === ')') {
+      const group = groups.pop() || { hasQuantifier: false, hasAlternation: false };
+      const next = pattern[i + 1];
+      const repeated = next === '+' || next === '*' || next === '{';
+      if (repeated && group.hasQuantifier) {
+        return 'nested quantifiers are not allowed';
+      }
+      if (repeated && group.hasAlternation) {
+        return 'alternation inside a repeated group is not allowed';
+      }
+      // The enclosing group inherits what this group contains
+      const parent = groups[groups.length - 1];
+      if (parent) {
+        parent.hasQuantifier = parent.hasQuantifier || group.hasQuantifier || repeated;
+        parent.hasAlternation = parent.hasAlternation || group.hasAlternation;
+      }
+    } else if (char === '|' && current) {
+      current.hasAlternation = true;
+    } else if ((char === '+' || char === '*' || char === '{' || (char === '?' && pattern[i - 1] !== '(')) && current) {
+      // A "?" right after "(" opens a group modifier such as (?: rather than making something optional
+      current.hasQuantifier = true;
+    }
+  }
+
+  return null;
+};
+
+// Check a rule before saving it; a regular rule needs a condition, the default rule takes none
+export const validateRoutingRule = (rule: Partial<DepartmentRoutingRule>): void => {
+  const hasCondition = parseKeywords(rule.keywords || null).length > 0
+    || !!rule.pattern || !!rule.productCategory || !!rule.customerCity;
+
+  if (rule.isDefault && hasCondition) {
+    throw new ValidationError('The default rule matches every request and cannot have conditions');
+  }
+
+  if (!rule.isDefault && !hasCondition) {
+    throw new ValidationError('Set at least one of keywords, pattern, product category or customer city');
+  }
+
+  if (rule.pattern) {
+    if (rule.pattern.length > MAX_PATTERN_LENGTH) {
+      throw new ValidationError(`Pattern must be at most ${MAX_PATTERN_LENGTH} characters`);
+    }
+    try {
+      new RegExp(rule.pattern, 'iu');
+    } catch {
+      throw new ValidationError(`Invalid pattern: ${rule.pattern}`);
+    }
+    const unsafe = findUnsafePatternConstruct(rule.pattern);
+    if (unsafe) {
+      throw new ValidationError(`Unsafe pattern: ${unsafe}`);
+    }
+  }
+};
+
+const evaluateRule = (rule: DepartmentRoutingRule, criteria: RoutingCriteria): { matched: boolean; detail: string } => {
+  const description = normalizeText(criteria.description || '');
+  const details: string[] = [];
+
+  if (rule.productCategory) {
+    if (normalizeText(rule.productCategory) !== normalizeText(criteria.productCategory || '')) {
+      return { matched: false, detail: `product category is not "${rule.productCategory}"` };
+    }
+    details.push(`product category "${rule.productCategory}"`);
+  }
+
+  if (rule.customerCity) {
+    if (normalizeText(rule.customerCity) !== normalizeText(criteria.customerCity || '')) {
+      return { matched: false, detail: `customer city is not "${rule.customerCity}"` };
+    }
+    details.push(`customer city "${rule.customerCity}"`);
+  }
+
+  const keywords = parseKeywords(rule.keywords);
+  if (keywords.length > 0) {
+    const keyword = keywords.find(item => description.includes(item));
+    if (!keyword) {
+      return { matched: false, detail: 'no keyword found in the description' };
+    }
+    details.push(`keyword "${keyword}"`);
+  }
+
+  if (rule.pattern) {
+    // Patterns saved before the safety checks existed are not run
+    const unsafe = findUnsafePatternConstruct(rule.pattern);
+    if (unsafe) {
+      logger.warn(`Routing rule ${rule.id} has an unsafe pattern (${unsafe}), skipping it`);
+      return { matched: false, detail: `pattern is unsafe: ${unsafe}` };
+    }
+
+    let match: RegExpMatchArray | null = null;
+    try {
+      // Bounded input keeps the remaining polynomial cases cheap
+      match = (criteria.description || '').slice(0, MAX_MATCHED_DESCRIPTION_LENGTH).match(new RegExp(rule.pattern, 'iu'));
+    } catch {
+      logger.warn(`Routing rule ${rule.id} has an invalid pattern: ${rule.pattern}`);
+    }
+    if (!match) {
+      return { matched: false, detail: 'pattern does not match the description' };
+    }
+    details.push(`pattern matched "${match[0]}"`);
+  }
+
+  return { matched: true, detail: details.join(', ') };
+};
+
+// Seed rules equivalent to the old built-in keyword matching once, when routing is first used;
+// deleting every rule later does not bring them back
+export const ensureDefaultRoutingRules = async (): Promise<void> => {
+  // Wait for departments before seeding, or the seed would be marked done with no rules
+  if (await prisma.department.count() === 0) return;
+
+  await seedOnce('routing-rules', async tx => {
+    // Databases that had rules before the seed marker existed keep them
+    if (await tx.departmentRoutingRule.count() > 0) return;
+
+    const departments = await tx.department.findMany({ orderBy: { id: 'asc' } });
+    const byName = new Map(departments.map(department => [department.name, department.id]));
+    const rules = DEFAULT_RULES
+      .filter(rule => byName.has(rule.department))
+      .map(rule => ({
+        name: rule.name,
+        departmentId: byName.get(rule.department)!,
+        keywords: rule.keywords,
+        priority: rule.priority,
+      }));
+
+    await tx.departmentRoutingRule.createMany({
+      data: [
+        ...rules,
+        {
+          name: 'Default department',
+          departmentId: byName.get(DEFAULT_DEPARTMENT) || departments[0].id,
+          priority: 1000,
+          isDefault: true,
+        },
+      ],
+    });
+
+    logger.info(`Seeded ${rules.length + 1} default department routing rules`);
+  });
+};
+
+// Find the department for a request: the first matching rule by priority, else the default rule
+export const resolveDepartment = async (criteria: RoutingCriteria): Promise<RoutingResult> => {
+  await ensureDefaultRoutingRules();
+
+  const rules = await prisma.departmentRoutingRule.findMany({
+    where: { isActive: true },
+    orderBy: [{ priority: 'asc' }, { id: 'asc' }],
+  });
+
+  const evaluations: RuleEvaluation[] = [];
+  let matchedRule: DepartmentRoutingRule | null = null;
+  let reason = '';
+
+  for (const rule of rules.filter(item => !item.isDefault)) {
+    const { matched, detail } = evaluateRule(rule, criteria);
+    evaluations.push({ ruleId: rule.id, name: rule.name, departmentId: rule.departmentId, priority: rule.priority, matched, detail });
+    if (matched) {
+      matchedRule = rule;
+      reason = `Routing rule "${rule.name}" matched on ${detail}`;
+      break;
+    }
+  }
+
+  if (!matchedRule) {
+    matchedRule = rules.find(rule => rule.isDefault) || null;
+    if (matchedRule) {
+      reason = `No routing rule matched; default rule "${matchedRule.name}" applied`;
+      evaluations.push({
+        ruleId: matchedRule.id,
+        name: matchedRule.name,
+        departmentId: matchedRule.departmentId,
+        priority: matchedRule.priority,
+        matched: true,
+        detail: 'default rule',
+      });
+    } else {
+      reason = 'No routing rule matched and no default rule is configured';
+    }
+  }
+
+  return {
+    departmentId: matchedRule?.departmentId ?? null,
+    rule: matchedRule,
+    reason,
+    evaluations,
+  };
+};
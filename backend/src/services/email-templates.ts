@@ -0,0 +1,160 @@
+import { config } from '../config/config';
+import { NotificationType } from '../types';
+import { DeliveryContent } from './delivery.service';
+
+interface TemplateText {
+  heading: { ar: string; en: string };
+  color: string;
+}
+
+// Heading and accent colour per notification type
+const TEMPLATES: Record<NotificationType, TemplateText> = {
+  [NotificationType.ASSIGNMENT]: {
+    heading: { ar: 'تم تعيين طلب لك', en: 'A request was assigned to you' },
+    color: '#2563eb',
+  },
+  [NotificationType.OVERDUE]: {
+    heading: { ar: 'طلب متأخر', en: 'Request overdue' },
+    color: '#dc2626',
+  },
+  [NotificationType.SLA_WARNING]: {
+    heading: { ar: 'تحذير مستوى الخدمة', en: 'SLA warning' },
+    color: '#ea580c',
+  },
+  [NotificationType.STATUS_CHANGE]: {
+    heading: { ar: 'تم تحديث حالة الطلب', en: 'Request status updated' },
+    color: '#ca8a04',
+  },
+  [NotificationType.COMPLETION]: {
+    heading: { ar: 'تم إكمال الطلب', en: 'Request completed' },
+    color: '#16a34a',
+  },
+  [NotificationType.READ_RECEIPT]: {
+    heading: { ar: 'تمت قراءة الإشعار', en: 'Notification read' },
+    color: '#6b7280',
+  },
+  [NotificationType.WAREHOUSE_UPDATE]: {
+    heading: { ar: 'تحديث المستودع', en: 'Warehouse update' },
+    color: '#7c3aed',
+  },
+  [NotificationType.PRODUCT_ADDED]: {
+    heading: { ar: 'تمت إضافة منتج', en: 'Product added' },
+    color: '#0891b2',
+  },
+  [NotificationType.MENTION]: {
+    heading: { ar: 'تمت الإشارة إليك في تعليق', en: 'You were mentioned in a comment' },
+    color: '#db2777',
+  },
+  [NotificationType.CERTIFICATION_EXPIRY]: {
+    heading: { ar: 'شهادة فني على وشك الانتهاء', en: 'Technician certification expiring' },
+    color: '#ea580c',
+  },
+  [NotificationType.VISIT]: {
+    heading: { ar: 'موعد زيارة الصيانة', en: 'Maintenance visit appointment' },
+    color: '#0d9488',
+  },
+  [NotificationType.QUOTATION]: {
+    heading: { ar: 'رد العميل على عرض السعر', en: 'Customer answered a quotation' },
+    color: '#4f46e5',
+  },
+};
+
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+// Render a bilingual (Arabic first, then English) HTML email for a notification
+export const renderNotificationEmail = (
+  content: DeliveryContent,
+  recipientName: string
+): { subject: string; body: string } => {
+  const template = TEMPLATES[content.type] || TEMPLATES[NotificationType.STATUS_CHANGE];
+  const requestLabel = content.requestNumber ? ` – ${content.requestNumber}` : '';
+  const requestLink = content.requestId
+    ? `${config.appUrl.replace(/\/$/, '')}/requests/${content.requestId}`
+    : null;
+
+  const title = escapeHtml(content.title);
+  const message = escapeHtml(content.message).replace(/\n/g, '<br>');
+  const name = escapeHtml(recipientName);
+
+  const body = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Tahoma,Arial,sans-serif;">
+  <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+    <div style="background:${template.color};color:#ffffff;padding:16px 24px;">
+      <div dir="rtl" style="font-size:18px;font-weight:bold;">${template.heading.ar}${escapeHtml(requestLabel)}</div>
+      <div dir="ltr" style="font-size:14px;">${template.heading.en}${escapeHtml(requestLabel)}</div>
+    </div>
+    <div style="padding:24px;color:#111827;">
+      <p style="margin:0 0 8px;">${name}،</p>
+      <h2 style="margin:0 0 8px;font-size:16px;">${title}</h2>
+      <p style="margin:0 0 16px;line-height:1.6;">${message}</p>
+      ${requestLink ? `<p style="margin:0 0 16px;"><a href="${escapeHtml(requestLink)}" style="color:${template.color};">عرض الطلب / View request</a></p>` : ''}
+    </div>
+    <div style="padding:12px 24px;background:#f9fafb;color:#6b7280;font-size:12px;">
+      <div dir="rtl">هذه رسالة آلية من نظام خدمة ما بعد البيع، يرجى عدم الرد عليها.</div>
+      <div dir="ltr">This is an automated message from the after-sales system. Please do not reply.</div>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  return {
+    subject: `${template.heading.ar} / ${template.heading.en}${requestLabel}`,
+    body,
+  };
+};
+
+// Render a bilingual daily digest listing several notifications in one email
+export const renderDigestEmail = (
+  contents: DeliveryContent[],
+  recipientName: string
+): { subject: string; body: string } => {
+  const baseUrl = config.appUrl.replace(/\/$/, '');
+
+  const items = contents.map(content => {
+    const template = TEMPLATES[content.type] || TEMPLATES[NotificationType.STATUS_CHANGE];
+    const requestLabel = content.requestNumber ? ` – ${content.requestNumber}` : '';
+    const link = content.requestId
+      ? ` <a href="${escapeHtml(`${baseUrl}/requests/${content.requestId}`)}" style="color:${template.color};">عرض / View</a>`
+      : '';
+
+    return `<li style="margin:0 0 12px;border-right:4px solid ${template.color};padding-right:8px;">
+        <strong>${escapeHtml(content.title)}${escapeHtml(requestLabel)}</strong>${link}
+        <div style="line-height:1.6;">${escapeHtml(content.message).replace(/\n/g, '<br>')}</div>
+      </li>`;
+  });
+
+  const body = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Tahoma,Arial,sans-serif;">
+  <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+    <div style="background:#2563eb;color:#ffffff;padding:16px 24px;">
+      <div dir="rtl" style="font-size:18px;font-weight:bold;">الملخص اليومي للإشعارات (${contents.length})</div>
+      <div dir="ltr" style="font-size:14px;">Daily notification digest (${contents.length})</div>
+    </div>
+    <div dir="rtl" style="padding:24px;color:#111827;">
+      <p style="margin:0 0 16px;">${escapeHtml(recipientName)}،</p>
+      <ul style="margin:0;padding:0;list-style:none;">
+      ${items.join('\n      ')}
+      </ul>
+    </div>
+    <div style="padding:12px 24px;background:#f9fafb;color:#6b7280;font-size:12px;">
+      <div dir="rtl">يمكنك تعديل إعدادات الإشعارات من صفحة الملف الشخصي.</div>
+      <div dir="ltr">You can change your notification settings on your profile page.</div>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  return {
+    subject: `الملخص اليومي للإشعارات / Daily notification digest (${contents.length})`,
+    body,
+  };
+};
@@ -0,0 +1,53 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { DeliveryChannel } from './delivery.service';
+import { renderDigestEmail, renderNotificationEmail } from './email-templates';
+
+let transporter: Transporter | null = null;
+
+// Lazily create the SMTP transport from config (no auth when SMTP_USER is empty, e.g. MailHog)
+const getTransporter = (): Transporter => {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: config.smtpHost,
+      port: config.smtpPort,
+      secure: config.smtpSecure,
+      auth: config.smtpUser ? { user: config.smtpUser, pass: config.smtpPass } : undefined,
+    });
+  }
+  return transporter;
+};
+
+// Send a single email
+export const sendEmail = async (to: string, subject: string, html: string): Promise<void> => {
+  const info = await getTransporter().sendMail({
+    from: config.smtpFrom,
+    to,
+    subject,
+    html,
+  });
+
+  logger.info(`Email sent to ${to}: ${info.messageId}`);
+};
+
+// Check the SMTP connection and credentials
+export const verifyEmailTransport = async (): Promise<boolean> => {
+  try {
+    await getTransporter().verify();
+    return true;
+  } catch (error) {
+    logger.error('SMTP verification failed:', error);
+    return false;
+  }
+};
+
+export const emailChannel: DeliveryChannel = {
+  name: 'EMAIL',
+  maxAttempts: config.emailMaxAttempts,
+  isEnabled: () => config.emailEnabled,
+  getAddress: (user) => user.email || null,
+  render: (content, user) => renderNotificationEmail(content, `${user.firstName} ${user.lastName}`),
+  renderDigest: (contents, user) => renderDigestEmail(contents, `${user.firstName} ${user.lastName}`),
+  send: sendEmail,
+};
@@ -1,6 +1,6 @@
 import ExcelJS from 'exceljs';
 import { prisma } from '../index';
-import { RequestStatus, WarrantyStatus, ExecutionMethod } from '../types';
+import { RequestStatus, WarrantyStatus, ExecutionMethod, FINISHED_STATUSES } from '../types';
 
 export class ExportService {
   
@@ -69,6 +69,8 @@ export class ExportService {
       'IN_REPAIR': 'قيد الإصلاح',
       'COMPLETED': 'مكتملة',
       'CLOSED': 'مغلقة',
+      'CANCELLED': 'ملغاة',
+      'REJECTED': 'مرفوضة',
     };
 
     return this.createRequestsExcel(requests, statusLabels[status] || status);
@@ -189,6 +191,7 @@ export class ExportService {
       { header: 'تاريخ الإنشاء', key: 'createdAt', width: 20 },
       { header: 'تاريخ الاستحقاق', key: 'slaDueDate', width: 20 },
       { header: 'متأخر؟', key: 'isOverdue', width: 10 },
+      { header: 'مرات إعادة الفتح', key: 'reopenCount', width: 12 },
       { header: 'التكلفة الإجمالية', key: 'totalCost', width: 15 },
       { header: 'رضا العميل', key: 'customerSatisfaction', width: 12 },
       { header: 'الملاحظات النهائية', key: 'finalNotes', width: 30 },
@@ -213,6 +216,8 @@ export class ExportService {
       'IN_REPAIR': 'قيد الإصلاح',
       'COMPLETED': 'مكتمل',
       'CLOSED': 'مغلق',
+      'CANCELLED': 'ملغي',
+      'REJECTED': 'مرفوض',
     };
 
     const warrantyLabels = {
@@ -245,9 +250,10 @@ export class ExportService {
         createdAt: new Date(request.createdAt).toLocaleString('ar-EG'),
         slaDueDate: request.slaDueDate ? new Date(request.slaDueDate).toLocaleString('ar-EG') : 'غير محدد',
         isOverdue: request.isOverdue ? 'نعم' : 'لا',
+        reopenCount: request.reopenCount,
         totalCost: totalCost > 0 ? `${totalCost.toFixed(2)} ج.م` : 'مجاناً',
         customerSatisfaction: request.customerSatisfaction || 'غير مُقيّم',
-        finalNotes: request.finalNotes || 'لا توجد ملاحظات',
+        finalNotes: request.closureReason || request.finalNotes || 'لا توجد ملاحظات',
       });
 
       // تلوين الصفوف المتأخرة
@@ -271,6 +277,8 @@ export class ExportService {
     worksheet.addRow(['إجمالي الطلبات:', requests.length]);
     worksheet.addRow(['الطلبات المتأخرة:', requests.filter(r => r.isOverdue).length]);
     worksheet.addRow(['الطلبات المكتملة:', requests.filter(r => r.status === 'COMPLETED' || r.status === 'CLOSED').length]);
+    worksheet.addRow(['الطلبات الملغاة أو المرفوضة:', requests.filter(r => r.status === 'CANCELLED' || r.status === 'REJECTED').length]);
+    worksheet.addRow(['الطلبات المعاد فتحها:', requests.filter(r => r.reopenCount > 0).length]);
     worksheet.addRow(['الطلبات ضمن الكفالة:', requests.filter(r => r.warrantyStatus === 'UNDER_WARRANTY').length]);
     worksheet.addRow(['الطلبات خارج الكفالة:', requests.filter(r => r.warrantyStatus === 'OUT_OF_WARRANTY').length]);
 
@@ -348,6 +356,9 @@ export class ExportService {
       overdueRequests,
       completedRequests,
       pendingRequests,
+      cancelledRequests,
+      rejectedRequests,
+      reopenedRequests,
       underWarrantyRequests,
       outOfWarrantyRequests,
       departments,
@@ -357,7 +368,10 @@ export class ExportService {
       prisma.request.count(),
       prisma.request.count({ where: { isOverdue: true } }),
       prisma.request.count({ where: { status: { in: ['COMPLETED', 'CLOSED'] } } }),
-      prisma.request.count({ where: { status: { notIn: ['COMPLETED', 'CLOSED'] } } }),
+      prisma.request.count({ where: { status: { notIn: FINISHED_STATUSES } } }),
+      prisma.request.count({ where: { status: RequestStatus.CANCELLED } }),
+      prisma.request.count({ where: { status: RequestStatus.REJECTED } }),
+      prisma.request.count({ where: { reopenCount: { gt: 0 } } }),
       prisma.request.count({ where: { warrantyStatus: 'UNDER_WARRANTY' } }),
       prisma.request.count({ where: { warrantyStatus: 'OUT_OF_WARRANTY' } }),
       prisma.department.findMany({ select: { id: true, name: true } }),
@@ -396,6 +410,9 @@ export class ExportService {
       { metric: 'الطلبات المتأخرة', value: overdueRequests },
       { metric: 'الطلبات المكتملة', value: completedRequests },
       { metric: 'الطلبات المعلقة', value: pendingRequests },
+      { metric: 'الطلبات الملغاة', value: cancelledRequests },
+      { metric: 'الطلبات المرفوضة', value: rejectedRequests },
+      { metric: 'الطلبات المعاد فتحها', value: reopenedRequests },
       { metric: 'ضمن الكفالة', value: underWarrantyRequests },
       { metric: 'خارج الكفالة', value: outOfWarrantyRequests },
     ];
@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { config } from '../config/config';
+import { NotFoundError } from '../types';
+
+// Where uploaded files live; keys are relative, slash-separated paths chosen by the caller
+export interface FileStorageDriver {
+  name: string;
+  save: (key: string, data: Buffer) => Promise<void>;
+  read: (key: string) => Promise<Readable>;
+  remove: (key: string) => Promise<void>;
+}
+
+// Resolve a key inside the upload directory, refusing keys that escape it
+const resolveLocalPath = (key: string): string => {
+  const root = path.resolve(config.uploadPath);
+  const filePath = path.resolve(root, key);
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return filePath;
+};
+
+export const localDiskDriver: FileStorageDriver = {
+  name: 'local',
+
+  save: async (key, data) => {
+    const filePath = resolveLocalPath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  },
+
+  read: async (key) => {
+    const filePath = resolveLocalPath(key);
+    try {
+      await fs.promises.access(filePath, fs.constants.R_OK);
+    } catch {
+      throw new NotFoundError('File not found in storage');
+    }
+    return fs.createReadStream(filePath);
+  },
+
+  remove: async (key) => {
+    await fs.promises.rm(resolveLocalPath(key), { force: true });
+  },
+};
+
+const drivers: Record<string, FileStorageDriver> = {
+  [localDiskDriver.name]: localDiskDriver,
+};
+
+// Storage driver selected by FILE_STORAGE_DRIVER
+export const getFileStorage = (): FileStorageDriver => {
+  const driver = drivers[config.fileStorageDriver];
+  if (!driver) {
+    throw new Error(`Unknown file storage driver: ${config.fileStorageDriver}`);
+  }
+  return driver;
+};
@@ -0,0 +1,39 @@
+import { prisma } from '../index';
+import { ValidationError } from '../types';
+import { computeWarranty } from './warranty.service';
+
+export const unitInclude = {
+  product: {
+    select: { id: true, name: true, model: true, category: true, warrantyMonths: true, departmentId: true },
+  },
+  customer: { select: { id: true, name: true, phone: true, address: true, city: true } },
+  installedBy: { select: { id: true, firstName: true, lastName: true } },
+};
+
+// Serial numbers are compared without surrounding spaces and case
+export const normalizeSerialNumber = (value: unknown): string => {
+  return String(value ?? '').trim().toUpperCase();
+};
+
+// Warranty expiry registered on a new unit when none is entered by hand
+export const getDefaultUnitExpiry = (purchaseDate: Date | null, warrantyMonths: number): Date | null => {
+  return computeWarranty(purchaseDate, warrantyMonths).expiresAt;
+};
+
+// Load a unit for a request and check it belongs to the request's customer
+export const getCustomerUnit = async (unitId: number, customerId: number) => {
+  const unit = await prisma.installedUnit.findUnique({
+    where: { id: unitId },
+    include: { product: true },
+  });
+
+  if (!unit) {
+    throw new ValidationError('Installed unit not found');
+  }
+
+  if (unit.customerId !== customerId) {
+    throw new ValidationError('Installed unit belongs to a different customer');
+  }
+
+  return unit;
+};
@@ -0,0 +1,298 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import { ActivityType, CostType, ValidationError } from '../types';
+import { logActivity } from './activity.service';
+import { createWithInvoiceNumber } from './request-number.service';
+
+export enum InvoiceStatus {
+  ISSUED = 'ISSUED',
+  PARTIALLY_PAID = 'PARTIALLY_PAID',
+  PAID = 'PAID',
+  VOID = 'VOID',
+}
+
+export enum PaymentMethod {
+  CASH = 'CASH',
+  TRANSFER = 'TRANSFER',
+}
+
+// Invoices the customer still owes money on
+export const OPEN_INVOICE_STATUSES: string[] = [InvoiceStatus.ISSUED, InvoiceStatus.PARTIALLY_PAID];
+
+// Payments within this amount of the total settle the invoice
+const SETTLED_TOLERANCE = 0.005;
+
+export const invoiceInclude = {
+  request: { select: { id: true, requestNumber: true, departmentId: true } },
+  customer: { select: { id: true, name: true, phone: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+  lines: { orderBy: { id: 'asc' as const } },
+  payments: {
+    orderBy: { paidAt: 'asc' as const },
+    include: { receivedBy: { select: { id: true, firstName: true, lastName: true } } },
+  },
+};
+
+export interface BillableLine {
+  lineType: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  currency: string;
+  requestCostId: number | null;
+  requestPartId: number | null;
+}
+
+export interface InvoiceAdjustments {
+  discountAmount?: unknown;
+  discountPercent?: unknown;
+  taxRate?: unknown;
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Source lines on an invoice that has not been voided
+const invoicedLineFilter = { some: { invoice: { status: { not: InvoiceStatus.VOID } } } };
+
+// Whether a request part is on an invoice that has not been voided; such parts stay as invoiced
+export const isRequestPartInvoiced = async (
+  requestPartId: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<boolean> => {
+  const count = await client.requestPart.count({
+    where: { id: requestPartId, invoiceLines: invoicedLineFilter },
+  });
+  return count > 0;
+};
+
+// Billable costs and parts of a request that are not on an invoice yet
+export const getUninvoicedLines = async (
+  requestId: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<BillableLine[]> => {
+  const [costs, parts] = await Promise.all([
+    client.requestCost.findMany({
+      where: { requestId, isBillable: true, NOT: { invoiceLines: invoicedLineFilter } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    client.requestPart.findMany({
+      where: { requestId, isBillable: true, NOT: { invoiceLines: invoicedLineFilter } },
+      orderBy: { createdAt: 'asc' },
+      include: { sparePart: { select: { name: true, partNumber: true, currency: true } } },
+    }),
+  ]);
+
+  return [
+    ...parts.map(part => ({
+      lineType: CostType.PARTS,
+      description: `${part.sparePart.name} (${part.sparePart.partNumber})`,
+      quantity: part.quantityUsed,
+      unitPrice: part.unitPrice,
+      total: roundMoney(part.totalCost),
+      currency: part.sparePart.currency,
+      requestCostId: null,
+      requestPartId: part.id,
+    })),
+    ...costs.map(cost => ({
+      lineType: cost.costType,
+      description: cost.description,
+      quantity: 1,
+      unitPrice: cost.amount,
+      total: roundMoney(cost.amount),
+      currency: cost.currency,
+      requestCostId: cost.id,
+      requestPartId: null,
+    })),
+  ];
+};
+
+const parsePercent = (value: unknown, label: string): number => {
+  const percent = Number(value);
+  if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+    throw new ValidationError(`${label} must be between 0 and 100`);
+  }
+  return percent;
+};
+
+// Subtotal, discount and tax of a set of lines; the discount is an amount or a percent of the subtotal
+export const calculateInvoiceTotals = (lines: { total: number }[], adjustments: InvoiceAdjustments, defaultTaxRate: number) => {
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.total, 0));
+
+  let discountAmount = 0;
+  if (adjustments.discountPercent !== undefined && adjustments.discountPercent !== '' && adjustments.discountPercent !== null) {
+    discountAmount = roundMoney(subtotal * parsePercent(adjustments.discountPercent, 'Discount percent') / 100);
+  } else if (adjustments.discountAmount !== undefined && adjustments.discountAmount !== '' && adjustments.discountAmount !== null) {
+    discountAmount = roundMoney(Number(adjustments.discountAmount));
+    if (!Number.isFinite(discountAmount) || discountAmount < 0 || discountAmount > subtotal) {
+      throw new ValidationError('Discount must be between zero and the subtotal');
+    }
+  }
+
+  const taxRate = adjustments.taxRate !== undefined && adjustments.taxRate !== '' && adjustments.taxRate !== null
+    ? parsePercent(adjustments.taxRate, 'Tax rate')
+    : defaultTaxRate;
+  const taxAmount = roundMoney((subtotal - discountAmount) * taxRate / 100);
+
+  return {
+    subtotal,
+    discountAmount,
+    taxRate,
+    taxAmount,
+    total: roundMoney(subtotal - discountAmount + taxAmount),
+  };
+};
+
+// Invoice the uninvoiced billable lines of a request in one currency
+export const createInvoice = async (
+  request: { id: number; requestNumber: string; customerId: number },
+  userId: number,
+  data: InvoiceAdjustments & { currency: string; dueDate: Date | null; notes?: string | null; defaultTaxRate: number }
+) => {
+  const invoice = await createWithInvoiceNumber(async (tx, invoiceNumber) => {
+    // Read the lines inside the transaction so two invoices cannot take the same line
+    const lines = (await getUninvoicedLines(request.id, tx)).filter(line => line.currency === data.currency);
+    if (lines.length === 0) {
+      throw new ValidationError(`No billable ${data.currency} costs or parts left to invoice on this request`);
+    }
+
+    const totals = calculateInvoiceTotals(lines, data, data.defaultTaxRate);
+
+    return tx.invoice.create({
+      data: {
+        invoiceNumber,
+        requestId: request.id,
+        customerId: request.customerId,
+        currency: data.currency,
+        ...totals,
+        // A fully discounted invoice has nothing left to collect
+        status: totals.total > 0 ? InvoiceStatus.ISSUED : InvoiceStatus.PAID,
+        dueDate: data.dueDate,
+        notes: data.notes || null,
+        createdById: userId,
+        lines: {
+          create: lines.map(({ currency, ...line }) => line),
+        },
+      },
+      include: invoiceInclude,
+    });
+  });
+
+  await logActivity(
+    request.id,
+    userId,
+    ActivityType.INVOICE,
+    `Invoice ${invoice.invoiceNumber} issued: ${invoice.total} ${invoice.currency}`
+  );
+
+  logger.info(`Invoice ${invoice.invoiceNumber} issued for request ${request.requestNumber} by user ${userId}`);
+  return invoice;
+};
+
+// Record a full or partial payment and update the invoice status
+export const recordPayment = async (
+  invoiceId: number,
+  userId: number,
+  data: { amount: number; method: string; reference?: string | null; paidAt: Date; notes?: string | null }
+) => {
+  const invoice = await prisma.$transaction(async tx => {
+    // Increment first so concurrent payments serialize on the row and see each other's amounts
+    const result = await tx.invoice.updateMany({
+      where: { id: invoiceId, status: { in: OPEN_INVOICE_STATUSES } },
+      data: { amountPaid: { increment: data.amount } },
+    });
+
+    if (result.count === 0) {
+      const current = await tx.invoice.findUniqueOrThrow({ where: { id: invoiceId } });
+      throw new ValidationError(`Cannot record a payment on a ${current.status.toLowerCase()} invoice`);
+    }
+
+    const current = await tx.invoice.findUniqueOrThrow({ where: { id: invoiceId } });
+    if (current.amountPaid > current.total + SETTLED_TOLERANCE) {
+      // Throwing rolls the increment back
+      const balance = roundMoney(current.total - (current.amountPaid - data.amount));
+      throw new ValidationError(`Payment exceeds the outstanding balance of ${balance} ${current.currency}`);
+    }
+
+    await tx.invoicePayment.create({
+      data: {
+        invoiceId,
+        amount: data.amount,
+        method: data.method,
+        reference: data.reference || null,
+        paidAt: data.paidAt,
+        notes: data.notes || null,
+        receivedById: userId,
+      },
+    });
+
+    return tx.invoice.update({
+      where: { id: invoiceId },
+      data: {
+        amountPaid: roundMoney(current.amountPaid),
+        status: current.amountPaid >= current.total - SETTLED_TOLERANCE ? InvoiceStatus.PAID : InvoiceStatus.PARTIALLY_PAID,
+      },
+      include: invoiceInclude,
+    });
+  });
+
+  await logActivity(
+    invoice.requestId,
+    userId,
+    ActivityType.INVOICE,
+    `Payment of ${data.amount} ${invoice.currency} (${data.method.toLowerCase()}) recorded on invoice ${invoice.invoiceNumber}`,
+    null,
+    invoice.status
+  );
+
+  logger.info(`Payment of ${data.amount} ${invoice.currency} recorded on invoice ${invoice.invoiceNumber} by user ${userId}`);
+  return invoice;
+};
+
+// Void an unpaid invoice; its lines can then be invoiced again
+export const voidInvoice = async (invoiceId: number, userId: number, reason: string) => {
+  const invoice = await prisma.$transaction(async tx => {
+    // Conditional update so a payment recorded meanwhile keeps the invoice open
+    const result = await tx.invoice.updateMany({
+      where: { id: invoiceId, status: { not: InvoiceStatus.VOID }, payments: { none: {} } },
+      data: { status: InvoiceStatus.VOID, voidReason: reason },
+    });
+
+    if (result.count === 0) {
+      const current = await tx.invoice.findUniqueOrThrow({ where: { id: invoiceId } });
+      throw new ValidationError(current.status === InvoiceStatus.VOID
+        ? 'The invoice is already void'
+        : 'Cannot void an invoice with recorded payments');
+    }
+
+    return tx.invoice.findUniqueOrThrow({ where: { id: invoiceId }, include: invoiceInclude });
+  });
+
+  await logActivity(invoice.requestId, userId, ActivityType.INVOICE, `Invoice ${invoice.invoiceNumber} voided: ${reason}`);
+
+  logger.info(`Invoice ${invoice.invoiceNumber} voided by user ${userId}`);
+  return invoice;
+};
+
+// Outstanding amount per customer and currency over their open invoices
+export const getCustomerBalances = async (customerIds?: number[]) => {
+  const groups = await prisma.invoice.groupBy({
+    by: ['customerId', 'currency'],
+    where: {
+      status: { in: OPEN_INVOICE_STATUSES },
+      ...(customerIds ? { customerId: { in: customerIds } } : {}),
+    },
+    _sum: { total: true, amountPaid: true },
+  });
+
+  const balances = new Map<number, Record<string, number>>();
+  for (const group of groups) {
+    const outstanding = roundMoney((group._sum.total || 0) - (group._sum.amountPaid || 0));
+    const customer = balances.get(group.customerId) || {};
+    customer[group.currency] = outstanding;
+    balances.set(group.customerId, customer);
+  }
+
+  return balances;
+};
@@ -0,0 +1,104 @@
+import { prisma } from '../index';
+import { config } from '../config/config';
+import { NotificationType, UserRole } from '../types';
+import { registerJob } from './scheduler.service';
+import { checkSLAOverdue, checkSLAEscalations, checkUpcomingOverdue } from './sla.service';
+import { deleteOldNotifications, sendBulkNotifications } from './notification.service';
+import { processOutbox, sendDailyDigests } from './delivery.service';
+import { notifyExpiringCertifications } from './technician-profile.service';
+import { generateMaintenanceRequests } from './maintenance-plan.service';
+
+// Send each department's managers a summary of requests due within 24 hours
+const sendOverdueDigest = async () => {
+  const upcoming = await checkUpcomingOverdue();
+
+  const byDepartment: Record<number, any[]> = {};
+  upcoming.forEach(request => {
+    byDepartment[request.departmentId] = byDepartment[request.departmentId] || [];
+    byDepartment[request.departmentId].push(request);
+  });
+
+  let notified = 0;
+  for (const [departmentId, requests] of Object.entries(byDepartment)) {
+    const managers = await prisma.user.findMany({
+      where: {
+        departmentId: Number(departmentId),
+        role: { in: [UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR] },
+        isActive: true,
+      },
+      select: { id: true },
+    });
+
+    if (managers.length === 0) continue;
+
+    const requestNumbers = requests.map(request => request.requestNumber).join('، ');
+    await sendBulkNotifications(
+      managers.map(manager => manager.id),
+      'ملخص الطلبات المستحقة خلال 24 ساعة',
+      `${requests.length} طلب في قسم ${requests[0].department.name} يستحق خلال 24 ساعة: ${requestNumbers}`,
+      NotificationType.OVERDUE
+    );
+    notified += managers.length;
+  }
+
+  return { upcomingRequests: upcoming.length, notifiedUsers: notified };
+};
+
+// Register the built-in periodic jobs
+export const registerDefaultJobs = (): void => {
+  registerJob({
+    name: 'sla-overdue-check',
+    description: 'Mark requests past their SLA due date as overdue and fire SLA escalation levels',
+    defaultSchedule: config.jobSlaOverdueSchedule,
+    handler: async () => {
+      const overdueRequestIds = await checkSLAOverdue();
+      const escalations = await checkSLAEscalations();
+      return { markedOverdue: overdueRequestIds.length, escalations };
+    },
+  });
+
+  registerJob({
+    name: 'notification-cleanup',
+    description: `Delete read notifications older than ${config.notificationRetentionDays} days`,
+    defaultSchedule: config.jobNotificationCleanupSchedule,
+    handler: async () => {
+      const deleted = await deleteOldNotifications(config.notificationRetentionDays);
+      return { deleted };
+    },
+  });
+
+  registerJob({
+    name: 'overdue-digest',
+    description: 'Send department managers a daily digest of requests due within 24 hours',
+    defaultSchedule: config.jobOverdueDigestSchedule,
+    handler: sendOverdueDigest,
+  });
+
+  registerJob({
+    name: 'delivery-outbox',
+    description: 'Send queued email notifications, retrying failures with backoff',
+    defaultSchedule: config.jobDeliveryOutboxSchedule,
+    handler: () => processOutbox(),
+  });
+
+  registerJob({
+    name: 'notification-digest',
+    description: 'Combine the emails held for users with the daily digest enabled into one digest email each',
+    defaultSchedule: config.jobNotificationDigestSchedule,
+    handler: sendDailyDigests,
+  });
+
+  registerJob({
+    name: 'certification-expiry',
+    description: `Warn technicians and their managers about certifications expiring within ${config.certificationExpiryWarningDays} days`,
+    defaultSchedule: config.jobCertificationExpirySchedule,
+    handler: notifyExpiringCertifications,
+  });
+
+  registerJob({
+    name: 'maintenance-plans',
+    description: 'Raise preventive maintenance requests ahead of their due date and record cancelled ones as skipped',
+    defaultSchedule: config.jobMaintenancePlanSchedule,
+    handler: () => generateMaintenanceRequests(),
+  });
+};
@@ -0,0 +1,273 @@
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import {
+  ActivityType,
+  ExecutionMethod,
+  NotificationType,
+  RequestPriority,
+  RequestStatus,
+  UserRole,
+  ValidationError,
+  WarrantyStatus,
+} from '../types';
+import { logActivity } from './activity.service';
+import { createNotification } from './notification.service';
+import { calculateSLADueDate, resolveSLATarget } from './sla.service';
+import { createWithRequestNumber } from './request-number.service';
+import { addMonths, computeUnitWarranty, computeWarranty } from './warranty.service';
+import { applyContractWarranty, findActiveCoverage } from './contract.service';
+
+export enum MaintenanceRecurrence {
+  INTERVAL = 'INTERVAL', // every intervalMonths months from the start date
+  SEASONAL = 'SEASONAL', // on dayOfMonth of each of the seasonMonths
+}
+
+export enum OccurrenceStatus {
+  GENERATED = 'GENERATED',
+  SKIPPED = 'SKIPPED',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Generated requests ending in these statuses count as skipped visits
+const SKIPPED_REQUEST_STATUSES: string[] = [RequestStatus.CANCELLED, RequestStatus.REJECTED];
+
+export const planInclude = {
+  customer: { select: { id: true, name: true, phone: true } },
+  installedUnit: { select: { id: true, serialNumber: true, product: { select: { id: true, name: true, model: true } } } },
+  department: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+};
+
+interface PlanSchedule {
+  recurrence: string;
+  intervalMonths: number | null;
+  seasonMonths: string | null;
+  dayOfMonth: number;
+  startDate: Date;
+  endDate: Date | null;
+}
+
+const formatDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const parseSeasonMonths = (value: string | null): number[] => {
+  return (value || '').split(',').map(month => parseInt(month.trim(), 10)).filter(month => month >= 1 && month <= 12);
+};
+
+// Validate a list of months and convert it to its stored form
+export const formatSeasonMonths = (value: unknown): string => {
+  const months = (Array.isArray(value) ? value : String(value ?? '').split(','))
+    .map(month => String(month).trim())
+    .filter(Boolean)
+    .map(month => Number(month));
+  if (months.length === 0 || months.some(month => !Number.isInteger(month) || month < 1 || month > 12)) {
+    throw new ValidationError('Seasonal plans need one or more months between 1 and 12');
+  }
+  return Array.from(new Set(months)).sort((a, b) => a - b).join(',');
+};
+
+// First due date of a plan on or after a day, or null once the plan has ended
+export const getNextDueDate = (plan: PlanSchedule, onOrAfter: Date): Date | null => {
+  const from = onOrAfter > plan.startDate ? onOrAfter : plan.startDate;
+  const fromDay = formatDay(from);
+  let due: Date | null = null;
+
+  if (plan.recurrence === MaintenanceRecurrence.INTERVAL) {
+    const interval = plan.intervalMonths || 1;
+    // Count from the start date each time so month-end clamping does not drift
+    for (let step = 0; ; step++) {
+      const candidate = addMonths(plan.startDate, step * interval);
+      if (formatDay(candidate) >= fromDay) {
+        due = candidate;
+        break;
+      }
+    }
+  } else {
+    const months = parseSeasonMonths(plan.seasonMonths);
+    if (months.length === 0) return null;
+    for (let offset = 0; offset <= 12 && !due; offset++) {
+      const year = from.getUTCFullYear() + Math.floor((from.getUTCMonth() + offset) / 12);
+      const month = (from.getUTCMonth() + offset) % 12;
+      if (!months.includes(month + 1)) continue;
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      const candidate = new Date(Date.UTC(year, month, Math.min(plan.dayOfMonth, lastDay)));
+      if (formatDay(candidate) >= fromDay) {
+        due = candidate;
+      }
+    }
+  }
+
+  if (!due || (plan.endDate && formatDay(due) > formatDay(plan.endDate))) {
+    return null;
+  }
+  return due;
+};
+
+// The due date after a given one
+const getFollowingDueDate = (plan: PlanSchedule, dueDate: Date): Date | null => {
+  return getNextDueDate(plan, new Date(dueDate.getTime() + DAY_MS));
+};
+
+// Raise the request of a plan for one due date
+const createPlannedRequest = async (planId: number, dueDate: Date) => {
+  const plan = await prisma.maintenancePlan.findUniqueOrThrow({
+    where: { id: planId },
+    include: { installedUnit: { include: { product: true } } },
+  });
+  const unit = plan.installedUnit;
+
+  const coverage = await findActiveCoverage(plan.customerId, unit?.id ?? null);
+  const warranty = applyContractWarranty(unit ? computeUnitWarranty(unit) : computeWarranty(null, null), coverage);
+  const warrantyStatus = warranty.status ?? WarrantyStatus.OUT_OF_WARRANTY;
+
+  const slaTarget = await resolveSLATarget({
+    priority: plan.priority as RequestPriority,
+    departmentId: plan.departmentId,
+    productCategory: unit?.product.category,
+    warrantyStatus,
+    executionMethod: plan.executionMethod as ExecutionMethod,
+  });
+  const slaDueDate = await calculateSLADueDate(slaTarget.hours, plan.departmentId);
+
+  const request = await createWithRequestNumber(plan.departmentId, async (tx, requestNumber) => {
+    const created = await tx.request.create({
+      data: {
+        requestNumber,
+        customerId: plan.customerId,
+        productId: unit?.productId ?? null,
+        installedUnitId: unit?.id ?? null,
+        contractId: coverage?.id ?? null,
+        departmentId: plan.departmentId,
+        receivedById: plan.createdById,
+        issueDescription: plan.issueDescription,
+        executionMethod: plan.executionMethod,
+        warrantyStatus,
+        warrantyExpiresAt: warranty.expiresAt,
+        purchaseDate: unit?.purchaseDate ?? null,
+        priority: plan.priority,
+        slaDueDate,
+        slaPolicyId: slaTarget.policyId,
+        slaTargetHours: slaTarget.hours,
+        status: RequestStatus.NEW,
+      },
+    });
+    await tx.maintenanceOccurrence.create({
+      data: { planId: plan.id, dueDate, status: OccurrenceStatus.GENERATED, requestId: created.id },
+    });
+    await tx.maintenancePlan.update({
+      where: { id: plan.id },
+      data: { nextDueDate: getFollowingDueDate(plan, dueDate) },
+    });
+    return created;
+  });
+
+  await logActivity(
+    request.id,
+    plan.createdById,
+    ActivityType.CREATED,
+    `Request created from maintenance plan "${plan.name}" for the visit due on ${formatDay(dueDate)}`
+  );
+  if (coverage) {
+    await logActivity(
+      request.id,
+      plan.createdById,
+      ActivityType.CONTRACT_COVERAGE,
+      `Covered by ${coverage.typeName} contract ${coverage.contractNumber}`
+    );
+  }
+
+  const departmentUsers = await prisma.user.findMany({
+    where: {
+      departmentId: plan.departmentId,
+      role: { in: [UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR] },
+      isActive: true,
+    },
+    select: { id: true },
+  });
+  for (const user of departmentUsers) {
+    await createNotification({
+      userId: user.id,
+      requestId: request.id,
+      title: 'طلب صيانة دورية جديد',
+      message: `تم إنشاء الطلب ${request.requestNumber} من خطة الصيانة "${plan.name}" لموعد ${formatDay(dueDate)}`,
+      type: NotificationType.ASSIGNMENT,
+    });
+  }
+
+  logger.info(`Request ${request.requestNumber} generated from maintenance plan ${plan.id} for ${formatDay(dueDate)}`);
+  return request;
+};
+
+// Record generated visits whose request was cancelled or rejected as skipped
+const markCancelledOccurrences = async (): Promise<number> => {
+  const occurrences = await prisma.maintenanceOccurrence.findMany({
+    where: { status: OccurrenceStatus.GENERATED, request: { status: { in: SKIPPED_REQUEST_STATUSES } } },
+    include: { request: { select: { requestNumber: true, status: true, closureReason: true } } },
+  });
+
+  for (const occurrence of occurrences) {
+    const request = occurrence.request!;
+    await prisma.maintenanceOccurrence.update({
+      where: { id: occurrence.id },
+      data: {
+        status: OccurrenceStatus.SKIPPED,
+        skipReason: `Request ${request.requestNumber} ${request.status.toLowerCase()}${request.closureReason ? `: ${request.closureReason}` : ''}`,
+      },
+    });
+  }
+
+  return occurrences.length;
+};
+
+// Raise the requests of every plan whose next visit is within its lead time
+export const generateMaintenanceRequests = async (at: Date = new Date()) => {
+  const skipped = await markCancelledOccurrences();
+
+  const plans = await prisma.maintenancePlan.findMany({
+    where: { isActive: true, nextDueDate: { not: null } },
+    select: { id: true, name: true, nextDueDate: true, leadDays: true },
+  });
+
+  let generated = 0;
+  let failed = 0;
+  for (const plan of plans) {
+    let dueDate = plan.nextDueDate;
+    // Catch up on every visit that entered its lead time, e.g. after downtime
+    while (dueDate && dueDate.getTime() - plan.leadDays * DAY_MS <= at.getTime()) {
+      try {
+        await createPlannedRequest(plan.id, dueDate);
+        generated++;
+      } catch (error) {
+        failed++;
+        logger.error(`Maintenance plan ${plan.id} (${plan.name}) could not raise its ${formatDay(dueDate)} request:`, error);
+        break;
+      }
+      const updated = await prisma.maintenancePlan.findUnique({ where: { id: plan.id }, select: { nextDueDate: true } });
+      dueDate = updated?.nextDueDate ?? null;
+    }
+  }
+
+  return { generated, failed, skipped };
+};
+
+// Skip the next visit of a plan without raising a request for it
+export const skipNextOccurrence = async (planId: number, userId: number, reason: string) => {
+  const plan = await prisma.maintenancePlan.findUnique({ where: { id: planId } });
+  if (!plan || !plan.nextDueDate) {
+    throw new ValidationError('The plan has no upcoming visit to skip');
+  }
+
+  const dueDate = plan.nextDueDate;
+  await prisma.$transaction([
+    prisma.maintenanceOccurrence.create({
+      data: { planId, dueDate, status: OccurrenceStatus.SKIPPED, skipReason: reason, skippedById: userId },
+    }),
+    prisma.maintenancePlan.update({
+      where: { id: planId },
+      data: { nextDueDate: getFollowingDueDate(plan, dueDate) },
+    }),
+  ]);
+
+  logger.info(`Maintenance visit of plan ${planId} due ${formatDay(dueDate)} skipped by user ${userId}`);
+  return dueDate;
+};
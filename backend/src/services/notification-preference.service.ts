@@ -0,0 +1,144 @@
+import { prisma } from '../index';
+import { config } from '../config/config';
+import { NotificationType, ValidationError } from '../types';
+import { getMinuteOfDay, parseTimeOfDay } from './sla-calendar.service';
+
+// In-app notifications are the database rows; every other channel is a registered delivery channel
+export const IN_APP_CHANNEL = 'IN_APP';
+export const PREFERENCE_CHANNELS = [IN_APP_CHANNEL, 'EMAIL'];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface NotificationPreferenceInput {
+  preferences?: Array<{ type: string; channel: string; enabled: boolean }>;
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  dailyDigest?: boolean;
+}
+
+// Full type x channel matrix for a user, with quiet hours and digest settings
+export const getNotificationPreferences = async (userId: number) => {
+  const [user, rows] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { quietHoursStart: true, quietHoursEnd: true, dailyDigest: true },
+    }),
+    prisma.notificationPreference.findMany({ where: { userId } }),
+  ]);
+
+  const preferences = Object.values(NotificationType).flatMap(type =>
+    PREFERENCE_CHANNELS.map(channel => {
+      const row = rows.find(r => r.type === type && r.channel === channel);
+      return { type, channel, enabled: row ? row.enabled : true };
+    })
+  );
+
+  return {
+    preferences,
+    quietHoursStart: user?.quietHoursStart ?? null,
+    quietHoursEnd: user?.quietHoursEnd ?? null,
+    dailyDigest: user?.dailyDigest ?? false,
+  };
+};
+
+// Save a user's preferences; only the given type/channel pairs are changed
+export const updateNotificationPreferences = async (userId: number, input: NotificationPreferenceInput) => {
+  const types = Object.values(NotificationType) as string[];
+  const preferences = input.preferences || [];
+  if (!Array.isArray(preferences)) {
+    throw new ValidationError('preferences must be a list');
+  }
+
+  for (const preference of preferences) {
+    if (!types.includes(preference.type)) {
+      throw new ValidationError(`Unknown notification type: ${preference.type}`);
+    }
+    if (!PREFERENCE_CHANNELS.includes(preference.channel)) {
+      throw new ValidationError(`Unknown notification channel: ${preference.channel}`);
+    }
+    if (typeof preference.enabled !== 'boolean') {
+      throw new ValidationError(`enabled must be true or false for ${preference.type} ${preference.channel}`);
+    }
+  }
+
+  if (input.dailyDigest !== undefined && typeof input.dailyDigest !== 'boolean') {
+    throw new ValidationError('dailyDigest must be true or false');
+  }
+
+  const quietHoursStart = input.quietHoursStart || null;
+  const quietHoursEnd = input.quietHoursEnd || null;
+  if (input.quietHoursStart !== undefined || input.quietHoursEnd !== undefined) {
+    if (!!quietHoursStart !== !!quietHoursEnd) {
+      throw new ValidationError('Quiet hours need both a start and an end time');
+    }
+    if (quietHoursStart && quietHoursEnd && parseTimeOfDay(quietHoursStart) === parseTimeOfDay(quietHoursEnd)) {
+      throw new ValidationError('Quiet hours start and end cannot be the same');
+    }
+  }
+
+  const userData: any = {};
+  if (input.quietHoursStart !== undefined || input.quietHoursEnd !== undefined) {
+    userData.quietHoursStart = quietHoursStart;
+    userData.quietHoursEnd = quietHoursEnd;
+  }
+  if (input.dailyDigest !== undefined) {
+    userData.dailyDigest = input.dailyDigest;
+  }
+
+  await prisma.$transaction([
+    ...preferences.map(preference =>
+      prisma.notificationPreference.upsert({
+        where: { userId_type_channel: { userId, type: preference.type, channel: preference.channel } },
+        create: { userId, type: preference.type, channel: preference.channel, enabled: preference.enabled },
+        update: { enabled: preference.enabled },
+      })
+    ),
+    prisma.user.update({ where: { id: userId }, data: userData }),
+  ]);
+
+  return getNotificationPreferences(userId);
+};
+
+// Channels each user has switched off for a notification type
+export const getDisabledChannels = async (
+  userIds: number[],
+  type: string
+): Promise<Map<number, Set<string>>> => {
+  const rows = await prisma.notificationPreference.findMany({
+    where: { userId: { in: userIds }, type, enabled: false },
+    select: { userId: true, channel: true },
+  });
+
+  const disabled = new Map<number, Set<string>>();
+  rows.forEach(row => {
+    const channels = disabled.get(row.userId) || new Set<string>();
+    channels.add(row.channel);
+    disabled.set(row.userId, channels);
+  });
+  return disabled;
+};
+
+// End of the user's quiet hours if the instant falls inside them (evaluated in JOBS_TIMEZONE), otherwise null
+export const getQuietHoursEnd = (
+  settings: { quietHoursStart: string | null; quietHoursEnd: string | null },
+  at: Date = new Date()
+): Date | null => {
+  if (!settings.quietHoursStart || !settings.quietHoursEnd) {
+    return null;
+  }
+
+  const start = parseTimeOfDay(settings.quietHoursStart);
+  const end = parseTimeOfDay(settings.quietHoursEnd);
+  const now = getMinuteOfDay(at, config.jobsTimezone);
+
+  // Windows such as 22:00-07:00 wrap past midnight
+  const inside = start < end ? now >= start && now < end : now >= start || now < end;
+  if (!inside) {
+    return null;
+  }
+
+  const minutesLeft = (end - now + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const result = new Date(at.getTime() + minutesLeft * 60 * 1000);
+  result.setSeconds(0, 0);
+  return result;
+};
@@ -2,11 +2,25 @@ import { NotificationType } from '../types';
 import { prisma } from '../index';
 import { NotificationData } from '../types';
 import { logger } from '../utils/logger';
+import { queueDeliveries } from './delivery.service';
+import { getDisabledChannels, IN_APP_CHANNEL } from './notification-preference.service';
+import { publishToUsers, RealtimeEvent } from './realtime.service';
 
-// Create a new notification
+// Create a new notification (skipped in-app if the user opted out of this type there)
 export const createNotification = async (data: NotificationData): Promise<void> => {
   try {
-    await prisma.notification.create({
+    const disabledChannels = await getDisabledChannels([data.userId], data.type);
+    if (disabledChannels.get(data.userId)?.has(IN_APP_CHANNEL)) {
+      await queueDeliveries([{ userId: data.userId }], {
+        title: data.title,
+        message: data.message,
+        type: data.type,
+        requestId: data.requestId,
+      });
+      return;
+    }
+
+    const notification = await prisma.notification.create({
       data: {
         user: { connect: { id: data.userId } },
         request: data.requestId ? { connect: { id: data.requestId } } : undefined,
@@ -17,9 +31,28 @@ export const createNotification = async (data: NotificationData): Promise<void>
         // If you need to associate a creator, you may need to update your Prisma schema or handle this differently.
         // For now, we remove the invalid property to fix the error.
       },
+      include: {
+        request: {
+          select: {
+            id: true,
+            requestNumber: true,
+            status: true,
+          },
+        },
+      },
     });
 
     logger.info(`Notification created for user ${data.userId}: ${data.title}`);
+
+    publishToUsers([data.userId], RealtimeEvent.NOTIFICATION, notification);
+
+    // Queue external deliveries (email, ...) for the enabled channels
+    await queueDeliveries([notification], {
+      title: data.title,
+      message: data.message,
+      type: data.type,
+      requestId: data.requestId,
+    });
   } catch (error) {
     logger.error('Error creating notification:', error);
   }
@@ -186,7 +219,9 @@ export const sendBulkNotifications = async (
   requestId?: number
 ): Promise<void> => {
   try {
-    const notifications = userIds.map(userId => ({
+    const disabledChannels = await getDisabledChannels(userIds, type);
+    const inAppUserIds = userIds.filter(userId => !disabledChannels.get(userId)?.has(IN_APP_CHANNEL));
+    const notifications = inAppUserIds.map(userId => ({
       userId,
       requestId: requestId || null,
       title,
@@ -194,11 +229,20 @@ export const sendBulkNotifications = async (
       type,
     }));
 
-    await prisma.notification.createMany({
+    const created = await prisma.notification.createManyAndReturn({
       data: notifications,
     });
 
-    logger.info(`Bulk notifications sent to ${userIds.length} users: ${title}`);
+    logger.info(`Bulk notifications sent to ${inAppUserIds.length} users: ${title}`);
+
+    created.forEach(notification => publishToUsers([notification.userId], RealtimeEvent.NOTIFICATION, notification));
+
+    // Users who only opted out in-app still get the external channels
+    const deliveryTargets = [
+      ...created,
+      ...userIds.filter(userId => !inAppUserIds.includes(userId)).map(userId => ({ userId })),
+    ];
+    await queueDeliveries(deliveryTargets, { title, message, type, requestId });
   } catch (error) {
     logger.error('Error sending bulk notifications:', error);
   }
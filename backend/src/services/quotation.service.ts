@@ -0,0 +1,270 @@
+import crypto from 'crypto';
+import { prisma } from '../index';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import {
+  ActivityType,
+  ConflictError,
+  CostType,
+  NotificationType,
+  RequestStatus,
+  ValidationError,
+  WarrantyStatus,
+} from '../types';
+import { logActivity } from './activity.service';
+import { createNotification } from './notification.service';
+import { publishRequestEvent, RealtimeEvent } from './realtime.service';
+
+export enum QuotationStatus {
+  PENDING = 'PENDING', // waiting for the customer
+  ACCEPTED = 'ACCEPTED',
+  REJECTED = 'REJECTED',
+  EXPIRED = 'EXPIRED', // not answered before validUntil
+  SUPERSEDED = 'SUPERSEDED', // replaced by a newer version
+}
+
+export type QuotationDecision = QuotationStatus.ACCEPTED | QuotationStatus.REJECTED;
+
+// Totals are kept per currency, lines may only use these
+const QUOTATION_CURRENCIES = ['SYP', 'USD'];
+
+export const quotationInclude = {
+  lines: {
+    orderBy: { id: 'asc' as const },
+    include: { sparePart: { select: { id: true, name: true, partNumber: true } } },
+  },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+  decidedBy: { select: { id: true, firstName: true, lastName: true } },
+};
+
+interface QuotationLineData {
+  lineType: string;
+  description: string;
+  sparePartId: number | null;
+  quantity: number;
+  unitPrice: number;
+  currency: string;
+  total: number;
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Link sent to the customer to view and answer a quotation
+export const getCustomerLink = (token: string): string => {
+  return `${config.appUrl.replace(/\/$/, '')}/quote/${token}`;
+};
+
+export const isQuotationDecision = (value: unknown): value is QuotationDecision => {
+  return value === QuotationStatus.ACCEPTED || value === QuotationStatus.REJECTED;
+};
+
+// Validate planned parts and labor; part lines default to the part's name and stock price
+export const buildQuotationLines = async (input: unknown) => {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new ValidationError('A quotation needs at least one line');
+  }
+
+  const lines: QuotationLineData[] = [];
+  for (let index = 0; index < input.length; index++) {
+    const line = input[index];
+    const label = `Line ${index + 1}`;
+    const lineType = line?.lineType;
+    if (!Object.values(CostType).includes(lineType)) {
+      throw new ValidationError(`${label}: invalid line type ${lineType}`);
+    }
+
+    const quantity = line.quantity === undefined || line.quantity === '' ? 1 : Number(line.quantity);
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new ValidationError(`${label}: quantity must be greater than zero`);
+    }
+
+    const sparePart = line.sparePartId
+      ? await prisma.sparePart.findUnique({ where: { id: parseInt(line.sparePartId) } })
+      : null;
+    if (line.sparePartId && !sparePart) {
+      throw new ValidationError(`${label}: spare part not found`);
+    }
+
+    const description = String(line.description ?? '').trim() || sparePart?.name || '';
+    if (!description) {
+      throw new ValidationError(`${label}: description is required`);
+    }
+
+    const unitPrice = line.unitPrice === undefined || line.unitPrice === '' ? sparePart?.unitPrice : Number(line.unitPrice);
+    if (unitPrice === undefined || !Number.isFinite(unitPrice) || unitPrice < 0) {
+      throw new ValidationError(`${label}: unit price is required`);
+    }
+
+    const currency = line.currency || sparePart?.currency || 'SYP';
+    if (!QUOTATION_CURRENCIES.includes(currency)) {
+      throw new ValidationError(`${label}: quotations are priced in ${QUOTATION_CURRENCIES.join(' or ')}`);
+    }
+
+    lines.push({
+      lineType,
+      description,
+      sparePartId: sparePart?.id ?? null,
+      quantity,
+      unitPrice,
+      currency,
+      total: roundMoney(quantity * unitPrice),
+    });
+  }
+
+  const sum = (currency: string) =>
+    roundMoney(lines.filter(line => line.currency === currency).reduce((total, line) => total + line.total, 0));
+
+  return { lines, totalSyp: sum('SYP'), totalUsd: sum('USD') };
+};
+
+// Mark open quotations past their validity as expired
+export const expireQuotations = async (where: { requestId?: number; id?: number } = {}): Promise<number> => {
+  const result = await prisma.quotation.updateMany({
+    where: { ...where, status: QuotationStatus.PENDING, validUntil: { lt: new Date() } },
+    data: { status: QuotationStatus.EXPIRED },
+  });
+  return result.count;
+};
+
+// Issue a new version of a request's quotation; any open or accepted version is superseded
+export const createQuotation = async (
+  request: { id: number; requestNumber: string },
+  userId: number,
+  data: { lines: unknown; validUntil: Date; notes?: string | null }
+) => {
+  const { lines, totalSyp, totalUsd } = await buildQuotationLines(data.lines);
+
+  const quotation = await prisma.$transaction(async tx => {
+    const latest = await tx.quotation.findFirst({
+      where: { requestId: request.id },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    await tx.quotation.updateMany({
+      where: { requestId: request.id, status: { in: [QuotationStatus.PENDING, QuotationStatus.ACCEPTED] } },
+      data: { status: QuotationStatus.SUPERSEDED },
+    });
+
+    return tx.quotation.create({
+      data: {
+        requestId: request.id,
+        version: (latest?.version ?? 0) + 1,
+        validUntil: data.validUntil,
+        totalSyp,
+        totalUsd,
+        notes: data.notes || null,
+        token: crypto.randomBytes(24).toString('hex'),
+        createdById: userId,
+        lines: { create: lines },
+      },
+      include: quotationInclude,
+    });
+  });
+
+  await logActivity(
+    request.id,
+    userId,
+    ActivityType.QUOTATION,
+    `Quotation v${quotation.version} issued: ${totalSyp} SYP, ${totalUsd} USD, valid until ${data.validUntil.toISOString().slice(0, 10)}`
+  );
+
+  logger.info(`Quotation v${quotation.version} created for request ${request.requestNumber} by user ${userId}`);
+  return quotation;
+};
+
+// Record the customer's answer, given to staff (decidedById) or through the quote link (null)
+export const decideQuotation = async (
+  quotationId: number,
+  decision: QuotationDecision,
+  note: string | null,
+  decidedById: number | null
+) => {
+  await expireQuotations({ id: quotationId });
+
+  const quotation = await prisma.quotation.findUniqueOrThrow({
+    where: { id: quotationId },
+    include: {
+      request: { select: { id: true, requestNumber: true, departmentId: true, assignedTechnicianId: true, receivedById: true } },
+    },
+  });
+
+  // Only one answer wins when the link is submitted twice or staff answer at the same time
+  const result = await prisma.quotation.updateMany({
+    where: { id: quotationId, status: QuotationStatus.PENDING },
+    data: { status: decision, decidedAt: new Date(), decisionNote: note || null, decidedById },
+  });
+
+  if (result.count === 0) {
+    const current = await prisma.quotation.findUniqueOrThrow({ where: { id: quotationId }, select: { status: true } });
+    throw new ConflictError(`This quotation is ${current.status.toLowerCase()} and can no longer be answered`);
+  }
+
+  const updated = await prisma.quotation.findUniqueOrThrow({
+    where: { id: quotationId },
+    include: quotationInclude,
+  });
+
+  const { request } = quotation;
+  const verb = decision === QuotationStatus.ACCEPTED ? 'accepted' : 'rejected';
+  const channel = decidedById ? '' : ' through the quote link';
+  await logActivity(
+    request.id,
+    decidedById ?? quotation.createdById,
+    ActivityType.QUOTATION,
+    `Quotation v${quotation.version} ${verb} by the customer${channel}${note ? `: ${note}` : ''}`,
+    QuotationStatus.PENDING,
+    decision
+  );
+
+  // Tell whoever prepared the quotation and the technician waiting to repair
+  const recipients = new Set([quotation.createdById, request.assignedTechnicianId].filter((id): id is number => !!id));
+  recipients.delete(decidedById ?? 0);
+  for (const userId of recipients) {
+    await createNotification({
+      userId,
+      requestId: request.id,
+      title: decision === QuotationStatus.ACCEPTED ? 'وافق العميل على عرض السعر' : 'رفض العميل عرض السعر',
+      message: `الطلب ${request.requestNumber}: عرض السعر رقم ${quotation.version}${note ? ` - ${note}` : ''}`,
+      type: NotificationType.QUOTATION,
+    });
+  }
+
+  publishRequestEvent(request, RealtimeEvent.REQUEST_UPDATED, {
+    requestId: request.id,
+    quotationId,
+    action: verb,
+    updatedBy: decidedById,
+  });
+
+  logger.info(`Quotation ${quotationId} of request ${request.requestNumber} ${verb}${channel}`);
+  return updated;
+};
+
+// Statuses an out-of-warranty repair can only reach once a quotation is accepted; the workflow may skip IN_REPAIR
+const QUOTE_GATED_STATUSES: string[] = [RequestStatus.IN_REPAIR, RequestStatus.COMPLETED];
+
+// Out-of-warranty repairs wait for an accepted quotation when the department requires one
+export const assertQuoteApproved = async (
+  request: { id: number; departmentId: number; warrantyStatus: string },
+  toStatus: string
+): Promise<void> => {
+  if (!QUOTE_GATED_STATUSES.includes(toStatus) || request.warrantyStatus !== WarrantyStatus.OUT_OF_WARRANTY) {
+    return;
+  }
+
+  const department = await prisma.department.findUnique({
+    where: { id: request.departmentId },
+    select: { requiresQuoteApproval: true },
+  });
+  if (!department?.requiresQuoteApproval) {
+    return;
+  }
+
+  const accepted = await prisma.quotation.count({
+    where: { requestId: request.id, status: QuotationStatus.ACCEPTED },
+  });
+  if (!accepted) {
+    throw new ValidationError('The customer must accept a quotation before the repair starts or is completed');
+  }
+};
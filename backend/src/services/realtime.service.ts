@@ -0,0 +1,134 @@
+import { Response } from 'express';
+import { prisma } from '../index';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { canAccessRequest } from '../middleware/auth';
+import { UserRole } from '../types';
+
+export enum RealtimeEvent {
+  NOTIFICATION = 'notification',
+  REQUEST_STATUS = 'request:status',
+  REQUEST_ASSIGNED = 'request:assigned',
+  REQUEST_UPDATED = 'request:updated',
+  REQUEST_COMMENT = 'request:comment',
+}
+
+interface RealtimeClient {
+  id: number;
+  user: { id: number; role: UserRole; departmentId?: number | null };
+  res: Response;
+  // Expiry of the token the stream was opened with (ms since epoch)
+  expiresAt: number | null;
+}
+
+const clients = new Map<number, RealtimeClient>();
+let nextClientId = 1;
+let heartbeat: NodeJS.Timeout | null = null;
+
+const write = (client: RealtimeClient, event: string, data: unknown) => {
+  try {
+    client.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  } catch (error) {
+    logger.warn(`Dropping realtime client ${client.id}:`, error);
+    removeClient(client.id);
+  }
+};
+
+// End a stream whose session is no longer valid
+const endClient = (client: RealtimeClient, reason: string) => {
+  logger.debug(`Closing realtime client ${client.id} of user ${client.user.id}: ${reason}`);
+  try {
+    client.res.end();
+  } catch {
+    // Already closed by the client
+  }
+  removeClient(client.id);
+};
+
+// Close streams of deactivated users or expired tokens, and pick up role or department changes
+const revalidateClients = async () => {
+  const now = Date.now();
+  const userIds = Array.from(new Set(Array.from(clients.values()).map(client => client.user.id)));
+  if (userIds.length === 0) return;
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds }, isActive: true },
+    select: { id: true, role: true, departmentId: true },
+  });
+  const activeUsers = new Map(users.map(user => [user.id, user]));
+
+  clients.forEach(client => {
+    const user = activeUsers.get(client.user.id);
+    if (!user) {
+      endClient(client, 'user deactivated');
+    } else if (client.expiresAt !== null && client.expiresAt <= now) {
+      endClient(client, 'token expired');
+    } else {
+      client.user = { id: user.id, role: user.role as UserRole, departmentId: user.departmentId };
+    }
+  });
+};
+
+// Comment lines keep proxies from closing idle streams
+const startHeartbeat = () => {
+  if (heartbeat) return;
+  heartbeat = setInterval(() => {
+    clients.forEach(client => {
+      try {
+        client.res.write(': ping\n\n');
+      } catch {
+        removeClient(client.id);
+      }
+    });
+    revalidateClients().catch(error => logger.error('Failed to revalidate realtime clients:', error));
+  }, config.realtimeHeartbeatMs);
+};
+
+// Register an open event stream for an authenticated user
+export const addClient = (user: RealtimeClient['user'], res: Response, expiresAt: number | null = null): number => {
+  const id = nextClientId++;
+  clients.set(id, { id, user, res, expiresAt });
+  startHeartbeat();
+  logger.debug(`Realtime client ${id} connected for user ${user.id} (${clients.size} open)`);
+  return id;
+};
+
+export const removeClient = (id: number): void => {
+  clients.delete(id);
+  if (clients.size === 0 && heartbeat) {
+    clearInterval(heartbeat);
+    heartbeat = null;
+  }
+};
+
+// Push an event to every open stream of the given users
+export const publishToUsers = (userIds: number[], event: RealtimeEvent, data: unknown): void => {
+  clients.forEach(client => {
+    if (userIds.includes(client.user.id)) {
+      write(client, event, data);
+    }
+  });
+};
+
+// Push a request event to everyone allowed to see the request (same rules as requireRequestAccess)
+export const publishRequestEvent = (
+  request: { id: number; departmentId: number; assignedTechnicianId?: number | null; receivedById?: number | null },
+  event: RealtimeEvent,
+  data: unknown
+): void => {
+  clients.forEach(client => {
+    if (canAccessRequest(client.user, request)) {
+      write(client, event, data);
+    }
+  });
+};
+
+// Close every open stream (graceful shutdown)
+export const closeAllClients = (): void => {
+  clients.forEach(client => client.res.end());
+  clients.clear();
+  if (heartbeat) {
+    clearInterval(heartbeat);
+    heartbeat = null;
+  }
+};
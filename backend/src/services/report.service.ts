@@ -0,0 +1,310 @@
+import { prisma } from '../index';
+import {
+  ReportFilters,
+  PerformanceReport,
+  SLAComplianceReport,
+  CostSummaryReport,
+  UnpaidInvoicesReport,
+  UserRole,
+  CostType,
+} from '../types';
+import { getSLAStats } from './sla.service';
+import { OPEN_INVOICE_STATUSES } from './invoice.service';
+
+// Build the request where clause shared by all reports
+const buildRequestWhere = (filters: ReportFilters, includeDates: boolean = true) => {
+  const whereClause: any = {};
+
+  if (filters.departmentId) whereClause.departmentId = filters.departmentId;
+  if (filters.technicianId) whereClause.assignedTechnicianId = filters.technicianId;
+  if (filters.status) whereClause.status = filters.status;
+  if (filters.warrantyStatus) whereClause.warrantyStatus = filters.warrantyStatus;
+
+  if (includeDates) {
+    whereClause.createdAt = {
+      gte: new Date(filters.dateFrom),
+      lte: new Date(filters.dateTo),
+    };
+  }
+
+  return whereClause;
+};
+
+const roundTo2 = (value: number): number => Math.round(value * 100) / 100;
+
+// Technician performance: completed count, resolution time, satisfaction and overdue count
+export const getTechnicianPerformance = async (filters: ReportFilters): Promise<PerformanceReport[]> => {
+  const technicianWhere: any = {
+    role: UserRole.TECHNICIAN,
+    isActive: true,
+  };
+  if (filters.departmentId) technicianWhere.departmentId = filters.departmentId;
+  if (filters.technicianId) technicianWhere.id = filters.technicianId;
+
+  const technicians = await prisma.user.findMany({
+    where: technicianWhere,
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      department: { select: { name: true } },
+    },
+    orderBy: { firstName: 'asc' },
+  });
+
+  if (technicians.length === 0) {
+    return [];
+  }
+
+  const requests = await prisma.request.findMany({
+    where: {
+      ...buildRequestWhere(filters),
+      assignedTechnicianId: { in: technicians.map(technician => technician.id) },
+    },
+    select: {
+      assignedTechnicianId: true,
+      createdAt: true,
+      completedAt: true,
+      isOverdue: true,
+      customerSatisfaction: true,
+    },
+  });
+
+  return technicians.map(technician => {
+    const assigned = requests.filter(request => request.assignedTechnicianId === technician.id);
+    const completed = assigned.filter(request => request.completedAt);
+    const rated = assigned.filter(request => request.customerSatisfaction !== null);
+
+    const totalResolutionHours = completed.reduce((sum, request) => {
+      return sum + (request.completedAt!.getTime() - request.createdAt.getTime()) / (1000 * 60 * 60);
+    }, 0);
+
+    const totalSatisfaction = rated.reduce((sum, request) => sum + (request.customerSatisfaction || 0), 0);
+
+    return {
+      technician: {
+        id: technician.id,
+        name: `${technician.firstName} ${technician.lastName}`,
+        department: technician.department?.name || '',
+      },
+      completedRequests: completed.length,
+      averageResolutionTime: completed.length > 0 ? roundTo2(totalResolutionHours / completed.length) : 0,
+      customerSatisfactionAverage: rated.length > 0 ? roundTo2(totalSatisfaction / rated.length) : 0,
+      overdueRequests: assigned.filter(request => request.isOverdue).length,
+    };
+  });
+};
+
+// SLA compliance per department, built on getSLAStats
+export const getSLAComplianceReport = async (filters: ReportFilters) => {
+  const departments = await prisma.department.findMany({
+    where: filters.departmentId ? { id: filters.departmentId } : undefined,
+    select: { id: true, name: true },
+    orderBy: { name: 'asc' },
+  });
+
+  const dateFrom = new Date(filters.dateFrom);
+  const dateTo = new Date(filters.dateTo);
+
+  const departmentReports: SLAComplianceReport[] = [];
+  for (const department of departments) {
+    const stats = await getSLAStats(department.id, dateFrom, dateTo, filters.technicianId);
+    if (!stats) continue;
+
+    departmentReports.push({
+      department,
+      ...stats,
+    });
+  }
+
+  const overall = await getSLAStats(filters.departmentId, dateFrom, dateTo, filters.technicianId);
+
+  return {
+    overall,
+    departments: departmentReports,
+  };
+};
+
+// Parts and labor cost summaries from RequestCost and RequestPart
+export const getCostSummary = async (filters: ReportFilters): Promise<CostSummaryReport> => {
+  const dateRange = {
+    gte: new Date(filters.dateFrom),
+    lte: new Date(filters.dateTo),
+  };
+  const requestWhere = buildRequestWhere(filters, false);
+
+  const [costs, requestParts, departments] = await Promise.all([
+    prisma.requestCost.findMany({
+      where: {
+        createdAt: dateRange,
+        request: requestWhere,
+      },
+      select: {
+        amount: true,
+        costType: true,
+        currency: true,
+        request: { select: { departmentId: true } },
+      },
+    }),
+    prisma.requestPart.findMany({
+      where: {
+        createdAt: dateRange,
+        request: requestWhere,
+      },
+      select: {
+        totalCost: true,
+        quantityUsed: true,
+        sparePart: { select: { currency: true } },
+        request: { select: { departmentId: true } },
+      },
+    }),
+    prisma.department.findMany({ select: { id: true, name: true } }),
+  ]);
+
+  const byCostType: Record<string, CostSummaryReport['byCostType'][number]> = {};
+  const parts: Record<string, CostSummaryReport['parts'][number]> = {};
+  const byDepartment: Record<string, CostSummaryReport['byDepartment'][number]> = {};
+  const totalsByCurrency: Record<string, number> = {};
+
+  const departmentEntry = (departmentId: number, currency: string) => {
+    const key = `${departmentId}:${currency}`;
+    if (!byDepartment[key]) {
+      byDepartment[key] = {
+        departmentId,
+        departmentName: departments.find(d => d.id === departmentId)?.name || 'Unknown',
+        currency,
+        laborTotal: 0,
+        partsTotal: 0,
+        otherTotal: 0,
+      };
+    }
+    return byDepartment[key];
+  };
+
+  costs.forEach(cost => {
+    const key = `${cost.costType}:${cost.currency}`;
+    if (!byCostType[key]) {
+      byCostType[key] = { costType: cost.costType, currency: cost.currency, total: 0, count: 0 };
+    }
+    byCostType[key].total += cost.amount;
+    byCostType[key].count += 1;
+
+    const entry = departmentEntry(cost.request.departmentId, cost.currency);
+    if (cost.costType === CostType.LABOR) {
+      entry.laborTotal += cost.amount;
+    } else if (cost.costType === CostType.PARTS) {
+      entry.partsTotal += cost.amount;
+    } else {
+      entry.otherTotal += cost.amount;
+    }
+
+    totalsByCurrency[cost.currency] = (totalsByCurrency[cost.currency] || 0) + cost.amount;
+  });
+
+  requestParts.forEach(part => {
+    const currency = part.sparePart.currency;
+    if (!parts[currency]) {
+      parts[currency] = { currency, total: 0, quantity: 0 };
+    }
+    parts[currency].total += part.totalCost;
+    parts[currency].quantity += part.quantityUsed;
+
+    departmentEntry(part.request.departmentId, currency).partsTotal += part.totalCost;
+
+    totalsByCurrency[currency] = (totalsByCurrency[currency] || 0) + part.totalCost;
+  });
+
+  Object.keys(totalsByCurrency).forEach(currency => {
+    totalsByCurrency[currency] = roundTo2(totalsByCurrency[currency]);
+  });
+
+  return {
+    byCostType: Object.values(byCostType).map(item => ({ ...item, total: roundTo2(item.total) })),
+    parts: Object.values(parts).map(item => ({ ...item, total: roundTo2(item.total) })),
+    byDepartment: Object.values(byDepartment).map(item => ({
+      ...item,
+      laborTotal: roundTo2(item.laborTotal),
+      partsTotal: roundTo2(item.partsTotal),
+      otherTotal: roundTo2(item.otherTotal),
+    })),
+    totalsByCurrency,
+  };
+};
+
+// Open invoices issued up to dateTo, oldest first; earlier debts stay listed until paid
+export const getUnpaidInvoicesReport = async (filters: ReportFilters): Promise<UnpaidInvoicesReport> => {
+  const asOf = new Date(filters.dateTo);
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      status: { in: OPEN_INVOICE_STATUSES },
+      issuedAt: { lte: asOf },
+      ...(filters.departmentId ? { request: { departmentId: filters.departmentId } } : {}),
+    },
+    orderBy: { issuedAt: 'asc' },
+    include: {
+      request: { select: { requestNumber: true } },
+      customer: { select: { name: true } },
+    },
+  });
+
+  const byCustomer: Record<string, UnpaidInvoicesReport['byCustomer'][number]> = {};
+  const totalsByCurrency: Record<string, number> = {};
+  const overdueByCurrency: Record<string, number> = {};
+
+  const rows = invoices.map(invoice => {
+    const balance = roundTo2(invoice.total - invoice.amountPaid);
+    const daysOverdue = invoice.dueDate && invoice.dueDate < asOf
+      ? Math.floor((asOf.getTime() - invoice.dueDate.getTime()) / (24 * 60 * 60 * 1000))
+      : 0;
+
+    const key = `${invoice.customerId}:${invoice.currency}`;
+    if (!byCustomer[key]) {
+      byCustomer[key] = {
+        customerId: invoice.customerId,
+        customerName: invoice.customer.name,
+        currency: invoice.currency,
+        balance: 0,
+        invoiceCount: 0,
+      };
+    }
+    byCustomer[key].balance += balance;
+    byCustomer[key].invoiceCount += 1;
+
+    totalsByCurrency[invoice.currency] = (totalsByCurrency[invoice.currency] || 0) + balance;
+    if (daysOverdue > 0) {
+      overdueByCurrency[invoice.currency] = (overdueByCurrency[invoice.currency] || 0) + balance;
+    }
+
+    return {
+      id: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      requestId: invoice.requestId,
+      requestNumber: invoice.request.requestNumber,
+      customerId: invoice.customerId,
+      customerName: invoice.customer.name,
+      currency: invoice.currency,
+      total: invoice.total,
+      amountPaid: invoice.amountPaid,
+      balance,
+      status: invoice.status,
+      issuedAt: invoice.issuedAt,
+      dueDate: invoice.dueDate,
+      daysOverdue,
+    };
+  });
+
+  [totalsByCurrency, overdueByCurrency].forEach(totals => {
+    Object.keys(totals).forEach(currency => {
+      totals[currency] = roundTo2(totals[currency]);
+    });
+  });
+
+  return {
+    invoices: rows,
+    byCustomer: Object.values(byCustomer)
+      .map(item => ({ ...item, balance: roundTo2(item.balance) }))
+      .sort((a, b) => b.balance - a.balance),
+    totalsByCurrency,
+    overdueByCurrency,
+  };
+};
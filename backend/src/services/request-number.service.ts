@@ -0,0 +1,241 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { ValidationError } from '../types';
+import { getZonedParts } from './sla-calendar.service';
+
+export enum SequenceResetPeriod {
+  DAILY = 'DAILY',
+  MONTHLY = 'MONTHLY',
+  YEARLY = 'YEARLY',
+  NEVER = 'NEVER',
+}
+
+export interface RequestNumberSettings {
+  prefix: string | null;
+  format: string;
+  resetPeriod: string;
+}
+
+const DEFAULT_PREFIX = 'REQ';
+const DEFAULT_SEQUENCE_WIDTH = 3;
+const MAX_SEQUENCE_WIDTH = 10;
+// Attempts for a creation that lost a race on the unique request number or sequence scope
+const MAX_CREATE_ATTEMPTS = 5;
+// Numbers skipped at most when they are already taken (e.g. by numbers from before sequences)
+const MAX_TAKEN_SKIPS = 1000;
+
+const TOKEN_PATTERN = /\{(PREFIX|YYYY|YY|MM|DD|SEQ(?::(\d+))?)\}/g;
+const SEQUENCE_TOKEN_PATTERN = /\{SEQ(?::\d+)?\}/g;
+
+// Date tokens a format needs so numbers from different reset periods cannot collide
+const RESET_PERIOD_TOKENS: Record<string, string[][]> = {
+  [SequenceResetPeriod.DAILY]: [['DD'], ['MM'], ['YY', 'YYYY']],
+  [SequenceResetPeriod.MONTHLY]: [['MM'], ['YY', 'YYYY']],
+  [SequenceResetPeriod.YEARLY]: [['YY', 'YYYY']],
+  [SequenceResetPeriod.NEVER]: [],
+};
+
+// Check a format and prefix before saving them
+export const validateNumberFormat = (settings: RequestNumberSettings): void => {
+  const { prefix, format, resetPeriod } = settings;
+
+  if (!format || !format.trim()) {
+    throw new ValidationError('Format is required');
+  }
+
+  const sequenceTokens = format.match(SEQUENCE_TOKEN_PATTERN) || [];
+  if (sequenceTokens.length !== 1) {
+    throw new ValidationError('Format must contain exactly one {SEQ} or {SEQ:n} token');
+  }
+
+  const unknown = format.replace(TOKEN_PATTERN, '').match(/[{}]/);
+  if (unknown) {
+    throw new ValidationError('Format contains an unknown token; use {PREFIX} {YYYY} {YY} {MM} {DD} {SEQ} {SEQ:n}');
+  }
+
+  for (const match of Array.from(format.matchAll(TOKEN_PATTERN))) {
+    const width = match[2] ? parseInt(match[2], 10) : DEFAULT_SEQUENCE_WIDTH;
+    if (width < 1 || width > MAX_SEQUENCE_WIDTH) {
+      throw new ValidationError(`Sequence width must be between 1 and ${MAX_SEQUENCE_WIDTH}`);
+    }
+  }
+
+  if (prefix && !/^[A-Za-z0-9_-]{1,10}$/.test(prefix)) {
+    throw new ValidationError('Prefix must be 1-10 letters, digits, dashes or underscores');
+  }
+
+  if (!Object.values(SequenceResetPeriod).includes(resetPeriod as SequenceResetPeriod)) {
+    throw new ValidationError(`Invalid reset period: ${resetPeriod}`);
+  }
+
+  const dateTokens = Array.from(format.matchAll(TOKEN_PATTERN)).map(match => match[1]);
+  const missing = RESET_PERIOD_TOKENS[resetPeriod].find(options => !options.some(token => dateTokens.includes(token)));
+  if (missing) {
+    throw new ValidationError(
+      `A ${resetPeriod.toLowerCase()} reset needs a {${missing.join('} or {')}} token in the format, otherwise numbers repeat after each reset`
+    );
+  }
+};
+
+const getDateParts = (at: Date) => {
+  const parts = getZonedParts(at, config.jobsTimezone);
+  return {
+    YYYY: parts.year.toString(),
+    YY: parts.year.toString().slice(-2),
+    MM: parts.month.toString().padStart(2, '0'),
+    DD: parts.day.toString().padStart(2, '0'),
+  };
+};
+
+// Render a request number; with sequence null the {SEQ} token is kept (used as the sequence key)
+export const renderRequestNumber = (settings: RequestNumberSettings, at: Date, sequence: number | null): string => {
+  const date = getDateParts(at);
+
+  return settings.format.replace(TOKEN_PATTERN, (token, name: string, width?: string) => {
+    if (name === 'PREFIX') return settings.prefix || DEFAULT_PREFIX;
+    if (name.startsWith('SEQ')) {
+      return sequence === null
+        ? '{SEQ}'
+        : sequence.toString().padStart(width ? parseInt(width, 10) : DEFAULT_SEQUENCE_WIDTH, '0');
+    }
+    return date[name as keyof typeof date];
+  });
+};
+
+// Counter scope: numbers sharing a rendered prefix share a counter until the reset period ends
+const getSequenceScope = (settings: RequestNumberSettings, at: Date): string => {
+  const date = getDateParts(at);
+  const period = settings.resetPeriod === SequenceResetPeriod.DAILY ? `${date.YYYY}${date.MM}${date.DD}`
+    : settings.resetPeriod === SequenceResetPeriod.MONTHLY ? `${date.YYYY}${date.MM}`
+    : settings.resetPeriod === SequenceResetPeriod.YEARLY ? date.YYYY
+    : '*';
+
+  return `${renderRequestNumber(settings, at, null)}|${period}`;
+};
+
+// Format used for a department: its own, else the configured default, else the environment default
+export const getNumberSettings = async (
+  client: Prisma.TransactionClient,
+  departmentId: number | null
+): Promise<RequestNumberSettings> => {
+  const formats = await client.requestNumberFormat.findMany({
+    where: { OR: [{ departmentId: null }, ...(departmentId ? [{ departmentId }] : [])] },
+  });
+  const format = formats.find(row => row.departmentId === departmentId) || formats.find(row => row.departmentId === null);
+
+  if (format) {
+    return { prefix: format.prefix, format: format.format, resetPeriod: format.resetPeriod };
+  }
+
+  return { prefix: null, format: config.requestNumberFormat, resetPeriod: config.requestNumberReset };
+};
+
+// Invoice numbers share the sequence counters; their own format keeps the scopes apart
+const getInvoiceNumberSettings = (): RequestNumberSettings => ({
+  prefix: 'INV',
+  format: config.invoiceNumberFormat,
+  resetPeriod: config.invoiceNumberReset,
+});
+
+// Take the next free number of a sequence inside the caller's transaction
+const allocateNumber = async (
+  tx: Prisma.TransactionClient,
+  settings: RequestNumberSettings,
+  isTaken: (number: string) => Promise<boolean>,
+  label: string
+): Promise<string> => {
+  const now = new Date();
+  const scope = getSequenceScope(settings, now);
+
+  for (let i = 0; i < MAX_TAKEN_SKIPS; i++) {
+    const sequence = await tx.requestNumberSequence.upsert({
+      where: { scope },
+      create: { scope, lastValue: 1 },
+      update: { lastValue: { increment: 1 } },
+    });
+
+    const number = renderRequestNumber(settings, now, sequence.lastValue);
+    if (!(await isTaken(number))) {
+      return number;
+    }
+  }
+
+  throw new ValidationError(`Could not allocate a free ${label} number`);
+};
+
+const allocateRequestNumber = async (tx: Prisma.TransactionClient, departmentId: number | null): Promise<string> => {
+  const settings = await getNumberSettings(tx, departmentId);
+  return allocateNumber(
+    tx,
+    settings,
+    async requestNumber => !!(await tx.request.findUnique({ where: { requestNumber }, select: { id: true } })),
+    'request'
+  );
+};
+
+const allocateInvoiceNumber = async (tx: Prisma.TransactionClient): Promise<string> => {
+  return allocateNumber(
+    tx,
+    getInvoiceNumberSettings(),
+    async invoiceNumber => !!(await tx.invoice.findUnique({ where: { invoiceNumber }, select: { id: true } })),
+    'invoice'
+  );
+};
+
+// Unique constraint violations and write conflicts between concurrent transactions
+const isRetryableConflict = (error: unknown): boolean => {
+  return error instanceof Prisma.PrismaClientKnownRequestError && ['P2002', 'P2034'].includes(error.code);
+};
+
+// Create a record under a newly allocated number. The number is taken in the same
+// transaction as the insert, so a failed insert returns it, and a creation that collides with
+// a concurrent one is retried with the next number instead of failing or duplicating it.
+const createWithNumber = async <T>(
+  allocate: (tx: Prisma.TransactionClient) => Promise<string>,
+  create: (tx: Prisma.TransactionClient, number: string) => Promise<T>,
+  label: string
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const number = await allocate(tx);
+        return create(tx, number);
+      });
+    } catch (error) {
+      if (attempt >= MAX_CREATE_ATTEMPTS || !isRetryableConflict(error)) {
+        throw error;
+      }
+      logger.warn(`${label} number conflict, retrying (attempt ${attempt + 1}/${MAX_CREATE_ATTEMPTS})`);
+    }
+  }
+};
+
+export const createWithRequestNumber = async <T>(
+  departmentId: number | null,
+  create: (tx: Prisma.TransactionClient, requestNumber: string) => Promise<T>
+): Promise<T> => {
+  return createWithNumber(tx => allocateRequestNumber(tx, departmentId), create, 'Request');
+};
+
+// Invoice numbers run without gaps: a failed invoice gives its number back
+export const createWithInvoiceNumber = async <T>(
+  create: (tx: Prisma.TransactionClient, invoiceNumber: string) => Promise<T>
+): Promise<T> => {
+  return createWithNumber(allocateInvoiceNumber, create, 'Invoice');
+};
+
+// Preview the next number for a department without consuming it
+export const previewRequestNumber = async (departmentId: number | null, settings?: RequestNumberSettings) => {
+  const now = new Date();
+  const resolved = settings || await getNumberSettings(prisma, departmentId);
+  const sequence = await prisma.requestNumberSequence.findUnique({
+    where: { scope: getSequenceScope(resolved, now) },
+  });
+
+  return {
+    ...resolved,
+    nextNumber: renderRequestNumber(resolved, now, (sequence?.lastValue || 0) + 1),
+  };
+};
@@ -0,0 +1,316 @@
+import os from 'os';
+import cron, { ScheduledTask } from 'node-cron';
+import { prisma } from '../index';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../types';
+
+export type JobResult = Record<string, any> | void;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  defaultSchedule: string;
+  handler: () => Promise<JobResult>;
+}
+
+export enum JobRunStatus {
+  RUNNING = 'RUNNING',
+  SUCCESS = 'SUCCESS',
+  FAILED = 'FAILED',
+}
+
+export enum JobTrigger {
+  SCHEDULE = 'SCHEDULE',
+  MANUAL = 'MANUAL',
+}
+
+// Identifies this process when several API instances share the database
+const instanceId = `${os.hostname()}-${process.pid}`;
+
+const jobs = new Map<string, JobDefinition>();
+const tasks = new Map<string, ScheduledTask>();
+
+// Register a job definition (call before startScheduler)
+export const registerJob = (job: JobDefinition): void => {
+  if (!cron.validate(job.defaultSchedule)) {
+    throw new Error(`Invalid cron expression for job ${job.name}: ${job.defaultSchedule}`);
+  }
+  jobs.set(job.name, job);
+};
+
+// Try to take the run lock; only one instance may run a job at a time
+const acquireLock = async (jobId: number): Promise<boolean> => {
+  const now = new Date();
+  const result = await prisma.scheduledJob.updateMany({
+    where: {
+      id: jobId,
+      OR: [
+        { lockedUntil: null },
+        { lockedUntil: { lt: now } },
+      ],
+    },
+    data: {
+      lockedBy: instanceId,
+      lockedUntil: new Date(now.getTime() + config.jobLockTtlMs),
+    },
+  });
+
+  return result.count === 1;
+};
+
+// Push the lock expiry forward while this instance still holds it
+const renewLock = async (jobId: number): Promise<void> => {
+  await prisma.scheduledJob.updateMany({
+    where: { id: jobId, lockedBy: instanceId },
+    data: { lockedUntil: new Date(Date.now() + config.jobLockTtlMs) },
+  });
+};
+
+const releaseLock = async (jobId: number): Promise<void> => {
+  await prisma.scheduledJob.updateMany({
+    where: { id: jobId, lockedBy: instanceId },
+    data: { lockedBy: null, lockedUntil: null },
+  });
+};
+
+const ensureJobRecord = async (name: string) => {
+  return prisma.scheduledJob.upsert({
+    where: { name },
+    update: {},
+    create: { name },
+  });
+};
+
+// Fail runs left RUNNING by an instance that stopped mid-run; a run under a live lock is still going
+const failInterruptedRuns = async (record: { id: number; name: string; lockedBy: string | null; lockedUntil: Date | null }) => {
+  const now = new Date();
+  const lockHolder = record.lockedUntil && record.lockedUntil > now ? record.lockedBy : null;
+
+  const result = await prisma.jobRun.updateMany({
+    where: {
+      jobId: record.id,
+      status: JobRunStatus.RUNNING,
+      startedAt: { lt: now },
+      ...(lockHolder && { instanceId: { not: lockHolder } }),
+    },
+    data: {
+      status: JobRunStatus.FAILED,
+      error: 'Interrupted: the instance running the job stopped',
+      finishedAt: now,
+    },
+  });
+
+  if (result.count > 0) {
+    logger.warn(`Marked ${result.count} interrupted run(s) of job ${record.name} as failed`);
+  }
+};
+
+// Run a job under its lock and record the run history
+export const runJob = async (
+  name: string,
+  trigger: JobTrigger = JobTrigger.SCHEDULE,
+  triggeredById?: number
+) => {
+  const job = jobs.get(name);
+  if (!job) {
+    throw new NotFoundError(`Job ${name} not found`);
+  }
+
+  const record = await ensureJobRecord(name);
+
+  if (trigger === JobTrigger.SCHEDULE && !record.isEnabled) {
+    return null;
+  }
+
+  if (!(await acquireLock(record.id))) {
+    logger.info(`Job ${name} is already running on another instance, skipping`);
+    if (trigger === JobTrigger.MANUAL) {
+      throw new ValidationError(`Job ${name} is already running`);
+    }
+    return null;
+  }
+
+  // Renew the lock well before it expires so a long run is not taken over by another instance
+  const renewal = setInterval(() => {
+    renewLock(record.id).catch(error => logger.error(`Failed to renew the lock of job ${name}:`, error));
+  }, Math.max(Math.floor(config.jobLockTtlMs / 3), 1000));
+
+  try {
+    const startedAt = new Date();
+    const run = await prisma.jobRun.create({
+      data: {
+        jobId: record.id,
+        status: JobRunStatus.RUNNING,
+        trigger,
+        triggeredById: triggeredById ?? null,
+        instanceId,
+        startedAt,
+      },
+    });
+
+    let status = JobRunStatus.SUCCESS;
+    let result: JobResult = undefined;
+    let errorMessage: string | null = null;
+
+    try {
+      result = await job.handler();
+    } catch (error: any) {
+      status = JobRunStatus.FAILED;
+      errorMessage = error?.message || String(error);
+      logger.error(`Job ${name} failed:`, error);
+    }
+
+    const finishedAt = new Date();
+    const finishedRun = await prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status,
+        result: result ? JSON.stringify(result) : null,
+        error: errorMessage,
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+      },
+    });
+
+    logger.info(`Job ${name} finished with status ${status} in ${finishedRun.durationMs}ms`);
+    return finishedRun;
+  } finally {
+    clearInterval(renewal);
+    await releaseLock(record.id);
+  }
+};
+
+const scheduleTask = (job: JobDefinition, schedule: string): void => {
+  tasks.get(job.name)?.stop();
+
+  const task = cron.schedule(schedule, () => {
+    runJob(job.name).catch(error => logger.error(`Scheduled run of job ${job.name} failed:`, error));
+  }, {
+    timezone: config.jobsTimezone,
+    name: job.name,
+  });
+
+  tasks.set(job.name, task);
+};
+
+// Start cron tasks for all registered jobs
+export const startScheduler = async (): Promise<void> => {
+  if (!config.jobsEnabled) {
+    logger.info('Scheduled jobs are disabled (JOBS_ENABLED=false)');
+    return;
+  }
+
+  for (const job of jobs.values()) {
+    const record = await ensureJobRecord(job.name);
+    await failInterruptedRuns(record);
+
+    const schedule = record.schedule || job.defaultSchedule;
+
+    if (!cron.validate(schedule)) {
+      logger.error(`Invalid stored schedule "${schedule}" for job ${job.name}, using default`);
+      scheduleTask(job, job.defaultSchedule);
+    } else {
+      scheduleTask(job, schedule);
+    }
+  }
+
+  logger.info(`⏰ Scheduler started with ${jobs.size} jobs`);
+};
+
+// Stop all cron tasks
+export const stopScheduler = (): void => {
+  tasks.forEach(task => task.stop());
+  tasks.clear();
+};
+
+// Update a job's schedule or enabled flag and reschedule it
+export const updateJobSettings = async (
+  name: string,
+  settings: { schedule?: string | null; isEnabled?: boolean }
+) => {
+  const job = jobs.get(name);
+  if (!job) {
+    throw new NotFoundError(`Job ${name} not found`);
+  }
+
+  if (settings.schedule && !cron.validate(settings.schedule)) {
+    throw new ValidationError('Invalid cron expression');
+  }
+
+  await ensureJobRecord(name);
+  const record = await prisma.scheduledJob.update({
+    where: { name },
+    data: {
+      schedule: settings.schedule !== undefined ? settings.schedule || null : undefined,
+      isEnabled: settings.isEnabled,
+    },
+  });
+
+  if (config.jobsEnabled) {
+    scheduleTask(job, record.schedule || job.defaultSchedule);
+  }
+
+  return record;
+};
+
+// List registered jobs with their settings and last run
+export const listJobs = async () => {
+  const records = await prisma.scheduledJob.findMany({
+    where: { name: { in: Array.from(jobs.keys()) } },
+    include: {
+      runs: {
+        orderBy: { startedAt: 'desc' },
+        take: 1,
+      },
+    },
+  });
+
+  return Array.from(jobs.values()).map(job => {
+    const record = records.find(r => r.name === job.name);
+    return {
+      name: job.name,
+      description: job.description,
+      defaultSchedule: job.defaultSchedule,
+      schedule: record?.schedule || job.defaultSchedule,
+      isEnabled: record ? record.isEnabled : true,
+      isRunning: !!(record?.lockedUntil && record.lockedUntil > new Date()),
+      lastRun: record?.runs[0] || null,
+    };
+  });
+};
+
+// Get the run history of a job
+export const getJobRuns = async (name: string, page: number = 1, limit: number = 20) => {
+  if (!jobs.has(name)) {
+    throw new NotFoundError(`Job ${name} not found`);
+  }
+
+  if (!Number.isInteger(page) || page < 1 || !Number.isInteger(limit) || limit < 1 || limit > 100) {
+    throw new ValidationError('page must be a positive integer and limit between 1 and 100');
+  }
+
+  const where = { job: { name } };
+  const skip = (page - 1) * limit;
+
+  const [runs, total] = await Promise.all([
+    prisma.jobRun.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { startedAt: 'desc' },
+      include: {
+        triggeredBy: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    }),
+    prisma.jobRun.count({ where }),
+  ]);
+
+  return { runs, total };
+};
@@ -0,0 +1,28 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+
+// Seeds known to be done in this process, to skip the marker lookup
+const completedSeeds = new Set<string>();
+
+// Run a built-in seed once per database. The marker row is created in the same transaction,
+// so concurrent first calls seed only once and deleting the seeded rows does not bring them back.
+export const seedOnce = async (key: string, seed: (tx: Prisma.TransactionClient) => Promise<void>): Promise<void> => {
+  if (completedSeeds.has(key)) return;
+
+  const marker = await prisma.seedMarker.findUnique({ where: { key } });
+  if (!marker) {
+    try {
+      await prisma.$transaction(async tx => {
+        await tx.seedMarker.create({ data: { key } });
+        await seed(tx);
+      });
+    } catch (error) {
+      // Another call created the marker first and did the seeding
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+  }
+
+  completedSeeds.add(key);
+};
@@ -0,0 +1,213 @@
+import { prisma } from '../index';
+import { ValidationError } from '../types';
+
+const MINUTES_PER_DAY = 24 * 60;
+// Upper bound on days scanned, so a calendar with no working time cannot loop forever
+const MAX_SCAN_DAYS = 3660;
+
+export interface BusinessCalendar {
+  timezone: string;
+  workingDays: number[];
+  startMinute: number;
+  endMinute: number;
+  holidays: Set<string>;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+// Wall-clock fields of an instant in the given timezone
+export const getZonedParts = (date: Date, timezone: string): ZonedParts & { second: number } => {
+  const parts: Record<string, number> = {};
+  getFormatter(timezone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  });
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    minute: parts.hour * 60 + parts.minute,
+    second: parts.second,
+  };
+};
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+const getOffset = (date: Date, timezone: string): number => {
+  const parts = getZonedParts(date, timezone);
+  const asUTC = Date.UTC(parts.year, parts.month - 1, parts.day, 0, parts.minute, parts.second);
+  return asUTC - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Convert a wall-clock time in the timezone to an instant
+const zonedToUtc = (year: number, month: number, day: number, minute: number, timezone: string): Date => {
+  const guess = Date.UTC(year, month - 1, day, 0, minute);
+  const offset = getOffset(new Date(guess), timezone);
+  const corrected = getOffset(new Date(guess - offset), timezone);
+  return new Date(guess - corrected);
+};
+
+const dateKey = (parts: { year: number; month: number; day: number }): string => {
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+};
+
+const nextDay = (parts: { year: number; month: number; day: number }) => {
+  const next = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + 1));
+  return { year: next.getUTCFullYear(), month: next.getUTCMonth() + 1, day: next.getUTCDate() };
+};
+
+// Working window of a local day in minutes, or null for days off
+const getWorkingWindow = (
+  calendar: BusinessCalendar,
+  day: { year: number; month: number; day: number }
+): [number, number] | null => {
+  const weekday = new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+  if (!calendar.workingDays.includes(weekday) || calendar.holidays.has(dateKey(day))) {
+    return null;
+  }
+  return [calendar.startMinute, calendar.endMinute];
+};
+
+export const parseTimeOfDay = (value: string): number => {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  if (!match) {
+    throw new ValidationError(`Invalid time "${value}", expected HH:mm`);
+  }
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+};
+
+export const parseWorkingDays = (value: string): number[] => {
+  return value.split(',').map(day => parseInt(day.trim(), 10)).filter(day => day >= 0 && day <= 6);
+};
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Local time of day of an instant in the timezone, in minutes since midnight
+export const getMinuteOfDay = (date: Date, timezone: string): number => {
+  return getZonedParts(date, timezone).minute;
+};
+
+// Add business hours to an instant, skipping nights, days off and holidays
+export const addBusinessHours = (start: Date, hours: number, calendar: BusinessCalendar): Date => {
+  let remaining = Math.round(hours * 60);
+  const startParts = getZonedParts(start, calendar.timezone);
+  let day = { year: startParts.year, month: startParts.month, day: startParts.day };
+  let fromMinute = startParts.minute;
+
+  for (let i = 0; i < MAX_SCAN_DAYS; i++) {
+    const window = getWorkingWindow(calendar, day);
+    if (window) {
+      const begin = Math.max(window[0], fromMinute);
+      const available = window[1] - begin;
+      if (available > 0) {
+        if (remaining <= available) {
+          return zonedToUtc(day.year, day.month, day.day, begin + remaining, calendar.timezone);
+        }
+        remaining -= available;
+      }
+    }
+    day = nextDay(day);
+    fromMinute = 0;
+  }
+
+  throw new ValidationError('SLA calendar has no working time');
+};
+
+// Business minutes between two instants (negative when `to` is before `from`)
+export const businessMinutesBetween = (from: Date, to: Date, calendar: BusinessCalendar): number => {
+  if (to < from) {
+    return -businessMinutesBetween(to, from, calendar);
+  }
+
+  const fromParts = getZonedParts(from, calendar.timezone);
+  const toParts = getZonedParts(to, calendar.timezone);
+  const lastKey = dateKey(toParts);
+
+  let day = { year: fromParts.year, month: fromParts.month, day: fromParts.day };
+  let total = 0;
+
+  for (let i = 0; i < MAX_SCAN_DAYS; i++) {
+    const key = dateKey(day);
+    const window = getWorkingWindow(calendar, day);
+    if (window) {
+      const begin = Math.max(window[0], key === dateKey(fromParts) ? fromParts.minute : 0);
+      const end = Math.min(window[1], key === lastKey ? toParts.minute : MINUTES_PER_DAY);
+      if (end > begin) {
+        total += end - begin;
+      }
+    }
+    if (key === lastKey) break;
+    day = nextDay(day);
+  }
+
+  return total;
+};
+
+const toBusinessCalendar = (calendar: {
+  timezone: string;
+  workingDays: string;
+  workDayStart: string;
+  workDayEnd: string;
+  holidays: { date: string }[];
+}): BusinessCalendar => ({
+  timezone: calendar.timezone,
+  workingDays: parseWorkingDays(calendar.workingDays),
+  startMinute: parseTimeOfDay(calendar.workDayStart),
+  endMinute: parseTimeOfDay(calendar.workDayEnd),
+  holidays: new Set(calendar.holidays.map(holiday => holiday.date)),
+});
+
+// Resolve the calendar for a department, falling back to the default calendar
+export const getCalendarForDepartment = async (departmentId?: number | null): Promise<BusinessCalendar | null> => {
+  const include = { holidays: { select: { date: true } } };
+
+  if (departmentId) {
+    const department = await prisma.department.findUnique({
+      where: { id: departmentId },
+      select: { slaCalendar: { include } },
+    });
+    if (department?.slaCalendar) {
+      return toBusinessCalendar(department.slaCalendar);
+    }
+  }
+
+  const defaultCalendar = await prisma.slaCalendar.findFirst({
+    where: { isDefault: true },
+    include,
+  });
+
+  return defaultCalendar ? toBusinessCalendar(defaultCalendar) : null;
+};
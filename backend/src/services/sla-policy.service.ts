@@ -0,0 +1,48 @@
+import { prisma } from '../index';
+
+export interface SLAPolicyCriteria {
+  priority?: string | null;
+  departmentId?: number | null;
+  productCategory?: string | null;
+  warrantyStatus?: string | null;
+  executionMethod?: string | null;
+}
+
+const MATCH_FIELDS: (keyof SLAPolicyCriteria)[] = [
+  'priority',
+  'departmentId',
+  'productCategory',
+  'warrantyStatus',
+  'executionMethod',
+];
+
+// Number of match rules a policy sets; more rules means a more specific policy
+const getSpecificity = (policy: SLAPolicyCriteria): number => {
+  return MATCH_FIELDS.filter(field => policy[field] !== null && policy[field] !== undefined).length;
+};
+
+// A policy matches when every rule it sets equals the request's value
+const matches = (policy: SLAPolicyCriteria, criteria: SLAPolicyCriteria): boolean => {
+  return MATCH_FIELDS.every(field => {
+    const rule = policy[field];
+    if (rule === null || rule === undefined) return true;
+    if (field === 'productCategory') {
+      return String(rule).toLowerCase() === String(criteria.productCategory || '').toLowerCase();
+    }
+    return rule === criteria[field];
+  });
+};
+
+// Find the most specific active policy for a request; ties go to the policy with the shortest target
+export const resolveSLAPolicy = async (criteria: SLAPolicyCriteria) => {
+  const policies = await prisma.slaPolicy.findMany({
+    where: { isActive: true },
+    orderBy: { id: 'asc' },
+  });
+
+  const candidates = policies
+    .filter(policy => matches(policy, criteria))
+    .sort((a, b) => getSpecificity(b) - getSpecificity(a) || a.targetHours - b.targetHours);
+
+  return candidates[0] || null;
+};
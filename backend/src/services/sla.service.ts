@@ -1,15 +1,16 @@
-import { WarrantyStatus, ExecutionMethod, NotificationType } from '../types';
+import { WarrantyStatus, ExecutionMethod, NotificationType, UserRole, RequestStatus, FINISHED_STATUSES } from '../types';
 import { prisma } from '../index';
 import { config } from '../config/config';
 import { logger } from '../utils/logger';
-import { createNotification } from './notification.service';
+import { sendBulkNotifications } from './notification.service';
+import { addBusinessHours, businessMinutesBetween, getCalendarForDepartment, BusinessCalendar } from './sla-calendar.service';
+import { resolveSLAPolicy, SLAPolicyCriteria } from './sla-policy.service';
 
-// Calculate SLA due date based on warranty status and execution method
-export const calculateSLADueDate = (
+// Default SLA hours from configuration, used when no SLA policy matches
+export const getDefaultSLAHours = (
   warrantyStatus: WarrantyStatus,
   executionMethod: ExecutionMethod
-): Date => {
-  const now = new Date();
+): number => {
   let hours = 0;
 
   // Base SLA hours
@@ -24,12 +25,148 @@ export const calculateSLADueDate = (
     hours += config.slaOnsiteBuffer;
   }
 
+  return hours;
+};
+
+// Resolve the SLA target for a new request from the policy matrix, falling back to configuration
+export const resolveSLATarget = async (
+  criteria: SLAPolicyCriteria & { warrantyStatus: WarrantyStatus; executionMethod: ExecutionMethod }
+): Promise<{ hours: number; policyId: number | null }> => {
+  const policy = await resolveSLAPolicy(criteria);
+  if (policy) {
+    return { hours: policy.targetHours, policyId: policy.id };
+  }
+
+  return {
+    hours: getDefaultSLAHours(criteria.warrantyStatus, criteria.executionMethod),
+    policyId: null,
+  };
+};
+
+// Calculate SLA due date for a target, counting business hours when the department has a calendar
+export const calculateSLADueDate = async (
+  hours: number,
+  departmentId?: number
+): Promise<Date> => {
+  const now = new Date();
+
+  // Count business hours only when the department has an SLA calendar
+  const calendar = await getCalendarForDepartment(departmentId);
+  if (calendar) {
+    return addBusinessHours(now, hours, calendar);
+  }
+
   // Calculate due date
   const dueDate = new Date(now.getTime() + (hours * 60 * 60 * 1000));
   return dueDate;
 };
 
+// Recalculate the due date of an existing request for a new SLA target, counted from its
+// creation and keeping the time the due date was already pushed back by SLA pauses
+export const recalculateSLADueDate = async (
+  request: {
+    createdAt: Date;
+    departmentId: number;
+    slaDueDate: Date | null;
+    slaTargetHours: number | null;
+    slaPausedMinutes: number;
+  },
+  hours: number
+): Promise<Date> => {
+  const calendar = await getCalendarForDepartment(request.departmentId);
+
+  if (calendar) {
+    let pausedMinutes = 0;
+    if (request.slaDueDate && request.slaTargetHours !== null) {
+      const originalDueDate = addBusinessHours(request.createdAt, request.slaTargetHours, calendar);
+      pausedMinutes = Math.max(0, businessMinutesBetween(originalDueDate, request.slaDueDate, calendar));
+    }
+    return addBusinessHours(request.createdAt, hours + pausedMinutes / 60, calendar);
+  }
+
+  let pausedMs = request.slaPausedMinutes * 60 * 1000;
+  if (request.slaDueDate && request.slaTargetHours !== null) {
+    const originalDueDate = request.createdAt.getTime() + request.slaTargetHours * 60 * 60 * 1000;
+    pausedMs = Math.max(0, request.slaDueDate.getTime() - originalDueDate);
+  }
+  return new Date(request.createdAt.getTime() + hours * 60 * 60 * 1000 + pausedMs);
+};
+
+// Get the SLA time left on a request in hours, counting business time when a calendar applies
+// While the SLA is paused the remaining time stays frozen at the moment it was paused
+export const getSLARemainingHours = async (
+  slaDueDate: Date | null,
+  departmentId?: number,
+  slaPausedAt?: Date | null
+): Promise<number | null> => {
+  if (!slaDueDate) {
+    return null;
+  }
+
+  const now = slaPausedAt || new Date();
+  const calendar = await getCalendarForDepartment(departmentId);
+  const minutes = calendar
+    ? businessMinutesBetween(now, slaDueDate, calendar)
+    : (slaDueDate.getTime() - now.getTime()) / (1000 * 60);
+
+  return Math.round((minutes / 60) * 100) / 100;
+};
+
+// Check whether a status stops the SLA clock
+export const isSLAPauseStatus = (status: string): boolean => {
+  return config.slaPauseStatuses.includes(status);
+};
+
+// Pause or resume the SLA clock for a status change and return the request fields to update
+export const getSLAPauseUpdate = async (
+  request: {
+    departmentId: number;
+    slaDueDate: Date | null;
+    slaPausedAt: Date | null;
+    slaPausedMinutes: number;
+  },
+  toStatus: string
+): Promise<Record<string, any>> => {
+  const now = new Date();
+  const pausing = isSLAPauseStatus(toStatus);
+
+  if (pausing && !request.slaPausedAt) {
+    return { slaPausedAt: now };
+  }
+
+  if (pausing || !request.slaPausedAt) {
+    return {};
+  }
+
+  // Resuming: store the paused time and push the due date back by it
+  const pausedMs = now.getTime() - request.slaPausedAt.getTime();
+  const update: Record<string, any> = {
+    slaPausedAt: null,
+    slaPausedMinutes: request.slaPausedMinutes + Math.round(pausedMs / (1000 * 60)),
+  };
+
+  if (request.slaDueDate) {
+    const calendar = await getCalendarForDepartment(request.departmentId);
+    let slaDueDate = request.slaDueDate;
+
+    if (calendar) {
+      const pausedBusinessMinutes = businessMinutesBetween(request.slaPausedAt, now, calendar);
+      if (pausedBusinessMinutes > 0) {
+        slaDueDate = addBusinessHours(request.slaDueDate, pausedBusinessMinutes / 60, calendar);
+      }
+    } else {
+      slaDueDate = new Date(request.slaDueDate.getTime() + pausedMs);
+    }
+
+    update.slaDueDate = slaDueDate;
+    update.isOverdue = slaDueDate < now;
+  }
+
+  return update;
+};
+
 // Check for overdue requests and update their status
+// Notifications are sent by the escalation levels in checkSLAEscalations
 export const checkSLAOverdue = async (): Promise<number[]> => {
   const now = new Date();
   
@@ -41,26 +178,12 @@ export const checkSLAOverdue = async (): Promise<number[]> => {
           lt: now,
         },
         isOverdue: false,
+        slaPausedAt: null,
         status: {
-          notIn: ['COMPLETED', 'CLOSED'],
-        },
-      },
-      include: {
-        assignedTechnician: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-          },
-        },
-        department: {
-          select: {
-            id: true,
-            name: true,
-            managerId: true,
-          },
+          notIn: FINISHED_STATUSES,
         },
       },
+      select: { id: true },
     });
 
     if (overdueRequests.length === 0) {
@@ -83,47 +206,187 @@ export const checkSLAOverdue = async (): Promise<number[]> => {
 
     logger.warn(`Marked ${overdueRequests.length} requests as overdue`);
 
-    // Create notifications for overdue requests
-    for (const request of overdueRequests) {
-      const notifications = [];
-
-      // Notify assigned technician
-      if (request.assignedTechnician) {
-        notifications.push({
-          userId: request.assignedTechnician.id,
-          requestId: request.id,
-          title: 'Request Overdue',
-          message: `Request ${request.requestNumber} is now overdue`,
-          type: NotificationType.OVERDUE,
-        });
+    return overdueRequestIds;
+  } catch (error) {
+    logger.error('Error checking SLA overdue requests:', error);
+    return [];
+  }
+};
+
+interface EscalationLevel {
+  level: number;
+  thresholdPercent: number;
+  notificationType: NotificationType;
+  title: string;
+  getRecipients: (request: { assignedTechnicianId: number | null; departmentId: number; department: { managerId: number | null } }) => Promise<number[]>;
+}
+
+const getDepartmentLeads = async (departmentId: number, managerId: number | null): Promise<number[]> => {
+  const leads = await prisma.user.findMany({
+    where: {
+      departmentId,
+      role: { in: [UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR] },
+      isActive: true,
+    },
+    select: { id: true },
+  });
+
+  const ids = leads.map(user => user.id);
+  if (managerId && !ids.includes(managerId)) {
+    ids.push(managerId);
+  }
+  return ids;
+};
+
+// Escalation levels, in order; each fires once per request
+export const SLA_ESCALATION_LEVELS: EscalationLevel[] = [
+  {
+    level: 1,
+    thresholdPercent: config.slaWarningPercent,
+    notificationType: NotificationType.SLA_WARNING,
+    title: 'SLA Warning',
+    getRecipients: async (request) => request.assignedTechnicianId ? [request.assignedTechnicianId] : [],
+  },
+  {
+    level: 2,
+    thresholdPercent: 100,
+    notificationType: NotificationType.OVERDUE,
+    title: 'Request Overdue',
+    getRecipients: async (request) => getDepartmentLeads(request.departmentId, request.department.managerId),
+  },
+  {
+    level: 3,
+    thresholdPercent: config.slaExecutiveEscalationPercent,
+    notificationType: NotificationType.OVERDUE,
+    title: 'Request Escalated to Management',
+    getRecipients: async () => {
+      const executives = await prisma.user.findMany({
+        where: {
+          role: { in: [UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER] },
+          isActive: true,
+        },
+        select: { id: true },
+      });
+      return executives.map(user => user.id);
+    },
+  },
+];
+
+// Percentage of SLA time used by a request, in business time when its department has a calendar
+export const getSLAElapsedPercent = (
+  request: { createdAt: Date; slaDueDate: Date | null; slaTargetHours: number | null },
+  calendar: BusinessCalendar | null,
+  now: Date = new Date()
+): number | null => {
+  if (!request.slaDueDate) {
+    return null;
+  }
+
+  const minutesBetween = (from: Date, to: Date) => calendar
+    ? businessMinutesBetween(from, to, calendar)
+    : (to.getTime() - from.getTime()) / (1000 * 60);
+
+  const totalMinutes = request.slaTargetHours
+    ? request.slaTargetHours * 60
+    : minutesBetween(request.createdAt, request.slaDueDate);
+
+  if (totalMinutes <= 0) {
+    return null;
+  }
+
+  // Measured back from the due date, which resuming a paused SLA pushes out
+  const remainingMinutes = minutesBetween(now, request.slaDueDate);
+  return ((totalMinutes - remainingMinutes) / totalMinutes) * 100;
+};
+
+// Fire SLA escalation levels that open requests have reached
+export const checkSLAEscalations = async (): Promise<number> => {
+  const now = new Date();
+  let fired = 0;
+
+  try {
+    const openRequests = await prisma.request.findMany({
+      where: {
+        slaDueDate: { not: null },
+        slaPausedAt: null,
+        status: {
+          notIn: FINISHED_STATUSES,
+        },
+      },
+      include: {
+        department: {
+          select: {
+            id: true,
+            name: true,
+            managerId: true,
+          },
+        },
+        slaEscalations: {
+          select: { level: true },
+        },
+      },
+    });
+
+    const calendars = new Map<number, BusinessCalendar | null>();
+
+    for (const request of openRequests) {
+      const pending = SLA_ESCALATION_LEVELS.filter(
+        level => !request.slaEscalations.some(escalation => escalation.level === level.level)
+      );
+      if (pending.length === 0) continue;
+
+      if (!calendars.has(request.departmentId)) {
+        calendars.set(request.departmentId, await getCalendarForDepartment(request.departmentId));
       }
+      const percent = getSLAElapsedPercent(request, calendars.get(request.departmentId) || null, now);
+      if (percent === null) continue;
 
-      // Notify department manager
-      if (request.department.managerId) {
-        notifications.push({
-          userId: request.department.managerId,
-          requestId: request.id,
-          title: 'Request Overdue in Your Department',
-          message: `Request ${request.requestNumber} in ${request.department.name} is now overdue`,
-          type: NotificationType.OVERDUE,
+      for (const level of pending) {
+        if (percent < level.thresholdPercent) continue;
+
+        const recipients = await level.getRecipients(request);
+
+        await prisma.slaEscalation.create({
+          data: {
+            requestId: request.id,
+            level: level.level,
+            thresholdPercent: level.thresholdPercent,
+            notifiedCount: recipients.length,
+          },
         });
-      }
 
-      // Create notifications
-      for (const notification of notifications) {
-        await createNotification(notification);
+        if (recipients.length > 0) {
+          await sendBulkNotifications(
+            recipients,
+            level.title,
+            `Request ${request.requestNumber} in ${request.department.name} has used ${Math.floor(percent)}% of its SLA time`,
+            level.notificationType,
+            request.id
+          );
+        }
+
+        fired++;
       }
     }
 
-    return overdueRequestIds;
+    if (fired > 0) {
+      logger.warn(`Fired ${fired} SLA escalations`);
+    }
+
+    return fired;
   } catch (error) {
-    logger.error('Error checking SLA overdue requests:', error);
-    return [];
+    logger.error('Error checking SLA escalations:', error);
+    return fired;
   }
 };
 
 // Get SLA statistics for reporting
-export const getSLAStats = async (departmentId?: number, dateFrom?: Date, dateTo?: Date) => {
+export const getSLAStats = async (
+  departmentId?: number,
+  dateFrom?: Date,
+  dateTo?: Date,
+  technicianId?: number
+) => {
   try {
     const whereClause: any = {};
     
@@ -131,18 +394,28 @@ export const getSLAStats = async (departmentId?: number, dateFrom?: Date, dateTo
       whereClause.departmentId = departmentId;
     }
 
+    if (technicianId) {
+      whereClause.assignedTechnicianId = technicianId;
+    }
+
     if (dateFrom || dateTo) {
       whereClause.createdAt = {};
       if (dateFrom) whereClause.createdAt.gte = dateFrom;
       if (dateTo) whereClause.createdAt.lte = dateTo;
     }
 
+    // Closed requests were completed first, so they count as completed too
+    const completedWhere = {
+      ...whereClause,
+      status: { in: [RequestStatus.COMPLETED, RequestStatus.CLOSED] },
+    };
+
     const [
       totalRequests,
       overdueRequests,
       completedOnTime,
       completedOverdue,
-      avgResolutionTime
+      completedRequests
     ] = await Promise.all([
       // Total requests
       prisma.request.count({ where: whereClause }),
@@ -158,8 +431,7 @@ export const getSLAStats = async (departmentId?: number, dateFrom?: Date, dateTo
       // Completed on time
       prisma.request.count({
         where: {
-          ...whereClause,
-          status: 'COMPLETED',
+          ...completedWhere,
           isOverdue: false,
         },
       }),
@@ -167,43 +439,32 @@ export const getSLAStats = async (departmentId?: number, dateFrom?: Date, dateTo
       // Completed overdue
       prisma.request.count({
         where: {
-          ...whereClause,
-          status: 'COMPLETED',
+          ...completedWhere,
           isOverdue: true,
         },
       }),
       
-      // Average resolution time
-      prisma.request.aggregate({
+      // Resolution times, calculated manually as Prisma doesn't support date math directly
+      prisma.request.findMany({
         where: {
-          ...whereClause,
-          status: 'COMPLETED',
+          ...completedWhere,
           completedAt: { not: null },
         },
-        _avg: {
-          // We'll calculate this manually as Prisma doesn't support date math directly
+        select: {
+          createdAt: true,
+          completedAt: true,
+          slaPausedMinutes: true,
         },
       }),
     ]);
 
-    // Calculate actual average resolution time
-    const completedRequests = await prisma.request.findMany({
-      where: {
-        ...whereClause,
-        status: 'COMPLETED',
-        completedAt: { not: null },
-      },
-      select: {
-        createdAt: true,
-        completedAt: true,
-      },
-    });
-
     let totalResolutionHours = 0;
+    let totalPausedHours = 0;
     completedRequests.forEach(request => {
       if (request.completedAt) {
         const hours = (request.completedAt.getTime() - request.createdAt.getTime()) / (1000 * 60 * 60);
         totalResolutionHours += hours;
+        totalPausedHours += Math.min(request.slaPausedMinutes / 60, hours);
       }
     });
 
@@ -211,6 +472,11 @@ export const getSLAStats = async (departmentId?: number, dateFrom?: Date, dateTo
       ? totalResolutionHours / completedRequests.length 
       : 0;
 
+    // Net resolution time excludes periods where the SLA clock was paused
+    const averageNetResolutionHours = completedRequests.length > 0
+      ? (totalResolutionHours - totalPausedHours) / completedRequests.length
+      : 0;
+
     return {
       totalRequests,
       overdueRequests,
@@ -219,6 +485,7 @@ export const getSLAStats = async (departmentId?: number, dateFrom?: Date, dateTo
       overduePercentage: totalRequests > 0 ? (overdueRequests / totalRequests) * 100 : 0,
       onTimePercentage: totalRequests > 0 ? (completedOnTime / totalRequests) * 100 : 0,
       averageResolutionHours: Math.round(averageResolutionHours * 100) / 100,
+      averageNetResolutionHours: Math.round(averageNetResolutionHours * 100) / 100,
     };
   } catch (error) {
     logger.error('Error calculating SLA stats:', error);
@@ -239,8 +506,9 @@ export const checkUpcomingOverdue = async (): Promise<any[]> => {
           lte: next24Hours,
         },
         isOverdue: false,
+        slaPausedAt: null,
         status: {
-          notIn: ['COMPLETED', 'CLOSED'],
+          notIn: FINISHED_STATUSES,
         },
       },
       include: {
@@ -0,0 +1,242 @@
+import { prisma } from '../index';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import {
+  ActivityType,
+  FINISHED_STATUSES,
+  NotificationType,
+  RequestStatus,
+  UserRole,
+  ValidationError,
+  NotFoundError,
+} from '../types';
+import { getSLAPauseUpdate } from './sla.service';
+import { createNotification } from './notification.service';
+import { publishRequestEvent, RealtimeEvent } from './realtime.service';
+import { logActivity } from './activity.service';
+import { canTransition } from './workflow.service';
+import {
+  SkillCriteria,
+  activeLeavesInclude,
+  getRequestSkillCriteria,
+  getTechnicianAvailability,
+  skillMatches,
+} from './technician-profile.service';
+
+// Statuses in which a request may still be (re)assigned automatically
+const AUTO_ASSIGNABLE_STATUSES: string[] = [RequestStatus.NEW, RequestStatus.ASSIGNED];
+
+export interface AssignmentCandidate {
+  technicianId: number;
+  name: string;
+  openRequests: number;
+  hasSkill: boolean;
+  lastAssignedAt: Date | null;
+  available: boolean;
+  // Why the technician cannot be picked (on leave, marked unavailable, at capacity)
+  unavailableReason: string | null;
+}
+
+export interface AssignmentChoice {
+  technicianId: number | null;
+  reason: string;
+  candidates: AssignmentCandidate[];
+}
+
+const formatDate = (date: Date | null): string => {
+  return date ? date.toISOString().slice(0, 16).replace('T', ' ') : 'never';
+};
+
+// Order: fewest open requests, then the longest since the last assignment (round-robin), then ID
+const compareCandidates = (a: AssignmentCandidate, b: AssignmentCandidate): number => {
+  if (a.openRequests !== b.openRequests) return a.openRequests - b.openRequests;
+  const aLast = a.lastAssignedAt?.getTime() ?? 0;
+  const bLast = b.lastAssignedAt?.getTime() ?? 0;
+  return aLast - bLast || a.technicianId - b.technicianId;
+};
+
+// Pick the technician for a request: available technicians of its department with a valid skill for its
+// product category or brand are preferred, then the lowest open workload, then whoever waited longest
+export const pickTechnician = async (request: {
+  id?: number;
+  departmentId: number;
+} & SkillCriteria): Promise<AssignmentChoice> => {
+  const technicians = await prisma.user.findMany({
+    where: { role: UserRole.TECHNICIAN, isActive: true, departmentId: request.departmentId },
+    include: { skills: true, leaves: activeLeavesInclude() },
+    orderBy: { id: 'asc' },
+  });
+
+  if (technicians.length === 0) {
+    return { technicianId: null, reason: 'The department has no active technicians', candidates: [] };
+  }
+
+  const technicianIds = technicians.map(technician => technician.id);
+  const [openCounts, lastAssignments] = await Promise.all([
+    prisma.request.groupBy({
+      by: ['assignedTechnicianId'],
+      where: {
+        assignedTechnicianId: { in: technicianIds },
+        status: { notIn: FINISHED_STATUSES },
+        ...(request.id ? { id: { not: request.id } } : {}),
+      },
+      _count: { _all: true },
+    }),
+    prisma.request.groupBy({
+      by: ['assignedTechnicianId'],
+      where: { assignedTechnicianId: { in: technicianIds } },
+      _max: { assignedAt: true },
+    }),
+  ]);
+
+  const hasCriteria = !!(request.productCategory || request.brandText);
+  const candidates: AssignmentCandidate[] = technicians.map(technician => {
+    const openRequests = openCounts.find(row => row.assignedTechnicianId === technician.id)?._count._all || 0;
+    const availability = getTechnicianAvailability(technician);
+    const atCapacity = openRequests >= config.autoAssignMaxOpenRequests;
+    return {
+      technicianId: technician.id,
+      name: `${technician.firstName} ${technician.lastName}`,
+      openRequests,
+      hasSkill: hasCriteria && technician.skills.some(skill => skillMatches(skill, request)),
+      lastAssignedAt: lastAssignments.find(row => row.assignedTechnicianId === technician.id)?._max.assignedAt || null,
+      available: availability.available && !atCapacity,
+      unavailableReason: availability.reason || (atCapacity ? `${openRequests} open requests` : null),
+    };
+  });
+
+  const available = candidates.filter(candidate => candidate.available);
+  if (available.length === 0) {
+    return {
+      technicianId: null,
+      reason: `None of the ${candidates.length} technician(s) is available: ${candidates
+        .map(candidate => `${candidate.name} (${candidate.unavailableReason})`)
+        .join(', ')}`,
+      candidates,
+    };
+  }
+
+  const skilled = available.filter(candidate => candidate.hasSkill);
+  const pool = (skilled.length > 0 ? skilled : available).sort(compareCandidates);
+  const chosen = pool[0];
+
+  const skillLabel = request.productCategory || 'the request brand';
+  const reasons = [
+    !hasCriteria
+      ? 'request has no product or brand'
+      : chosen.hasSkill
+        ? `skilled in ${skillLabel}`
+        : `no available technician is skilled in ${skillLabel}`,
+    `${chosen.openRequests} open request(s), the lowest of ${pool.length} candidate(s)`,
+  ];
+  if (pool.length > 1 && pool[1].openRequests === chosen.openRequests) {
+    reasons.push(`tie broken by round-robin, last assigned ${formatDate(chosen.lastAssignedAt)}`);
+  }
+
+  return {
+    technicianId: chosen.technicianId,
+    reason: `Auto-assigned to ${chosen.name}: ${reasons.join('; ')}`,
+    candidates,
+  };
+};
+
+// Assign a request to the technician picked by pickTechnician, with the same activity log,
+// notifications and real-time event as a manual assignment. The workflow is checked against
+// the assigner's role, or only for an active transition when the system assigns on its own
+export const autoAssignRequest = async (requestId: number, assignedById: number, role?: UserRole) => {
+  const request = await prisma.request.findUnique({
+    where: { id: requestId },
+    include: {
+      product: { select: { category: true, name: true, model: true } },
+      department: { select: { name: true } },
+    },
+  });
+
+  if (!request) {
+    throw new NotFoundError('Request not found');
+  }
+
+  if (!AUTO_ASSIGNABLE_STATUSES.includes(request.status)) {
+    throw new ValidationError('Only new or assigned requests can be assigned automatically');
+  }
+
+  const choice = await pickTechnician({
+    id: request.id,
+    departmentId: request.departmentId,
+    ...getRequestSkillCriteria(request),
+  });
+
+  if (!choice.technicianId) {
+    throw new ValidationError(`No technician could be assigned automatically: ${choice.reason}`);
+  }
+
+  const previousTechnicianId = request.assignedTechnicianId;
+  if (previousTechnicianId === choice.technicianId) {
+    return { request, choice, changed: false };
+  }
+
+  const movesToAssigned = request.status !== RequestStatus.ASSIGNED
+    && await canTransition(request.status, RequestStatus.ASSIGNED, role);
+
+  const updatedRequest = await prisma.request.update({
+    where: { id: requestId },
+    data: {
+      assignedTechnicianId: choice.technicianId,
+      assignedAt: new Date(),
+      ...(movesToAssigned && {
+        status: RequestStatus.ASSIGNED,
+        ...(await getSLAPauseUpdate(request, RequestStatus.ASSIGNED)),
+      }),
+    },
+    include: {
+      assignedTechnician: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+  });
+
+  await logActivity(
+    requestId,
+    assignedById,
+    ActivityType.ASSIGNMENT,
+    choice.reason,
+    previousTechnicianId?.toString(),
+    choice.technicianId.toString()
+  );
+
+  await createNotification({
+    userId: choice.technicianId,
+    requestId,
+    title: 'تم تعيين طلب جديد لك',
+    message: `تم تعيينك تلقائياً للطلب ${updatedRequest.requestNumber}`,
+    type: NotificationType.ASSIGNMENT,
+  });
+
+  if (previousTechnicianId) {
+    await createNotification({
+      userId: previousTechnicianId,
+      requestId: undefined, // No requestId since technician can't access it anymore
+      title: 'تم إلغاء تعيينك من الطلب',
+      message: `لم تعد مسؤولاً عن الطلب ${updatedRequest.requestNumber}. تم تعيينه لفني آخر.`,
+      type: NotificationType.ASSIGNMENT,
+      createdById: assignedById,
+    });
+  }
+
+  publishRequestEvent(updatedRequest, RealtimeEvent.REQUEST_ASSIGNED, {
+    requestId,
+    requestNumber: updatedRequest.requestNumber,
+    technician: updatedRequest.assignedTechnician,
+    previousTechnicianId,
+    status: updatedRequest.status,
+    updatedBy: assignedById,
+  });
+
+  logger.info(`Request ${updatedRequest.requestNumber} auto-assigned to technician ${choice.technicianId}`);
+
+  return { request: updatedRequest, choice, changed: true };
+};
@@ -0,0 +1,157 @@
+import { TechnicianLeave, TechnicianSkill } from '@prisma/client';
+import { prisma } from '../index';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { NotificationType, UserRole } from '../types';
+import { createNotification, sendBulkNotifications } from './notification.service';
+
+export interface SkillCriteria {
+  productCategory?: string | null;
+  // Free text the brand is looked up in, e.g. product name and model and department name
+  brandText?: string | null;
+}
+
+export interface TechnicianAvailability {
+  available: boolean;
+  reason: string | null;
+  currentLeave: TechnicianLeave | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Skill text for a request: its product category, and product and department names to find the brand in
+export const getRequestSkillCriteria = (request: {
+  product?: { category: string; name: string; model: string } | null;
+  department?: { name: string } | null;
+}): SkillCriteria => ({
+  productCategory: request.product?.category || null,
+  brandText: [request.product?.name, request.product?.model, request.department?.name].filter(Boolean).join(' ') || null,
+});
+
+// A skill without a certification date never expires
+export const isSkillValid = (skill: Pick<TechnicianSkill, 'certificationExpiresAt'>, at: Date = new Date()): boolean => {
+  return !skill.certificationExpiresAt || skill.certificationExpiresAt > at;
+};
+
+// A skill matches when its category equals the request's and its brand appears in the request's text;
+// a skill that sets neither never matches
+export const skillMatches = (
+  skill: Pick<TechnicianSkill, 'productCategory' | 'brand' | 'certificationExpiresAt'>,
+  criteria: SkillCriteria,
+  at: Date = new Date()
+): boolean => {
+  if (!isSkillValid(skill, at) || (!skill.productCategory && !skill.brand)) {
+    return false;
+  }
+
+  if (skill.productCategory
+    && skill.productCategory.trim().toLowerCase() !== (criteria.productCategory || '').trim().toLowerCase()) {
+    return false;
+  }
+
+  if (skill.brand && !(criteria.brandText || '').toLowerCase().includes(skill.brand.trim().toLowerCase())) {
+    return false;
+  }
+
+  return true;
+};
+
+// Whether a technician can take work now: not marked unavailable and not on leave
+export const getTechnicianAvailability = (
+  technician: { isActive: boolean; isAvailable: boolean; leaves: TechnicianLeave[] },
+  at: Date = new Date()
+): TechnicianAvailability => {
+  if (!technician.isActive) {
+    return { available: false, reason: 'inactive', currentLeave: null };
+  }
+
+  const currentLeave = technician.leaves.find(leave => leave.startDate <= at && leave.endDate >= at) || null;
+  if (currentLeave) {
+    return {
+      available: false,
+      reason: `on leave until ${formatDay(currentLeave.endDate)}`,
+      currentLeave,
+    };
+  }
+
+  if (!technician.isAvailable) {
+    return { available: false, reason: 'marked unavailable', currentLeave: null };
+  }
+
+  return { available: true, reason: null, currentLeave: null };
+};
+
+// Leaves that have not ended yet, for loading with a technician
+export const activeLeavesInclude = () => ({
+  where: { endDate: { gte: new Date() } },
+  orderBy: { startDate: 'asc' as const },
+});
+
+// Warn technicians and their department managers about certifications expiring soon, once per expiry date
+export const notifyExpiringCertifications = async () => {
+  const now = new Date();
+  const threshold = new Date(now.getTime() + config.certificationExpiryWarningDays * DAY_MS);
+
+  const skills = await prisma.technicianSkill.findMany({
+    where: {
+      certificationExpiresAt: { not: null, lte: threshold },
+      expiryNotifiedAt: null,
+      technician: { isActive: true },
+    },
+    include: {
+      technician: { select: { id: true, firstName: true, lastName: true, departmentId: true } },
+    },
+  });
+
+  let notified = 0;
+  for (const skill of skills) {
+    const expiresAt = skill.certificationExpiresAt!;
+    const expired = expiresAt <= now;
+    const label = skill.certification || [skill.brand, skill.productCategory].filter(Boolean).join(' ');
+    const technicianName = `${skill.technician.firstName} ${skill.technician.lastName}`;
+
+    await createNotification({
+      userId: skill.technician.id,
+      title: expired ? 'انتهت صلاحية شهادتك' : 'شهادتك على وشك الانتهاء',
+      message: expired
+        ? `انتهت صلاحية شهادة ${label} بتاريخ ${formatDay(expiresAt)}`
+        : `تنتهي صلاحية شهادة ${label} بتاريخ ${formatDay(expiresAt)}`,
+      type: NotificationType.CERTIFICATION_EXPIRY,
+    });
+
+    if (skill.technician.departmentId) {
+      const managers = await prisma.user.findMany({
+        where: {
+          departmentId: skill.technician.departmentId,
+          role: { in: [UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR] },
+          isActive: true,
+        },
+        select: { id: true },
+      });
+
+      if (managers.length > 0) {
+        await sendBulkNotifications(
+          managers.map(manager => manager.id),
+          'شهادة فني على وشك الانتهاء',
+          `شهادة ${label} للفني ${technicianName} ${expired ? 'انتهت' : 'تنتهي'} بتاريخ ${formatDay(expiresAt)}`,
+          NotificationType.CERTIFICATION_EXPIRY
+        );
+      }
+      notified += managers.length;
+    }
+
+    await prisma.technicianSkill.update({
+      where: { id: skill.id },
+      data: { expiryNotifiedAt: now },
+    });
+    notified++;
+  }
+
+  if (skills.length > 0) {
+    logger.info(`Sent expiry warnings for ${skills.length} technician certifications`);
+  }
+
+  return { expiringCertifications: skills.length, notifiedUsers: notified };
+};
@@ -0,0 +1,179 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { ConflictError, NotificationType, ValidationError } from '../types';
+import { createNotification } from './notification.service';
+import { queueCustomerDelivery } from './delivery.service';
+
+export enum VisitStatus {
+  SCHEDULED = 'SCHEDULED',
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+}
+
+export enum VisitOutcome {
+  RESOLVED = 'RESOLVED',
+  FOLLOW_UP_REQUIRED = 'FOLLOW_UP_REQUIRED',
+  PARTS_REQUIRED = 'PARTS_REQUIRED',
+  CUSTOMER_ABSENT = 'CUSTOMER_ABSENT',
+}
+
+export type VisitChange = 'BOOKED' | 'CHANGED' | 'CANCELLED';
+
+// Longest time window a single visit may be booked for
+const MAX_VISIT_HOURS = 12;
+
+export const visitInclude = {
+  technician: { select: { id: true, firstName: true, lastName: true, phone: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+  request: {
+    select: {
+      id: true,
+      requestNumber: true,
+      status: true,
+      departmentId: true,
+      customer: { select: { id: true, name: true, phone: true } },
+      department: { select: { id: true, name: true } },
+    },
+  },
+};
+
+const formatWindow = (start: Date, end: Date): string => {
+  // Local time of the service center, not of the server
+  const timeZone = config.jobsTimezone;
+  const day = start.toLocaleDateString('ar-SY', { timeZone });
+  const time = (date: Date) => date.toLocaleTimeString('ar-SY', { hour: '2-digit', minute: '2-digit', timeZone });
+  return `${day} ${time(start)} - ${time(end)}`;
+};
+
+// Check a time window before booking it
+export const validateVisitWindow = (start: Date, end: Date): void => {
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new ValidationError('Valid start and end times are required');
+  }
+  if (end <= start) {
+    throw new ValidationError('The visit must end after it starts');
+  }
+  if (end.getTime() - start.getTime() > MAX_VISIT_HOURS * 60 * 60 * 1000) {
+    throw new ValidationError(`A visit cannot be longer than ${MAX_VISIT_HOURS} hours`);
+  }
+};
+
+// Scheduled visits of a technician that overlap a time window
+export const findVisitConflicts = async (
+  technicianId: number,
+  start: Date,
+  end: Date,
+  excludeVisitId?: number,
+  client: Prisma.TransactionClient = prisma
+) => {
+  return client.requestVisit.findMany({
+    where: {
+      technicianId,
+      status: VisitStatus.SCHEDULED,
+      scheduledStart: { lt: end },
+      scheduledEnd: { gt: start },
+      ...(excludeVisitId ? { id: { not: excludeVisitId } } : {}),
+    },
+    include: { request: { select: { requestNumber: true } } },
+    orderBy: { scheduledStart: 'asc' },
+  });
+};
+
+// Refuse a booking that overlaps another visit of the technician or their leave
+export const assertTechnicianFree = async (
+  technicianId: number,
+  start: Date,
+  end: Date,
+  excludeVisitId?: number,
+  client: Prisma.TransactionClient = prisma
+) => {
+  const conflicts = await findVisitConflicts(technicianId, start, end, excludeVisitId, client);
+  if (conflicts.length > 0) {
+    const list = conflicts
+      .map(visit => `${visit.request.requestNumber} (${visit.scheduledStart.toISOString()} - ${visit.scheduledEnd.toISOString()})`)
+      .join(', ');
+    throw new ConflictError(`The technician already has a visit in this time window: ${list}`);
+  }
+
+  const leave = await client.technicianLeave.findFirst({
+    where: { technicianId, startDate: { lt: end }, endDate: { gt: start } },
+  });
+  if (leave) {
+    throw new ConflictError('The technician is on leave in this time window');
+  }
+};
+
+// Tell the technician in the app and the customer by email about a booked, changed or cancelled visit
+export const notifyVisitChange = async (
+  visit: {
+    technicianId: number;
+    scheduledStart: Date;
+    scheduledEnd: Date;
+    address: string;
+    request: { id: number; requestNumber: string };
+  },
+  change: VisitChange,
+  actorId: number,
+  previousTechnicianId?: number | null
+) => {
+  const window = formatWindow(visit.scheduledStart, visit.scheduledEnd);
+  const { requestNumber } = visit.request;
+
+  const technicianText: Record<VisitChange, { title: string; message: string }> = {
+    BOOKED: { title: 'زيارة ميدانية جديدة', message: `لديك زيارة للطلب ${requestNumber} في ${window} - ${visit.address}` },
+    CHANGED: { title: 'تم تعديل موعد زيارة', message: `أصبح موعد زيارة الطلب ${requestNumber} في ${window} - ${visit.address}` },
+    CANCELLED: { title: 'تم إلغاء زيارة', message: `تم إلغاء زيارة الطلب ${requestNumber} المقررة في ${window}` },
+  };
+
+  await createNotification({
+    userId: visit.technicianId,
+    requestId: visit.request.id,
+    ...technicianText[change],
+    type: NotificationType.VISIT,
+    createdById: actorId,
+  });
+
+  // A visit moved to another technician is cancelled for the previous one
+  if (previousTechnicianId && previousTechnicianId !== visit.technicianId) {
+    await createNotification({
+      userId: previousTechnicianId,
+      requestId: visit.request.id,
+      ...technicianText.CANCELLED,
+      type: NotificationType.VISIT,
+      createdById: actorId,
+    });
+  }
+
+  const request = await prisma.request.findUnique({
+    where: { id: visit.request.id },
+    select: { customer: { select: { id: true, name: true, email: true } } },
+  });
+  if (!request) return;
+
+  const customerText: Record<VisitChange, { title: string; message: string }> = {
+    BOOKED: {
+      title: `تم حجز موعد زيارة لطلب الصيانة ${requestNumber}`,
+      message: `سيزوركم فني الصيانة في ${window} على العنوان: ${visit.address}`,
+    },
+    CHANGED: {
+      title: `تم تعديل موعد زيارة طلب الصيانة ${requestNumber}`,
+      message: `الموعد الجديد للزيارة: ${window} على العنوان: ${visit.address}`,
+    },
+    CANCELLED: {
+      title: `تم إلغاء موعد زيارة طلب الصيانة ${requestNumber}`,
+      message: `تم إلغاء الزيارة المقررة في ${window}. سنتواصل معكم لتحديد موعد جديد.`,
+    },
+  };
+
+  const queued = await queueCustomerDelivery(request.customer, {
+    ...customerText[change],
+    type: NotificationType.VISIT,
+    requestNumber,
+  });
+
+  if (queued === 0) {
+    logger.info(`Customer ${request.customer.id} not emailed about visit of ${requestNumber} (no email or channel)`);
+  }
+};
@@ -0,0 +1,108 @@
+import { prisma } from '../index';
+import { WarrantyStatus } from '../types';
+
+export interface WarrantyCriteria {
+  installedUnitId?: number | null;
+  productId?: number | null;
+  purchaseDate?: Date | null;
+  // Months bought on top of the manufacturer warranty
+  extendedWarrantyMonths?: number | null;
+}
+
+export interface WarrantyResolution {
+  // Null when the status cannot be computed (no product or no purchase date)
+  status: WarrantyStatus | null;
+  expiresAt: Date | null;
+  warrantyMonths: number | null;
+  extendedWarrantyMonths: number;
+  reason: string;
+}
+
+// Add calendar months, keeping the day of month where it exists (Jan 31 + 1 month = Feb 28/29)
+export const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+};
+
+// The expiry day itself is still covered
+const getWarrantyStatusOn = (expiresAt: Date, at: Date): WarrantyStatus => {
+  return expiresAt.toISOString().slice(0, 10) >= at.toISOString().slice(0, 10)
+    ? WarrantyStatus.UNDER_WARRANTY
+    : WarrantyStatus.OUT_OF_WARRANTY;
+};
+
+// Warranty runs from the purchase date for the product's warranty months plus any extension
+export const computeWarranty = (
+  purchaseDate: Date | null | undefined,
+  warrantyMonths: number | null | undefined,
+  extendedWarrantyMonths: number = 0,
+  at: Date = new Date()
+): WarrantyResolution => {
+  if (warrantyMonths === null || warrantyMonths === undefined) {
+    return { status: null, expiresAt: null, warrantyMonths: null, extendedWarrantyMonths, reason: 'No product selected' };
+  }
+  if (!purchaseDate) {
+    return { status: null, expiresAt: null, warrantyMonths, extendedWarrantyMonths, reason: 'No purchase date' };
+  }
+
+  const expiresAt = addMonths(purchaseDate, warrantyMonths + extendedWarrantyMonths);
+  const status = getWarrantyStatusOn(expiresAt, at);
+  const months = extendedWarrantyMonths
+    ? `${warrantyMonths} + ${extendedWarrantyMonths} extended months`
+    : `${warrantyMonths} months`;
+
+  return {
+    status,
+    expiresAt,
+    warrantyMonths,
+    extendedWarrantyMonths,
+    reason: `Warranty of ${months} from ${purchaseDate.toISOString().slice(0, 10)} ${status === WarrantyStatus.UNDER_WARRANTY ? 'expires' : 'expired'} on ${expiresAt.toISOString().slice(0, 10)}`,
+  };
+};
+
+// A unit's warranty runs until the expiry registered on it, or else from its purchase date
+export const computeUnitWarranty = (
+  unit: { serialNumber: string; purchaseDate: Date | null; warrantyExpiresAt: Date | null; product: { warrantyMonths: number } },
+  extendedWarrantyMonths: number = 0,
+  at: Date = new Date()
+): WarrantyResolution => {
+  if (!unit.warrantyExpiresAt) {
+    return computeWarranty(unit.purchaseDate, unit.product.warrantyMonths, extendedWarrantyMonths, at);
+  }
+
+  const expiresAt = addMonths(unit.warrantyExpiresAt, extendedWarrantyMonths);
+  const status = getWarrantyStatusOn(expiresAt, at);
+  const extension = extendedWarrantyMonths ? ` extended by ${extendedWarrantyMonths} months` : '';
+
+  return {
+    status,
+    expiresAt,
+    warrantyMonths: unit.product.warrantyMonths,
+    extendedWarrantyMonths,
+    reason: `Warranty of unit ${unit.serialNumber}${extension} ${status === WarrantyStatus.UNDER_WARRANTY ? 'expires' : 'expired'} on ${expiresAt.toISOString().slice(0, 10)}`,
+  };
+};
+
+// Resolve the warranty of a request from its installed unit, or from its product and purchase date
+export const resolveWarranty = async (criteria: WarrantyCriteria, at: Date = new Date()): Promise<WarrantyResolution> => {
+  if (criteria.installedUnitId) {
+    const unit = await prisma.installedUnit.findUnique({
+      where: { id: criteria.installedUnitId },
+      include: { product: { select: { warrantyMonths: true } } },
+    });
+    if (unit) {
+      return computeUnitWarranty(unit, criteria.extendedWarrantyMonths || 0, at);
+    }
+  }
+
+  const product = criteria.productId
+    ? await prisma.product.findUnique({ where: { id: criteria.productId }, select: { warrantyMonths: true } })
+    : null;
+
+  return computeWarranty(criteria.purchaseDate, product?.warrantyMonths, criteria.extendedWarrantyMonths || 0, at);
+};
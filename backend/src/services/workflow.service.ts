@@ -0,0 +1,257 @@
+import { prisma } from '../index';
+import { RequestStatus, UserRole, ValidationError, ForbiddenError } from '../types';
+import { logger } from '../utils/logger';
+import { seedOnce } from './seed.service';
+
+// Request timestamps a transition may set
+export const TRANSITION_TIMESTAMP_FIELDS = ['assignedAt', 'startedAt', 'completedAt', 'closedAt'] as const;
+export type TransitionTimestampField = typeof TRANSITION_TIMESTAMP_FIELDS[number];
+
+export interface TransitionDefinition {
+  fromStatus: string;
+  toStatus: string;
+  allowedRoles: UserRole[];
+  requiresComment?: boolean;
+  requiresTechnician?: boolean;
+  setsTimestamp?: TransitionTimestampField | null;
+}
+
+const SUPERVISOR_ROLES = [
+  UserRole.COMPANY_MANAGER,
+  UserRole.DEPUTY_MANAGER,
+  UserRole.DEPARTMENT_MANAGER,
+  UserRole.SECTION_SUPERVISOR,
+];
+
+const OPEN_STATUSES = [
+  RequestStatus.ASSIGNED,
+  RequestStatus.UNDER_INSPECTION,
+  RequestStatus.WAITING_PARTS,
+  RequestStatus.IN_REPAIR,
+];
+
+// Reached only by cancelling or rejecting a request, which records a reason and closes it
+export const NON_CONFIGURABLE_TARGET_STATUSES: string[] = [RequestStatus.CANCELLED, RequestStatus.REJECTED];
+
+const timestampFor = (status: string): TransitionTimestampField | null => {
+  if (status === RequestStatus.UNDER_INSPECTION) return 'startedAt';
+  if (status === RequestStatus.COMPLETED) return 'completedAt';
+  if (status === RequestStatus.CLOSED) return 'closedAt';
+  return null;
+};
+
+// Default workflow: supervisors move requests between open statuses as before transitions
+// were configurable, and technicians may also confirm receipt of their assigned requests
+const buildDefaultTransitions = (): TransitionDefinition[] => {
+  const transitions: TransitionDefinition[] = [];
+
+  for (const from of [RequestStatus.NEW, ...OPEN_STATUSES]) {
+    for (const to of [...OPEN_STATUSES, RequestStatus.COMPLETED]) {
+      if (from === to) continue;
+      transitions.push({
+        fromStatus: from,
+        toStatus: to,
+        allowedRoles: SUPERVISOR_ROLES,
+        setsTimestamp: timestampFor(to),
+      });
+    }
+  }
+
+  // Technicians confirm receipt of their assigned request
+  const receipt = transitions.find(
+    t => t.fromStatus === RequestStatus.ASSIGNED && t.toStatus === RequestStatus.UNDER_INSPECTION
+  );
+  if (receipt) {
+    receipt.allowedRoles = [...SUPERVISOR_ROLES, UserRole.TECHNICIAN];
+  }
+
+  transitions.push({
+    fromStatus: RequestStatus.COMPLETED,
+    toStatus: RequestStatus.CLOSED,
+    allowedRoles: SUPERVISOR_ROLES,
+    setsTimestamp: 'closedAt',
+  });
+
+  return transitions;
+};
+
+const parseRoles = (roles: string): UserRole[] => {
+  return roles.split(',').map(role => role.trim()).filter(Boolean) as UserRole[];
+};
+
+// Serialize a transition row for API responses
+export const formatTransition = <T extends { allowedRoles: string }>(transition: T) => ({
+  ...transition,
+  allowedRoles: parseRoles(transition.allowedRoles),
+});
+
+// Seed the default workflow once; an admin can later remove every transition
+export const ensureDefaultWorkflow = async (): Promise<void> => {
+  await seedOnce('workflow', async tx => {
+    // Databases that had transitions before the seed marker existed keep them
+    if (await tx.statusTransition.count() > 0) return;
+
+    const defaults = buildDefaultTransitions();
+    await tx.statusTransition.createMany({
+      data: defaults.map(transition => ({
+        fromStatus: transition.fromStatus,
+        toStatus: transition.toStatus,
+        allowedRoles: transition.allowedRoles.join(','),
+        requiresComment: transition.requiresComment || false,
+        requiresTechnician: transition.requiresTechnician || false,
+        setsTimestamp: transition.setsTimestamp || null,
+      })),
+    });
+
+    logger.info(`Seeded default workflow with ${defaults.length} transitions`);
+  });
+};
+
+// Check that a status is built-in or an active custom status
+export const isKnownStatus = async (status: string): Promise<boolean> => {
+  if (Object.values(RequestStatus).includes(status as RequestStatus)) {
+    return true;
+  }
+
+  const customStatus = await prisma.customRequestStatus.findFirst({
+    where: { name: status, isActive: true },
+  });
+
+  return !!customStatus;
+};
+
+// Validate the fields of a transition definition before saving it
+export const validateTransitionDefinition = async (data: Partial<TransitionDefinition>): Promise<void> => {
+  if (data.fromStatus !== undefined && !(await isKnownStatus(data.fromStatus))) {
+    throw new ValidationError(`Unknown status: ${data.fromStatus}`);
+  }
+
+  if (data.toStatus !== undefined && !(await isKnownStatus(data.toStatus))) {
+    throw new ValidationError(`Unknown status: ${data.toStatus}`);
+  }
+
+  if (data.toStatus !== undefined && NON_CONFIGURABLE_TARGET_STATUSES.includes(data.toStatus)) {
+    throw new ValidationError(`Requests move to ${data.toStatus} only by cancelling or rejecting them`);
+  }
+
+  if (data.fromStatus !== undefined && data.fromStatus === data.toStatus) {
+    throw new ValidationError('A transition must change the status');
+  }
+
+  if (data.allowedRoles !== undefined) {
+    if (!Array.isArray(data.allowedRoles) || data.allowedRoles.length === 0) {
+      throw new ValidationError('At least one role must be allowed');
+    }
+    const invalidRole = data.allowedRoles.find(role => !Object.values(UserRole).includes(role));
+    if (invalidRole) {
+      throw new ValidationError(`Unknown role: ${invalidRole}`);
+    }
+  }
+
+  if (data.setsTimestamp && !TRANSITION_TIMESTAMP_FIELDS.includes(data.setsTimestamp)) {
+    throw new ValidationError(`Invalid timestamp field: ${data.setsTimestamp}`);
+  }
+};
+
+// Get the transitions a role may perform from a status
+export const getAvailableTransitions = async (fromStatus: string, role: UserRole) => {
+  await ensureDefaultWorkflow();
+
+  const transitions = await prisma.statusTransition.findMany({
+    where: { fromStatus, isActive: true },
+    orderBy: { id: 'asc' },
+  });
+
+  const activeCustomStatuses = await prisma.customRequestStatus.findMany({
+    where: { isActive: true },
+    select: { name: true },
+  });
+  const customNames = activeCustomStatuses.map(status => status.name);
+
+  return transitions
+    .map(formatTransition)
+    .filter(transition => transition.allowedRoles.includes(role))
+    .filter(transition => !NON_CONFIGURABLE_TARGET_STATUSES.includes(transition.toStatus))
+    .filter(transition =>
+      Object.values(RequestStatus).includes(transition.toStatus as RequestStatus) ||
+      customNames.includes(transition.toStatus)
+    );
+};
+
+// Enforce the workflow for a status change and return the request fields to update
+export const resolveTransition = async (
+  request: {
+    status: string;
+    assignedTechnicianId: number | null;
+    assignedAt: Date | null;
+    startedAt: Date | null;
+    completedAt: Date | null;
+    closedAt: Date | null;
+  },
+  toStatus: string,
+  role: UserRole,
+  comment?: string
+): Promise<Record<string, any>> => {
+  await ensureDefaultWorkflow();
+
+  if (!(await isKnownStatus(toStatus))) {
+    throw new ValidationError(`Unknown status: ${toStatus}`);
+  }
+
+  if (NON_CONFIGURABLE_TARGET_STATUSES.includes(toStatus)) {
+    throw new ValidationError(`Requests move to ${toStatus} only by cancelling or rejecting them`);
+  }
+
+  const transition = await prisma.statusTransition.findUnique({
+    where: {
+      fromStatus_toStatus: {
+        fromStatus: request.status,
+        toStatus,
+      },
+    },
+  });
+
+  if (!transition || !transition.isActive) {
+    throw new ValidationError(`Status cannot change from ${request.status} to ${toStatus}`);
+  }
+
+  if (!parseRoles(transition.allowedRoles).includes(role)) {
+    throw new ForbiddenError(`Your role cannot change status from ${request.status} to ${toStatus}`);
+  }
+
+  if (transition.requiresComment && !(comment && comment.trim())) {
+    throw new ValidationError('A comment is required for this status change');
+  }
+
+  if (transition.requiresTechnician && !request.assignedTechnicianId) {
+    throw new ValidationError('A technician must be assigned before this status change');
+  }
+
+  const updateData: Record<string, any> = { status: toStatus };
+  const field = transition.setsTimestamp as TransitionTimestampField | null;
+  if (field && TRANSITION_TIMESTAMP_FIELDS.includes(field) && !request[field]) {
+    updateData[field] = new Date();
+  }
+
+  return updateData;
+};
+
+// Whether a role may make a status change without a comment, e.g. as a side effect of assignment;
+// without a role the change is made by the system and only needs an active transition
+export const canTransition = async (fromStatus: string, toStatus: string, role?: UserRole): Promise<boolean> => {
+  await ensureDefaultWorkflow();
+
+  const transition = await prisma.statusTransition.findUnique({
+    where: {
+      fromStatus_toStatus: {
+        fromStatus,
+        toStatus,
+      },
+    },
+  });
+
+  return !!transition
+    && transition.isActive
+    && !transition.requiresComment
+    && (!role || parseRoles(transition.allowedRoles).includes(role));
+};
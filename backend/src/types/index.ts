@@ -17,9 +17,19 @@ export enum RequestStatus {
   WAITING_PARTS = 'WAITING_PARTS',
   IN_REPAIR = 'IN_REPAIR',
   COMPLETED = 'COMPLETED',
-  CLOSED = 'CLOSED'
+  CLOSED = 'CLOSED',
+  CANCELLED = 'CANCELLED',
+  REJECTED = 'REJECTED'
 }
 
+// Statuses in which a request is finished and no longer tracked against its SLA
+export const FINISHED_STATUSES: string[] = [
+  RequestStatus.COMPLETED,
+  RequestStatus.CLOSED,
+  RequestStatus.CANCELLED,
+  RequestStatus.REJECTED,
+];
+
 export enum RequestPriority {
   LOW = 'LOW',
   NORMAL = 'NORMAL',
@@ -50,7 +60,12 @@ export enum ActivityType {
   COMMENT = 'COMMENT',
   COST_ADDED = 'COST_ADDED',
   CREATED = 'CREATED',
-  UPDATED = 'UPDATED'
+  UPDATED = 'UPDATED',
+  VISIT = 'VISIT',
+  WARRANTY_OVERRIDE = 'WARRANTY_OVERRIDE',
+  CONTRACT_COVERAGE = 'CONTRACT_COVERAGE',
+  QUOTATION = 'QUOTATION',
+  INVOICE = 'INVOICE'
 }
 
 export enum NotificationType {
@@ -60,7 +75,12 @@ export enum NotificationType {
   COMPLETION = 'COMPLETION',
   READ_RECEIPT = 'READ_RECEIPT',
   WAREHOUSE_UPDATE = 'WAREHOUSE_UPDATE',
-  PRODUCT_ADDED = 'PRODUCT_ADDED'
+  PRODUCT_ADDED = 'PRODUCT_ADDED',
+  SLA_WARNING = 'SLA_WARNING',
+  MENTION = 'MENTION',
+  CERTIFICATION_EXPIRY = 'CERTIFICATION_EXPIRY',
+  VISIT = 'VISIT',
+  QUOTATION = 'QUOTATION'
 }
 
 // Extend Express Request type to include user
@@ -153,6 +173,72 @@ export interface PerformanceReport {
   overdueRequests: number;
 }
 
+export interface SLAComplianceReport {
+  department: {
+    id: number;
+    name: string;
+  };
+  totalRequests: number;
+  overdueRequests: number;
+  completedOnTime: number;
+  completedOverdue: number;
+  overduePercentage: number;
+  onTimePercentage: number;
+  averageResolutionHours: number;
+  averageNetResolutionHours: number;
+}
+
+export interface CostSummaryReport {
+  byCostType: Array<{
+    costType: string;
+    currency: string;
+    total: number;
+    count: number;
+  }>;
+  parts: Array<{
+    currency: string;
+    total: number;
+    quantity: number;
+  }>;
+  byDepartment: Array<{
+    departmentId: number;
+    departmentName: string;
+    currency: string;
+    laborTotal: number;
+    partsTotal: number;
+    otherTotal: number;
+  }>;
+  totalsByCurrency: Record<string, number>;
+}
+
+export interface UnpaidInvoicesReport {
+  invoices: Array<{
+    id: number;
+    invoiceNumber: string;
+    requestId: number;
+    requestNumber: string;
+    customerId: number;
+    customerName: string;
+    currency: string;
+    total: number;
+    amountPaid: number;
+    balance: number;
+    status: string;
+    issuedAt: Date;
+    dueDate: Date | null;
+    daysOverdue: number;
+  }>;
+  byCustomer: Array<{
+    customerId: number;
+    customerName: string;
+    currency: string;
+    balance: number;
+    invoiceCount: number;
+  }>;
+  totalsByCurrency: Record<string, number>;
+  overdueByCurrency: Record<string, number>;
+}
+
 // SLA types
 export interface SLAConfig {
   underWarrantyHours: number;
@@ -208,6 +294,12 @@ export class NotFoundError extends AppError {
   }
 }
 
+export class ConflictError extends AppError {
+  constructor(message: string = 'Conflict') {
+    super(message, 409);
+  }
+}
+
 // JWT Payload type
 export interface JWTPayload {
   id: number;
@@ -9,6 +9,7 @@ import AuthLayout from './components/layout/AuthLayout';
 
 // Auth pages
 import LoginPage from './pages/auth/LoginPage';
+import QuoteResponsePage from './pages/quotes/QuoteResponsePage';
 
 // Dashboard pages
 import Dashboard from './pages/Dashboard';
@@ -24,6 +25,10 @@ import CreateAccountPage from './pages/accounts/CreateAccountPage';
 import EditAccountPage from './pages/accounts/EditAccountPage';
 import ProfilePage from './pages/ProfilePage';
 import ReportsPage from './pages/reports/ReportsPage';
+import VisitCalendarPage from './pages/visits/VisitCalendarPage';
+import UnitsPage from './pages/units/UnitsPage';
+import UnitDetailsPage from './pages/units/UnitDetailsPage';
+import ContractsPage from './pages/contracts/ContractsPage';
 import NotificationsPage from './pages/NotificationsPage';
 import StoragePage from './pages/storage/StoragePage';
 import StatusManagementPage from './pages/StatusManagementPage';
@@ -160,6 +165,16 @@ function App() {
           }
         />
 
+        {/* Customer quotation link, open with or without a login */}
+        <Route
+          path="/quote/:token"
+          element={
+            <AuthLayout>
+              <QuoteResponsePage />
+            </AuthLayout>
+          }
+        />
+
         {/* Protected routes */}
         <Route
           path="/"
@@ -311,6 +326,50 @@ function App() {
           }
         />
 
+        <Route
+          path="/visits"
+          element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <VisitCalendarPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          }
+        />
+
+        <Route
+          path="/units"
+          element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <UnitsPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          }
+        />
+
+        <Route
+          path="/units/:id"
+          element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <UnitDetailsPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          }
+        />
+
+        <Route
+          path="/contracts"
+          element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <ContractsPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          }
+        />
+
         <Route
           path="/storage"
           element={
@@ -0,0 +1,339 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { departmentsAPI, maintenanceAPI, unitsAPI } from '../../services/api';
+import { Department, InstalledUnit, MaintenancePlan, MaintenancePlanForm, REQUEST_STATUS_LABELS, UserRole } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface Props {
+  customerId: number;
+  customerName: string;
+  onClose: () => void;
+}
+
+const MONTHS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+
+const emptyForm = (customerId: number): MaintenancePlanForm => ({
+  name: '',
+  customerId,
+  installedUnitId: '',
+  departmentId: '',
+  issueDescription: '',
+  priority: 'NORMAL',
+  executionMethod: 'ON_SITE',
+  recurrence: 'INTERVAL',
+  intervalMonths: 6,
+  seasonMonths: [],
+  dayOfMonth: 1,
+  leadDays: 14,
+  startDate: '',
+  endDate: '',
+  notes: '',
+});
+
+const formatDay = (value?: string | null) => (value ? value.slice(0, 10) : '-');
+
+// Preventive maintenance plans of one customer, with their generated and skipped visits
+const CustomerMaintenancePlans: React.FC<Props> = ({ customerId, customerName, onClose }) => {
+  const { t } = useI18n();
+  const { hasRole } = useAuth();
+  const canManage = hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR]);
+
+  const [plans, setPlans] = useState<MaintenancePlan[]>([]);
+  const [history, setHistory] = useState<MaintenancePlan | null>(null);
+  const [units, setUnits] = useState<InstalledUnit[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<MaintenancePlanForm>(emptyForm(customerId));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setError(null);
+      const data = await maintenanceAPI.getPlans({ customerId, includeInactive: true });
+      setPlans(data.plans || []);
+    } catch (e: any) {
+      setError(e.message || t('error.failedToLoad'));
+    }
+  }, [customerId, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!showForm || departments.length > 0) return;
+    Promise.all([unitsAPI.getUnits({ customerId, limit: 100 }), departmentsAPI.getDepartments()])
+      .then(([unitData, departmentData]) => {
+        setUnits(unitData.units || []);
+        setDepartments(departmentData?.data?.departments || []);
+      })
+      .catch((e: any) => setError(e.message || t('error.failedToLoad')));
+  }, [showForm, departments.length, customerId, t]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await action();
+      await load();
+      return true;
+    } catch (e: any) {
+      setError(e.message || t('error.failedToUpdate'));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const toggleMonth = (month: number) => {
+    setForm(prev => ({
+      ...prev,
+      seasonMonths: prev.seasonMonths.includes(month)
+        ? prev.seasonMonths.filter(m => m !== month)
+        : [...prev.seasonMonths, month].sort((a, b) => a - b),
+    }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await run(() => maintenanceAPI.createPlan({
+      ...form,
+      installedUnitId: form.installedUnitId || undefined,
+      departmentId: form.departmentId || undefined,
+      intervalMonths: form.recurrence === 'INTERVAL' ? form.intervalMonths : undefined,
+      seasonMonths: form.recurrence === 'SEASONAL' ? form.seasonMonths : [],
+      endDate: form.endDate || undefined,
+    }));
+    if (saved) {
+      setShowForm(false);
+      setForm(emptyForm(customerId));
+    }
+  };
+
+  const showHistory = async (planId: number) => {
+    try {
+      setError(null);
+      const data = await maintenanceAPI.getPlan(planId);
+      setHistory(data.plan);
+    } catch (e: any) {
+      setError(e.message || t('error.failedToLoad'));
+    }
+  };
+
+  const handleSkip = async (plan: MaintenancePlan) => {
+    const reason = window.prompt(t('maintenance.skipReason', { date: formatDay(plan.nextDueDate) }));
+    if (!reason || !reason.trim()) return;
+    await run(() => maintenanceAPI.skipNextVisit(plan.id, reason.trim()));
+    if (history?.id === plan.id) await showHistory(plan.id);
+  };
+
+  const describeRecurrence = (plan: MaintenancePlan) =>
+    plan.recurrence === 'INTERVAL'
+      ? t('maintenance.everyMonths', { months: plan.intervalMonths ?? '' })
+      : t('maintenance.seasonal', { months: plan.seasonMonths.join(', '), day: plan.dayOfMonth });
+
+  return (
+    <div className="card shadow-medium">
+      <div className="card-header flex items-start justify-between">
+        <div>
+          <h2>{t('maintenance.title')}: {customerName}</h2>
+          <p>{t('maintenance.subtitle')}</p>
+        </div>
+        <div className="flex gap-2">
+          {canManage && (
+            <button type="button" className="btn-primary" onClick={() => setShowForm(v => !v)}>{t('maintenance.add')}</button>
+          )}
+          <button type="button" className="btn" onClick={onClose}>{t('technicianProfile.close')}</button>
+        </div>
+      </div>
+      <div className="card-content space-y-6">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {showForm && (
+          <form className="grid grid-cols-1 md:grid-cols-3 gap-3" onSubmit={handleCreate}>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="plan-name">{t('maintenance.name')}</label>
+              <input id="plan-name" name="name" className="input-field" value={form.name} onChange={handleChange} required />
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="plan-installedUnitId">{t('units.select')}</label>
+              <select id="plan-installedUnitId" name="installedUnitId" className="select-field" value={form.installedUnitId} onChange={handleChange}>
+                <option value="">{t('maintenance.allUnits')}</option>
+                {units.map(unit => (
+                  <option key={unit.id} value={unit.id}>{unit.serialNumber} — {unit.product.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label className={`form-label ${form.installedUnitId ? '' : 'required'}`} htmlFor="plan-departmentId">{t('maintenance.department')}</label>
+              <select id="plan-departmentId" name="departmentId" className="select-field" value={form.departmentId} onChange={handleChange} required={!form.installedUnitId}>
+                <option value="">{t('maintenance.departmentFromUnit')}</option>
+                {departments.map(department => (
+                  <option key={department.id} value={department.id}>{department.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group md:col-span-3">
+              <label className="form-label required" htmlFor="plan-issueDescription">{t('create.issue')}</label>
+              <textarea id="plan-issueDescription" name="issueDescription" className="textarea-field" rows={2} value={form.issueDescription} onChange={handleChange} required />
+            </div>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="plan-priority">{t('create.priority')}</label>
+              <select id="plan-priority" name="priority" className="select-field" value={form.priority} onChange={handleChange}>
+                <option value="LOW">{t('create.priorityLow')}</option>
+                <option value="NORMAL">{t('create.priorityNormal')}</option>
+                <option value="HIGH">{t('create.priorityHigh')}</option>
+                <option value="URGENT">{t('create.priorityUrgent')}</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="plan-executionMethod">{t('create.executionMethod')}</label>
+              <select id="plan-executionMethod" name="executionMethod" className="select-field" value={form.executionMethod} onChange={handleChange}>
+                <option value="ON_SITE">{t('create.executionOnsite')}</option>
+                <option value="WORKSHOP">{t('create.executionWorkshop')}</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="plan-recurrence">{t('maintenance.recurrence')}</label>
+              <select id="plan-recurrence" name="recurrence" className="select-field" value={form.recurrence} onChange={handleChange}>
+                <option value="INTERVAL">{t('maintenance.recurrence.INTERVAL')}</option>
+                <option value="SEASONAL">{t('maintenance.recurrence.SEASONAL')}</option>
+              </select>
+            </div>
+            {form.recurrence === 'INTERVAL' ? (
+              <div className="form-group">
+                <label className="form-label required" htmlFor="plan-intervalMonths">{t('maintenance.intervalMonths')}</label>
+                <input id="plan-intervalMonths" type="number" min={1} name="intervalMonths" className="input-field" value={form.intervalMonths} onChange={handleChange} required />
+              </div>
+            ) : (
+              <>
+                <div className="form-group md:col-span-2">
+                  <span className="form-label required">{t('maintenance.seasonMonths')}</span>
+                  <div className="flex flex-wrap gap-3">
+                    {MONTHS.map(month => (
+                      <label key={month} className="inline-flex items-center gap-1 text-sm">
+                        <input type="checkbox" checked={form.seasonMonths.includes(month)} onChange={() => toggleMonth(month)} />
+                        {month}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="form-group">
+                  <label className="form-label" htmlFor="plan-dayOfMonth">{t('maintenance.dayOfMonth')}</label>
+                  <input id="plan-dayOfMonth" type="number" min={1} max={31} name="dayOfMonth" className="input-field" value={form.dayOfMonth} onChange={handleChange} />
+                </div>
+              </>
+            )}
+            <div className="form-group">
+              <label className="form-label" htmlFor="plan-leadDays">{t('maintenance.leadDays')}</label>
+              <input id="plan-leadDays" type="number" min={0} name="leadDays" className="input-field" value={form.leadDays} onChange={handleChange} />
+            </div>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="plan-startDate">{t('contracts.startDate')}</label>
+              <input id="plan-startDate" type="date" name="startDate" className="input-field" value={form.startDate} onChange={handleChange} required />
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="plan-endDate">{t('contracts.endDate')}</label>
+              <input id="plan-endDate" type="date" name="endDate" className="input-field" value={form.endDate} onChange={handleChange} />
+            </div>
+            <div className="md:col-span-3 flex gap-2">
+              <button className="btn-primary" type="submit" disabled={saving}>{saving ? t('requests.loading') : t('customers.save')}</button>
+              <button className="btn" type="button" onClick={() => setShowForm(false)}>{t('customers.cancel')}</button>
+            </div>
+          </form>
+        )}
+
+        {plans.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('maintenance.empty')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="th">{t('maintenance.name')}</th>
+                  <th className="th">{t('units.select')}</th>
+                  <th className="th">{t('maintenance.department')}</th>
+                  <th className="th">{t('maintenance.recurrence')}</th>
+                  <th className="th">{t('maintenance.nextDue')}</th>
+                  <th className="th">{t('maintenance.skipped')}</th>
+                  <th className="th"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {plans.map(plan => (
+                  <tr key={plan.id} className={plan.isActive ? '' : 'text-gray-400'}>
+                    <td className="td">{plan.name}</td>
+                    <td className="td ltr-text">
+                      {plan.installedUnit
+                        ? <Link to={`/units/${plan.installedUnit.id}`} className="text-blue-600 hover:underline">{plan.installedUnit.serialNumber}</Link>
+                        : t('maintenance.allUnits')}
+                    </td>
+                    <td className="td">{plan.department.name}</td>
+                    <td className="td">{describeRecurrence(plan)}</td>
+                    <td className="td whitespace-nowrap">
+                      {plan.isActive ? formatDay(plan.nextDueDate) : t('maintenance.paused')}
+                    </td>
+                    <td className="td">{plan.skippedCount ?? 0}</td>
+                    <td className="td whitespace-nowrap space-x-2">
+                      <button type="button" className="btn" onClick={() => showHistory(plan.id)}>{t('maintenance.history')}</button>
+                      {canManage && plan.isActive && plan.nextDueDate && (
+                        <button type="button" className="btn" disabled={saving} onClick={() => handleSkip(plan)}>{t('maintenance.skipNext')}</button>
+                      )}
+                      {canManage && (
+                        <button
+                          type="button"
+                          className="btn"
+                          disabled={saving}
+                          onClick={() => run(() => maintenanceAPI.updatePlan(plan.id, { isActive: !plan.isActive }))}
+                        >
+                          {plan.isActive ? t('maintenance.pause') : t('maintenance.resume')}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {history && (
+          <div className="space-y-3">
+            <h3 className="font-semibold text-gray-900">{t('maintenance.historyOf', { name: history.name })}</h3>
+            {!history.occurrences || history.occurrences.length === 0 ? (
+              <p className="text-sm text-gray-500">{t('maintenance.noHistory')}</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 text-sm">
+                {history.occurrences.map(occurrence => (
+                  <li key={occurrence.id} className="flex items-center justify-between py-2">
+                    <span>
+                      {formatDay(occurrence.dueDate)}
+                      {' — '}
+                      {occurrence.status === 'SKIPPED'
+                        ? <span className="text-yellow-700">{t('maintenance.status.SKIPPED')}: {occurrence.skipReason}</span>
+                        : t('maintenance.status.GENERATED')}
+                    </span>
+                    {occurrence.request && (
+                      <Link to={`/requests/${occurrence.request.id}`} className="text-blue-600 hover:underline">
+                        {occurrence.request.requestNumber} ({REQUEST_STATUS_LABELS[occurrence.request.status] || occurrence.request.status})
+                      </Link>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CustomerMaintenancePlans;
@@ -3,6 +3,7 @@ import { Menu, Transition } from '@headlessui/react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { useI18n } from '../../contexts/I18nContext';
+import { useRealtime, useRealtimeEvent } from '../../contexts/RealtimeContext';
 import {
   Bars3Icon,
   BellIcon,
@@ -25,6 +26,7 @@ export default function Header(props: any) {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
   const [notificationCount, setNotificationCount] = useState(0);
+  const { connected } = useRealtime();
   useEffect(() => {
     let mounted = true;
     const load = async () => {
@@ -40,9 +42,17 @@ export default function Header(props: any) {
       }
     };
     load();
-    const interval = setInterval(load, 30000);
-    return () => { mounted = false; clearInterval(interval); };
-  }, [user]);
+    // New notifications are pushed over the realtime stream; poll only while it is down
+    const interval = connected ? undefined : setInterval(load, 30000);
+    window.addEventListener('notificationsRead', load);
+    return () => {
+      mounted = false;
+      if (interval) clearInterval(interval);
+      window.removeEventListener('notificationsRead', load);
+    };
+  }, [user, connected]);
+
+  useRealtimeEvent('notification', () => setNotificationCount(count => count + 1));
 
   const handleLogout = () => {
     logout();
@@ -12,8 +12,11 @@ import {
   CubeIcon,
   UsersIcon,
   ChartBarIcon,
+  CalendarDaysIcon,
   ArchiveBoxIcon,
   CogIcon,
+  WrenchScrewdriverIcon,
+  DocumentCheckIcon,
 } from '@heroicons/react/24/outline';
 import { clsx } from 'clsx';
 
@@ -47,12 +50,30 @@ const Sidebar: React.FC<SidebarProps> = ({ sidebarOpen, setSidebarOpen }) => {
       icon: ClipboardDocumentListIcon,
       roles: [UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR, UserRole.TECHNICIAN],
     },
+    {
+      name: t('nav.visits') || 'Visits',
+      href: '/visits',
+      icon: CalendarDaysIcon,
+      roles: [UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR, UserRole.TECHNICIAN],
+    },
     {
       name: t('nav.customers') || 'Customers',
       href: '/customers',
       icon: UserGroupIcon,
       roles: [UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR],
     },
+    {
+      name: t('nav.units') || 'Units',
+      href: '/units',
+      icon: WrenchScrewdriverIcon,
+      roles: [UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR, UserRole.TECHNICIAN],
+    },
+    {
+      name: t('nav.contracts') || 'Contracts',
+      href: '/contracts',
+      icon: DocumentCheckIcon,
+      roles: [UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR],
+    },
     {
       name: t('nav.products') || 'Products',
       href: '/products',
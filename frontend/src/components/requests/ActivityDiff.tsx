@@ -0,0 +1,66 @@
+import React from 'react';
+import { RequestActivity } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+
+// Field edits are logged by the backend as "Field updated: <field>"
+const FIELD_UPDATE_PATTERN = /^Field updated: (\w+)$/;
+
+const VALUE_LABEL_KEYS: Record<string, string> = {
+  LOW: 'create.priorityLow',
+  NORMAL: 'create.priorityNormal',
+  HIGH: 'create.priorityHigh',
+  URGENT: 'create.priorityUrgent',
+  ON_SITE: 'create.executionOnsite',
+  WORKSHOP: 'create.executionWorkshop',
+  UNDER_WARRANTY: 'create.warrantyUnder',
+  OUT_OF_WARRANTY: 'create.warrantyOut',
+};
+
+export const getUpdatedField = (activity: RequestActivity): string | null => {
+  if (activity.activityType !== 'UPDATED') return null;
+  const match = activity.description.match(FIELD_UPDATE_PATTERN);
+  return match ? match[1] : null;
+};
+
+interface Props {
+  activity: RequestActivity;
+}
+
+// Old and new value of an activity; field edits are shown as a labelled diff
+const ActivityDiff: React.FC<Props> = ({ activity }) => {
+  const { t } = useI18n();
+  const field = getUpdatedField(activity);
+
+  if (!field) {
+    if (!activity.oldValue || !activity.newValue) return null;
+    return (
+      <p className="text-xs text-gray-600 mt-1">
+        <span className="text-red-600">من: {activity.oldValue}</span>
+        {' → '}
+        <span className="text-green-600">إلى: {activity.newValue}</span>
+      </p>
+    );
+  }
+
+  const format = (value?: string) => {
+    if (!value) return <span className="italic">{t('requestEdit.empty')}</span>;
+    if (field === 'slaDueDate') return new Date(value).toLocaleString('ar-EG');
+    return VALUE_LABEL_KEYS[value] ? t(VALUE_LABEL_KEYS[value]) : value;
+  };
+
+  return (
+    <div className="mt-1 text-xs space-y-1">
+      <div className="text-gray-500">{t(`requestEdit.field.${field}`)}</div>
+      <div className="rounded bg-red-50 text-red-700 px-2 py-1 whitespace-pre-wrap">
+        <span className="select-none font-mono mr-1">−</span>
+        <span className="line-through">{format(activity.oldValue)}</span>
+      </div>
+      <div className="rounded bg-green-50 text-green-700 px-2 py-1 whitespace-pre-wrap">
+        <span className="select-none font-mono mr-1">+</span>
+        {format(activity.newValue)}
+      </div>
+    </div>
+  );
+};
+
+export default ActivityDiff;
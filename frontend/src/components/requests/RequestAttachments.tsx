@@ -0,0 +1,224 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { DocumentTextIcon, PaperClipIcon, TrashIcon, ArrowDownTrayIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { requestsAPI } from '../../services/api';
+import { AttachmentCategory, RequestAttachment, UserRole } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+
+// Matches the backend MAX_FILE_SIZE default
+const MAX_FILE_SIZE_MB = 5;
+const CATEGORIES: AttachmentCategory[] = ['PHOTO', 'INVOICE', 'DIAGNOSTIC', 'OTHER'];
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+interface Props {
+  requestId: number;
+}
+
+const RequestAttachments: React.FC<Props> = ({ requestId }) => {
+  const { t } = useI18n();
+  const { user } = useAuth();
+  const [attachments, setAttachments] = useState<RequestAttachment[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [preview, setPreview] = useState<{ url: string; name: string } | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [category, setCategory] = useState<AttachmentCategory>('PHOTO');
+  const [description, setDescription] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const objectUrls = useRef<string[]>([]);
+
+  const trackUrl = (blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    objectUrls.current.push(url);
+    return url;
+  };
+
+  const load = useCallback(async () => {
+    try {
+      const data = await requestsAPI.getAttachments(requestId);
+      setAttachments(data.attachments);
+
+      const loaded: Record<number, string> = {};
+      await Promise.all(data.attachments
+        .filter(attachment => attachment.thumbnailKey)
+        .map(async attachment => {
+          try {
+            loaded[attachment.id] = trackUrl(await requestsAPI.getAttachmentFile(requestId, attachment.id, true));
+          } catch {}
+        }));
+      setThumbnails(loaded);
+    } catch (e: any) {
+      setError(e.message || t('attachments.error.load'));
+    }
+  }, [requestId, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Release blob URLs when leaving the page
+  useEffect(() => {
+    const urls = objectUrls.current;
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (files.length === 0) return;
+
+    try {
+      setUploading(true);
+      setError(null);
+      await requestsAPI.uploadAttachments(requestId, files, { category, description: description || undefined });
+      setFiles([]);
+      setDescription('');
+      if (fileInput.current) fileInput.current.value = '';
+      await load();
+    } catch (e: any) {
+      setError(e.message || t('attachments.error.upload'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleOpen = async (attachment: RequestAttachment) => {
+    try {
+      const url = trackUrl(await requestsAPI.getAttachmentFile(requestId, attachment.id));
+      if (attachment.mimeType.startsWith('image/')) {
+        setPreview({ url, name: attachment.originalName });
+      } else {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = attachment.originalName;
+        link.click();
+      }
+    } catch (e: any) {
+      setError(e.message || t('attachments.error.download'));
+    }
+  };
+
+  const handleDelete = async (attachment: RequestAttachment) => {
+    if (!window.confirm(t('attachments.confirmDelete'))) return;
+    try {
+      await requestsAPI.deleteAttachment(requestId, attachment.id);
+      setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+    } catch (e: any) {
+      setError(e.message || t('attachments.error.delete'));
+    }
+  };
+
+  const canDelete = (attachment: RequestAttachment) =>
+    user?.role !== UserRole.TECHNICIAN || attachment.uploadedById === user?.id;
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3>{t('attachments.title')}</h3>
+        <p>{t('attachments.subtitle')}</p>
+      </div>
+      <div className="card-content space-y-6">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        <form className="space-y-4" onSubmit={handleUpload}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="form-group">
+              <label className="form-label">{t('attachments.category')}</label>
+              <select className="input-field" value={category} onChange={(e) => setCategory(e.target.value as AttachmentCategory)}>
+                {CATEGORIES.map(c => (
+                  <option key={c} value={c}>{t(`attachments.category.${c}`)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label">{t('attachments.description')}</label>
+              <input className="input-field" value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+          </div>
+          <div className="form-group">
+            <label className="form-label required">{t('attachments.files')}</label>
+            <input
+              ref={fileInput}
+              type="file"
+              multiple
+              accept="image/jpeg,image/png,image/webp,image/gif,application/pdf,text/plain"
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+              className="block w-full text-sm text-gray-700"
+            />
+            <p className="mt-1 text-xs text-gray-500">{t('attachments.hint', { size: MAX_FILE_SIZE_MB })}</p>
+          </div>
+          <div className="flex justify-end">
+            <button type="submit" className="btn-primary" disabled={uploading || files.length === 0}>
+              <PaperClipIcon className="h-4 w-4 inline-block mr-1" />
+              {uploading ? t('attachments.uploading') : t('attachments.upload')}
+            </button>
+          </div>
+        </form>
+
+        {attachments.length === 0 ? (
+          <div className="text-gray-500 text-sm">{t('attachments.empty')}</div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+            {attachments.map(attachment => (
+              <div key={attachment.id} className="border rounded-lg overflow-hidden bg-white">
+                <button
+                  type="button"
+                  onClick={() => handleOpen(attachment)}
+                  className="block w-full h-32 bg-gray-50 flex items-center justify-center"
+                  title={attachment.originalName}
+                >
+                  {thumbnails[attachment.id] ? (
+                    <img src={thumbnails[attachment.id]} alt={attachment.originalName} className="h-full w-full object-cover" />
+                  ) : (
+                    <DocumentTextIcon className="h-12 w-12 text-gray-400" />
+                  )}
+                </button>
+                <div className="p-2 text-xs space-y-1">
+                  <div className="font-medium text-gray-900 truncate" title={attachment.originalName}>{attachment.originalName}</div>
+                  <div className="text-gray-500">
+                    {t(`attachments.category.${attachment.category}`)} • {formatSize(attachment.size)}
+                  </div>
+                  {attachment.description && <div className="text-gray-600 truncate">{attachment.description}</div>}
+                  <div className="text-gray-400">
+                    {t('attachments.uploadedBy', { name: `${attachment.uploadedBy.firstName} ${attachment.uploadedBy.lastName}` })}
+                  </div>
+                  <div className="flex justify-between pt-1">
+                    <button type="button" onClick={() => handleOpen(attachment)} className="text-primary-600 hover:text-primary-800" title={t('attachments.download')}>
+                      <ArrowDownTrayIcon className="h-4 w-4" />
+                    </button>
+                    {canDelete(attachment) && (
+                      <button type="button" onClick={() => handleDelete(attachment)} className="text-red-600 hover:text-red-800" title={t('attachments.delete')}>
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {preview && (
+        <div className="fixed inset-0 z-50 bg-black bg-opacity-75 flex items-center justify-center p-4" onClick={() => setPreview(null)}>
+          <div className="relative max-w-4xl max-h-full" onClick={(e) => e.stopPropagation()}>
+            <button type="button" onClick={() => setPreview(null)} className="absolute top-2 right-2 bg-white rounded-full p-1">
+              <XMarkIcon className="h-5 w-5 text-gray-700" />
+            </button>
+            <img src={preview.url} alt={preview.name} className="max-h-[85vh] rounded" />
+            <div className="mt-2 flex justify-center">
+              <a href={preview.url} download={preview.name} className="btn">{t('attachments.download')}</a>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RequestAttachments;
@@ -0,0 +1,253 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChatBubbleLeftRightIcon, LockClosedIcon, EyeIcon } from '@heroicons/react/24/outline';
+import { requestsAPI } from '../../services/api';
+import { CommentVisibility, RequestComment, RequestCommentRevision, UserRole } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useRealtimeEvent } from '../../contexts/RealtimeContext';
+
+const MANAGER_ROLES = [UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER];
+
+// Highlight @username mentions in a comment body
+const renderBody = (body: string) => {
+  return body.split(/(@[\w.-]+)/g).map((part, index) =>
+    part.startsWith('@')
+      ? <span key={index} className="text-primary-600 font-medium">{part}</span>
+      : <React.Fragment key={index}>{part}</React.Fragment>
+  );
+};
+
+interface EditorProps {
+  initialBody?: string;
+  initialVisibility?: CommentVisibility;
+  submitLabel: string;
+  onSubmit: (body: string, visibility: CommentVisibility) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const CommentEditor: React.FC<EditorProps> = ({ initialBody = '', initialVisibility = 'INTERNAL', submitLabel, onSubmit, onCancel }) => {
+  const { t } = useI18n();
+  const [body, setBody] = useState(initialBody);
+  const [visibility, setVisibility] = useState<CommentVisibility>(initialVisibility);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    try {
+      setSaving(true);
+      await onSubmit(body.trim(), visibility);
+      setBody('');
+    } catch {
+      // The parent shows the error; keep the text so it can be retried
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        className="input-field"
+        rows={3}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={t('comments.placeholder')}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <select className="input-field w-auto" value={visibility} onChange={(e) => setVisibility(e.target.value as CommentVisibility)}>
+          <option value="INTERNAL">{t('comments.visibility.INTERNAL')}</option>
+          <option value="CUSTOMER">{t('comments.visibility.CUSTOMER')}</option>
+        </select>
+        <div className="flex gap-2">
+          {onCancel && <button type="button" className="btn" onClick={onCancel}>{t('comments.cancel')}</button>}
+          <button type="submit" className="btn-primary" disabled={saving || !body.trim()}>{submitLabel}</button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+interface Props {
+  requestId: number;
+}
+
+const RequestComments: React.FC<Props> = ({ requestId }) => {
+  const { t } = useI18n();
+  const { user, hasRole } = useAuth();
+  const [comments, setComments] = useState<RequestComment[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<number | null>(null);
+  const [editing, setEditing] = useState<number | null>(null);
+  const [history, setHistory] = useState<{ commentId: number; revisions: RequestCommentRevision[] } | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await requestsAPI.getComments(requestId);
+      setComments(data.comments);
+    } catch (e: any) {
+      setError(e.message || t('comments.error.load'));
+    }
+  }, [requestId, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useRealtimeEvent('request:comment', (event: { requestId: number; updatedBy: number }) => {
+    if (event.requestId === requestId && event.updatedBy !== user?.id) {
+      load();
+    }
+  });
+
+  const run = async (action: () => Promise<unknown>, errorKey: string) => {
+    try {
+      setError(null);
+      await action();
+      await load();
+    } catch (e: any) {
+      setError(e.message || t(errorKey));
+      throw e;
+    }
+  };
+
+  const handleAdd = (parentId?: number) => (body: string, visibility: CommentVisibility) =>
+    run(async () => {
+      await requestsAPI.addComment(requestId, { body, visibility, parentId });
+      setReplyTo(null);
+    }, 'comments.error.save');
+
+  const handleEdit = (commentId: number) => (body: string, visibility: CommentVisibility) =>
+    run(async () => {
+      await requestsAPI.updateComment(requestId, commentId, { body, visibility });
+      setEditing(null);
+    }, 'comments.error.save');
+
+  const handleDelete = async (commentId: number) => {
+    if (!window.confirm(t('comments.confirmDelete'))) return;
+    await run(() => requestsAPI.deleteComment(requestId, commentId), 'comments.error.delete').catch(() => {});
+  };
+
+  const toggleHistory = async (commentId: number) => {
+    if (history?.commentId === commentId) {
+      setHistory(null);
+      return;
+    }
+    try {
+      const data = await requestsAPI.getCommentHistory(requestId, commentId);
+      setHistory({ commentId, revisions: data.revisions });
+    } catch (e: any) {
+      setError(e.message || t('comments.error.load'));
+    }
+  };
+
+  const isManager = hasRole(MANAGER_ROLES);
+
+  const renderComment = (comment: RequestComment, isReply: boolean) => {
+    const isAuthor = comment.authorId === user?.id;
+    const deleted = !!comment.deletedAt;
+
+    return (
+      <div key={comment.id} className={isReply ? 'mr-8 mt-3' : ''}>
+        <div className={`rounded-lg p-3 border ${comment.visibility === 'INTERNAL' ? 'bg-yellow-50 border-yellow-200' : 'bg-white border-gray-200'}`}>
+          <div className="flex justify-between items-start text-xs text-gray-500 mb-1">
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-gray-900">{comment.author.firstName} {comment.author.lastName}</span>
+              <span className="inline-flex items-center gap-1">
+                {comment.visibility === 'INTERNAL' ? <LockClosedIcon className="h-3 w-3" /> : <EyeIcon className="h-3 w-3" />}
+                {t(`comments.visibility.${comment.visibility}`)}
+              </span>
+            </div>
+            <span>
+              {new Date(comment.createdAt).toLocaleString('ar-EG')}
+              {comment.editedAt && !deleted && ` (${t('comments.edited')})`}
+            </span>
+          </div>
+
+          {editing === comment.id ? (
+            <CommentEditor
+              initialBody={comment.body}
+              initialVisibility={comment.visibility}
+              submitLabel={t('comments.save')}
+              onSubmit={handleEdit(comment.id)}
+              onCancel={() => setEditing(null)}
+            />
+          ) : deleted ? (
+            <p className="text-sm italic text-gray-400">{t('comments.deleted')}</p>
+          ) : (
+            <p className="text-sm text-gray-800 whitespace-pre-wrap">{renderBody(comment.body)}</p>
+          )}
+
+          <div className="flex gap-3 mt-2 text-xs">
+            {!isReply && !deleted && (
+              <button type="button" className="text-primary-600 hover:text-primary-800" onClick={() => setReplyTo(replyTo === comment.id ? null : comment.id)}>
+                {t('comments.reply')}
+              </button>
+            )}
+            {isAuthor && !deleted && editing !== comment.id && (
+              <button type="button" className="text-gray-600 hover:text-gray-800" onClick={() => setEditing(comment.id)}>
+                {t('comments.edit')}
+              </button>
+            )}
+            {(isAuthor || isManager) && !deleted && (
+              <button type="button" className="text-red-600 hover:text-red-800" onClick={() => handleDelete(comment.id)}>
+                {t('comments.delete')}
+              </button>
+            )}
+            {(isAuthor || isManager) && (comment._count?.revisions || 0) > 0 && (
+              <button type="button" className="text-gray-500 hover:text-gray-700" onClick={() => toggleHistory(comment.id)}>
+                {t('comments.history')} ({comment._count?.revisions})
+              </button>
+            )}
+          </div>
+
+          {history?.commentId === comment.id && (
+            <div className="mt-2 space-y-2 border-t pt-2">
+              {history.revisions.map(revision => (
+                <div key={revision.id} className="text-xs text-gray-600">
+                  <div className="text-gray-500">
+                    {t(`comments.history.${revision.action}`, { name: `${revision.changedBy.firstName} ${revision.changedBy.lastName}` })}
+                    {' • '}{new Date(revision.createdAt).toLocaleString('ar-EG')}
+                  </div>
+                  <p className="whitespace-pre-wrap line-through decoration-gray-300">{revision.body}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {comment.replies?.map(reply => renderComment(reply, true))}
+
+        {replyTo === comment.id && (
+          <div className="mr-8 mt-3">
+            <CommentEditor submitLabel={t('comments.reply')} onSubmit={handleAdd(comment.id)} onCancel={() => setReplyTo(null)} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="flex items-center gap-2"><ChatBubbleLeftRightIcon className="h-5 w-5" />{t('comments.title')}</h3>
+        <p>{t('comments.subtitle')}</p>
+      </div>
+      <div className="card-content space-y-4">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {comments.length === 0 ? (
+          <div className="text-gray-500 text-sm">{t('comments.empty')}</div>
+        ) : (
+          <div className="space-y-4">
+            {comments.map(comment => renderComment(comment, false))}
+          </div>
+        )}
+
+        <CommentEditor submitLabel={t('comments.send')} onSubmit={handleAdd()} />
+      </div>
+    </div>
+  );
+};
+
+export default RequestComments;
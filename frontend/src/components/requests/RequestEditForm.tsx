@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { productsAPI, requestsAPI, unitsAPI } from '../../services/api';
+import { ExecutionMethod, InstalledUnit, Product, Request, RequestPriority, UpdateRequestForm, UserRole, WarrantyStatus } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface Props {
+  request: Request;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+const toDateInput = (value?: string) => (value ? value.slice(0, 10) : '');
+
+const RequestEditForm: React.FC<Props> = ({ request, onSaved, onCancel }) => {
+  const { t } = useI18n();
+  const { hasRole } = useAuth();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [units, setUnits] = useState<InstalledUnit[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    issueDescription: request.issueDescription,
+    installedUnitId: request.installedUnitId ? String(request.installedUnitId) : '',
+    productId: request.productId ? String(request.productId) : '',
+    executionMethod: request.executionMethod,
+    warrantyStatus: request.warrantyStatus,
+    priority: request.priority,
+    purchaseDate: toDateInput(request.purchaseDate),
+    extendedWarrantyMonths: String(request.extendedWarrantyMonths ?? 0),
+    warrantyOverrideReason: '',
+  });
+
+  // Only managers can enter backdated purchase dates (same rule as request creation)
+  const canBackdate = hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [resp, unitData] = await Promise.all([
+          productsAPI.getProducts({ limit: 100, departmentId: request.departmentId }),
+          unitsAPI.getUnits({ customerId: request.customerId, limit: 100 }),
+        ]);
+        setProducts(resp.data.products || []);
+        setUnits((unitData.units || []).filter(unit => unit.product.departmentId === request.departmentId));
+      } catch (e: any) {
+        setError(e.message || t('error.failedToLoad'));
+      }
+    };
+    load();
+  }, [request.departmentId, request.customerId, t]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Send only the fields that changed
+    const payload: UpdateRequestForm = {};
+    if (form.issueDescription.trim() !== request.issueDescription) payload.issueDescription = form.issueDescription.trim();
+    if (form.installedUnitId !== (request.installedUnitId ? String(request.installedUnitId) : '')) {
+      payload.installedUnitId = form.installedUnitId ? Number(form.installedUnitId) : null;
+    }
+    // The product follows the unit when one is linked
+    if (!form.installedUnitId && form.productId !== (request.productId ? String(request.productId) : '')) payload.productId = form.productId ? Number(form.productId) : null;
+    if (form.executionMethod !== request.executionMethod) payload.executionMethod = form.executionMethod;
+    if (form.warrantyStatus !== request.warrantyStatus) {
+      payload.warrantyStatus = form.warrantyStatus;
+      if (form.warrantyOverrideReason.trim()) payload.warrantyOverrideReason = form.warrantyOverrideReason.trim();
+    }
+    if (form.priority !== request.priority) payload.priority = form.priority;
+    if (form.purchaseDate !== toDateInput(request.purchaseDate)) payload.purchaseDate = form.purchaseDate || null;
+    if (Number(form.extendedWarrantyMonths || 0) !== (request.extendedWarrantyMonths ?? 0)) {
+      payload.extendedWarrantyMonths = Number(form.extendedWarrantyMonths || 0);
+    }
+
+    if (Object.keys(payload).length === 0) {
+      onCancel();
+      return;
+    }
+
+    if (payload.purchaseDate && !canBackdate) {
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      if (new Date(payload.purchaseDate) < today) {
+        setError(t('requestEdit.error.backdated'));
+        return;
+      }
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await requestsAPI.updateRequest(request.id, payload);
+      onSaved();
+    } catch (e: any) {
+      setError(e.message || t('error.failedToSave'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="form-group">
+          <label className="form-label" htmlFor="edit-installedUnitId">{t('units.select')}</label>
+          <select id="edit-installedUnitId" name="installedUnitId" value={form.installedUnitId} onChange={handleChange} className="select-field">
+            <option value="">{t('units.selectNone')}</option>
+            {units.map(u => (
+              <option key={u.id} value={u.id}>{u.serialNumber} — {u.product.name} {u.product.model}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label" htmlFor="edit-productId">{t('create.product')}</label>
+          <select id="edit-productId" name="productId" value={form.productId} onChange={handleChange} className="select-field" disabled={!!form.installedUnitId}>
+            <option value="">{t('create.productPlaceholder') || 'Select a product (optional)...'}</option>
+            {products.map(p => (
+              <option key={p.id} value={p.id}>{p.name} — {p.model}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label required" htmlFor="edit-priority">{t('create.priority')}</label>
+          <select id="edit-priority" name="priority" value={form.priority} onChange={(e) => setForm(prev => ({ ...prev, priority: e.target.value as RequestPriority }))} className="select-field">
+            <option value="LOW">{t('create.priorityLow')}</option>
+            <option value="NORMAL">{t('create.priorityNormal')}</option>
+            <option value="HIGH">{t('create.priorityHigh')}</option>
+            <option value="URGENT">{t('create.priorityUrgent')}</option>
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label required" htmlFor="edit-executionMethod">{t('create.executionMethod')}</label>
+          <select id="edit-executionMethod" name="executionMethod" value={form.executionMethod} onChange={(e) => setForm(prev => ({ ...prev, executionMethod: e.target.value as ExecutionMethod }))} className="select-field">
+            <option value="ON_SITE">{t('create.executionOnsite')}</option>
+            <option value="WORKSHOP">{t('create.executionWorkshop')}</option>
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label required" htmlFor="edit-warrantyStatus">{t('create.warrantyStatus')}</label>
+          <select id="edit-warrantyStatus" name="warrantyStatus" value={form.warrantyStatus} onChange={(e) => setForm(prev => ({ ...prev, warrantyStatus: e.target.value as WarrantyStatus }))} className="select-field">
+            <option value="UNDER_WARRANTY">{t('create.warrantyUnder')}</option>
+            <option value="OUT_OF_WARRANTY">{t('create.warrantyOut')}</option>
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label" htmlFor="edit-purchaseDate">{t('create.purchaseDate')}</label>
+          <input
+            id="edit-purchaseDate"
+            type="date"
+            name="purchaseDate"
+            value={form.purchaseDate}
+            onChange={handleChange}
+            className="input-field"
+          />
+        </div>
+
+        <div className="form-group">
+          <label className="form-label" htmlFor="edit-extendedWarrantyMonths">{t('create.extendedWarrantyMonths')}</label>
+          <input
+            id="edit-extendedWarrantyMonths"
+            type="number"
+            min={0}
+            name="extendedWarrantyMonths"
+            value={form.extendedWarrantyMonths}
+            onChange={handleChange}
+            className="input-field"
+          />
+        </div>
+
+        {form.warrantyStatus !== request.warrantyStatus && (
+          <div className="form-group md:col-span-2">
+            <label className="form-label" htmlFor="edit-warrantyOverrideReason">{t('create.warrantyOverrideReason')}</label>
+            <textarea
+              id="edit-warrantyOverrideReason"
+              name="warrantyOverrideReason"
+              value={form.warrantyOverrideReason}
+              onChange={handleChange}
+              className="textarea-field"
+              rows={2}
+            />
+            <p className="form-help">{t('create.warrantyOverrideHelp')}</p>
+          </div>
+        )}
+      </div>
+
+      <div className="form-group">
+        <label className="form-label required" htmlFor="edit-issueDescription">{t('create.issue')}</label>
+        <textarea id="edit-issueDescription" name="issueDescription" value={form.issueDescription} onChange={handleChange} className="textarea-field" rows={4} required />
+      </div>
+
+      <p className="text-xs text-gray-500">{t('requestEdit.slaHint')}</p>
+
+      <div className="flex gap-2 justify-end">
+        <button type="button" className="btn-secondary" onClick={onCancel}>{t('create.cancel')}</button>
+        <button type="submit" className="btn-primary" disabled={saving || !form.issueDescription.trim()}>
+          {saving ? t('requestEdit.saving') : t('requestEdit.save')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default RequestEditForm;
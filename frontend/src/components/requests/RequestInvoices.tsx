@@ -0,0 +1,412 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { invoicesAPI } from '../../services/api';
+import { BillableLine, Invoice, PaymentForm } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { useRealtimeEvent } from '../../contexts/RealtimeContext';
+import { formatCurrency } from '../../utils/currency';
+
+interface Props {
+  requestId: number;
+}
+
+type Currency = BillableLine['currency'];
+
+const STATUS_STYLES: Record<string, string> = {
+  ISSUED: 'bg-yellow-100 text-yellow-800',
+  PARTIALLY_PAID: 'bg-blue-100 text-blue-800',
+  PAID: 'bg-green-100 text-green-800',
+  VOID: 'bg-gray-100 text-gray-600',
+};
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const emptyPayment: PaymentForm = { amount: '', method: 'CASH', reference: '', notes: '' };
+
+// Invoices of a request: issuing them from uninvoiced billable lines, recording payments and voiding
+const RequestInvoices: React.FC<Props> = ({ requestId }) => {
+  const { t } = useI18n();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [lines, setLines] = useState<BillableLine[]>([]);
+  const [defaultTaxRate, setDefaultTaxRate] = useState(0);
+  const [issueCurrency, setIssueCurrency] = useState<Currency | null>(null);
+  const [discountMode, setDiscountMode] = useState<'amount' | 'percent'>('amount');
+  const [discount, setDiscount] = useState('');
+  const [taxRate, setTaxRate] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [expanded, setExpanded] = useState<Invoice | null>(null);
+  const [paymentFor, setPaymentFor] = useState<number | null>(null);
+  const [payment, setPayment] = useState<PaymentForm>(emptyPayment);
+  const [voidFor, setVoidFor] = useState<number | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [invoiceData, uninvoiced] = await Promise.all([
+        invoicesAPI.getInvoices({ requestId, limit: 100 }),
+        invoicesAPI.getUninvoiced(requestId),
+      ]);
+      setInvoices(invoiceData.invoices);
+      setLines(uninvoiced.lines);
+      setDefaultTaxRate(uninvoiced.defaultTaxRate);
+    } catch (e: any) {
+      setError(e.message || t('error.failedToLoad'));
+    }
+  }, [requestId, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useRealtimeEvent('request:updated', (event) => {
+    if (event.requestId === requestId) load();
+  });
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await action();
+      await load();
+      return true;
+    } catch (e: any) {
+      setError(e.message || t('error.failedToUpdate'));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const currencies = Array.from(new Set(lines.map(line => line.currency)));
+
+  const openIssueForm = (currency: Currency) => {
+    setIssueCurrency(currency);
+    setDiscountMode('amount');
+    setDiscount('');
+    setTaxRate(String(defaultTaxRate));
+    setDueDate('');
+    setNotes('');
+  };
+
+  // Same arithmetic as the server, for the preview only
+  const preview = (() => {
+    const subtotal = roundMoney(lines.filter(line => line.currency === issueCurrency).reduce((sum, line) => sum + line.total, 0));
+    const discountValue = Number(discount) || 0;
+    const discountAmount = roundMoney(discountMode === 'percent' ? subtotal * discountValue / 100 : discountValue);
+    const taxAmount = roundMoney((subtotal - discountAmount) * (Number(taxRate) || 0) / 100);
+    return { subtotal, discountAmount, taxAmount, total: roundMoney(subtotal - discountAmount + taxAmount) };
+  })();
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!issueCurrency) return;
+    const saved = await run(() => invoicesAPI.createInvoice({
+      requestId,
+      currency: issueCurrency,
+      discountAmount: discountMode === 'amount' && discount !== '' ? discount : undefined,
+      discountPercent: discountMode === 'percent' && discount !== '' ? discount : undefined,
+      taxRate: taxRate !== '' ? taxRate : undefined,
+      dueDate: dueDate ? new Date(`${dueDate}T23:59:59`).toISOString() : undefined,
+      notes: notes || undefined,
+    }));
+    if (saved) setIssueCurrency(null);
+  };
+
+  const toggleDetails = async (invoice: Invoice) => {
+    if (expanded?.id === invoice.id) {
+      setExpanded(null);
+      return;
+    }
+    try {
+      const data = await invoicesAPI.getInvoice(invoice.id);
+      setExpanded(data.invoice);
+    } catch (e: any) {
+      setError(e.message || t('error.failedToLoad'));
+    }
+  };
+
+  const openPayment = (invoice: Invoice) => {
+    setVoidFor(null);
+    setPaymentFor(invoice.id);
+    setPayment({ ...emptyPayment, amount: invoice.balance });
+  };
+
+  const handlePayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!paymentFor) return;
+    const invoiceId = paymentFor;
+    const saved = await run(async () => {
+      const data = await invoicesAPI.addPayment(invoiceId, {
+        ...payment,
+        reference: payment.reference || undefined,
+        notes: payment.notes || undefined,
+      });
+      if (expanded?.id === invoiceId) setExpanded(data.invoice);
+    });
+    if (saved) setPaymentFor(null);
+  };
+
+  const handleVoid = async () => {
+    if (!voidFor) return;
+    const saved = await run(() => invoicesAPI.voidInvoice(voidFor, voidReason));
+    if (saved) {
+      setVoidFor(null);
+      setVoidReason('');
+      setExpanded(null);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2>{t('invoices.title')}</h2>
+        <p>{t('invoices.subtitle')}</p>
+      </div>
+      <div className="card-content space-y-4">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {currencies.length > 0 ? (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">{t('invoices.uninvoiced')}</h3>
+            {currencies.map(currency => {
+              const currencyLines = lines.filter(line => line.currency === currency);
+              return (
+                <div key={currency} className="flex flex-wrap items-center justify-between gap-2 bg-gray-50 rounded-lg p-3 text-sm">
+                  <div className="text-gray-700">
+                    {t('invoices.uninvoicedSummary', { count: currencyLines.length })}
+                    <span className="font-semibold text-gray-900 mr-2">
+                      {formatCurrency(currencyLines.reduce((sum, line) => sum + line.total, 0), currency)}
+                    </span>
+                  </div>
+                  {issueCurrency !== currency && (
+                    <button type="button" className="btn-primary" onClick={() => openIssueForm(currency)}>
+                      {t('invoices.issueIn', { currency })}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">{t('invoices.nothingToInvoice')}</p>
+        )}
+
+        {issueCurrency && (
+          <form className="space-y-3 border border-gray-200 rounded-lg p-4" onSubmit={handleIssue}>
+            <table className="min-w-full text-sm">
+              <tbody className="divide-y divide-gray-100">
+                {lines.filter(line => line.currency === issueCurrency).map(line => (
+                  <tr key={`${line.requestCostId ?? ''}-${line.requestPartId ?? ''}`}>
+                    <td className="py-1 text-gray-900">{line.description}</td>
+                    <td className="py-1 text-gray-600">{t(`contracts.cost.${line.lineType}`)}</td>
+                    <td className="py-1 text-gray-600">{line.quantity}</td>
+                    <td className="py-1 text-gray-900">{formatCurrency(line.total, issueCurrency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">{t('invoices.discount')}</label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    className="input-field"
+                    value={discount}
+                    onChange={(e) => setDiscount(e.target.value)}
+                  />
+                  <select className="input-field w-24" value={discountMode} onChange={(e) => setDiscountMode(e.target.value as 'amount' | 'percent')}>
+                    <option value="amount">{issueCurrency}</option>
+                    <option value="percent">%</option>
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">{t('invoices.taxRate')}</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="any"
+                  className="input-field"
+                  value={taxRate}
+                  onChange={(e) => setTaxRate(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">{t('invoices.dueDate')}</label>
+                <input type="date" className="input-field" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+              </div>
+              <input
+                className="input-field"
+                placeholder={t('invoices.notes')}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+            <div className="text-sm space-y-1">
+              <div className="flex justify-between"><span>{t('invoices.subtotal')}</span><span>{formatCurrency(preview.subtotal, issueCurrency)}</span></div>
+              <div className="flex justify-between"><span>{t('invoices.discount')}</span><span>-{formatCurrency(preview.discountAmount, issueCurrency)}</span></div>
+              <div className="flex justify-between"><span>{t('invoices.tax')}</span><span>{formatCurrency(preview.taxAmount, issueCurrency)}</span></div>
+              <div className="flex justify-between font-semibold"><span>{t('invoices.total')}</span><span>{formatCurrency(preview.total, issueCurrency)}</span></div>
+            </div>
+            <p className="text-xs text-gray-500">{t('invoices.dueDateHint')}</p>
+            <div className="flex gap-2">
+              <button type="submit" className="btn-primary" disabled={saving}>{t('invoices.issue')}</button>
+              <button type="button" className="btn" onClick={() => setIssueCurrency(null)}>{t('invoices.close')}</button>
+            </div>
+          </form>
+        )}
+
+        {invoices.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('invoices.none')}</p>
+        ) : invoices.map(invoice => (
+          <div key={invoice.id} className={`border border-gray-200 rounded-lg p-4 space-y-3 ${invoice.status === 'VOID' ? 'opacity-75' : ''}`}>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="text-sm">
+                <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ml-2 ${STATUS_STYLES[invoice.status]}`}>
+                  {t(`invoices.status.${invoice.status}`)}
+                </span>
+                <span className="font-medium text-gray-900">{invoice.invoiceNumber}</span>
+                <span className="text-gray-500 mr-2">{new Date(invoice.issuedAt).toLocaleDateString()}</span>
+                {invoice.dueDate && invoice.status !== 'VOID' && (
+                  <span className="text-gray-500 mr-2">{t('invoices.dueDate')}: {new Date(invoice.dueDate).toLocaleDateString()}</span>
+                )}
+              </div>
+              <div className="text-left">
+                <div className="text-lg font-semibold text-gray-900">{formatCurrency(invoice.total, invoice.currency)}</div>
+                {invoice.status !== 'VOID' && invoice.balance > 0 && (
+                  <div className="text-xs text-red-600">{t('invoices.balance')}: {formatCurrency(invoice.balance, invoice.currency)}</div>
+                )}
+              </div>
+            </div>
+
+            {invoice.voidReason && <div className="text-sm text-gray-600">{t('invoices.voidedFor', { reason: invoice.voidReason })}</div>}
+
+            <div className="flex flex-wrap gap-2">
+              <button type="button" className="btn" onClick={() => toggleDetails(invoice)}>
+                {expanded?.id === invoice.id ? t('invoices.hideDetails') : t('invoices.details')}
+              </button>
+              {(invoice.status === 'ISSUED' || invoice.status === 'PARTIALLY_PAID') && (
+                <button type="button" className="btn" disabled={saving} onClick={() => openPayment(invoice)}>
+                  {t('invoices.recordPayment')}
+                </button>
+              )}
+              {invoice.status === 'ISSUED' && invoice.amountPaid === 0 && (
+                <button type="button" className="btn" disabled={saving} onClick={() => { setPaymentFor(null); setVoidFor(invoice.id); }}>
+                  {t('invoices.void')}
+                </button>
+              )}
+            </div>
+
+            {expanded?.id === invoice.id && (
+              <div className="space-y-3 text-sm">
+                <table className="min-w-full">
+                  <tbody className="divide-y divide-gray-100">
+                    {expanded.lines?.map(line => (
+                      <tr key={line.id}>
+                        <td className="py-1 text-gray-900">{line.description}</td>
+                        <td className="py-1 text-gray-600">{line.quantity}</td>
+                        <td className="py-1 text-gray-900">{formatCurrency(line.total, expanded.currency)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="space-y-1 text-gray-700">
+                  <div className="flex justify-between"><span>{t('invoices.subtotal')}</span><span>{formatCurrency(expanded.subtotal, expanded.currency)}</span></div>
+                  {expanded.discountAmount > 0 && (
+                    <div className="flex justify-between"><span>{t('invoices.discount')}</span><span>-{formatCurrency(expanded.discountAmount, expanded.currency)}</span></div>
+                  )}
+                  {expanded.taxAmount > 0 && (
+                    <div className="flex justify-between"><span>{t('invoices.tax')} ({expanded.taxRate}%)</span><span>{formatCurrency(expanded.taxAmount, expanded.currency)}</span></div>
+                  )}
+                </div>
+                {expanded.notes && <div className="text-gray-600">{expanded.notes}</div>}
+                {expanded.payments && expanded.payments.length > 0 && (
+                  <div className="space-y-1">
+                    <h4 className="font-medium text-gray-700">{t('invoices.payments')}</h4>
+                    {expanded.payments.map(item => (
+                      <div key={item.id} className="flex flex-wrap justify-between gap-2 text-gray-600">
+                        <span>
+                          {new Date(item.paidAt).toLocaleDateString()} — {t(`invoices.method.${item.method}`)}
+                          {item.reference && ` (${item.reference})`}
+                          {' — '}
+                          {item.receivedBy.firstName} {item.receivedBy.lastName}
+                        </span>
+                        <span className="text-gray-900">{formatCurrency(item.amount, expanded.currency)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {paymentFor === invoice.id && (
+              <form className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end bg-gray-50 rounded-lg p-3" onSubmit={handlePayment}>
+                <input
+                  type="number"
+                  min="0.01"
+                  step="any"
+                  max={invoice.balance}
+                  className="input-field"
+                  placeholder={t('invoices.amount')}
+                  value={payment.amount}
+                  onChange={(e) => setPayment(prev => ({ ...prev, amount: e.target.value }))}
+                  required
+                />
+                <select
+                  className="input-field"
+                  value={payment.method}
+                  onChange={(e) => setPayment(prev => ({ ...prev, method: e.target.value as PaymentForm['method'] }))}
+                >
+                  <option value="CASH">{t('invoices.method.CASH')}</option>
+                  <option value="TRANSFER">{t('invoices.method.TRANSFER')}</option>
+                </select>
+                <input
+                  className="input-field"
+                  placeholder={t('invoices.reference')}
+                  value={payment.reference}
+                  onChange={(e) => setPayment(prev => ({ ...prev, reference: e.target.value }))}
+                  required={payment.method === 'TRANSFER'}
+                />
+                <input
+                  className="input-field"
+                  placeholder={t('invoices.notes')}
+                  value={payment.notes}
+                  onChange={(e) => setPayment(prev => ({ ...prev, notes: e.target.value }))}
+                />
+                <div className="flex gap-2">
+                  <button type="submit" className="btn-primary" disabled={saving}>{t('invoices.save')}</button>
+                  <button type="button" className="btn" onClick={() => setPaymentFor(null)}>{t('invoices.close')}</button>
+                </div>
+              </form>
+            )}
+
+            {voidFor === invoice.id && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end bg-gray-50 rounded-lg p-3">
+                <input
+                  className="input-field md:col-span-3"
+                  placeholder={t('invoices.voidReason')}
+                  value={voidReason}
+                  onChange={(e) => setVoidReason(e.target.value)}
+                />
+                <div className="flex gap-2">
+                  <button type="button" className="btn-primary" disabled={saving || !voidReason.trim()} onClick={handleVoid}>
+                    {t('invoices.void')}
+                  </button>
+                  <button type="button" className="btn" onClick={() => setVoidFor(null)}>{t('invoices.close')}</button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RequestInvoices;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { requestsAPI } from '../../services/api';
+import { FINISHED_STATUSES, Request, UserRole } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+
+type LifecycleAction = 'cancel' | 'reject' | 'reopen';
+
+const SUPERVISOR_ROLES = [UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR];
+const MANAGER_ROLES = [UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER];
+
+interface Props {
+  request: Request;
+  onChanged: () => void;
+}
+
+// Cancel, reject and reopen actions; each one needs a reason (same role rules as the backend)
+const RequestLifecycleActions: React.FC<Props> = ({ request, onChanged }) => {
+  const { t } = useI18n();
+  const { hasRole } = useAuth();
+  const [action, setAction] = useState<LifecycleAction | null>(null);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const finished = FINISHED_STATUSES.includes(request.status);
+  const available: LifecycleAction[] = finished
+    ? (request.status === 'COMPLETED' ? hasRole(SUPERVISOR_ROLES) : hasRole(MANAGER_ROLES)) ? ['reopen'] : []
+    : [
+        ...(hasRole(SUPERVISOR_ROLES) ? ['cancel' as const] : []),
+        ...(hasRole(MANAGER_ROLES) ? ['reject' as const] : []),
+      ];
+
+  if (available.length === 0) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action || !reason.trim()) return;
+    try {
+      setSaving(true);
+      setError(null);
+      if (action === 'cancel') await requestsAPI.cancelRequest(request.id, reason.trim());
+      if (action === 'reject') await requestsAPI.rejectRequest(request.id, reason.trim());
+      if (action === 'reopen') await requestsAPI.reopenRequest(request.id, reason.trim());
+      setAction(null);
+      setReason('');
+      onChanged();
+    } catch (e: any) {
+      setError(e.message || t('error.failedToUpdate'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3>{t('lifecycle.title')}</h3>
+        <p>{finished ? t('lifecycle.subtitle.finished') : t('lifecycle.subtitle.open')}</p>
+      </div>
+      <div className="card-content space-y-4">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        <div className="flex flex-wrap gap-2">
+          {available.map(item => (
+            <button
+              key={item}
+              type="button"
+              className={action === item ? 'btn-primary' : 'btn'}
+              onClick={() => setAction(action === item ? null : item)}
+            >
+              {t(`lifecycle.${item}`)}
+            </button>
+          ))}
+        </div>
+
+        {action && (
+          <form className="space-y-3" onSubmit={handleSubmit}>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="lifecycleReason">{t('lifecycle.reason')}</label>
+              <textarea
+                id="lifecycleReason"
+                className="textarea-field"
+                rows={3}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={t(`lifecycle.reason.${action}`)}
+                required
+              />
+            </div>
+            <button type="submit" className="btn-primary w-full" disabled={saving || !reason.trim()}>
+              {t(`lifecycle.confirm.${action}`)}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RequestLifecycleActions;
@@ -0,0 +1,350 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { quotationsAPI, storageAPI } from '../../services/api';
+import { COST_TYPES, CostType, Quotation, QuotationDecision, QuotationLineForm, SparePart } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { useRealtimeEvent } from '../../contexts/RealtimeContext';
+import { formatCurrency } from '../../utils/currency';
+
+interface Props {
+  requestId: number;
+  canManage: boolean;
+}
+
+const emptyLine: QuotationLineForm = { lineType: 'PARTS', description: '', sparePartId: '', quantity: 1, unitPrice: '', currency: 'SYP' };
+
+const STATUS_STYLES: Record<string, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  ACCEPTED: 'bg-green-100 text-green-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  EXPIRED: 'bg-gray-100 text-gray-600',
+  SUPERSEDED: 'bg-gray-100 text-gray-600',
+};
+
+const formatTotals = (quotation: { totalSyp: number; totalUsd: number }) =>
+  [quotation.totalSyp ? formatCurrency(quotation.totalSyp, 'SYP') : null, quotation.totalUsd ? formatCurrency(quotation.totalUsd, 'USD') : null]
+    .filter(Boolean)
+    .join(' + ') || formatCurrency(0, 'SYP');
+
+// Quotation versions of an out-of-warranty request: issuing, sharing the customer link and recording the answer
+const RequestQuotations: React.FC<Props> = ({ requestId, canManage }) => {
+  const { t } = useI18n();
+  const [quotations, setQuotations] = useState<Quotation[]>([]);
+  const [spareParts, setSpareParts] = useState<SparePart[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [lines, setLines] = useState<QuotationLineForm[]>([emptyLine]);
+  const [validUntil, setValidUntil] = useState('');
+  const [notes, setNotes] = useState('');
+  const [decisionFor, setDecisionFor] = useState<{ id: number; decision: QuotationDecision } | null>(null);
+  const [decisionNote, setDecisionNote] = useState('');
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await quotationsAPI.getRequestQuotations(requestId);
+      setQuotations(data.quotations);
+    } catch (e: any) {
+      setError(e.message || t('error.failedToLoad'));
+    }
+  }, [requestId, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useRealtimeEvent('request:updated', (event) => {
+    if (event.requestId === requestId) load();
+  });
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await action();
+      await load();
+      return true;
+    } catch (e: any) {
+      setError(e.message || t('error.failedToUpdate'));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // A new version starts from the lines of the latest one
+  const openForm = async () => {
+    const latest = quotations[0];
+    setLines(latest
+      ? latest.lines.map(line => ({
+          lineType: line.lineType,
+          description: line.description,
+          sparePartId: line.sparePartId || '',
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          currency: line.currency,
+        }))
+      : [emptyLine]);
+    setValidUntil('');
+    setNotes(latest?.notes || '');
+    setShowForm(true);
+    if (spareParts.length === 0) {
+      try {
+        const response = await storageAPI.getSpareParts({ limit: 100 });
+        setSpareParts(response.data?.spareParts || []);
+      } catch (e: any) {
+        setError(e.message || t('error.failedToLoad'));
+      }
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<QuotationLineForm>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const selectPart = (index: number, sparePartId: string) => {
+    const part = spareParts.find(p => p.id === Number(sparePartId));
+    updateLine(index, part
+      ? { sparePartId, description: part.name, unitPrice: part.unitPrice, currency: part.currency === 'USD' ? 'USD' : 'SYP' }
+      : { sparePartId: '' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await run(() => quotationsAPI.createQuotation(requestId, {
+      lines: lines.map(line => ({ ...line, sparePartId: line.lineType === 'PARTS' && line.sparePartId ? Number(line.sparePartId) : undefined })),
+      validUntil: validUntil ? new Date(`${validUntil}T23:59:59`).toISOString() : undefined,
+      notes: notes || undefined,
+    }));
+    if (saved) setShowForm(false);
+  };
+
+  const handleDecision = async () => {
+    if (!decisionFor) return;
+    const saved = await run(() => quotationsAPI.recordDecision(requestId, decisionFor.id, decisionFor.decision, decisionNote || undefined));
+    if (saved) {
+      setDecisionFor(null);
+      setDecisionNote('');
+    }
+  };
+
+  const copyLink = async (quotation: Quotation) => {
+    try {
+      await navigator.clipboard.writeText(quotation.customerLink);
+      setCopiedId(quotation.id);
+    } catch {
+      window.prompt(t('quotes.customerLink'), quotation.customerLink);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2>{t('quotes.title')}</h2>
+            <p>{t('quotes.subtitle')}</p>
+          </div>
+          {canManage && !showForm && (
+            <button type="button" className="btn-primary" onClick={openForm}>
+              {quotations.length > 0 ? t('quotes.newVersion') : t('quotes.create')}
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="card-content space-y-4">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {quotations.length === 0 && !showForm && (
+          <p className="text-sm text-gray-500">{t('quotes.none')}</p>
+        )}
+
+        {quotations.map((quotation, index) => (
+          <div key={quotation.id} className={`border border-gray-200 rounded-lg p-4 space-y-3 ${index > 0 ? 'opacity-75' : ''}`}>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="text-sm">
+                <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ml-2 ${STATUS_STYLES[quotation.status]}`}>
+                  {t(`quotes.status.${quotation.status}`)}
+                </span>
+                <span className="font-medium text-gray-900">{t('quotes.version', { version: quotation.version })}</span>
+                <span className="text-gray-500 mr-2">
+                  {t('quotes.validUntil')}: {new Date(quotation.validUntil).toLocaleDateString()}
+                </span>
+              </div>
+              <div className="text-lg font-semibold text-gray-900">{formatTotals(quotation)}</div>
+            </div>
+
+            {index === 0 && (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-right font-medium py-1">{t('quotes.line.description')}</th>
+                    <th className="text-right font-medium py-1">{t('quotes.line.type')}</th>
+                    <th className="text-right font-medium py-1">{t('quotes.line.quantity')}</th>
+                    <th className="text-right font-medium py-1">{t('quotes.line.unitPrice')}</th>
+                    <th className="text-right font-medium py-1">{t('quotes.line.total')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {quotation.lines.map(line => (
+                    <tr key={line.id}>
+                      <td className="py-1 text-gray-900">
+                        {line.description}
+                        {line.sparePart && <span className="text-xs text-gray-500 mr-2">{line.sparePart.partNumber}</span>}
+                      </td>
+                      <td className="py-1 text-gray-600">{t(`contracts.cost.${line.lineType}`)}</td>
+                      <td className="py-1 text-gray-600">{line.quantity}</td>
+                      <td className="py-1 text-gray-600">{formatCurrency(line.unitPrice, line.currency)}</td>
+                      <td className="py-1 text-gray-900">{formatCurrency(line.total, line.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {quotation.notes && index === 0 && <div className="text-sm text-gray-600">{quotation.notes}</div>}
+
+            {quotation.decidedAt && (
+              <div className="text-sm text-gray-600">
+                {t(`quotes.status.${quotation.status}`)} {new Date(quotation.decidedAt).toLocaleString()}
+                {' — '}
+                {quotation.decidedBy
+                  ? t('quotes.recordedBy', { name: `${quotation.decidedBy.firstName} ${quotation.decidedBy.lastName}` })
+                  : t('quotes.viaLink')}
+                {quotation.decisionNote && <span className="text-gray-500 mr-2">{quotation.decisionNote}</span>}
+              </div>
+            )}
+
+            {quotation.status === 'PENDING' && (
+              <div className="flex flex-wrap items-center gap-2">
+                <button type="button" className="btn" onClick={() => copyLink(quotation)}>
+                  {copiedId === quotation.id ? t('quotes.linkCopied') : t('quotes.copyLink')}
+                </button>
+                {canManage && (
+                  <>
+                    <button type="button" className="btn" disabled={saving} onClick={() => setDecisionFor({ id: quotation.id, decision: 'ACCEPTED' })}>
+                      {t('quotes.markAccepted')}
+                    </button>
+                    <button type="button" className="btn" disabled={saving} onClick={() => setDecisionFor({ id: quotation.id, decision: 'REJECTED' })}>
+                      {t('quotes.markRejected')}
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+
+            {decisionFor?.id === quotation.id && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end bg-gray-50 rounded-lg p-3">
+                <input
+                  className="input-field md:col-span-3"
+                  placeholder={t('quotes.decisionNote')}
+                  value={decisionNote}
+                  onChange={(e) => setDecisionNote(e.target.value)}
+                />
+                <div className="flex gap-2">
+                  <button type="button" className="btn-primary" disabled={saving} onClick={handleDecision}>
+                    {decisionFor.decision === 'ACCEPTED' ? t('quotes.markAccepted') : t('quotes.markRejected')}
+                  </button>
+                  <button type="button" className="btn" onClick={() => setDecisionFor(null)}>{t('quotes.close')}</button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {showForm && (
+          <form className="space-y-3 border-t border-gray-100 pt-4" onSubmit={handleSubmit}>
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-end">
+                <select
+                  className="input-field md:col-span-2"
+                  value={line.lineType}
+                  onChange={(e) => updateLine(index, { lineType: e.target.value as CostType, sparePartId: '' })}
+                >
+                  {COST_TYPES.map(type => (
+                    <option key={type} value={type}>{t(`contracts.cost.${type}`)}</option>
+                  ))}
+                </select>
+                {line.lineType === 'PARTS' ? (
+                  <select className="input-field md:col-span-2" value={line.sparePartId} onChange={(e) => selectPart(index, e.target.value)}>
+                    <option value="">{t('quotes.line.noPart')}</option>
+                    {spareParts.map(part => (
+                      <option key={part.id} value={part.id}>{part.name} ({part.partNumber})</option>
+                    ))}
+                  </select>
+                ) : (
+                  <div className="hidden md:block md:col-span-2" />
+                )}
+                <input
+                  className="input-field md:col-span-3"
+                  placeholder={t('quotes.line.description')}
+                  value={line.description}
+                  onChange={(e) => updateLine(index, { description: e.target.value })}
+                  required={!line.sparePartId}
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  className="input-field md:col-span-1"
+                  placeholder={t('quotes.line.quantity')}
+                  value={line.quantity}
+                  onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                  required
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  className="input-field md:col-span-2"
+                  placeholder={t('quotes.line.unitPrice')}
+                  value={line.unitPrice}
+                  onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                  required
+                />
+                <select
+                  className="input-field md:col-span-1"
+                  value={line.currency}
+                  onChange={(e) => updateLine(index, { currency: e.target.value as QuotationLineForm['currency'] })}
+                >
+                  <option value="SYP">SYP</option>
+                  <option value="USD">USD</option>
+                </select>
+                <button
+                  type="button"
+                  className="btn md:col-span-1"
+                  disabled={lines.length === 1}
+                  onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                >
+                  {t('quotes.line.remove')}
+                </button>
+              </div>
+            ))}
+            <button type="button" className="btn" onClick={() => setLines(prev => [...prev, emptyLine])}>
+              {t('quotes.line.add')}
+            </button>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">{t('quotes.validUntil')}</label>
+                <input type="date" className="input-field" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} />
+              </div>
+              <input
+                className="input-field md:col-span-2"
+                placeholder={t('quotes.notes')}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+            <p className="text-xs text-gray-500">{t('quotes.versionHint')}</p>
+            <div className="flex gap-2">
+              <button type="submit" className="btn-primary" disabled={saving}>{t('quotes.issue')}</button>
+              <button type="button" className="btn" onClick={() => setShowForm(false)}>{t('quotes.close')}</button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RequestQuotations;
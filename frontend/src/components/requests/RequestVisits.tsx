@@ -0,0 +1,300 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { visitsAPI } from '../../services/api';
+import { Request, RequestVisit, TechnicianProfile, UserRole, VisitOutcome, VISIT_OUTCOMES } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useRealtimeEvent } from '../../contexts/RealtimeContext';
+
+interface Props {
+  request: Request;
+  technicians: TechnicianProfile[];
+  canManage: boolean;
+}
+
+const emptyForm = { scheduledStart: '', scheduledEnd: '', technicianId: '', address: '', notes: '' };
+
+// datetime-local inputs work in local time without a timezone
+const toLocalInput = (value: string) => {
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const formatWindow = (visit: RequestVisit) => {
+  const start = new Date(visit.scheduledStart);
+  const end = new Date(visit.scheduledEnd);
+  const time = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return `${start.toLocaleDateString()} ${time(start)} - ${time(end)}`;
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  SCHEDULED: 'bg-blue-100 text-blue-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-gray-100 text-gray-600',
+};
+
+// On-site visits of a request: booking, rescheduling, cancelling and recording the outcome
+const RequestVisits: React.FC<Props> = ({ request, technicians, canManage }) => {
+  const { t } = useI18n();
+  const { user, hasRole } = useAuth();
+  const [visits, setVisits] = useState<RequestVisit[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [outcomeFor, setOutcomeFor] = useState<number | null>(null);
+  const [outcome, setOutcome] = useState<VisitOutcome>('RESOLVED');
+  const [outcomeNotes, setOutcomeNotes] = useState('');
+  const [cancelFor, setCancelFor] = useState<number | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await visitsAPI.getRequestVisits(request.id);
+      setVisits(data.visits);
+    } catch (e: any) {
+      setError(e.message || t('error.failedToLoad'));
+    }
+  }, [request.id, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useRealtimeEvent('request:updated', (event) => {
+    if (event.requestId === request.id) load();
+  });
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await action();
+      await load();
+      return true;
+    } catch (e: any) {
+      setError(e.message || t('error.failedToUpdate'));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEdit = (visit: RequestVisit) => {
+    setEditingId(visit.id);
+    setForm({
+      scheduledStart: toLocalInput(visit.scheduledStart),
+      scheduledEnd: toLocalInput(visit.scheduledEnd),
+      technicianId: String(visit.technicianId),
+      address: visit.address,
+      notes: visit.notes || '',
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = {
+      scheduledStart: new Date(form.scheduledStart).toISOString(),
+      scheduledEnd: new Date(form.scheduledEnd).toISOString(),
+      technicianId: form.technicianId ? Number(form.technicianId) : undefined,
+      address: form.address || undefined,
+      notes: form.notes || undefined,
+    };
+    const saved = await run(() => editingId
+      ? visitsAPI.updateVisit(editingId, data)
+      : visitsAPI.bookVisit(request.id, data));
+    if (saved) resetForm();
+  };
+
+  const handleOutcome = async (visitId: number) => {
+    const saved = await run(() => visitsAPI.recordOutcome(visitId, outcome, outcomeNotes || undefined));
+    if (saved) {
+      setOutcomeFor(null);
+      setOutcomeNotes('');
+    }
+  };
+
+  const handleCancel = async (visitId: number) => {
+    const saved = await run(() => visitsAPI.cancelVisit(visitId, cancelReason.trim()));
+    if (saved) {
+      setCancelFor(null);
+      setCancelReason('');
+    }
+  };
+
+  const canRecordOutcome = (visit: RequestVisit) =>
+    visit.status === 'SCHEDULED' && (canManage || (hasRole([UserRole.TECHNICIAN]) && visit.technicianId === user?.id));
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2>{t('visits.title')}</h2>
+        <p>{t('visits.subtitle')}</p>
+      </div>
+      <div className="card-content space-y-4">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {visits.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('visits.none')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {visits.map(visit => (
+              <li key={visit.id} className="py-3 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="text-sm">
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ml-2 ${STATUS_STYLES[visit.status]}`}>
+                      {t(`visits.status.${visit.status}`)}
+                    </span>
+                    <span className="font-medium text-gray-900">{formatWindow(visit)}</span>
+                    <span className="text-gray-600 mr-2">{visit.technician.firstName} {visit.technician.lastName}</span>
+                  </div>
+                  <div className="flex gap-2">
+                    {canManage && visit.status === 'SCHEDULED' && (
+                      <>
+                        <button type="button" className="btn" disabled={saving} onClick={() => startEdit(visit)}>
+                          {t('visits.reschedule')}
+                        </button>
+                        <button type="button" className="btn" disabled={saving} onClick={() => setCancelFor(visit.id)}>
+                          {t('visits.cancel')}
+                        </button>
+                      </>
+                    )}
+                    {canRecordOutcome(visit) && (
+                      <button type="button" className="btn-primary" disabled={saving} onClick={() => setOutcomeFor(visit.id)}>
+                        {t('visits.recordOutcome')}
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="text-sm text-gray-600">
+                  {visit.address}{visit.city ? `، ${visit.city}` : ''}
+                  {visit.notes && <span className="text-gray-500 mr-2">— {visit.notes}</span>}
+                </div>
+                {visit.outcome && (
+                  <div className="text-sm text-gray-700">
+                    {t('visits.outcome')}: {t(`visits.outcome.${visit.outcome}`)}
+                    {visit.outcomeNotes && <span className="text-gray-500 mr-2">{visit.outcomeNotes}</span>}
+                  </div>
+                )}
+                {visit.cancelReason && (
+                  <div className="text-sm text-gray-500">{t('visits.cancelReason')}: {visit.cancelReason}</div>
+                )}
+
+                {outcomeFor === visit.id && (
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end bg-gray-50 rounded-lg p-3">
+                    <select className="input-field" value={outcome} onChange={(e) => setOutcome(e.target.value as VisitOutcome)}>
+                      {VISIT_OUTCOMES.map(value => (
+                        <option key={value} value={value}>{t(`visits.outcome.${value}`)}</option>
+                      ))}
+                    </select>
+                    <input
+                      className="input-field md:col-span-2"
+                      placeholder={t('visits.outcomeNotes')}
+                      value={outcomeNotes}
+                      onChange={(e) => setOutcomeNotes(e.target.value)}
+                    />
+                    <div className="flex gap-2">
+                      <button type="button" className="btn-primary" disabled={saving} onClick={() => handleOutcome(visit.id)}>
+                        {t('visits.save')}
+                      </button>
+                      <button type="button" className="btn" onClick={() => setOutcomeFor(null)}>{t('visits.close')}</button>
+                    </div>
+                  </div>
+                )}
+
+                {cancelFor === visit.id && (
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end bg-gray-50 rounded-lg p-3">
+                    <input
+                      className="input-field md:col-span-3"
+                      placeholder={t('visits.cancelReason')}
+                      value={cancelReason}
+                      onChange={(e) => setCancelReason(e.target.value)}
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        className="btn-primary"
+                        disabled={saving || !cancelReason.trim()}
+                        onClick={() => handleCancel(visit.id)}
+                      >
+                        {t('visits.confirmCancel')}
+                      </button>
+                      <button type="button" className="btn" onClick={() => setCancelFor(null)}>{t('visits.close')}</button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canManage && (
+          <form className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end border-t border-gray-100 pt-4" onSubmit={handleSubmit}>
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">{t('visits.start')}</label>
+              <input
+                type="datetime-local"
+                className="input-field"
+                value={form.scheduledStart}
+                onChange={(e) => setForm({ ...form, scheduledStart: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">{t('visits.end')}</label>
+              <input
+                type="datetime-local"
+                className="input-field"
+                value={form.scheduledEnd}
+                min={form.scheduledStart || undefined}
+                onChange={(e) => setForm({ ...form, scheduledEnd: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">{t('visits.technician')}</label>
+              <select
+                className="input-field"
+                value={form.technicianId}
+                onChange={(e) => setForm({ ...form, technicianId: e.target.value })}
+              >
+                <option value="">{t('visits.assignedTechnician')}</option>
+                {technicians.map(technician => (
+                  <option key={technician.id} value={technician.id}>
+                    {technician.firstName} {technician.lastName}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <input
+              className="input-field md:col-span-2"
+              placeholder={request.customer?.address || t('visits.address')}
+              value={form.address}
+              onChange={(e) => setForm({ ...form, address: e.target.value })}
+            />
+            <input
+              className="input-field"
+              placeholder={t('visits.notes')}
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            />
+            <div className="flex gap-2 md:col-span-3">
+              <button type="submit" className="btn-primary" disabled={saving || !form.scheduledStart || !form.scheduledEnd}>
+                {editingId ? t('visits.saveChanges') : t('visits.book')}
+              </button>
+              {editingId && (
+                <button type="button" className="btn" onClick={resetForm}>{t('visits.close')}</button>
+              )}
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RequestVisits;
@@ -0,0 +1,252 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { techniciansAPI } from '../../services/api';
+import { TechnicianProfile, TechnicianSkillForm } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+
+interface Props {
+  technicianId: number;
+  onClose: () => void;
+}
+
+const emptySkill: TechnicianSkillForm = { productCategory: '', brand: '', certification: '', certificationExpiresAt: '' };
+const emptyLeave = { startDate: '', endDate: '', reason: '' };
+
+const formatDay = (value: string) => new Date(value).toLocaleDateString('ar-SY');
+
+// Skills, certifications, availability and leave periods of one technician
+const TechnicianProfilePanel: React.FC<Props> = ({ technicianId, onClose }) => {
+  const { t } = useI18n();
+  const [profile, setProfile] = useState<TechnicianProfile | null>(null);
+  const [skillForm, setSkillForm] = useState<TechnicianSkillForm>(emptySkill);
+  const [leaveForm, setLeaveForm] = useState(emptyLeave);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setError(null);
+      const data = await techniciansAPI.getProfile(technicianId);
+      setProfile(data.technician);
+    } catch (e: any) {
+      setError(e.message || t('error.failedToLoad'));
+    }
+  }, [technicianId, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await action();
+      await load();
+      return true;
+    } catch (e: any) {
+      setError(e.message || t('error.failedToUpdate'));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddSkill = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await run(() => techniciansAPI.addSkill(technicianId, {
+      ...skillForm,
+      certificationExpiresAt: skillForm.certificationExpiresAt || undefined,
+    }));
+    if (saved) setSkillForm(emptySkill);
+  };
+
+  const handleAddLeave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await run(() => techniciansAPI.addLeave(technicianId, {
+      // Leave covers whole days
+      startDate: `${leaveForm.startDate}T00:00:00`,
+      endDate: `${leaveForm.endDate}T23:59:59`,
+      reason: leaveForm.reason || undefined,
+    }));
+    if (saved) setLeaveForm(emptyLeave);
+  };
+
+  const isExpired = (value?: string | null) => !!value && new Date(value) <= new Date();
+
+  return (
+    <div className="card shadow-medium">
+      <div className="card-header flex items-start justify-between">
+        <div>
+          <h2>{t('technicianProfile.title')}{profile ? `: ${profile.firstName} ${profile.lastName}` : ''}</h2>
+          <p>{t('technicianProfile.subtitle')}</p>
+        </div>
+        <button type="button" className="btn" onClick={onClose}>{t('technicianProfile.close')}</button>
+      </div>
+      <div className="card-content space-y-6">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {profile && (
+          <>
+            {/* Availability */}
+            <div className="flex items-center justify-between bg-gray-50 rounded-lg p-4">
+              <div>
+                <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                  profile.availability.available ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                }`}>
+                  {profile.availability.available ? t('technicianProfile.available') : t('technicianProfile.unavailable')}
+                </span>
+                {profile.availability.reason && (
+                  <span className="text-sm text-gray-500 mr-2">{profile.availability.reason}</span>
+                )}
+              </div>
+              <button
+                type="button"
+                className="btn"
+                disabled={saving}
+                onClick={() => run(() => techniciansAPI.updateAvailability(technicianId, !profile.isAvailable))}
+              >
+                {profile.isAvailable ? t('technicianProfile.markUnavailable') : t('technicianProfile.markAvailable')}
+              </button>
+            </div>
+
+            {/* Skills and certifications */}
+            <div className="space-y-3">
+              <h3 className="font-semibold text-gray-900">{t('technicianProfile.skills')}</h3>
+              {profile.skills.length === 0 ? (
+                <p className="text-sm text-gray-500">{t('technicianProfile.noSkills')}</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-gray-600">
+                      <th className="py-2 text-right">{t('technicianProfile.productCategory')}</th>
+                      <th className="py-2 text-right">{t('technicianProfile.brand')}</th>
+                      <th className="py-2 text-right">{t('technicianProfile.certification')}</th>
+                      <th className="py-2 text-right">{t('technicianProfile.expiresAt')}</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {profile.skills.map(skill => (
+                      <tr key={skill.id}>
+                        <td className="py-2">{skill.productCategory || '-'}</td>
+                        <td className="py-2">{skill.brand || '-'}</td>
+                        <td className="py-2">{skill.certification || '-'}</td>
+                        <td className={`py-2 ${isExpired(skill.certificationExpiresAt) ? 'text-red-600' : ''}`}>
+                          {skill.certificationExpiresAt ? formatDay(skill.certificationExpiresAt) : '-'}
+                          {isExpired(skill.certificationExpiresAt) && ` (${t('technicianProfile.expired')})`}
+                        </td>
+                        <td className="py-2 text-left">
+                          <button
+                            type="button"
+                            className="text-red-600 hover:bg-red-50 px-2 py-1 rounded"
+                            disabled={saving}
+                            onClick={() => run(() => techniciansAPI.deleteSkill(technicianId, skill.id))}
+                          >
+                            {t('technicianProfile.remove')}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              <form className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end" onSubmit={handleAddSkill}>
+                <input
+                  className="input-field"
+                  placeholder={t('technicianProfile.productCategory')}
+                  value={skillForm.productCategory}
+                  onChange={(e) => setSkillForm({ ...skillForm, productCategory: e.target.value })}
+                />
+                <input
+                  className="input-field"
+                  placeholder={t('technicianProfile.brand')}
+                  value={skillForm.brand}
+                  onChange={(e) => setSkillForm({ ...skillForm, brand: e.target.value })}
+                />
+                <input
+                  className="input-field"
+                  placeholder={t('technicianProfile.certification')}
+                  value={skillForm.certification}
+                  onChange={(e) => setSkillForm({ ...skillForm, certification: e.target.value })}
+                />
+                <input
+                  type="date"
+                  className="input-field"
+                  title={t('technicianProfile.expiresAt')}
+                  value={skillForm.certificationExpiresAt}
+                  onChange={(e) => setSkillForm({ ...skillForm, certificationExpiresAt: e.target.value })}
+                />
+                <button
+                  type="submit"
+                  className="btn-primary"
+                  disabled={saving || (!skillForm.productCategory && !skillForm.brand)}
+                >
+                  {t('technicianProfile.addSkill')}
+                </button>
+              </form>
+            </div>
+
+            {/* Leave periods */}
+            <div className="space-y-3">
+              <h3 className="font-semibold text-gray-900">{t('technicianProfile.leaves')}</h3>
+              {profile.leaves.length === 0 ? (
+                <p className="text-sm text-gray-500">{t('technicianProfile.noLeaves')}</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 text-sm">
+                  {profile.leaves.map(leave => (
+                    <li key={leave.id} className="flex items-center justify-between py-2">
+                      <span>
+                        {formatDay(leave.startDate)} – {formatDay(leave.endDate)}
+                        {leave.reason && <span className="text-gray-500 mr-2">{leave.reason}</span>}
+                      </span>
+                      <button
+                        type="button"
+                        className="text-red-600 hover:bg-red-50 px-2 py-1 rounded"
+                        disabled={saving}
+                        onClick={() => run(() => techniciansAPI.deleteLeave(technicianId, leave.id))}
+                      >
+                        {t('technicianProfile.remove')}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <form className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end" onSubmit={handleAddLeave}>
+                <input
+                  type="date"
+                  className="input-field"
+                  title={t('technicianProfile.leaveStart')}
+                  value={leaveForm.startDate}
+                  onChange={(e) => setLeaveForm({ ...leaveForm, startDate: e.target.value })}
+                  required
+                />
+                <input
+                  type="date"
+                  className="input-field"
+                  title={t('technicianProfile.leaveEnd')}
+                  value={leaveForm.endDate}
+                  min={leaveForm.startDate || undefined}
+                  onChange={(e) => setLeaveForm({ ...leaveForm, endDate: e.target.value })}
+                  required
+                />
+                <input
+                  className="input-field"
+                  placeholder={t('technicianProfile.leaveReason')}
+                  value={leaveForm.reason}
+                  onChange={(e) => setLeaveForm({ ...leaveForm, reason: e.target.value })}
+                />
+                <button type="submit" className="btn-primary" disabled={saving || !leaveForm.startDate || !leaveForm.endDate}>
+                  {t('technicianProfile.addLeave')}
+                </button>
+              </form>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TechnicianProfilePanel;
@@ -100,6 +100,17 @@ const translations: Record<Lang, Record<string, string>> = {
     'create.warrantyStatus': 'Warranty Status',
     'create.warrantyUnder': 'Under warranty',
     'create.warrantyOut': 'Out of warranty',
+    'create.warrantyComputed': 'Computed automatically',
+    'create.warrantyExpiresOn': 'Warranty expires on {date}',
+    'create.warrantyExpiredOn': 'Warranty expired on {date}',
+    'create.warrantyUnknown': 'Select a product and enter the purchase date to compute the warranty, or choose the status by hand.',
+    'create.warrantyMonths': 'Product warranty: {months} months',
+    'create.extendedWarrantyMonths': 'Extended warranty (months)',
+    'create.warrantyOverrideReason': 'Reason for overriding the computed warranty',
+    'create.warrantyOverrideHelp': 'The status differs from the computed one; the reason is recorded in the activity log.',
+    'create.contractCoverage': 'Covered by {type} contract {number} until {date}',
+    'create.contractVisitsUnlimited': 'unlimited visits',
+    'create.contractVisitsLeft': '{left} of {total} visits left',
     'create.priority': 'Priority',
     'create.priorityLow': 'Low',
     'create.priorityNormal': 'Normal',
@@ -123,11 +134,26 @@ const translations: Record<Lang, Record<string, string>> = {
     'details.department': 'Department',
     'details.technician': 'Technician',
     'details.priority': 'Priority',
+    'details.warranty': 'Warranty',
+    'details.warrantyUntil': 'until {date}',
+    'details.warrantyOverridden': 'set by hand',
+    'details.contract': 'Service contract',
+    'details.slaPolicy': 'SLA Policy',
+    'details.slaDefault': 'Default',
+    'details.slaRemaining': 'SLA Time Left (business hours)',
+    'details.hours': 'hours',
+    'details.slaPaused': 'SLA clock paused',
+    'details.escalations': 'SLA Escalations',
+    'details.escalations.level1': 'Warning to technician',
+    'details.escalations.level2': 'Overdue – supervisors and department manager notified',
+    'details.escalations.level3': 'Escalated to company management',
+    'details.escalations.notified': '{count} user(s) notified',
     'details.issue': 'Issue',
     'details.activities': 'Activities',
     'details.activities.empty': 'No activities yet.',
     'details.costs': 'Costs',
     'details.costs.add': 'Add',
+    'details.costs.covered': 'Covered by contract',
     'details.assign': 'Assign Technician',
     'details.updateStatus': 'Update Status',
     'details.close': 'Close Request',
@@ -164,6 +190,198 @@ const translations: Record<Lang, Record<string, string>> = {
     'status.confirmDelete': 'Are you sure you want to delete this status?',
     'status.success.created': 'Status created successfully',
     'status.success.updated': 'Status updated successfully',
+    'workflow.title': 'Workflow Transitions',
+    'workflow.subtitle': 'Control which roles can move a request between statuses',
+    'workflow.from': 'From Status',
+    'workflow.to': 'To Status',
+    'workflow.roles': 'Allowed Roles',
+    'workflow.requiresComment': 'Comment required',
+    'workflow.requiresTechnician': 'Technician required',
+    'workflow.setsTimestamp': 'Sets timestamp',
+    'workflow.none': 'None',
+    'workflow.add': 'Add Transition',
+    'workflow.active': 'Active',
+    'workflow.inactive': 'Inactive',
+    'workflow.enable': 'Enable',
+    'workflow.disable': 'Disable',
+    'workflow.delete': 'Delete',
+    'workflow.confirmDelete': 'Are you sure you want to delete this transition?',
+    'workflow.noTransitions': 'No transitions configured',
+    'workflow.readOnly': 'Only the company manager and deputy manager can change the workflow',
+    'workflow.quoteApproval': 'Quotation approval',
+    'workflow.quoteApprovalHelp': 'In the checked departments, out-of-warranty requests cannot move to In Repair or Completed until the customer accepts a quotation',
+    'notificationSettings.tab': 'Notifications',
+    'notificationSettings.title': 'Notification Preferences',
+    'notificationSettings.subtitle': 'Choose which notifications you receive and where',
+    'notificationSettings.type': 'Notification Type',
+    'notificationSettings.channel.IN_APP': 'In-app',
+    'notificationSettings.channel.EMAIL': 'Email',
+    'notificationSettings.type.ASSIGNMENT': 'Request assigned',
+    'notificationSettings.type.OVERDUE': 'Request overdue',
+    'notificationSettings.type.SLA_WARNING': 'SLA warning',
+    'notificationSettings.type.STATUS_CHANGE': 'Status changed',
+    'notificationSettings.type.COMPLETION': 'Request completed',
+    'notificationSettings.type.READ_RECEIPT': 'Read receipt',
+    'notificationSettings.type.WAREHOUSE_UPDATE': 'Warehouse update',
+    'notificationSettings.type.PRODUCT_ADDED': 'Product added',
+    'notificationSettings.quietHours': 'Quiet Hours',
+    'notificationSettings.quietHoursHint': 'Emails are held during quiet hours and sent when they end. Leave empty to disable.',
+    'notificationSettings.quietHoursStart': 'From',
+    'notificationSettings.quietHoursEnd': 'To',
+    'notificationSettings.dailyDigest': 'Daily digest',
+    'notificationSettings.dailyDigestHint': 'Receive one email per day summarising your notifications instead of one email each',
+    'notificationSettings.save': 'Save Preferences',
+    'notificationSettings.saving': 'Saving...',
+    'notificationSettings.saved': 'Notification preferences saved',
+    'notificationSettings.error.load': 'Failed to load notification preferences',
+    'notificationSettings.error.save': 'Failed to save notification preferences',
+    'attachments.title': 'Attachments',
+    'attachments.subtitle': 'Photos, purchase invoices and diagnostic reports',
+    'attachments.category': 'Category',
+    'attachments.category.PHOTO': 'Photo',
+    'attachments.category.INVOICE': 'Invoice',
+    'attachments.category.DIAGNOSTIC': 'Diagnostic report',
+    'attachments.category.OTHER': 'Other',
+    'attachments.description': 'Description',
+    'attachments.files': 'Files',
+    'attachments.hint': 'JPEG, PNG, WebP, GIF, PDF or text, up to {size}MB each',
+    'attachments.upload': 'Upload',
+    'attachments.uploading': 'Uploading...',
+    'attachments.empty': 'No attachments yet',
+    'attachments.download': 'Download',
+    'attachments.delete': 'Delete',
+    'attachments.confirmDelete': 'Delete this attachment?',
+    'attachments.uploadedBy': 'By {name}',
+    'attachments.error.load': 'Failed to load attachments',
+    'attachments.error.upload': 'Failed to upload attachments',
+    'attachments.error.delete': 'Failed to delete attachment',
+    'attachments.error.download': 'Failed to download attachment',
+    'comments.title': 'Conversation',
+    'comments.subtitle': 'Internal notes and customer-visible comments',
+    'comments.placeholder': 'Write a comment… use @username to mention a colleague',
+    'comments.visibility.INTERNAL': 'Internal note',
+    'comments.visibility.CUSTOMER': 'Customer-visible',
+    'comments.send': 'Send',
+    'comments.reply': 'Reply',
+    'comments.edit': 'Edit',
+    'comments.save': 'Save',
+    'comments.cancel': 'Cancel',
+    'comments.delete': 'Delete',
+    'comments.confirmDelete': 'Delete this comment?',
+    'comments.deleted': 'This comment was deleted',
+    'comments.edited': 'edited',
+    'comments.history': 'History',
+    'comments.history.EDITED': 'Edited by {name}',
+    'comments.history.DELETED': 'Deleted by {name}',
+    'comments.empty': 'No comments yet',
+    'comments.error.load': 'Failed to load comments',
+    'comments.error.save': 'Failed to save comment',
+    'comments.error.delete': 'Failed to delete comment',
+    'notificationSettings.type.MENTION': 'Mentioned in a comment',
+    'requestEdit.edit': 'Edit details',
+    'requestEdit.save': 'Save changes',
+    'requestEdit.saving': 'Saving...',
+    'requestEdit.slaHint': 'Changing the product, priority, warranty or execution method recalculates the SLA due date from the request creation time.',
+    'requestEdit.error.backdated': 'Only managers can enter a backdated purchase date.',
+    'requestEdit.activity': 'Request details edited',
+    'requestEdit.empty': '(empty)',
+    'requestEdit.field.issueDescription': 'Issue description',
+    'requestEdit.field.productId': 'Product',
+    'requestEdit.field.installedUnitId': 'Installed unit',
+    'requestEdit.field.priority': 'Priority',
+    'requestEdit.field.warrantyStatus': 'Warranty status',
+    'requestEdit.field.executionMethod': 'Execution method',
+    'requestEdit.field.purchaseDate': 'Purchase date',
+    'requestEdit.field.extendedWarrantyMonths': 'Extended warranty months',
+    'requestEdit.field.slaDueDate': 'SLA due date',
+    'lifecycle.title': 'Request lifecycle',
+    'lifecycle.subtitle.open': 'End the request without a repair',
+    'lifecycle.subtitle.finished': 'Reopen the request if the problem came back or it was ended by mistake',
+    'lifecycle.cancel': 'Cancel request',
+    'lifecycle.reject': 'Reject request',
+    'lifecycle.reopen': 'Reopen request',
+    'lifecycle.reason': 'Reason',
+    'lifecycle.reason.cancel': 'Why did the customer cancel?',
+    'lifecycle.reason.reject': 'Why is the request not covered?',
+    'lifecycle.reason.reopen': 'Why is the request being reopened?',
+    'lifecycle.confirm.cancel': 'Confirm cancellation',
+    'lifecycle.confirm.reject': 'Confirm rejection',
+    'lifecycle.confirm.reopen': 'Confirm reopening',
+    'lifecycle.closureReason.CANCELLED': 'Cancellation reason',
+    'lifecycle.closureReason.REJECTED': 'Rejection reason',
+    'lifecycle.reopenCount': 'Times reopened',
+    'autoAssign.button': 'Assign automatically',
+    'autoAssign.hint': 'Picks a technician by skills, open workload and round-robin',
+    'technicianProfile.open': 'Skills',
+    'technicianProfile.title': 'Skills and availability',
+    'technicianProfile.subtitle': 'What the technician can repair, certifications and leave',
+    'technicianProfile.close': 'Close',
+    'technicianProfile.available': 'Available',
+    'technicianProfile.unavailable': 'Unavailable',
+    'technicianProfile.markAvailable': 'Mark available',
+    'technicianProfile.markUnavailable': 'Mark unavailable',
+    'technicianProfile.skills': 'Skills and certifications',
+    'technicianProfile.noSkills': 'No skills recorded',
+    'technicianProfile.productCategory': 'Product category',
+    'technicianProfile.brand': 'Brand',
+    'technicianProfile.certification': 'Certification',
+    'technicianProfile.expiresAt': 'Expires on',
+    'technicianProfile.expired': 'expired',
+    'technicianProfile.addSkill': 'Add skill',
+    'technicianProfile.remove': 'Remove',
+    'technicianProfile.leaves': 'Leave periods',
+    'technicianProfile.noLeaves': 'No current or upcoming leave',
+    'technicianProfile.leaveStart': 'From',
+    'technicianProfile.leaveEnd': 'To',
+    'technicianProfile.leaveReason': 'Reason',
+    'technicianProfile.addLeave': 'Add leave',
+    'assign.skilled': 'skilled',
+    'assign.unavailable': 'unavailable',
+    'assign.openRequests': 'open',
+    'assign.showAll': 'Show all technicians',
+    'notificationSettings.type.CERTIFICATION_EXPIRY': 'Certification expiring',
+    'notificationSettings.type.VISIT': 'On-site visits',
+    'notificationSettings.type.QUOTATION': 'Quotation answered',
+    'nav.visits': 'Visits',
+    'nav.units': 'Units',
+    'nav.contracts': 'Contracts',
+    'visits.title': 'On-site visits',
+    'visits.subtitle': 'Book, reschedule and record the outcome of visits to the customer',
+    'visits.none': 'No visits booked yet',
+    'visits.status.SCHEDULED': 'Scheduled',
+    'visits.status.COMPLETED': 'Completed',
+    'visits.status.CANCELLED': 'Cancelled',
+    'visits.outcome': 'Outcome',
+    'visits.outcome.RESOLVED': 'Resolved',
+    'visits.outcome.FOLLOW_UP_REQUIRED': 'Follow-up visit required',
+    'visits.outcome.PARTS_REQUIRED': 'Parts required',
+    'visits.outcome.CUSTOMER_ABSENT': 'Customer absent',
+    'visits.outcomeNotes': 'Outcome notes',
+    'visits.recordOutcome': 'Record outcome',
+    'visits.reschedule': 'Reschedule',
+    'visits.cancel': 'Cancel visit',
+    'visits.confirmCancel': 'Confirm cancellation',
+    'visits.cancelReason': 'Cancellation reason',
+    'visits.save': 'Save',
+    'visits.saveChanges': 'Save changes',
+    'visits.close': 'Close',
+    'visits.book': 'Book visit',
+    'visits.start': 'Start',
+    'visits.end': 'End',
+    'visits.technician': 'Technician',
+    'visits.assignedTechnician': 'Assigned technician',
+    'visits.address': 'Visit address',
+    'visits.notes': 'Notes',
+    'visits.calendar.title': 'Visit calendar',
+    'visits.calendar.subtitle': 'Scheduled on-site visits per technician and department',
+    'visits.calendar.day': 'Day',
+    'visits.calendar.week': 'Week',
+    'visits.calendar.today': 'Today',
+    'visits.calendar.previous': 'Previous',
+    'visits.calendar.next': 'Next',
+    'visits.calendar.allDepartments': 'All departments',
+    'visits.calendar.allTechnicians': 'All technicians',
+    'visits.calendar.empty': 'No visits in this period',
     'status.success.deleted': 'Status deleted successfully',
     'status.error.load': 'Failed to load statuses',
     'status.error.create': 'Failed to create status',
@@ -176,6 +394,9 @@ const translations: Record<Lang, Record<string, string>> = {
     'dashboard.stats.pendingRequests': 'Pending Requests',
     'dashboard.stats.underWarranty': 'Under Warranty',
     'dashboard.stats.outOfWarranty': 'Out of Warranty',
+    'dashboard.stats.reopenedRequests': 'Reopened',
+    'dashboard.stats.cancelledRequests': 'Cancelled',
+    'dashboard.stats.rejectedRequests': 'Rejected',
     'dashboard.welcome': 'Welcome, {firstName}!',
     'dashboard.welcomeSubtitle': 'Here\'s what\'s happening with maintenance requests today.',
     'dashboard.overdueAlert': 'Alert: You have {count} overdue request(s)',
@@ -216,6 +437,191 @@ const translations: Record<Lang, Record<string, string>> = {
     'customers.empty': 'No customers found',
     'customers.save': 'Save',
     'customers.cancel': 'Cancel',
+    'customers.units': 'Units',
+    'customers.balance': 'Balance due',
+    'customers.viewUnits': 'View units',
+    'customers.viewContracts': 'View contracts',
+    'customers.viewPlans': 'Maintenance plans',
+    // Installed units
+    'units.title': 'Installed Units',
+    'units.subtitle': 'Customer-owned units by serial number and their repair history',
+    'units.add': 'Register unit',
+    'units.search': 'Search by serial number, customer or product...',
+    'units.serialNumber': 'Serial number',
+    'units.product': 'Product',
+    'units.productPlaceholder': 'Select a product...',
+    'units.customer': 'Customer',
+    'units.purchaseDate': 'Purchase date',
+    'units.installedAt': 'Installation date',
+    'units.installedBy': 'Installed by',
+    'units.installedByNone': 'Not installed by our technicians',
+    'units.installerName': 'Dealer or outside installer',
+    'units.warrantyExpiresAt': 'Warranty expiry',
+    'units.warrantyExpiresAtHelp': 'Leave empty to compute it from the purchase date and the product warranty.',
+    'units.address': 'Installation address',
+    'units.addressHelp': "Leave empty when installed at the customer's address",
+    'units.notes': 'Notes',
+    'units.repairs': 'Repairs',
+    'units.empty': 'No installed units found',
+    'units.detailsTitle': 'Unit History',
+    'units.history': 'Repair history',
+    'units.noRepairs': 'No repairs recorded for this unit',
+    'units.openedAt': 'Opened',
+    'units.parts': 'Parts used',
+    'units.cost': 'Cost',
+    'units.select': 'Installed unit',
+    'units.selectNone': 'No registered unit',
+    'units.selectHelp': 'Selecting a unit fills in its product and purchase date.',
+    'units.contracts': 'Active contracts',
+    // Service contracts
+    'contracts.title': 'Service Contracts',
+    'contracts.subtitle': 'Extended warranty and maintenance contracts and what they cover',
+    'contracts.add': 'New contract',
+    'contracts.addType': 'Contract types',
+    'contracts.types': 'Contract types',
+    'contracts.typeName': 'Name',
+    'contracts.kind': 'Kind',
+    'contracts.kind.EXTENDED_WARRANTY': 'Extended warranty',
+    'contracts.kind.MAINTENANCE': 'Maintenance',
+    'contracts.durationMonths': 'Duration (months)',
+    'contracts.visitsIncluded': 'Included visits',
+    'contracts.visitsIncludedHelp': 'Leave empty for unlimited visits.',
+    'contracts.coveredCosts': 'Covered costs',
+    'contracts.cost.PARTS': 'Parts',
+    'contracts.cost.LABOR': 'Labor',
+    'contracts.cost.TRANSPORTATION': 'Transportation',
+    'contracts.cost.OTHER': 'Other',
+    'contracts.description': 'Description',
+    'contracts.unlimited': 'Unlimited',
+    'contracts.retire': 'Retire',
+    'contracts.restore': 'Restore',
+    'contracts.number': 'Contract number',
+    'contracts.type': 'Contract type',
+    'contracts.typePlaceholder': 'Select a contract type...',
+    'contracts.scope': 'Covers',
+    'contracts.scope.CUSTOMER': 'All customer requests',
+    'contracts.scope.UNITS': 'Listed units only',
+    'contracts.units': 'Covered units',
+    'contracts.startDate': 'Start date',
+    'contracts.endDate': 'End date',
+    'contracts.endDateHelp': 'Leave empty to use the duration of the contract type.',
+    'contracts.price': 'Price',
+    'contracts.currency': 'Currency',
+    'contracts.search': 'Search by contract number or customer...',
+    'contracts.period': 'Period',
+    'contracts.visits': 'Visits used',
+    'contracts.status': 'Status',
+    'contracts.status.ACTIVE': 'Active',
+    'contracts.status.CANCELLED': 'Cancelled',
+    'contracts.cancel': 'Cancel contract',
+    'contracts.cancelConfirm': 'Cancel contract {number}? New requests will no longer be covered.',
+    'contracts.empty': 'No contracts found',
+    // Preventive maintenance plans
+    'maintenance.title': 'Maintenance plans',
+    'maintenance.subtitle': 'Periodic servicing that raises requests ahead of each due date',
+    'maintenance.add': 'New plan',
+    'maintenance.name': 'Plan name',
+    'maintenance.allUnits': 'All customer units',
+    'maintenance.department': 'Department',
+    'maintenance.departmentFromUnit': "From the unit's product",
+    'maintenance.recurrence': 'Recurrence',
+    'maintenance.recurrence.INTERVAL': 'Every N months',
+    'maintenance.recurrence.SEASONAL': 'Seasonal',
+    'maintenance.intervalMonths': 'Months between visits',
+    'maintenance.seasonMonths': 'Months of the year',
+    'maintenance.dayOfMonth': 'Day of month',
+    'maintenance.leadDays': 'Raise the request (days before)',
+    'maintenance.everyMonths': 'Every {months} months',
+    'maintenance.seasonal': 'Months {months}, day {day}',
+    'maintenance.nextDue': 'Next visit',
+    'maintenance.skipped': 'Skipped visits',
+    'maintenance.paused': 'Paused',
+    'maintenance.pause': 'Pause',
+    'maintenance.resume': 'Resume',
+    'maintenance.skipNext': 'Skip next visit',
+    'maintenance.skipReason': 'Why is the visit due on {date} skipped?',
+    'maintenance.history': 'History',
+    'maintenance.historyOf': 'Visits of {name}',
+    'maintenance.noHistory': 'No visits yet',
+    'maintenance.status.GENERATED': 'Request raised',
+    'maintenance.status.SKIPPED': 'Skipped',
+    'maintenance.empty': 'No maintenance plans for this customer',
+    'quotes.title': 'Quotation',
+    'quotes.subtitle': 'Planned parts and labor for the customer to approve before repair',
+    'quotes.none': 'No quotation has been issued yet',
+    'quotes.create': 'Create quotation',
+    'quotes.newVersion': 'New version',
+    'quotes.issue': 'Issue quotation',
+    'quotes.versionHint': 'Issuing a new version replaces the current one, even if it was accepted',
+    'quotes.version': 'Version {version}',
+    'quotes.validUntil': 'Valid until',
+    'quotes.notes': 'Notes for the customer',
+    'quotes.close': 'Close',
+    'invoices.title': 'Invoices',
+    'invoices.subtitle': 'Bill the chargeable costs and parts of this request and track payments',
+    'invoices.uninvoiced': 'Not invoiced yet',
+    'invoices.uninvoicedSummary': '{count} billable lines:',
+    'invoices.nothingToInvoice': 'No billable costs or parts are waiting to be invoiced',
+    'invoices.issueIn': 'Invoice {currency} lines',
+    'invoices.issue': 'Issue invoice',
+    'invoices.discount': 'Discount',
+    'invoices.taxRate': 'Tax rate (%)',
+    'invoices.tax': 'Tax',
+    'invoices.subtotal': 'Subtotal',
+    'invoices.total': 'Total',
+    'invoices.balance': 'Balance',
+    'invoices.dueDate': 'Due date',
+    'invoices.dueDateHint': 'Leave the due date empty to use the default payment term',
+    'invoices.notes': 'Notes',
+    'invoices.none': 'No invoices yet',
+    'invoices.details': 'Details',
+    'invoices.hideDetails': 'Hide details',
+    'invoices.payments': 'Payments',
+    'invoices.recordPayment': 'Record payment',
+    'invoices.amount': 'Amount',
+    'invoices.reference': 'Transfer reference',
+    'invoices.method.CASH': 'Cash',
+    'invoices.method.TRANSFER': 'Transfer',
+    'invoices.void': 'Void',
+    'invoices.voidReason': 'Reason for voiding',
+    'invoices.voidedFor': 'Voided: {reason}',
+    'invoices.save': 'Save',
+    'invoices.close': 'Close',
+    'invoices.status.ISSUED': 'Issued',
+    'invoices.status.PARTIALLY_PAID': 'Partially paid',
+    'invoices.status.PAID': 'Paid',
+    'invoices.status.VOID': 'Void',
+    'quotes.customerLink': 'Customer link',
+    'quotes.copyLink': 'Copy customer link',
+    'quotes.linkCopied': 'Link copied',
+    'quotes.markAccepted': 'Customer accepted',
+    'quotes.markRejected': 'Customer rejected',
+    'quotes.decisionNote': 'Note (optional)',
+    'quotes.recordedBy': 'recorded by {name}',
+    'quotes.viaLink': 'through the customer link',
+    'quotes.status.PENDING': 'Awaiting customer',
+    'quotes.status.ACCEPTED': 'Accepted',
+    'quotes.status.REJECTED': 'Rejected',
+    'quotes.status.EXPIRED': 'Expired',
+    'quotes.status.SUPERSEDED': 'Superseded',
+    'quotes.line.type': 'Type',
+    'quotes.line.description': 'Description',
+    'quotes.line.noPart': 'Part not in stock',
+    'quotes.line.quantity': 'Qty',
+    'quotes.line.unitPrice': 'Unit price',
+    'quotes.line.total': 'Total',
+    'quotes.line.add': 'Add line',
+    'quotes.line.remove': 'Remove',
+    'quotes.public.title': 'Repair quotation for request {number}',
+    'quotes.public.total': 'Total',
+    'quotes.public.notFound': 'This quotation link is not valid',
+    'quotes.public.notePlaceholder': 'Add a note for the service center (optional)',
+    'quotes.public.accept': 'Accept and proceed with the repair',
+    'quotes.public.reject': 'Reject',
+    'quotes.public.answered.ACCEPTED': 'You accepted this quotation. Thank you, the repair will proceed.',
+    'quotes.public.answered.REJECTED': 'You rejected this quotation. The service center will contact you.',
+    'quotes.public.answered.EXPIRED': 'This quotation has expired. Please contact the service center for a new one.',
+    'quotes.public.answered.SUPERSEDED': 'This quotation was replaced by a newer version. Please use the latest link you received.',
     // Products
     'products.title': 'Products',
     'products.subtitle': 'Manage product catalog',
@@ -278,6 +684,50 @@ const translations: Record<Lang, Record<string, string>> = {
     'reports.overdue': 'Overdue Requests',
     'reports.onTimePercentage': 'On-time %',
     'reports.avgResolutionHours': 'Avg. resolution (hrs)',
+    'reports.filters.dateFrom': 'From',
+    'reports.filters.dateTo': 'To',
+    'reports.filters.department': 'Department',
+    'reports.filters.allDepartments': 'All departments',
+    'reports.filters.technician': 'Technician',
+    'reports.filters.allTechnicians': 'All technicians',
+    'reports.filters.apply': 'Apply',
+    'reports.technicians.title': 'Technician Performance',
+    'reports.technicians.name': 'Technician',
+    'reports.technicians.department': 'Department',
+    'reports.technicians.completed': 'Completed',
+    'reports.technicians.avgResolution': 'Avg. resolution (hrs)',
+    'reports.technicians.satisfaction': 'Satisfaction',
+    'reports.technicians.overdue': 'Overdue',
+    'reports.sla.title': 'SLA Compliance by Department',
+    'reports.sla.department': 'Department',
+    'reports.sla.total': 'Total',
+    'reports.sla.onTime': 'Completed on time',
+    'reports.sla.late': 'Completed late',
+    'reports.sla.overduePercentage': 'Overdue %',
+    'reports.sla.netResolutionHours': 'Avg net resolution (excl. paused)',
+    'reports.costs.title': 'Parts & Labor Costs',
+    'reports.costs.byType': 'Costs by type',
+    'reports.costs.parts': 'Spare parts used',
+    'reports.costs.byDepartment': 'Costs by department',
+    'reports.costs.labor': 'Labor',
+    'reports.costs.partsTotal': 'Parts',
+    'reports.costs.other': 'Other',
+    'reports.unpaid.title': 'Unpaid Invoices',
+    'reports.unpaid.subtitle': 'Open invoices issued up to the end date, including older ones',
+    'reports.unpaid.empty': 'No unpaid invoices',
+    'reports.unpaid.outstanding': 'Outstanding',
+    'reports.unpaid.overdue': 'Overdue',
+    'reports.unpaid.byCustomer': 'By customer',
+    'reports.unpaid.invoice': 'Invoice',
+    'reports.unpaid.request': 'Request',
+    'reports.unpaid.customer': 'Customer',
+    'reports.unpaid.issuedAt': 'Issued',
+    'reports.unpaid.total': 'Total',
+    'reports.unpaid.balance': 'Balance',
+    'reports.unpaid.daysOverdue': 'Days overdue',
+    'reports.costs.quantity': 'Quantity',
+    'reports.costs.totals': 'Grand total',
+    'reports.empty': 'No data for the selected filters',
     // Export
     'export.title': 'Export Reports',
     'export.subtitle': 'Download Excel reports for different data sets',
@@ -420,6 +870,17 @@ const translations: Record<Lang, Record<string, string>> = {
     'create.warrantyStatus': 'حالة الكفالة',
     'create.warrantyUnder': 'ضمن الكفالة',
     'create.warrantyOut': 'خارج الكفالة',
+    'create.warrantyComputed': 'محسوبة تلقائياً',
+    'create.warrantyExpiresOn': 'تنتهي الكفالة في {date}',
+    'create.warrantyExpiredOn': 'انتهت الكفالة في {date}',
+    'create.warrantyUnknown': 'اختر المنتج وأدخل تاريخ الشراء لحساب الكفالة، أو اختر الحالة يدوياً.',
+    'create.warrantyMonths': 'كفالة المنتج: {months} شهراً',
+    'create.extendedWarrantyMonths': 'كفالة ممددة (بالأشهر)',
+    'create.warrantyOverrideReason': 'سبب تجاوز حالة الكفالة المحسوبة',
+    'create.warrantyOverrideHelp': 'الحالة تختلف عن الحالة المحسوبة؛ يتم تسجيل السبب في سجل النشاطات.',
+    'create.contractCoverage': 'مشمول بعقد {type} رقم {number} حتى {date}',
+    'create.contractVisitsUnlimited': 'زيارات غير محدودة',
+    'create.contractVisitsLeft': 'متبقي {left} من {total} زيارات',
     'create.priority': 'الأولوية',
     'create.priorityLow': 'منخفضة',
     'create.priorityNormal': 'عادية',
@@ -443,11 +904,26 @@ const translations: Record<Lang, Record<string, string>> = {
     'details.department': 'القسم',
     'details.technician': 'الفني',
     'details.priority': 'الأولوية',
+    'details.warranty': 'الكفالة',
+    'details.warrantyUntil': 'حتى {date}',
+    'details.warrantyOverridden': 'محددة يدوياً',
+    'details.contract': 'عقد الخدمة',
+    'details.slaPolicy': 'سياسة مستوى الخدمة',
+    'details.slaDefault': 'افتراضية',
+    'details.slaRemaining': 'الوقت المتبقي (ساعات عمل)',
+    'details.hours': 'ساعة',
+    'details.slaPaused': 'مؤقت مستوى الخدمة متوقف',
+    'details.escalations': 'تصعيدات مستوى الخدمة',
+    'details.escalations.level1': 'تحذير للفني',
+    'details.escalations.level2': 'متأخر – تم إبلاغ المشرفين ومدير القسم',
+    'details.escalations.level3': 'تم التصعيد إلى إدارة الشركة',
+    'details.escalations.notified': 'تم إبلاغ {count} مستخدم',
     'details.issue': 'المشكلة',
     'details.activities': 'الأنشطة',
     'details.activities.empty': 'لا توجد أنشطة بعد.',
     'details.costs': 'التكاليف',
     'details.costs.add': 'إضافة',
+    'details.costs.covered': 'مغطاة بالعقد',
     'details.assign': 'تعيين فني',
     'details.updateStatus': 'تحديث الحالة',
     'details.close': 'إغلاق الطلب',
@@ -484,6 +960,198 @@ const translations: Record<Lang, Record<string, string>> = {
     'status.confirmDelete': 'هل أنت متأكد من حذف هذه الحالة؟',
     'status.success.created': 'تم إنشاء الحالة بنجاح',
     'status.success.updated': 'تم تحديث الحالة بنجاح',
+    'workflow.title': 'انتقالات سير العمل',
+    'workflow.subtitle': 'تحديد الأدوار المسموح لها بنقل الطلب بين الحالات',
+    'workflow.from': 'من الحالة',
+    'workflow.to': 'إلى الحالة',
+    'workflow.roles': 'الأدوار المسموح لها',
+    'workflow.requiresComment': 'تتطلب ملاحظة',
+    'workflow.requiresTechnician': 'تتطلب تعيين فني',
+    'workflow.setsTimestamp': 'تسجل تاريخ',
+    'workflow.none': 'لا شيء',
+    'workflow.add': 'إضافة انتقال',
+    'workflow.active': 'نشط',
+    'workflow.inactive': 'غير نشط',
+    'workflow.enable': 'تفعيل',
+    'workflow.disable': 'تعطيل',
+    'workflow.delete': 'حذف',
+    'workflow.confirmDelete': 'هل أنت متأكد من حذف هذا الانتقال؟',
+    'workflow.noTransitions': 'لا توجد انتقالات معرفة',
+    'workflow.readOnly': 'يمكن لمدير الشركة ونائبه فقط تعديل سير العمل',
+    'workflow.quoteApproval': 'موافقة عرض السعر',
+    'workflow.quoteApprovalHelp': 'في الأقسام المحددة لا يمكن نقل الطلبات خارج الضمان إلى قيد الإصلاح أو مكتمل قبل موافقة العميل على عرض السعر',
+    'notificationSettings.tab': 'الإشعارات',
+    'notificationSettings.title': 'تفضيلات الإشعارات',
+    'notificationSettings.subtitle': 'اختر الإشعارات التي تصلك وطريقة استلامها',
+    'notificationSettings.type': 'نوع الإشعار',
+    'notificationSettings.channel.IN_APP': 'داخل النظام',
+    'notificationSettings.channel.EMAIL': 'البريد الإلكتروني',
+    'notificationSettings.type.ASSIGNMENT': 'تعيين طلب',
+    'notificationSettings.type.OVERDUE': 'طلب متأخر',
+    'notificationSettings.type.SLA_WARNING': 'تحذير مستوى الخدمة',
+    'notificationSettings.type.STATUS_CHANGE': 'تغيير الحالة',
+    'notificationSettings.type.COMPLETION': 'إكمال الطلب',
+    'notificationSettings.type.READ_RECEIPT': 'إشعار القراءة',
+    'notificationSettings.type.WAREHOUSE_UPDATE': 'تحديث المستودع',
+    'notificationSettings.type.PRODUCT_ADDED': 'إضافة منتج',
+    'notificationSettings.quietHours': 'ساعات الهدوء',
+    'notificationSettings.quietHoursHint': 'تؤجل رسائل البريد خلال ساعات الهدوء وترسل عند انتهائها. اتركها فارغة للتعطيل.',
+    'notificationSettings.quietHoursStart': 'من',
+    'notificationSettings.quietHoursEnd': 'إلى',
+    'notificationSettings.dailyDigest': 'ملخص يومي',
+    'notificationSettings.dailyDigestHint': 'استلم رسالة بريد واحدة يومياً تلخص إشعاراتك بدلاً من رسالة لكل إشعار',
+    'notificationSettings.save': 'حفظ التفضيلات',
+    'notificationSettings.saving': 'جاري الحفظ...',
+    'notificationSettings.saved': 'تم حفظ تفضيلات الإشعارات',
+    'notificationSettings.error.load': 'فشل في تحميل تفضيلات الإشعارات',
+    'notificationSettings.error.save': 'فشل في حفظ تفضيلات الإشعارات',
+    'attachments.title': 'المرفقات',
+    'attachments.subtitle': 'صور وفواتير شراء وتقارير فحص',
+    'attachments.category': 'التصنيف',
+    'attachments.category.PHOTO': 'صورة',
+    'attachments.category.INVOICE': 'فاتورة',
+    'attachments.category.DIAGNOSTIC': 'تقرير فحص',
+    'attachments.category.OTHER': 'أخرى',
+    'attachments.description': 'الوصف',
+    'attachments.files': 'الملفات',
+    'attachments.hint': 'JPEG أو PNG أو WebP أو GIF أو PDF أو نص، حتى {size} ميغابايت لكل ملف',
+    'attachments.upload': 'رفع',
+    'attachments.uploading': 'جاري الرفع...',
+    'attachments.empty': 'لا توجد مرفقات بعد',
+    'attachments.download': 'تنزيل',
+    'attachments.delete': 'حذف',
+    'attachments.confirmDelete': 'هل تريد حذف هذا المرفق؟',
+    'attachments.uploadedBy': 'بواسطة {name}',
+    'attachments.error.load': 'فشل في تحميل المرفقات',
+    'attachments.error.upload': 'فشل في رفع المرفقات',
+    'attachments.error.delete': 'فشل في حذف المرفق',
+    'attachments.error.download': 'فشل في تنزيل المرفق',
+    'comments.title': 'المحادثة',
+    'comments.subtitle': 'ملاحظات داخلية وتعليقات مرئية للعميل',
+    'comments.placeholder': 'اكتب تعليقاً… استخدم @اسم_المستخدم للإشارة إلى زميل',
+    'comments.visibility.INTERNAL': 'ملاحظة داخلية',
+    'comments.visibility.CUSTOMER': 'مرئي للعميل',
+    'comments.send': 'إرسال',
+    'comments.reply': 'رد',
+    'comments.edit': 'تعديل',
+    'comments.save': 'حفظ',
+    'comments.cancel': 'إلغاء',
+    'comments.delete': 'حذف',
+    'comments.confirmDelete': 'هل تريد حذف هذا التعليق؟',
+    'comments.deleted': 'تم حذف هذا التعليق',
+    'comments.edited': 'معدّل',
+    'comments.history': 'السجل',
+    'comments.history.EDITED': 'عدّله {name}',
+    'comments.history.DELETED': 'حذفه {name}',
+    'comments.empty': 'لا توجد تعليقات بعد',
+    'comments.error.load': 'فشل في تحميل التعليقات',
+    'comments.error.save': 'فشل في حفظ التعليق',
+    'comments.error.delete': 'فشل في حذف التعليق',
+    'notificationSettings.type.MENTION': 'إشارة في تعليق',
+    'requestEdit.edit': 'تعديل التفاصيل',
+    'requestEdit.save': 'حفظ التغييرات',
+    'requestEdit.saving': 'جاري الحفظ...',
+    'requestEdit.slaHint': 'تغيير المنتج أو الأولوية أو حالة الكفالة أو طريقة التنفيذ يعيد حساب موعد SLA من وقت إنشاء الطلب.',
+    'requestEdit.error.backdated': 'فقط المديرين يمكنهم إدخال تاريخ شراء سابق.',
+    'requestEdit.activity': 'تم تعديل تفاصيل الطلب',
+    'requestEdit.empty': '(فارغ)',
+    'requestEdit.field.issueDescription': 'وصف المشكلة',
+    'requestEdit.field.productId': 'المنتج',
+    'requestEdit.field.installedUnitId': 'الجهاز المسجل',
+    'requestEdit.field.priority': 'الأولوية',
+    'requestEdit.field.warrantyStatus': 'حالة الكفالة',
+    'requestEdit.field.executionMethod': 'طريقة التنفيذ',
+    'requestEdit.field.purchaseDate': 'تاريخ الشراء',
+    'requestEdit.field.extendedWarrantyMonths': 'أشهر الكفالة الممددة',
+    'requestEdit.field.slaDueDate': 'موعد SLA',
+    'lifecycle.title': 'دورة حياة الطلب',
+    'lifecycle.subtitle.open': 'إنهاء الطلب دون إصلاح',
+    'lifecycle.subtitle.finished': 'إعادة فتح الطلب إذا عادت المشكلة أو تم إنهاؤه بالخطأ',
+    'lifecycle.cancel': 'إلغاء الطلب',
+    'lifecycle.reject': 'رفض الطلب',
+    'lifecycle.reopen': 'إعادة فتح الطلب',
+    'lifecycle.reason': 'السبب',
+    'lifecycle.reason.cancel': 'لماذا ألغى العميل الطلب؟',
+    'lifecycle.reason.reject': 'لماذا الطلب غير مشمول بالخدمة؟',
+    'lifecycle.reason.reopen': 'لماذا تتم إعادة فتح الطلب؟',
+    'lifecycle.confirm.cancel': 'تأكيد الإلغاء',
+    'lifecycle.confirm.reject': 'تأكيد الرفض',
+    'lifecycle.confirm.reopen': 'تأكيد إعادة الفتح',
+    'lifecycle.closureReason.CANCELLED': 'سبب الإلغاء',
+    'lifecycle.closureReason.REJECTED': 'سبب الرفض',
+    'lifecycle.reopenCount': 'مرات إعادة الفتح',
+    'autoAssign.button': 'تعيين تلقائي',
+    'autoAssign.hint': 'يختار الفني حسب المهارات وعدد الطلبات المفتوحة والتناوب',
+    'technicianProfile.open': 'المهارات',
+    'technicianProfile.title': 'المهارات والتوفر',
+    'technicianProfile.subtitle': 'ما يستطيع الفني إصلاحه والشهادات والإجازات',
+    'technicianProfile.close': 'إغلاق',
+    'technicianProfile.available': 'متاح',
+    'technicianProfile.unavailable': 'غير متاح',
+    'technicianProfile.markAvailable': 'تعيين كمتاح',
+    'technicianProfile.markUnavailable': 'تعيين كغير متاح',
+    'technicianProfile.skills': 'المهارات والشهادات',
+    'technicianProfile.noSkills': 'لا توجد مهارات مسجلة',
+    'technicianProfile.productCategory': 'فئة المنتج',
+    'technicianProfile.brand': 'العلامة التجارية',
+    'technicianProfile.certification': 'الشهادة',
+    'technicianProfile.expiresAt': 'تاريخ الانتهاء',
+    'technicianProfile.expired': 'منتهية',
+    'technicianProfile.addSkill': 'إضافة مهارة',
+    'technicianProfile.remove': 'حذف',
+    'technicianProfile.leaves': 'الإجازات',
+    'technicianProfile.noLeaves': 'لا توجد إجازات حالية أو قادمة',
+    'technicianProfile.leaveStart': 'من',
+    'technicianProfile.leaveEnd': 'إلى',
+    'technicianProfile.leaveReason': 'السبب',
+    'technicianProfile.addLeave': 'إضافة إجازة',
+    'assign.skilled': 'مختص',
+    'assign.unavailable': 'غير متاح',
+    'assign.openRequests': 'مفتوح',
+    'assign.showAll': 'عرض جميع الفنيين',
+    'notificationSettings.type.CERTIFICATION_EXPIRY': 'انتهاء شهادة',
+    'notificationSettings.type.VISIT': 'الزيارات الميدانية',
+    'notificationSettings.type.QUOTATION': 'رد على عرض سعر',
+    'nav.visits': 'الزيارات',
+    'nav.units': 'الأجهزة',
+    'nav.contracts': 'العقود',
+    'visits.title': 'الزيارات الميدانية',
+    'visits.subtitle': 'حجز الزيارات إلى العميل وتعديل مواعيدها وتسجيل نتائجها',
+    'visits.none': 'لا توجد زيارات محجوزة بعد',
+    'visits.status.SCHEDULED': 'مجدولة',
+    'visits.status.COMPLETED': 'منجزة',
+    'visits.status.CANCELLED': 'ملغاة',
+    'visits.outcome': 'النتيجة',
+    'visits.outcome.RESOLVED': 'تم الحل',
+    'visits.outcome.FOLLOW_UP_REQUIRED': 'تحتاج زيارة متابعة',
+    'visits.outcome.PARTS_REQUIRED': 'تحتاج قطع غيار',
+    'visits.outcome.CUSTOMER_ABSENT': 'العميل غير موجود',
+    'visits.outcomeNotes': 'ملاحظات النتيجة',
+    'visits.recordOutcome': 'تسجيل النتيجة',
+    'visits.reschedule': 'تعديل الموعد',
+    'visits.cancel': 'إلغاء الزيارة',
+    'visits.confirmCancel': 'تأكيد الإلغاء',
+    'visits.cancelReason': 'سبب الإلغاء',
+    'visits.save': 'حفظ',
+    'visits.saveChanges': 'حفظ التعديلات',
+    'visits.close': 'إغلاق',
+    'visits.book': 'حجز زيارة',
+    'visits.start': 'البداية',
+    'visits.end': 'النهاية',
+    'visits.technician': 'الفني',
+    'visits.assignedTechnician': 'الفني المعين',
+    'visits.address': 'عنوان الزيارة',
+    'visits.notes': 'ملاحظات',
+    'visits.calendar.title': 'تقويم الزيارات',
+    'visits.calendar.subtitle': 'الزيارات الميدانية المجدولة لكل فني وقسم',
+    'visits.calendar.day': 'يوم',
+    'visits.calendar.week': 'أسبوع',
+    'visits.calendar.today': 'اليوم',
+    'visits.calendar.previous': 'السابق',
+    'visits.calendar.next': 'التالي',
+    'visits.calendar.allDepartments': 'كل الأقسام',
+    'visits.calendar.allTechnicians': 'كل الفنيين',
+    'visits.calendar.empty': 'لا توجد زيارات في هذه الفترة',
     'status.success.deleted': 'تم حذف الحالة بنجاح',
     'status.error.load': 'فشل في تحميل الحالات',
     'status.error.create': 'فشل في إنشاء الحالة',
@@ -496,6 +1164,9 @@ const translations: Record<Lang, Record<string, string>> = {
     'dashboard.stats.pendingRequests': 'الطلبات المعلقة',
     'dashboard.stats.underWarranty': 'ضمن الكفالة',
     'dashboard.stats.outOfWarranty': 'خارج الكفالة',
+    'dashboard.stats.reopenedRequests': 'المعاد فتحها',
+    'dashboard.stats.cancelledRequests': 'الملغاة',
+    'dashboard.stats.rejectedRequests': 'المرفوضة',
     'dashboard.welcome': 'مرحباً بك، {firstName}!',
     'dashboard.welcomeSubtitle': 'إليك ما يحدث مع طلبات الصيانة اليوم.',
     'dashboard.overdueAlert': 'تنبيه: لديك {count} طلب متأخر',
@@ -536,6 +1207,191 @@ const translations: Record<Lang, Record<string, string>> = {
     'customers.empty': 'لا يوجد عملاء',
     'customers.save': 'حفظ',
     'customers.cancel': 'إلغاء',
+    'customers.units': 'الأجهزة',
+    'customers.balance': 'الرصيد المستحق',
+    'customers.viewUnits': 'عرض الأجهزة',
+    'customers.viewContracts': 'عرض العقود',
+    'customers.viewPlans': 'خطط الصيانة',
+    // Installed units
+    'units.title': 'الأجهزة المركبة',
+    'units.subtitle': 'أجهزة العملاء حسب الرقم التسلسلي وسجل إصلاحها',
+    'units.add': 'تسجيل جهاز',
+    'units.search': 'ابحث بالرقم التسلسلي أو العميل أو المنتج...',
+    'units.serialNumber': 'الرقم التسلسلي',
+    'units.product': 'المنتج',
+    'units.productPlaceholder': 'اختر المنتج...',
+    'units.customer': 'العميل',
+    'units.purchaseDate': 'تاريخ الشراء',
+    'units.installedAt': 'تاريخ التركيب',
+    'units.installedBy': 'تم التركيب بواسطة',
+    'units.installedByNone': 'لم يتم التركيب من قبل فنيينا',
+    'units.installerName': 'الوكيل أو المركب الخارجي',
+    'units.warrantyExpiresAt': 'انتهاء الكفالة',
+    'units.warrantyExpiresAtHelp': 'اتركه فارغاً ليتم حسابه من تاريخ الشراء وكفالة المنتج.',
+    'units.address': 'عنوان التركيب',
+    'units.addressHelp': 'اتركه فارغاً إذا كان الجهاز في عنوان العميل',
+    'units.notes': 'ملاحظات',
+    'units.repairs': 'الإصلاحات',
+    'units.empty': 'لا توجد أجهزة مسجلة',
+    'units.detailsTitle': 'سجل الجهاز',
+    'units.history': 'سجل الإصلاحات',
+    'units.noRepairs': 'لا توجد إصلاحات مسجلة لهذا الجهاز',
+    'units.openedAt': 'تاريخ الفتح',
+    'units.parts': 'القطع المستخدمة',
+    'units.cost': 'التكلفة',
+    'units.select': 'الجهاز المسجل',
+    'units.selectNone': 'لا يوجد جهاز مسجل',
+    'units.selectHelp': 'اختيار الجهاز يملأ المنتج وتاريخ الشراء تلقائياً.',
+    'units.contracts': 'العقود السارية',
+    // Service contracts
+    'contracts.title': 'عقود الخدمة',
+    'contracts.subtitle': 'عقود الكفالة الممددة والصيانة وما تغطيه',
+    'contracts.add': 'عقد جديد',
+    'contracts.addType': 'أنواع العقود',
+    'contracts.types': 'أنواع العقود',
+    'contracts.typeName': 'الاسم',
+    'contracts.kind': 'النوع',
+    'contracts.kind.EXTENDED_WARRANTY': 'كفالة ممددة',
+    'contracts.kind.MAINTENANCE': 'صيانة',
+    'contracts.durationMonths': 'المدة (بالأشهر)',
+    'contracts.visitsIncluded': 'الزيارات المشمولة',
+    'contracts.visitsIncludedHelp': 'اتركه فارغاً لعدد غير محدود من الزيارات.',
+    'contracts.coveredCosts': 'التكاليف المغطاة',
+    'contracts.cost.PARTS': 'قطع غيار',
+    'contracts.cost.LABOR': 'عمالة',
+    'contracts.cost.TRANSPORTATION': 'مواصلات',
+    'contracts.cost.OTHER': 'أخرى',
+    'contracts.description': 'الوصف',
+    'contracts.unlimited': 'غير محدود',
+    'contracts.retire': 'إيقاف',
+    'contracts.restore': 'إعادة تفعيل',
+    'contracts.number': 'رقم العقد',
+    'contracts.type': 'نوع العقد',
+    'contracts.typePlaceholder': 'اختر نوع العقد...',
+    'contracts.scope': 'يغطي',
+    'contracts.scope.CUSTOMER': 'جميع طلبات العميل',
+    'contracts.scope.UNITS': 'الأجهزة المحددة فقط',
+    'contracts.units': 'الأجهزة المغطاة',
+    'contracts.startDate': 'تاريخ البدء',
+    'contracts.endDate': 'تاريخ الانتهاء',
+    'contracts.endDateHelp': 'اتركه فارغاً لاستخدام مدة نوع العقد.',
+    'contracts.price': 'السعر',
+    'contracts.currency': 'العملة',
+    'contracts.search': 'البحث برقم العقد أو العميل...',
+    'contracts.period': 'المدة',
+    'contracts.visits': 'الزيارات المستخدمة',
+    'contracts.status': 'الحالة',
+    'contracts.status.ACTIVE': 'ساري',
+    'contracts.status.CANCELLED': 'ملغى',
+    'contracts.cancel': 'إلغاء العقد',
+    'contracts.cancelConfirm': 'إلغاء العقد {number}؟ لن تتم تغطية الطلبات الجديدة بعد الآن.',
+    'contracts.empty': 'لا توجد عقود',
+    // Preventive maintenance plans
+    'maintenance.title': 'خطط الصيانة الدورية',
+    'maintenance.subtitle': 'صيانة دورية تنشئ الطلبات قبل كل موعد استحقاق',
+    'maintenance.add': 'خطة جديدة',
+    'maintenance.name': 'اسم الخطة',
+    'maintenance.allUnits': 'جميع أجهزة العميل',
+    'maintenance.department': 'القسم',
+    'maintenance.departmentFromUnit': 'حسب منتج الجهاز',
+    'maintenance.recurrence': 'التكرار',
+    'maintenance.recurrence.INTERVAL': 'كل عدد من الأشهر',
+    'maintenance.recurrence.SEASONAL': 'موسمي',
+    'maintenance.intervalMonths': 'عدد الأشهر بين الزيارات',
+    'maintenance.seasonMonths': 'أشهر السنة',
+    'maintenance.dayOfMonth': 'يوم الشهر',
+    'maintenance.leadDays': 'إنشاء الطلب قبل (أيام)',
+    'maintenance.everyMonths': 'كل {months} أشهر',
+    'maintenance.seasonal': 'الأشهر {months}، اليوم {day}',
+    'maintenance.nextDue': 'الزيارة القادمة',
+    'maintenance.skipped': 'الزيارات الملغاة',
+    'maintenance.paused': 'متوقفة',
+    'maintenance.pause': 'إيقاف',
+    'maintenance.resume': 'استئناف',
+    'maintenance.skipNext': 'تخطي الزيارة القادمة',
+    'maintenance.skipReason': 'لماذا يتم تخطي الزيارة المستحقة في {date}؟',
+    'maintenance.history': 'السجل',
+    'maintenance.historyOf': 'زيارات {name}',
+    'maintenance.noHistory': 'لا توجد زيارات بعد',
+    'maintenance.status.GENERATED': 'تم إنشاء الطلب',
+    'maintenance.status.SKIPPED': 'تم التخطي',
+    'maintenance.empty': 'لا توجد خطط صيانة لهذا العميل',
+    'quotes.title': 'عرض السعر',
+    'quotes.subtitle': 'القطع والعمالة المخطط لها لموافقة العميل قبل الإصلاح',
+    'quotes.none': 'لم يصدر عرض سعر بعد',
+    'quotes.create': 'إنشاء عرض سعر',
+    'quotes.newVersion': 'نسخة جديدة',
+    'quotes.issue': 'إصدار عرض السعر',
+    'quotes.versionHint': 'إصدار نسخة جديدة يلغي النسخة الحالية حتى لو تمت الموافقة عليها',
+    'quotes.version': 'النسخة {version}',
+    'quotes.validUntil': 'صالح حتى',
+    'quotes.notes': 'ملاحظات للعميل',
+    'quotes.close': 'إغلاق',
+    'invoices.title': 'الفواتير',
+    'invoices.subtitle': 'فوترة التكاليف والقطع المدفوعة لهذا الطلب ومتابعة الدفعات',
+    'invoices.uninvoiced': 'غير مفوترة بعد',
+    'invoices.uninvoicedSummary': '{count} بنود قابلة للفوترة:',
+    'invoices.nothingToInvoice': 'لا توجد تكاليف أو قطع بانتظار الفوترة',
+    'invoices.issueIn': 'فوترة بنود {currency}',
+    'invoices.issue': 'إصدار الفاتورة',
+    'invoices.discount': 'الحسم',
+    'invoices.taxRate': 'نسبة الضريبة (%)',
+    'invoices.tax': 'الضريبة',
+    'invoices.subtotal': 'المجموع الفرعي',
+    'invoices.total': 'الإجمالي',
+    'invoices.balance': 'المتبقي',
+    'invoices.dueDate': 'تاريخ الاستحقاق',
+    'invoices.dueDateHint': 'اترك تاريخ الاستحقاق فارغاً لاستخدام مهلة الدفع الافتراضية',
+    'invoices.notes': 'ملاحظات',
+    'invoices.none': 'لا توجد فواتير بعد',
+    'invoices.details': 'التفاصيل',
+    'invoices.hideDetails': 'إخفاء التفاصيل',
+    'invoices.payments': 'الدفعات',
+    'invoices.recordPayment': 'تسجيل دفعة',
+    'invoices.amount': 'المبلغ',
+    'invoices.reference': 'مرجع التحويل',
+    'invoices.method.CASH': 'نقداً',
+    'invoices.method.TRANSFER': 'تحويل',
+    'invoices.void': 'إلغاء',
+    'invoices.voidReason': 'سبب الإلغاء',
+    'invoices.voidedFor': 'ملغاة: {reason}',
+    'invoices.save': 'حفظ',
+    'invoices.close': 'إغلاق',
+    'invoices.status.ISSUED': 'صادرة',
+    'invoices.status.PARTIALLY_PAID': 'مدفوعة جزئياً',
+    'invoices.status.PAID': 'مدفوعة',
+    'invoices.status.VOID': 'ملغاة',
+    'quotes.customerLink': 'رابط العميل',
+    'quotes.copyLink': 'نسخ رابط العميل',
+    'quotes.linkCopied': 'تم نسخ الرابط',
+    'quotes.markAccepted': 'وافق العميل',
+    'quotes.markRejected': 'رفض العميل',
+    'quotes.decisionNote': 'ملاحظة (اختياري)',
+    'quotes.recordedBy': 'سجلها {name}',
+    'quotes.viaLink': 'عبر رابط العميل',
+    'quotes.status.PENDING': 'بانتظار العميل',
+    'quotes.status.ACCEPTED': 'مقبول',
+    'quotes.status.REJECTED': 'مرفوض',
+    'quotes.status.EXPIRED': 'منتهي الصلاحية',
+    'quotes.status.SUPERSEDED': 'مستبدل',
+    'quotes.line.type': 'النوع',
+    'quotes.line.description': 'الوصف',
+    'quotes.line.noPart': 'قطعة غير موجودة في المستودع',
+    'quotes.line.quantity': 'الكمية',
+    'quotes.line.unitPrice': 'سعر الوحدة',
+    'quotes.line.total': 'الإجمالي',
+    'quotes.line.add': 'إضافة بند',
+    'quotes.line.remove': 'حذف',
+    'quotes.public.title': 'عرض سعر الإصلاح للطلب {number}',
+    'quotes.public.total': 'الإجمالي',
+    'quotes.public.notFound': 'رابط عرض السعر غير صالح',
+    'quotes.public.notePlaceholder': 'أضف ملاحظة لمركز الصيانة (اختياري)',
+    'quotes.public.accept': 'الموافقة والمتابعة بالإصلاح',
+    'quotes.public.reject': 'رفض',
+    'quotes.public.answered.ACCEPTED': 'لقد وافقت على عرض السعر. شكراً لك، سيتم متابعة الإصلاح.',
+    'quotes.public.answered.REJECTED': 'لقد رفضت عرض السعر. سيتواصل معك مركز الصيانة.',
+    'quotes.public.answered.EXPIRED': 'انتهت صلاحية عرض السعر. يرجى التواصل مع مركز الصيانة للحصول على عرض جديد.',
+    'quotes.public.answered.SUPERSEDED': 'تم استبدال عرض السعر بنسخة أحدث. يرجى استخدام آخر رابط وصلك.',
     // Products
     'products.title': 'المنتجات',
     'products.subtitle': 'إدارة كتالوج المنتجات',
@@ -644,6 +1500,50 @@ const translations: Record<Lang, Record<string, string>> = {
     'reports.overdue': 'الطلبات المتأخرة',
     'reports.onTimePercentage': 'نسبة في الوقت',
     'reports.avgResolutionHours': 'متوسط الحل (ساعات)',
+    'reports.filters.dateFrom': 'من تاريخ',
+    'reports.filters.dateTo': 'إلى تاريخ',
+    'reports.filters.department': 'القسم',
+    'reports.filters.allDepartments': 'جميع الأقسام',
+    'reports.filters.technician': 'الفني',
+    'reports.filters.allTechnicians': 'جميع الفنيين',
+    'reports.filters.apply': 'تطبيق',
+    'reports.technicians.title': 'أداء الفنيين',
+    'reports.technicians.name': 'الفني',
+    'reports.technicians.department': 'القسم',
+    'reports.technicians.completed': 'المكتملة',
+    'reports.technicians.avgResolution': 'متوسط الحل (ساعات)',
+    'reports.technicians.satisfaction': 'رضا العملاء',
+    'reports.technicians.overdue': 'المتأخرة',
+    'reports.sla.title': 'الالتزام بمدة الخدمة حسب القسم',
+    'reports.sla.department': 'القسم',
+    'reports.sla.total': 'الإجمالي',
+    'reports.sla.onTime': 'مكتملة في الوقت',
+    'reports.sla.late': 'مكتملة متأخرة',
+    'reports.sla.overduePercentage': 'نسبة التأخير',
+    'reports.sla.netResolutionHours': 'متوسط الحل الصافي (دون التوقف)',
+    'reports.costs.title': 'تكاليف القطع والعمالة',
+    'reports.costs.byType': 'التكاليف حسب النوع',
+    'reports.costs.parts': 'قطع الغيار المستخدمة',
+    'reports.costs.byDepartment': 'التكاليف حسب القسم',
+    'reports.costs.labor': 'عمالة',
+    'reports.costs.partsTotal': 'قطع غيار',
+    'reports.costs.other': 'أخرى',
+    'reports.unpaid.title': 'الفواتير غير المدفوعة',
+    'reports.unpaid.subtitle': 'الفواتير المفتوحة الصادرة حتى تاريخ النهاية، بما فيها الأقدم',
+    'reports.unpaid.empty': 'لا توجد فواتير غير مدفوعة',
+    'reports.unpaid.outstanding': 'المستحق',
+    'reports.unpaid.overdue': 'المتأخر',
+    'reports.unpaid.byCustomer': 'حسب العميل',
+    'reports.unpaid.invoice': 'الفاتورة',
+    'reports.unpaid.request': 'الطلب',
+    'reports.unpaid.customer': 'العميل',
+    'reports.unpaid.issuedAt': 'تاريخ الإصدار',
+    'reports.unpaid.total': 'الإجمالي',
+    'reports.unpaid.balance': 'المتبقي',
+    'reports.unpaid.daysOverdue': 'أيام التأخير',
+    'reports.costs.quantity': 'الكمية',
+    'reports.costs.totals': 'الإجمالي الكلي',
+    'reports.empty': 'لا توجد بيانات للفلاتر المحددة',
     // Export
     'export.title': 'تصدير التقارير',
     'export.subtitle': 'تحميل تقارير Excel لمجموعات البيانات المختلفة',
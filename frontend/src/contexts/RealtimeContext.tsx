@@ -0,0 +1,136 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { API_BASE_URL } from '../services/api';
+import { RealtimeEventName } from '../types';
+
+type Listener = (data: any) => void;
+
+interface RealtimeContextType {
+  connected: boolean;
+  subscribe: (event: RealtimeEventName, listener: Listener) => () => void;
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+const MAX_RETRY_DELAY = 30000;
+
+// Split a Server-Sent Events buffer into complete messages, returning the unparsed remainder
+const parseEvents = (buffer: string, dispatch: (event: string, data: any) => void): string => {
+  let boundary = buffer.indexOf('\n\n');
+  while (boundary !== -1) {
+    const chunk = buffer.slice(0, boundary);
+    buffer = buffer.slice(boundary + 2);
+
+    let event = 'message';
+    const dataLines: string[] = [];
+    chunk.split('\n').forEach(line => {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trim());
+      }
+    });
+
+    if (dataLines.length > 0) {
+      try {
+        dispatch(event, JSON.parse(dataLines.join('\n')));
+      } catch (error) {
+        console.log('Invalid realtime event:', error);
+      }
+    }
+
+    boundary = buffer.indexOf('\n\n');
+  }
+  return buffer;
+};
+
+// Keeps one authenticated event stream open per session. EventSource cannot send the
+// Authorization header, so the stream is read with fetch instead.
+export const RealtimeProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user, token } = useAuth();
+  const listeners = useRef(new Map<string, Set<Listener>>());
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!user || !token) return;
+
+    const controller = new AbortController();
+    let retryDelay = 1000;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const dispatch = (event: string, data: any) => {
+      listeners.current.get(event)?.forEach(listener => listener(data));
+    };
+
+    const connect = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/realtime/stream`, {
+          headers: { Authorization: `Bearer ${token}`, Accept: 'text/event-stream' },
+          signal: controller.signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`Realtime stream failed with status ${response.status}`);
+        }
+
+        setConnected(true);
+        retryDelay = 1000;
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer = parseEvents(buffer + decoder.decode(value, { stream: true }), dispatch);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.log('Realtime stream disconnected:', error);
+      }
+
+      setConnected(false);
+      if (!controller.signal.aborted) {
+        retryTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      if (retryTimer) clearTimeout(retryTimer);
+      setConnected(false);
+    };
+  }, [user, token]);
+
+  const subscribe = useCallback((event: RealtimeEventName, listener: Listener) => {
+    const set = listeners.current.get(event) || new Set<Listener>();
+    set.add(listener);
+    listeners.current.set(event, set);
+    return () => {
+      set.delete(listener);
+    };
+  }, []);
+
+  const value = useMemo(() => ({ connected, subscribe }), [connected, subscribe]);
+
+  return <RealtimeContext.Provider value={value}>{children}</RealtimeContext.Provider>;
+};
+
+export const useRealtime = (): RealtimeContextType => {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+  return context;
+};
+
+// Run the handler for every event of the given type while the component is mounted
+export const useRealtimeEvent = (event: RealtimeEventName, handler: (data: any) => void) => {
+  const { subscribe } = useRealtime();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => subscribe(event, data => handlerRef.current(data)), [subscribe, event]);
+};
@@ -6,6 +6,7 @@ import './index.css';
 import App from './App';
 import { AuthProvider } from './contexts/AuthContext';
 import { I18nProvider } from './contexts/I18nContext';
+import { RealtimeProvider } from './contexts/RealtimeContext';
 
 // Debug logging (can be removed in production)
 console.log('React app starting...');
@@ -42,9 +43,11 @@ root.render(
     <QueryClientProvider client={queryClient}>
       <BrowserRouter>
         <AuthProvider>
-          <I18nProvider>
-            <App />
-          </I18nProvider>
+          <RealtimeProvider>
+            <I18nProvider>
+              <App />
+            </I18nProvider>
+          </RealtimeProvider>
         </AuthProvider>
       </BrowserRouter>
     </QueryClientProvider>
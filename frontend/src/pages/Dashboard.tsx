@@ -12,6 +12,9 @@ import {
   ShieldCheckIcon,
   ShieldExclamationIcon,
   BellIcon,
+  ArrowPathIcon,
+  XCircleIcon,
+  NoSymbolIcon,
 } from '@heroicons/react/24/outline';
 
 const Dashboard: React.FC = () => {
@@ -94,6 +97,30 @@ const Dashboard: React.FC = () => {
       bgColor: 'bg-orange-50',
       textColor: 'text-orange-700',
     },
+    {
+      name: t('dashboard.stats.reopenedRequests'),
+      value: stats?.reopenedRequests?.toString() || '0',
+      icon: ArrowPathIcon,
+      color: 'bg-purple-500',
+      bgColor: 'bg-purple-50',
+      textColor: 'text-purple-700',
+    },
+    {
+      name: t('dashboard.stats.cancelledRequests'),
+      value: stats?.cancelledRequests?.toString() || '0',
+      icon: XCircleIcon,
+      color: 'bg-gray-500',
+      bgColor: 'bg-gray-50',
+      textColor: 'text-gray-700',
+    },
+    {
+      name: t('dashboard.stats.rejectedRequests'),
+      value: stats?.rejectedRequests?.toString() || '0',
+      icon: NoSymbolIcon,
+      color: 'bg-rose-500',
+      bgColor: 'bg-rose-50',
+      textColor: 'text-rose-700',
+    },
   ];
 
 
@@ -106,6 +133,8 @@ const Dashboard: React.FC = () => {
       'IN_REPAIR': 'status-badge status-in-repair',
       'COMPLETED': 'status-badge status-completed',
       'CLOSED': 'status-badge status-closed',
+      'CANCELLED': 'status-badge status-closed',
+      'REJECTED': 'status-badge status-closed',
     };
     return statusClasses[status as keyof typeof statusClasses] || 'status-badge status-new';
   };
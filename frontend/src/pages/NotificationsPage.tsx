@@ -1,12 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { authAPI } from '../services/api';
+import { useRealtimeEvent } from '../contexts/RealtimeContext';
 import { 
   BellIcon, 
   CheckIcon, 
   ExclamationTriangleIcon,
   InformationCircleIcon,
-  ClockIcon
+  ClockIcon,
+  ChatBubbleLeftEllipsisIcon,
+  CalendarDaysIcon
 } from '@heroicons/react/24/outline';
 import { Notification } from '../types';
 
@@ -20,6 +23,13 @@ const NotificationsPage: React.FC = () => {
     loadNotifications();
   }, []);
 
+  // Show pushed notifications at the top of the list
+  useRealtimeEvent('notification', (notification: Notification) => {
+    setNotifications(prev =>
+      prev.some(n => n.id === notification.id) ? prev : [notification, ...prev]
+    );
+  });
+
   const loadNotifications = async () => {
     try {
       setLoading(true);
@@ -39,12 +49,22 @@ const NotificationsPage: React.FC = () => {
         return <BellIcon className="h-6 w-6 text-blue-500" />;
       case 'OVERDUE':
         return <ExclamationTriangleIcon className="h-6 w-6 text-red-500" />;
+      case 'SLA_WARNING':
+        return <ExclamationTriangleIcon className="h-6 w-6 text-orange-500" />;
       case 'STATUS_CHANGE':
         return <InformationCircleIcon className="h-6 w-6 text-yellow-500" />;
       case 'COMPLETION':
         return <CheckIcon className="h-6 w-6 text-green-500" />;
       case 'WAREHOUSE_UPDATE':
         return <InformationCircleIcon className="h-6 w-6 text-purple-500" />;
+      case 'MENTION':
+        return <ChatBubbleLeftEllipsisIcon className="h-6 w-6 text-pink-500" />;
+      case 'CERTIFICATION_EXPIRY':
+        return <ExclamationTriangleIcon className="h-6 w-6 text-orange-500" />;
+      case 'VISIT':
+        return <CalendarDaysIcon className="h-6 w-6 text-indigo-500" />;
+      case 'QUOTATION':
+        return <InformationCircleIcon className="h-6 w-6 text-indigo-500" />;
       default:
         return <BellIcon className="h-6 w-6 text-gray-500" />;
     }
@@ -58,6 +78,7 @@ const NotificationsPage: React.FC = () => {
           notif.id === id ? { ...notif, isRead: true } : notif
         )
       );
+      window.dispatchEvent(new Event('notificationsRead'));
     } catch (err: any) {
       console.error('Failed to mark notification as read:', err);
     }
@@ -69,6 +90,7 @@ const NotificationsPage: React.FC = () => {
       setNotifications(prev => 
         prev.map(notif => ({ ...notif, isRead: true }))
       );
+      window.dispatchEvent(new Event('notificationsRead'));
     } catch (err: any) {
       console.error('Failed to mark all notifications as read:', err);
     }
@@ -1,13 +1,14 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { authAPI } from '../services/api';
-import { UserRole } from '../types';
-// import { useI18n } from '../contexts/I18nContext';
+import { UserRole, NotificationSettings, NotificationChannel } from '../types';
+import { useI18n } from '../contexts/I18nContext';
 import { 
   UserCircleIcon, 
   EnvelopeIcon, 
   BuildingOfficeIcon,
   KeyIcon,
+  BellIcon,
   CheckCircleIcon,
   ExclamationCircleIcon
 } from '@heroicons/react/24/outline';
@@ -25,11 +26,15 @@ interface PasswordForm {
   confirmPassword: string;
 }
 
+const NOTIFICATION_CHANNELS: NotificationChannel[] = ['IN_APP', 'EMAIL'];
+
 const ProfilePage: React.FC = () => {
   const { user, updateUser } = useAuth();
+  const { t } = useI18n();
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
-  const [activeTab, setActiveTab] = useState<'profile' | 'password'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'notifications'>('profile');
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings | null>(null);
 
   const [profileForm, setProfileForm] = useState<ProfileForm>({
     firstName: user?.firstName || '',
@@ -99,6 +104,57 @@ const ProfilePage: React.FC = () => {
     }
   };
 
+  useEffect(() => {
+    if (activeTab !== 'notifications' || notificationSettings) return;
+
+    authAPI.getNotificationPreferences()
+      .then(setNotificationSettings)
+      .catch((error: any) => {
+        setMessage({ type: 'error', text: error.message || t('notificationSettings.error.load') });
+      });
+  }, [activeTab, notificationSettings, t]);
+
+  const notificationTypes = notificationSettings
+    ? Array.from(new Set(notificationSettings.preferences.map(p => p.type)))
+    : [];
+
+  const isPreferenceEnabled = (type: string, channel: NotificationChannel) => {
+    const preference = notificationSettings?.preferences.find(p => p.type === type && p.channel === channel);
+    return preference ? preference.enabled : true;
+  };
+
+  const togglePreference = (type: string, channel: NotificationChannel) => {
+    setNotificationSettings(prev => prev && {
+      ...prev,
+      preferences: prev.preferences.map(p =>
+        p.type === type && p.channel === channel ? { ...p, enabled: !p.enabled } : p
+      ),
+    });
+  };
+
+  const handleNotificationsSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!notificationSettings) return;
+
+    setLoading(true);
+    setMessage(null);
+
+    try {
+      const saved = await authAPI.updateNotificationPreferences({
+        preferences: notificationSettings.preferences,
+        quietHoursStart: notificationSettings.quietHoursStart || null,
+        quietHoursEnd: notificationSettings.quietHoursEnd || null,
+        dailyDigest: notificationSettings.dailyDigest,
+      });
+      setNotificationSettings(saved);
+      setMessage({ type: 'success', text: t('notificationSettings.saved') });
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message || t('notificationSettings.error.save') });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const getRoleDisplayName = (role: string) => {
     const roleNames: Record<string, string> = {
       'COMPANY_MANAGER': 'مدير الشركة',
@@ -203,6 +259,17 @@ const ProfilePage: React.FC = () => {
               <KeyIcon className="h-5 w-5 inline-block mr-2" />
               تغيير كلمة المرور
             </button>
+            <button
+              onClick={() => setActiveTab('notifications')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'notifications'
+                  ? 'border-primary-500 text-primary-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <BellIcon className="h-5 w-5 inline-block mr-2" />
+              {t('notificationSettings.tab')}
+            </button>
           </nav>
         </div>
 
@@ -341,6 +408,110 @@ const ProfilePage: React.FC = () => {
               </div>
             </form>
           )}
+
+          {activeTab === 'notifications' && (
+            notificationSettings ? (
+              <form onSubmit={handleNotificationsSubmit} className="space-y-6">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900">{t('notificationSettings.title')}</h3>
+                  <p className="mt-1 text-sm text-gray-500">{t('notificationSettings.subtitle')}</p>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                          {t('notificationSettings.type')}
+                        </th>
+                        {NOTIFICATION_CHANNELS.map(channel => (
+                          <th key={channel} className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">
+                            {t(`notificationSettings.channel.${channel}`)}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {notificationTypes.map(type => (
+                        <tr key={type}>
+                          <td className="px-4 py-2 text-sm text-gray-900">{t(`notificationSettings.type.${type}`)}</td>
+                          {NOTIFICATION_CHANNELS.map(channel => (
+                            <td key={channel} className="px-4 py-2 text-center">
+                              <input
+                                type="checkbox"
+                                checked={isPreferenceEnabled(type, channel)}
+                                onChange={() => togglePreference(type, channel)}
+                                className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                              />
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900">{t('notificationSettings.quietHours')}</h4>
+                  <p className="mt-1 text-sm text-gray-500">{t('notificationSettings.quietHoursHint')}</p>
+                  <div className="mt-2 grid grid-cols-2 gap-4 max-w-md">
+                    <div>
+                      <label htmlFor="quietHoursStart" className="block text-sm font-medium text-gray-700 mb-2">
+                        {t('notificationSettings.quietHoursStart')}
+                      </label>
+                      <input
+                        id="quietHoursStart"
+                        type="time"
+                        value={notificationSettings.quietHoursStart || ''}
+                        onChange={(e) => setNotificationSettings(prev => prev && { ...prev, quietHoursStart: e.target.value || null })}
+                        className="input ltr-text"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="quietHoursEnd" className="block text-sm font-medium text-gray-700 mb-2">
+                        {t('notificationSettings.quietHoursEnd')}
+                      </label>
+                      <input
+                        id="quietHoursEnd"
+                        type="time"
+                        value={notificationSettings.quietHoursEnd || ''}
+                        onChange={(e) => setNotificationSettings(prev => prev && { ...prev, quietHoursEnd: e.target.value || null })}
+                        className="input ltr-text"
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex items-start">
+                  <input
+                    id="dailyDigest"
+                    type="checkbox"
+                    checked={notificationSettings.dailyDigest}
+                    onChange={(e) => setNotificationSettings(prev => prev && { ...prev, dailyDigest: e.target.checked })}
+                    className="h-4 w-4 mt-1 text-primary-600 border-gray-300 rounded"
+                  />
+                  <label htmlFor="dailyDigest" className="mr-3 text-sm">
+                    <span className="font-medium text-gray-900">{t('notificationSettings.dailyDigest')}</span>
+                    <span className="block text-gray-500">{t('notificationSettings.dailyDigestHint')}</span>
+                  </label>
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="btn-primary"
+                  >
+                    {loading ? t('notificationSettings.saving') : t('notificationSettings.save')}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              </div>
+            )
+          )}
         </div>
       </div>
     </div>
@@ -1,10 +1,27 @@
 import React, { useCallback, useEffect, useState } from 'react';
-import { statusAPI } from '../services/api';
-import { CustomRequestStatus } from '../types';
+import { departmentsAPI, statusAPI, workflowAPI } from '../services/api';
+import { CustomRequestStatus, Department, StatusTransition, TransitionTimestampField, UserRole, REQUEST_STATUS_LABELS, ROLE_LABELS, RequestStatus } from '../types';
 import { useI18n } from '../contexts/I18nContext';
+import { useAuth } from '../contexts/AuthContext';
+
+const STANDARD_STATUSES = Object.keys(REQUEST_STATUS_LABELS) as RequestStatus[];
+// Cancelling and rejecting have their own action with a mandatory reason
+const NON_CONFIGURABLE_TARGETS: string[] = ['CANCELLED', 'REJECTED'];
+const TIMESTAMP_FIELDS: TransitionTimestampField[] = ['assignedAt', 'startedAt', 'completedAt', 'closedAt'];
+
+const emptyTransitionForm = {
+  fromStatus: '',
+  toStatus: '',
+  allowedRoles: [] as UserRole[],
+  requiresComment: false,
+  requiresTechnician: false,
+  setsTimestamp: '' as TransitionTimestampField | '',
+};
 
 const StatusManagementPage: React.FC = () => {
   const { t } = useI18n();
+  const { hasRole } = useAuth();
+  const canEditWorkflow = hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [statuses, setStatuses] = useState<CustomRequestStatus[]>([]);
@@ -16,6 +33,9 @@ const StatusManagementPage: React.FC = () => {
     description: '',
     sortOrder: 0,
   });
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [transitionForm, setTransitionForm] = useState(emptyTransitionForm);
+  const [departments, setDepartments] = useState<Department[]>([]);
 
   const loadStatuses = useCallback(async () => {
     try {
@@ -30,9 +50,100 @@ const StatusManagementPage: React.FC = () => {
     }
   }, []);
 
+  const loadTransitions = useCallback(async () => {
+    try {
+      const response = await workflowAPI.getTransitions({ includeInactive: true });
+      setTransitions(response.transitions);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load transitions');
+    }
+  }, []);
+
+  const loadDepartments = useCallback(async () => {
+    try {
+      const response = await departmentsAPI.getDepartments();
+      setDepartments(response.data?.departments || []);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load departments');
+    }
+  }, []);
+
   useEffect(() => {
     loadStatuses();
-  }, [loadStatuses]);
+    loadTransitions();
+    loadDepartments();
+  }, [loadStatuses, loadTransitions, loadDepartments]);
+
+  const statusLabel = (name: string) =>
+    statuses.find(s => s.name === name)?.displayName || REQUEST_STATUS_LABELS[name as RequestStatus] || name;
+
+  const statusNames = [...STANDARD_STATUSES, ...statuses.filter(s => s.isActive).map(s => s.name)];
+
+  const toggleTransitionRole = (role: UserRole) => {
+    setTransitionForm(prev => ({
+      ...prev,
+      allowedRoles: prev.allowedRoles.includes(role)
+        ? prev.allowedRoles.filter(r => r !== role)
+        : [...prev.allowedRoles, role],
+    }));
+  };
+
+  const handleCreateTransition = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!transitionForm.fromStatus || !transitionForm.toStatus || transitionForm.allowedRoles.length === 0) return;
+
+    try {
+      setLoading(true);
+      await workflowAPI.createTransition({
+        ...transitionForm,
+        setsTimestamp: transitionForm.setsTimestamp || null,
+      });
+      setTransitionForm(emptyTransitionForm);
+      await loadTransitions();
+    } catch (e: any) {
+      setError(e.message || 'Failed to create transition');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleTransition = async (transition: StatusTransition) => {
+    try {
+      setLoading(true);
+      await workflowAPI.updateTransition(transition.id, { isActive: !transition.isActive });
+      await loadTransitions();
+    } catch (e: any) {
+      setError(e.message || 'Failed to update transition');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteTransition = async (id: number) => {
+    if (!window.confirm(t('workflow.confirmDelete'))) return;
+
+    try {
+      setLoading(true);
+      await workflowAPI.deleteTransition(id);
+      await loadTransitions();
+    } catch (e: any) {
+      setError(e.message || 'Failed to delete transition');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleQuotePolicy = async (department: Department) => {
+    try {
+      setLoading(true);
+      await departmentsAPI.setQuotePolicy(department.id, !department.requiresQuoteApproval);
+      await loadDepartments();
+    } catch (e: any) {
+      setError(e.message || 'Failed to update department');
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -210,6 +321,165 @@ const StatusManagementPage: React.FC = () => {
         </div>
       </div>
 
+      <div className="card">
+        <div className="card-header">
+          <h3>{t('workflow.title')}</h3>
+          <p>{canEditWorkflow ? t('workflow.subtitle') : t('workflow.readOnly')}</p>
+        </div>
+        <div className="card-content space-y-6">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('workflow.from')}</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('workflow.to')}</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('workflow.roles')}</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('workflow.setsTimestamp')}</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('status.isActive')}</th>
+                  {canEditWorkflow && (
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('status.actions')}</th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {transitions.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">{t('workflow.noTransitions')}</td>
+                  </tr>
+                )}
+                {transitions.map((transition) => (
+                  <tr key={transition.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{statusLabel(transition.fromStatus)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {statusLabel(transition.toStatus)}
+                      {transition.requiresComment && (
+                        <span className="block text-xs text-gray-500">{t('workflow.requiresComment')}</span>
+                      )}
+                      {transition.requiresTechnician && (
+                        <span className="block text-xs text-gray-500">{t('workflow.requiresTechnician')}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {transition.allowedRoles.map(role => ROLE_LABELS[role] || role).join('، ')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{transition.setsTimestamp || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        transition.isActive
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-red-100 text-red-800'
+                      }`}>
+                        {transition.isActive ? t('workflow.active') : t('workflow.inactive')}
+                      </span>
+                    </td>
+                    {canEditWorkflow && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                        <button
+                          onClick={() => handleToggleTransition(transition)}
+                          className="text-indigo-600 hover:text-indigo-900"
+                        >
+                          {transition.isActive ? t('workflow.disable') : t('workflow.enable')}
+                        </button>
+                        <button
+                          onClick={() => handleDeleteTransition(transition.id)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          {t('workflow.delete')}
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {canEditWorkflow && (
+            <form onSubmit={handleCreateTransition} className="space-y-4 border-t border-gray-200 pt-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="form-group">
+                  <label className="form-label">{t('workflow.from')}</label>
+                  <select className="select-field" value={transitionForm.fromStatus} onChange={(e) => setTransitionForm(prev => ({ ...prev, fromStatus: e.target.value }))} required>
+                    <option value="">-</option>
+                    {statusNames.map(name => (
+                      <option key={name} value={name}>{statusLabel(name)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label className="form-label">{t('workflow.to')}</label>
+                  <select className="select-field" value={transitionForm.toStatus} onChange={(e) => setTransitionForm(prev => ({ ...prev, toStatus: e.target.value }))} required>
+                    <option value="">-</option>
+                    {statusNames.filter(name => name !== transitionForm.fromStatus && !NON_CONFIGURABLE_TARGETS.includes(name)).map(name => (
+                      <option key={name} value={name}>{statusLabel(name)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label className="form-label">{t('workflow.setsTimestamp')}</label>
+                  <select className="select-field" value={transitionForm.setsTimestamp} onChange={(e) => setTransitionForm(prev => ({ ...prev, setsTimestamp: e.target.value as TransitionTimestampField | '' }))}>
+                    <option value="">{t('workflow.none')}</option>
+                    {TIMESTAMP_FIELDS.map(field => (
+                      <option key={field} value={field}>{field}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="form-group">
+                <label className="form-label">{t('workflow.roles')}</label>
+                <div className="flex flex-wrap gap-4">
+                  {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                    <label key={role} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input type="checkbox" checked={transitionForm.allowedRoles.includes(role)} onChange={() => toggleTransitionRole(role)} />
+                      {ROLE_LABELS[role]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-6">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={transitionForm.requiresComment} onChange={(e) => setTransitionForm(prev => ({ ...prev, requiresComment: e.target.checked }))} />
+                  {t('workflow.requiresComment')}
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={transitionForm.requiresTechnician} onChange={(e) => setTransitionForm(prev => ({ ...prev, requiresTechnician: e.target.checked }))} />
+                  {t('workflow.requiresTechnician')}
+                </label>
+              </div>
+              <button
+                type="submit"
+                className="btn-primary"
+                disabled={loading || !transitionForm.fromStatus || !transitionForm.toStatus || transitionForm.allowedRoles.length === 0}
+              >
+                {t('workflow.add')}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <h3>{t('workflow.quoteApproval')}</h3>
+          <p>{t('workflow.quoteApprovalHelp')}</p>
+        </div>
+        <div className="card-content">
+          <div className="flex flex-wrap gap-6">
+            {departments.map(department => (
+              <label key={department.id} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!department.requiresQuoteApproval}
+                  disabled={!canEditWorkflow || loading}
+                  onChange={() => handleToggleQuotePolicy(department)}
+                />
+                {department.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
       {/* Create/Edit Modal */}
       {(showCreateModal || editingStatus) && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
@@ -0,0 +1,434 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { contractsAPI, customersAPI, unitsAPI } from '../../services/api';
+import {
+  COST_TYPES,
+  ContractType,
+  ContractTypeForm,
+  CostType,
+  Customer,
+  InstalledUnit,
+  ServiceContract,
+  ServiceContractForm,
+  UserRole,
+} from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+
+const EMPTY_TYPE_FORM: ContractTypeForm = {
+  name: '',
+  description: '',
+  kind: 'MAINTENANCE',
+  coveredCostTypes: ['LABOR', 'TRANSPORTATION'],
+  durationMonths: 12,
+  visitsIncluded: '',
+};
+
+const EMPTY_FORM: ServiceContractForm = {
+  contractNumber: '',
+  typeId: '',
+  customerId: '',
+  scope: 'CUSTOMER',
+  unitIds: [],
+  startDate: '',
+  endDate: '',
+  price: '',
+  currency: 'SYP',
+  notes: '',
+};
+
+const formatDate = (value?: string | null) => (value ? value.slice(0, 10) : '-');
+
+const ContractsPage: React.FC = () => {
+  const { t } = useI18n();
+  const { hasRole } = useAuth();
+  const [searchParams] = useSearchParams();
+  const customerFilter = searchParams.get('customerId');
+  const isManager = hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER]);
+  const canSell = hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR]);
+
+  const [contracts, setContracts] = useState<ServiceContract[]>([]);
+  const [types, setTypes] = useState<ContractType[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showTypeForm, setShowTypeForm] = useState(false);
+  const [typeForm, setTypeForm] = useState<ContractTypeForm>(EMPTY_TYPE_FORM);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ServiceContractForm>({ ...EMPTY_FORM, customerId: customerFilter || '' });
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [units, setUnits] = useState<InstalledUnit[]>([]);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [contractData, typeData] = await Promise.all([
+        contractsAPI.getContracts({
+          limit: 100,
+          search: search.trim() || undefined,
+          customerId: customerFilter ? Number(customerFilter) : undefined,
+        }),
+        contractsAPI.getTypes(isManager),
+      ]);
+      setContracts(contractData.contracts || []);
+      setTypes(typeData.types || []);
+    } catch (e: any) {
+      setError(e.message || t('error.failedToLoad'));
+    } finally {
+      setLoading(false);
+    }
+  }, [search, customerFilter, isManager, t]);
+
+  useEffect(() => { load(); }, [load]);
+
+  useEffect(() => {
+    if (!showForm || customers.length > 0) return;
+    customersAPI.getCustomers({ limit: 100 })
+      .then(resp => setCustomers(resp.data?.customers || []))
+      .catch((e: any) => setError(e.message || t('error.failedToLoad')));
+  }, [showForm, customers.length, t]);
+
+  // Units that can be listed on a contract belong to the selected customer
+  useEffect(() => {
+    setUnits([]);
+    if (!form.customerId || form.scope !== 'UNITS') return;
+    unitsAPI.getUnits({ customerId: Number(form.customerId), limit: 100 })
+      .then(data => setUnits(data.units || []))
+      .catch(() => setUnits([]));
+  }, [form.customerId, form.scope]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value, ...(name === 'customerId' && { unitIds: [] }) }));
+  };
+
+  const handleTypeChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setTypeForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const toggleCostType = (costType: CostType) => {
+    setTypeForm(prev => ({
+      ...prev,
+      coveredCostTypes: prev.coveredCostTypes.includes(costType)
+        ? prev.coveredCostTypes.filter(type => type !== costType)
+        : [...prev.coveredCostTypes, costType],
+    }));
+  };
+
+  const toggleUnit = (unitId: number) => {
+    setForm(prev => ({
+      ...prev,
+      unitIds: prev.unitIds.includes(unitId) ? prev.unitIds.filter(id => id !== unitId) : [...prev.unitIds, unitId],
+    }));
+  };
+
+  const submitType = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setLoading(true);
+      setError(null);
+      await contractsAPI.createType(typeForm);
+      setShowTypeForm(false);
+      setTypeForm(EMPTY_TYPE_FORM);
+      await load();
+    } catch (e: any) {
+      setError(e.message || t('error.failedToCreate'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setLoading(true);
+      setError(null);
+      await contractsAPI.createContract({
+        ...form,
+        typeId: Number(form.typeId),
+        customerId: Number(form.customerId),
+        endDate: form.endDate || undefined,
+      });
+      setShowForm(false);
+      setForm({ ...EMPTY_FORM, customerId: customerFilter || '' });
+      await load();
+    } catch (e: any) {
+      setError(e.message || t('error.failedToCreate'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleTypeActive = async (type: ContractType) => {
+    try {
+      setError(null);
+      await contractsAPI.updateType(type.id, { isActive: !type.isActive });
+      await load();
+    } catch (e: any) {
+      setError(e.message || t('error.failedToUpdate'));
+    }
+  };
+
+  const cancelContract = async (contract: ServiceContract) => {
+    if (!window.confirm(t('contracts.cancelConfirm', { number: contract.contractNumber }))) return;
+    try {
+      setError(null);
+      await contractsAPI.updateContract(contract.id, { status: 'CANCELLED' });
+      await load();
+    } catch (e: any) {
+      setError(e.message || t('error.failedToUpdate'));
+    }
+  };
+
+  const costTypeLabels = (costTypes: CostType[]) =>
+    costTypes.length ? costTypes.map(type => t(`contracts.cost.${type}`)).join(', ') : '-';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">{t('contracts.title')}</h1>
+          <p className="mt-2 text-sm text-gray-700">{t('contracts.subtitle')}</p>
+        </div>
+        <div className="flex gap-2">
+          {isManager && (
+            <button className="btn" onClick={() => setShowTypeForm(v => !v)}>{t('contracts.addType')}</button>
+          )}
+          {canSell && (
+            <button className="btn-primary" onClick={() => setShowForm(v => !v)}>{t('contracts.add')}</button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="text-red-600">{error}</div>}
+
+      {showTypeForm && (
+        <div className="card">
+          <div className="card-header">{t('contracts.types')}</div>
+          <form className="card-content grid grid-cols-1 md:grid-cols-2 gap-3" onSubmit={submitType}>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="type-name">{t('contracts.typeName')}</label>
+              <input id="type-name" name="name" className="input-field" value={typeForm.name} onChange={handleTypeChange} required />
+            </div>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="type-kind">{t('contracts.kind')}</label>
+              <select id="type-kind" name="kind" className="select-field" value={typeForm.kind} onChange={handleTypeChange}>
+                <option value="MAINTENANCE">{t('contracts.kind.MAINTENANCE')}</option>
+                <option value="EXTENDED_WARRANTY">{t('contracts.kind.EXTENDED_WARRANTY')}</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="type-durationMonths">{t('contracts.durationMonths')}</label>
+              <input id="type-durationMonths" type="number" min={1} name="durationMonths" className="input-field" value={typeForm.durationMonths} onChange={handleTypeChange} required />
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="type-visitsIncluded">{t('contracts.visitsIncluded')}</label>
+              <input id="type-visitsIncluded" type="number" min={0} name="visitsIncluded" className="input-field" value={typeForm.visitsIncluded} onChange={handleTypeChange} />
+              <p className="form-help">{t('contracts.visitsIncludedHelp')}</p>
+            </div>
+            <div className="form-group md:col-span-2">
+              <span className="form-label">{t('contracts.coveredCosts')}</span>
+              <div className="flex flex-wrap gap-4">
+                {COST_TYPES.map(costType => (
+                  <label key={costType} className="inline-flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={typeForm.coveredCostTypes.includes(costType)} onChange={() => toggleCostType(costType)} />
+                    {t(`contracts.cost.${costType}`)}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="form-group md:col-span-2">
+              <label className="form-label" htmlFor="type-description">{t('contracts.description')}</label>
+              <textarea id="type-description" name="description" className="textarea-field" rows={2} value={typeForm.description} onChange={handleTypeChange} />
+            </div>
+            <div className="md:col-span-2 flex gap-2">
+              <button className="btn-primary" type="submit" disabled={loading}>{loading ? t('requests.loading') : t('customers.save')}</button>
+              <button className="btn" type="button" onClick={() => setShowTypeForm(false)}>{t('customers.cancel')}</button>
+            </div>
+          </form>
+          <div className="card-content overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="th">{t('contracts.typeName')}</th>
+                  <th className="th">{t('contracts.kind')}</th>
+                  <th className="th">{t('contracts.coveredCosts')}</th>
+                  <th className="th">{t('contracts.durationMonths')}</th>
+                  <th className="th">{t('contracts.visitsIncluded')}</th>
+                  <th className="th"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {types.map(type => (
+                  <tr key={type.id} className={type.isActive ? '' : 'text-gray-400'}>
+                    <td className="td">{type.name}</td>
+                    <td className="td">{t(`contracts.kind.${type.kind}`)}</td>
+                    <td className="td">{costTypeLabels(type.coveredCostTypes)}</td>
+                    <td className="td">{type.durationMonths}</td>
+                    <td className="td">{type.visitsIncluded ?? t('contracts.unlimited')}</td>
+                    <td className="td">
+                      <button className="btn" onClick={() => toggleTypeActive(type)}>
+                        {type.isActive ? t('contracts.retire') : t('contracts.restore')}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="card">
+          <form className="card-content grid grid-cols-1 md:grid-cols-2 gap-3" onSubmit={submit}>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="contract-contractNumber">{t('contracts.number')}</label>
+              <input id="contract-contractNumber" name="contractNumber" className="input-field ltr-text" value={form.contractNumber} onChange={handleChange} required />
+            </div>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="contract-typeId">{t('contracts.type')}</label>
+              <select id="contract-typeId" name="typeId" className="select-field" value={form.typeId} onChange={handleChange} required>
+                <option value="" disabled>{t('contracts.typePlaceholder')}</option>
+                {types.filter(type => type.isActive).map(type => (
+                  <option key={type.id} value={type.id}>{type.name} — {t(`contracts.kind.${type.kind}`)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="contract-customerId">{t('units.customer')}</label>
+              <select id="contract-customerId" name="customerId" className="select-field" value={form.customerId} onChange={handleChange} required>
+                <option value="" disabled>{t('create.customerPlaceholder')}</option>
+                {customers.map(c => (
+                  <option key={c.id} value={c.id}>{c.name} — {c.phone}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="contract-scope">{t('contracts.scope')}</label>
+              <select id="contract-scope" name="scope" className="select-field" value={form.scope} onChange={handleChange}>
+                <option value="CUSTOMER">{t('contracts.scope.CUSTOMER')}</option>
+                <option value="UNITS">{t('contracts.scope.UNITS')}</option>
+              </select>
+            </div>
+            {form.scope === 'UNITS' && (
+              <div className="form-group md:col-span-2">
+                <span className="form-label required">{t('contracts.units')}</span>
+                {units.length === 0 ? (
+                  <p className="form-help">{t('units.empty')}</p>
+                ) : (
+                  <div className="flex flex-wrap gap-4">
+                    {units.map(unit => (
+                      <label key={unit.id} className="inline-flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={form.unitIds.includes(unit.id)} onChange={() => toggleUnit(unit.id)} />
+                        <span className="ltr-text">{unit.serialNumber}</span> — {unit.product.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="form-group">
+              <label className="form-label required" htmlFor="contract-startDate">{t('contracts.startDate')}</label>
+              <input id="contract-startDate" type="date" name="startDate" className="input-field" value={form.startDate} onChange={handleChange} required />
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="contract-endDate">{t('contracts.endDate')}</label>
+              <input id="contract-endDate" type="date" name="endDate" className="input-field" value={form.endDate} onChange={handleChange} />
+              <p className="form-help">{t('contracts.endDateHelp')}</p>
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="contract-price">{t('contracts.price')}</label>
+              <input id="contract-price" type="number" min={0} step="0.01" name="price" className="input-field" value={form.price} onChange={handleChange} />
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="contract-currency">{t('contracts.currency')}</label>
+              <select id="contract-currency" name="currency" className="select-field" value={form.currency} onChange={handleChange}>
+                <option value="SYP">SYP</option>
+                <option value="USD">USD</option>
+              </select>
+            </div>
+            <div className="form-group md:col-span-2">
+              <label className="form-label" htmlFor="contract-notes">{t('units.notes')}</label>
+              <textarea id="contract-notes" name="notes" className="textarea-field" rows={2} value={form.notes} onChange={handleChange} />
+            </div>
+            <div className="md:col-span-2 flex gap-2">
+              <button className="btn-primary" type="submit" disabled={loading}>{loading ? t('requests.loading') : t('customers.save')}</button>
+              <button className="btn" type="button" onClick={() => setShowForm(false)}>{t('customers.cancel')}</button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="card">
+        <div className="card-content">
+          <div className="mb-4">
+            <input
+              className="input-field"
+              placeholder={t('contracts.search')}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="th">{t('contracts.number')}</th>
+                  <th className="th">{t('contracts.type')}</th>
+                  <th className="th">{t('units.customer')}</th>
+                  <th className="th">{t('contracts.scope')}</th>
+                  <th className="th">{t('contracts.period')}</th>
+                  <th className="th">{t('contracts.coveredCosts')}</th>
+                  <th className="th">{t('contracts.visits')}</th>
+                  <th className="th">{t('contracts.status')}</th>
+                  <th className="th"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {loading ? (
+                  <tr><td colSpan={9} className="py-8 text-center text-gray-500">{t('requests.loading')}</td></tr>
+                ) : contracts.length === 0 ? (
+                  <tr><td colSpan={9} className="py-8 text-center text-gray-500">{t('contracts.empty')}</td></tr>
+                ) : (
+                  contracts.map(contract => (
+                    <tr key={contract.id} className="hover:bg-gray-50 align-top">
+                      <td className="td font-medium ltr-text whitespace-nowrap">{contract.contractNumber}</td>
+                      <td className="td">{contract.type.name}</td>
+                      <td className="td">{contract.customer.name}</td>
+                      <td className="td">
+                        {contract.scope === 'CUSTOMER'
+                          ? t('contracts.scope.CUSTOMER')
+                          : contract.units.map(({ unit }) => (
+                            <div key={unit.id}>
+                              <Link to={`/units/${unit.id}`} className="text-blue-600 hover:underline ltr-text">{unit.serialNumber}</Link>
+                            </div>
+                          ))}
+                      </td>
+                      <td className="td whitespace-nowrap">{formatDate(contract.startDate)} → {formatDate(contract.endDate)}</td>
+                      <td className="td">{costTypeLabels(contract.coveredCostTypes)}</td>
+                      <td className="td whitespace-nowrap">
+                        {contract._count?.requests ?? 0} / {contract.visitsIncluded ?? t('contracts.unlimited')}
+                      </td>
+                      <td className="td whitespace-nowrap">{t(`contracts.status.${contract.status}`)}</td>
+                      <td className="td">
+                        {canSell && contract.status === 'ACTIVE' && (
+                          <button className="btn" onClick={() => cancelContract(contract)}>{t('contracts.cancel')}</button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContractsPage;
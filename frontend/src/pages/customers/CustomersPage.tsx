@@ -1,9 +1,11 @@
 import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { customersAPI } from '../../services/api';
 import { Customer, UserRole } from '../../types';
 import { useI18n } from '../../contexts/I18nContext';
 import { useAuth } from '../../contexts/AuthContext';
-import { SYRIAN_CITIES } from '../../utils/currency';
+import { SYRIAN_CITIES, formatCurrency } from '../../utils/currency';
+import CustomerMaintenancePlans from '../../components/customers/CustomerMaintenancePlans';
 
 const CustomersPage: React.FC = () => {
   const { t } = useI18n();
@@ -13,8 +15,12 @@ const CustomersPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
 
   const [showForm, setShowForm] = useState(false);
+  const [planCustomer, setPlanCustomer] = useState<Customer | null>(null);
   const [form, setForm] = useState({ name: '', phone: '', email: '', address: '', city: '' });
 
+  // Outstanding balances come with the list for everyone but technicians
+  const showBalance = !hasRole([UserRole.TECHNICIAN]);
+
   const load = async () => {
     try {
       setLoading(true);
@@ -92,13 +98,15 @@ const CustomersPage: React.FC = () => {
                   <th className="th">{t('customers.email') || 'Email'}</th>
                   <th className="th">{t('customers.city') || 'City'}</th>
                   <th className="th">{t('customers.address') || 'Address'}</th>
+                  {showBalance && <th className="th">{t('customers.balance')}</th>}
+                  <th className="th">{t('customers.units')}</th>
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {loading ? (
-                  <tr><td colSpan={5} className="py-8 text-center text-gray-500">{t('customers.loading')}</td></tr>
+                  <tr><td colSpan={showBalance ? 7 : 6} className="py-8 text-center text-gray-500">{t('customers.loading')}</td></tr>
                 ) : customers.length === 0 ? (
-                  <tr><td colSpan={5} className="py-8 text-center text-gray-500">{t('customers.empty')}</td></tr>
+                  <tr><td colSpan={showBalance ? 7 : 6} className="py-8 text-center text-gray-500">{t('customers.empty')}</td></tr>
                 ) : (
                   customers.map(c => (
                     <tr key={c.id} className="hover:bg-gray-50">
@@ -107,6 +115,21 @@ const CustomersPage: React.FC = () => {
                       <td className="td ltr-text whitespace-nowrap">{c.email || '-'}</td>
                       <td className="td">{c.city || '-'}</td>
                       <td className="td">{c.address}</td>
+                      {showBalance && (
+                        <td className="td whitespace-nowrap">
+                          {Object.entries(c.outstanding || {}).filter(([, amount]) => amount > 0).map(([currency, amount]) => (
+                            <div key={currency} className="text-red-600">{formatCurrency(amount, currency as any)}</div>
+                          ))}
+                          {!Object.values(c.outstanding || {}).some(amount => amount > 0) && '-'}
+                        </td>
+                      )}
+                      <td className="td whitespace-nowrap">
+                        <Link to={`/units?customerId=${c.id}`} className="text-blue-600 hover:underline">{t('customers.viewUnits')}</Link>
+                        {' · '}
+                        <Link to={`/contracts?customerId=${c.id}`} className="text-blue-600 hover:underline">{t('customers.viewContracts')}</Link>
+                        {' · '}
+                        <button type="button" className="text-blue-600 hover:underline" onClick={() => setPlanCustomer(c)}>{t('customers.viewPlans')}</button>
+                      </td>
                     </tr>
                   ))
                 )}
@@ -115,6 +138,15 @@ const CustomersPage: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {planCustomer && (
+        <CustomerMaintenancePlans
+          key={planCustomer.id}
+          customerId={planCustomer.id}
+          customerName={planCustomer.name}
+          onClose={() => setPlanCustomer(null)}
+        />
+      )}
     </div>
   );
 };
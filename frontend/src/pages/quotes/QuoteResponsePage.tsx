@@ -0,0 +1,134 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { quotationsAPI } from '../../services/api';
+import { PublicQuotation, QuotationDecision } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { formatCurrency } from '../../utils/currency';
+
+// Customer view of a quotation, opened from the link sent by the service center
+const QuoteResponsePage: React.FC = () => {
+  const { t } = useI18n();
+  const { token } = useParams<{ token: string }>();
+  const [quotation, setQuotation] = useState<PublicQuotation | null>(null);
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!token) return;
+    try {
+      setLoading(true);
+      const data = await quotationsAPI.getByToken(token);
+      setQuotation(data.quotation);
+    } catch (e: any) {
+      setError(e.message || t('quotes.public.notFound'));
+    } finally {
+      setLoading(false);
+    }
+  }, [token, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const respond = async (decision: QuotationDecision) => {
+    if (!token) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const data = await quotationsAPI.respond(token, decision, note || undefined);
+      setQuotation(data.quotation);
+    } catch (e: any) {
+      setError(e.message || t('error.failedToUpdate'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="loading-spinner"></div>
+      </div>
+    );
+  }
+
+  if (!quotation) {
+    return <p className="text-center text-sm text-red-600">{error || t('quotes.public.notFound')}</p>;
+  }
+
+  const { request } = quotation;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">{t('quotes.public.title', { number: request.requestNumber })}</h3>
+        <p className="text-sm text-gray-600">
+          {request.customer.name}
+          {request.product && ` — ${request.product.name} ${request.product.model}`}
+        </p>
+        <p className="text-sm text-gray-500 mt-1">{request.issueDescription}</p>
+      </div>
+
+      <table className="min-w-full text-sm">
+        <tbody className="divide-y divide-gray-100">
+          {quotation.lines.map((line, index) => (
+            <tr key={index}>
+              <td className="py-2 text-gray-900">
+                {line.description}
+                {line.quantity !== 1 && <span className="text-gray-500 mr-2">× {line.quantity}</span>}
+              </td>
+              <td className="py-2 text-left text-gray-900">{formatCurrency(line.total, line.currency)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="border-t border-gray-200 pt-3 space-y-1 text-sm">
+        {quotation.totalSyp > 0 && (
+          <div className="flex justify-between font-semibold">
+            <span>{t('quotes.public.total')}</span>
+            <span>{formatCurrency(quotation.totalSyp, 'SYP')}</span>
+          </div>
+        )}
+        {quotation.totalUsd > 0 && (
+          <div className="flex justify-between font-semibold">
+            <span>{t('quotes.public.total')}</span>
+            <span>{formatCurrency(quotation.totalUsd, 'USD')}</span>
+          </div>
+        )}
+        <div className="text-gray-500">
+          {t('quotes.validUntil')}: {new Date(quotation.validUntil).toLocaleDateString()}
+        </div>
+        {quotation.notes && <div className="text-gray-600">{quotation.notes}</div>}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {quotation.status === 'PENDING' ? (
+        <div className="space-y-3">
+          <textarea
+            className="textarea-field"
+            rows={2}
+            placeholder={t('quotes.public.notePlaceholder')}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <button type="button" className="btn-primary flex-1" disabled={saving} onClick={() => respond('ACCEPTED')}>
+              {t('quotes.public.accept')}
+            </button>
+            <button type="button" className="btn flex-1" disabled={saving} onClick={() => respond('REJECTED')}>
+              {t('quotes.public.reject')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm font-medium text-gray-700">{t(`quotes.public.answered.${quotation.status}`)}</p>
+      )}
+    </div>
+  );
+};
+
+export default QuoteResponsePage;
@@ -1,31 +1,87 @@
-import React, { useEffect, useState } from 'react';
-import { dashboardAPI, exportAPI, downloadBlob } from '../../services/api';
+import React, { useCallback, useEffect, useState } from 'react';
+import { reportsAPI, exportAPI, departmentsAPI, usersAPI, downloadBlob } from '../../services/api';
 import { useI18n } from '../../contexts/I18nContext';
+import { CostSummaryReport, Department, PerformanceReport, ReportFilters, SLAComplianceReport, SLAStats, UnpaidInvoicesReport, User, UserRole } from '../../types';
+import { formatCurrency } from '../../utils/currency';
 import { DocumentArrowDownIcon } from '@heroicons/react/24/outline';
 
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
 const ReportsPage: React.FC = () => {
   const { t } = useI18n();
-  const [stats, setStats] = useState<any>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [exportLoading, setExportLoading] = useState<string | null>(null);
 
+  const [dateFrom, setDateFrom] = useState<string>(toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [dateTo, setDateTo] = useState<string>(toDateInput(new Date()));
+  const [departmentId, setDepartmentId] = useState<string>('');
+  const [technicianId, setTechnicianId] = useState<string>('');
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [technicians, setTechnicians] = useState<User[]>([]);
+
+  const [slaOverall, setSlaOverall] = useState<SLAStats | null>(null);
+  const [slaDepartments, setSlaDepartments] = useState<SLAComplianceReport[]>([]);
+  const [performance, setPerformance] = useState<PerformanceReport[]>([]);
+  const [costs, setCosts] = useState<CostSummaryReport | null>(null);
+  const [unpaid, setUnpaid] = useState<UnpaidInvoicesReport | null>(null);
+
   useEffect(() => {
-    const load = async () => {
+    const loadOptions = async () => {
       try {
-        setLoading(true);
-        setError(null);
-        const res = await dashboardAPI.getStats();
-        setStats(res);
-      } catch (e: any) {
-        setError(e.message || 'Failed to load stats');
-      } finally {
-        setLoading(false);
+        const [deptResp, techResp] = await Promise.all([
+          departmentsAPI.getDepartments(),
+          usersAPI.getUsers({ role: UserRole.TECHNICIAN }),
+        ]);
+        setDepartments(deptResp.data?.departments || []);
+        setTechnicians(techResp.data?.users || []);
+      } catch (e) {
+        console.error('Failed to load filter options:', e);
       }
     };
-    load();
+    loadOptions();
   }, []);
 
+  const buildFilters = useCallback((): ReportFilters => ({
+    dateFrom: dateFrom || undefined,
+    dateTo: dateTo || undefined,
+    departmentId: departmentId ? Number(departmentId) : undefined,
+    technicianId: technicianId ? Number(technicianId) : undefined,
+  }), [dateFrom, dateTo, departmentId, technicianId]);
+
+  // Reports reload only when the user applies the filters
+  const [appliedFilters, setAppliedFilters] = useState<ReportFilters>(buildFilters);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [techRes, slaRes, costRes, unpaidRes] = await Promise.all([
+        reportsAPI.getTechnicianPerformance(appliedFilters),
+        reportsAPI.getSLACompliance(appliedFilters),
+        reportsAPI.getCostSummary(appliedFilters),
+        reportsAPI.getUnpaidInvoices(appliedFilters),
+      ]);
+      setPerformance(techRes.technicians);
+      setSlaOverall(slaRes.overall);
+      setSlaDepartments(slaRes.departments);
+      setCosts(costRes.costs);
+      setUnpaid(unpaidRes.unpaidInvoices);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load reports');
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedFilters]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const filteredTechnicians = departmentId
+    ? technicians.filter(tech => tech.department?.id === Number(departmentId))
+    : technicians;
+
   const handleExport = async (exportType: string, filename: string) => {
     try {
       setExportLoading(exportType);
@@ -63,6 +119,8 @@ const ReportsPage: React.FC = () => {
       'IN_REPAIR': 'قيد_الإصلاح',
       'COMPLETED': 'مكتملة',
       'CLOSED': 'مغلقة',
+      'CANCELLED': 'ملغاة',
+      'REJECTED': 'مرفوضة',
     };
 
     try {
@@ -163,7 +221,7 @@ const ReportsPage: React.FC = () => {
           <div>
             <h3 className="text-md font-medium mb-3">{t('export.byStatus')}</h3>
             <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-              {['NEW', 'ASSIGNED', 'UNDER_INSPECTION', 'WAITING_PARTS', 'IN_REPAIR', 'COMPLETED', 'CLOSED'].map(status => (
+              {['NEW', 'ASSIGNED', 'UNDER_INSPECTION', 'WAITING_PARTS', 'IN_REPAIR', 'COMPLETED', 'CLOSED', 'CANCELLED', 'REJECTED'].map(status => (
                 <button
                   key={status}
                   onClick={() => handleStatusExport(status)}
@@ -211,39 +269,295 @@ const ReportsPage: React.FC = () => {
         </div>
       </div>
 
-      {/* Stats Dashboard */}
+      {/* Report Filters */}
+      <div className="card">
+        <div className="card-content">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="form-group">
+              <label className="form-label" htmlFor="reportDateFrom">{t('reports.filters.dateFrom')}</label>
+              <input id="reportDateFrom" type="date" className="input-field" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="reportDateTo">{t('reports.filters.dateTo')}</label>
+              <input id="reportDateTo" type="date" className="input-field" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="reportDepartment">{t('reports.filters.department')}</label>
+              <select id="reportDepartment" className="select-field" value={departmentId} onChange={(e) => { setDepartmentId(e.target.value); setTechnicianId(''); }}>
+                <option value="">{t('reports.filters.allDepartments')}</option>
+                {departments.map(dept => (
+                  <option key={dept.id} value={dept.id}>{dept.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="reportTechnician">{t('reports.filters.technician')}</label>
+              <select id="reportTechnician" className="select-field" value={technicianId} onChange={(e) => setTechnicianId(e.target.value)}>
+                <option value="">{t('reports.filters.allTechnicians')}</option>
+                {filteredTechnicians.map(tech => (
+                  <option key={tech.id} value={tech.id}>{tech.firstName} {tech.lastName}</option>
+                ))}
+              </select>
+            </div>
+            <button className="btn-primary" onClick={() => setAppliedFilters(buildFilters())} disabled={loading}>
+              {loading ? <div className="loading-spinner ml-2"></div> : null}
+              {t('reports.filters.apply')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* SLA Summary */}
       <div className="card">
         <div className="card-header">
-          <h2 className="text-lg font-medium">إحصائيات سريعة</h2>
+          <h2 className="text-lg font-medium">{t('reports.sla.title')}</h2>
         </div>
-        <div className="card-content">
+        <div className="card-content space-y-6">
           {loading ? (
             <div className="text-gray-500 py-8 text-center">{t('requests.loading')}</div>
-          ) : !stats ? (
-            <div className="text-gray-500 py-8 text-center">{t('requests.empty')}</div>
+          ) : !slaOverall ? (
+            <div className="text-gray-500 py-8 text-center">{t('reports.empty')}</div>
           ) : (
-            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
-              <div className="p-4 bg-gray-50 rounded">
-                <div className="text-gray-500">{t('reports.totalRequests') || 'Total Requests'}</div>
-                <div className="text-2xl font-semibold">{stats.totalRequests}</div>
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm">
+                <div className="p-4 bg-gray-50 rounded">
+                  <div className="text-gray-500">{t('reports.totalRequests')}</div>
+                  <div className="text-2xl font-semibold">{slaOverall.totalRequests}</div>
+                </div>
+                <div className="p-4 bg-gray-50 rounded">
+                  <div className="text-gray-500">{t('reports.overdueRequests')}</div>
+                  <div className="text-2xl font-semibold">{slaOverall.overdueRequests}</div>
+                </div>
+                <div className="p-4 bg-gray-50 rounded">
+                  <div className="text-gray-500">{t('reports.sla.onTime')}</div>
+                  <div className="text-2xl font-semibold">{slaOverall.completedOnTime}</div>
+                </div>
+                <div className="p-4 bg-gray-50 rounded">
+                  <div className="text-gray-500">{t('reports.onTimePercentage')}</div>
+                  <div className="text-2xl font-semibold">{Math.round(slaOverall.onTimePercentage * 100) / 100}%</div>
+                </div>
+                <div className="p-4 bg-gray-50 rounded">
+                  <div className="text-gray-500">{t('reports.avgResolutionHours')}</div>
+                  <div className="text-2xl font-semibold">{slaOverall.averageResolutionHours}</div>
+                </div>
+                <div className="p-4 bg-gray-50 rounded">
+                  <div className="text-gray-500">{t('reports.sla.netResolutionHours')}</div>
+                  <div className="text-2xl font-semibold">{slaOverall.averageNetResolutionHours}</div>
+                </div>
               </div>
-              <div className="p-4 bg-gray-50 rounded">
-                <div className="text-gray-500">{t('reports.overdueRequests') || 'Overdue Requests'}</div>
-                <div className="text-2xl font-semibold">{stats.overdueRequests}</div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.sla.department')}</th>
+                      <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.sla.total')}</th>
+                      <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.sla.onTime')}</th>
+                      <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.sla.late')}</th>
+                      <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.onTimePercentage')}</th>
+                      <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.sla.overduePercentage')}</th>
+                      <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.avgResolutionHours')}</th>
+                      <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.sla.netResolutionHours')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {slaDepartments.map(row => (
+                      <tr key={row.department.id}>
+                        <td className="px-4 py-2">{row.department.name}</td>
+                        <td className="px-4 py-2">{row.totalRequests}</td>
+                        <td className="px-4 py-2">{row.completedOnTime}</td>
+                        <td className="px-4 py-2">{row.completedOverdue}</td>
+                        <td className="px-4 py-2">{Math.round(row.onTimePercentage * 100) / 100}%</td>
+                        <td className="px-4 py-2">{Math.round(row.overduePercentage * 100) / 100}%</td>
+                        <td className="px-4 py-2">{row.averageResolutionHours}</td>
+                        <td className="px-4 py-2">{row.averageNetResolutionHours}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
-              <div className="p-4 bg-gray-50 rounded">
-                <div className="text-gray-500">{t('reports.completed') || 'Completed'}</div>
-                <div className="text-2xl font-semibold">{stats.completedRequests}</div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Technician Performance */}
+      <div className="card">
+        <div className="card-header">
+          <h2 className="text-lg font-medium">{t('reports.technicians.title')}</h2>
+        </div>
+        <div className="card-content">
+          {performance.length === 0 ? (
+            <div className="text-gray-500 py-8 text-center">{loading ? t('requests.loading') : t('reports.empty')}</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.technicians.name')}</th>
+                    <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.technicians.department')}</th>
+                    <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.technicians.completed')}</th>
+                    <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.technicians.avgResolution')}</th>
+                    <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.technicians.satisfaction')}</th>
+                    <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.technicians.overdue')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {performance.map(row => (
+                    <tr key={row.technician.id}>
+                      <td className="px-4 py-2">{row.technician.name}</td>
+                      <td className="px-4 py-2">{row.technician.department}</td>
+                      <td className="px-4 py-2">{row.completedRequests}</td>
+                      <td className="px-4 py-2">{row.averageResolutionTime}</td>
+                      <td className="px-4 py-2">{row.customerSatisfactionAverage || '-'}</td>
+                      <td className={`px-4 py-2 ${row.overdueRequests > 0 ? 'text-red-600 font-medium' : ''}`}>{row.overdueRequests}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Cost Summary */}
+      <div className="card">
+        <div className="card-header">
+          <h2 className="text-lg font-medium">{t('reports.costs.title')}</h2>
+        </div>
+        <div className="card-content space-y-6">
+          {!costs || Object.keys(costs.totalsByCurrency).length === 0 ? (
+            <div className="text-gray-500 py-8 text-center">{loading ? t('requests.loading') : t('reports.empty')}</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+                {Object.entries(costs.totalsByCurrency).map(([currency, total]) => (
+                  <div key={currency} className="p-4 bg-gray-50 rounded">
+                    <div className="text-gray-500">{t('reports.costs.totals')} ({currency})</div>
+                    <div className="text-2xl font-semibold">{formatCurrency(total, currency as any)}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <h3 className="text-md font-medium mb-3">{t('reports.costs.byType')}</h3>
+                  <div className="space-y-2 text-sm">
+                    {costs.byCostType.map(item => (
+                      <div key={`${item.costType}-${item.currency}`} className="flex justify-between p-2 bg-gray-50 rounded">
+                        <span>{item.costType} ({item.count})</span>
+                        <span className="font-medium">{formatCurrency(item.total, item.currency as any)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <h3 className="text-md font-medium mb-3">{t('reports.costs.parts')}</h3>
+                  <div className="space-y-2 text-sm">
+                    {costs.parts.map(item => (
+                      <div key={item.currency} className="flex justify-between p-2 bg-gray-50 rounded">
+                        <span>{t('reports.costs.quantity')}: {item.quantity}</span>
+                        <span className="font-medium">{formatCurrency(item.total, item.currency as any)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-md font-medium mb-3">{t('reports.costs.byDepartment')}</h3>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.sla.department')}</th>
+                        <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.costs.labor')}</th>
+                        <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.costs.partsTotal')}</th>
+                        <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.costs.other')}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {costs.byDepartment.map(row => (
+                        <tr key={`${row.departmentId}-${row.currency}`}>
+                          <td className="px-4 py-2">{row.departmentName}</td>
+                          <td className="px-4 py-2">{formatCurrency(row.laborTotal, row.currency as any)}</td>
+                          <td className="px-4 py-2">{formatCurrency(row.partsTotal, row.currency as any)}</td>
+                          <td className="px-4 py-2">{formatCurrency(row.otherTotal, row.currency as any)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Unpaid Invoices */}
+      <div className="card">
+        <div className="card-header">
+          <h2 className="text-lg font-medium">{t('reports.unpaid.title')}</h2>
+          <p className="text-sm text-gray-500">{t('reports.unpaid.subtitle')}</p>
+        </div>
+        <div className="card-content space-y-6">
+          {!unpaid || unpaid.invoices.length === 0 ? (
+            <div className="text-gray-500 py-8 text-center">{loading ? t('requests.loading') : t('reports.unpaid.empty')}</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+                {Object.entries(unpaid.totalsByCurrency).map(([currency, total]) => (
+                  <div key={currency} className="p-4 bg-gray-50 rounded">
+                    <div className="text-gray-500">{t('reports.unpaid.outstanding')} ({currency})</div>
+                    <div className="text-2xl font-semibold">{formatCurrency(total, currency as any)}</div>
+                    {unpaid.overdueByCurrency[currency] > 0 && (
+                      <div className="text-red-600">{t('reports.unpaid.overdue')}: {formatCurrency(unpaid.overdueByCurrency[currency], currency as any)}</div>
+                    )}
+                  </div>
+                ))}
               </div>
-              <div className="p-4 bg-gray-50 rounded">
-                <div className="text-gray-500">{t('reports.onTimePercentage') || 'On-time %'}</div>
-                <div className="text-2xl font-semibold">{Math.round((stats.onTimePercentage || 0) * 100) / 100}%</div>
+
+              <div>
+                <h3 className="text-md font-medium mb-3">{t('reports.unpaid.byCustomer')}</h3>
+                <div className="space-y-2 text-sm">
+                  {unpaid.byCustomer.map(item => (
+                    <div key={`${item.customerId}-${item.currency}`} className="flex justify-between p-2 bg-gray-50 rounded">
+                      <span>{item.customerName} ({item.invoiceCount})</span>
+                      <span className="font-medium">{formatCurrency(item.balance, item.currency as any)}</span>
+                    </div>
+                  ))}
+                </div>
               </div>
-              <div className="p-4 bg-gray-50 rounded">
-                <div className="text-gray-500">{t('reports.avgResolutionHours') || 'Avg. resolution (hrs)'}</div>
-                <div className="text-2xl font-semibold">{stats.averageResolutionHours}</div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.unpaid.invoice')}</th>
+                      <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.unpaid.request')}</th>
+                      <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.unpaid.customer')}</th>
+                      <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.unpaid.issuedAt')}</th>
+                      <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.unpaid.total')}</th>
+                      <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.unpaid.balance')}</th>
+                      <th className="px-4 py-2 text-start font-medium text-gray-500">{t('reports.unpaid.daysOverdue')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {unpaid.invoices.map(row => (
+                      <tr key={row.id}>
+                        <td className="px-4 py-2">{row.invoiceNumber}</td>
+                        <td className="px-4 py-2">{row.requestNumber}</td>
+                        <td className="px-4 py-2">{row.customerName}</td>
+                        <td className="px-4 py-2">{new Date(row.issuedAt).toLocaleDateString()}</td>
+                        <td className="px-4 py-2">{formatCurrency(row.total, row.currency as any)}</td>
+                        <td className="px-4 py-2 font-medium">{formatCurrency(row.balance, row.currency as any)}</td>
+                        <td className={`px-4 py-2 ${row.daysOverdue > 0 ? 'text-red-600 font-medium' : ''}`}>{row.daysOverdue || '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
-            </div>
+            </>
           )}
         </div>
       </div>
@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { customersAPI, productsAPI, requestsAPI } from '../../services/api';
-import { CreateRequestForm, Customer, Product, UserRole } from '../../types';
+import { customersAPI, productsAPI, requestsAPI, unitsAPI } from '../../services/api';
+import { ContractCoverage, CreateRequestForm, Customer, InstalledUnit, Product, UserRole, WarrantyResolution } from '../../types';
 import { useI18n } from '../../contexts/I18nContext';
 import { useAuth } from '../../contexts/AuthContext';
 // import { SYRIAN_CITIES } from '../../utils/currency';
@@ -14,13 +14,19 @@ const CreateRequestPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
+  const [units, setUnits] = useState<InstalledUnit[]>([]);
+  const [warranty, setWarranty] = useState<WarrantyResolution | null>(null);
+  const [coverage, setCoverage] = useState<ContractCoverage | null>(null);
 
   const [form, setForm] = useState<CreateRequestForm>({
     customerId: '',
+    installedUnitId: '',
     productId: undefined,
     issueDescription: '',
     executionMethod: 'ON_SITE',
-    warrantyStatus: 'UNDER_WARRANTY',
+    warrantyStatus: '',
+    warrantyOverrideReason: '',
+    extendedWarrantyMonths: '',
     purchaseDate: '',
     priority: 'NORMAL',
   });
@@ -44,11 +50,67 @@ const CreateRequestPage: React.FC = () => {
     load();
   }, [t]);
 
+  // Registered units of the selected customer
+  useEffect(() => {
+    setUnits([]);
+    if (!form.customerId) return;
+    unitsAPI.getUnits({ customerId: Number(form.customerId), limit: 100 })
+      .then(data => setUnits(data.units || []))
+      .catch(() => setUnits([]));
+  }, [form.customerId]);
+
+  // Compute the warranty and contract coverage whenever their inputs change
+  useEffect(() => {
+    if (!form.customerId && !form.installedUnitId && (!form.productId || !form.purchaseDate)) {
+      setWarranty(null);
+      setCoverage(null);
+      return;
+    }
+    let cancelled = false;
+    requestsAPI.previewWarranty({
+      customerId: form.customerId ? Number(form.customerId) : undefined,
+      installedUnitId: form.installedUnitId ? Number(form.installedUnitId) : undefined,
+      productId: form.productId ? Number(form.productId) : undefined,
+      purchaseDate: form.purchaseDate,
+      extendedWarrantyMonths: form.extendedWarrantyMonths ? Number(form.extendedWarrantyMonths) : undefined,
+    })
+      .then(resp => {
+        if (cancelled) return;
+        setWarranty(resp.warranty);
+        setCoverage(resp.coverage);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setWarranty(null);
+        setCoverage(null);
+      });
+    return () => { cancelled = true; };
+  }, [form.customerId, form.installedUnitId, form.productId, form.purchaseDate, form.extendedWarrantyMonths]);
+
+  // A status chosen against the computed one needs a reason
+  const isWarrantyOverride = !!form.warrantyStatus && !!warranty?.status && form.warrantyStatus !== warranty.status;
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setForm(prev => ({ ...prev, [name]: value } as any));
   };
 
+  // A unit brings its product and purchase date; another customer's units no longer apply
+  const handleCustomerChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const customerId = e.target.value;
+    setForm(prev => ({ ...prev, customerId, installedUnitId: '' }));
+  };
+
+  const handleUnitChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const unit = units.find(u => String(u.id) === e.target.value);
+    setForm(prev => ({
+      ...prev,
+      installedUnitId: e.target.value,
+      productId: unit ? unit.productId : prev.productId,
+      purchaseDate: unit?.purchaseDate ? unit.purchaseDate.slice(0, 10) : prev.purchaseDate,
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -71,8 +133,12 @@ const CreateRequestPage: React.FC = () => {
       const payload = {
         ...form,
         customerId: Number(form.customerId),
+        installedUnitId: form.installedUnitId ? Number(form.installedUnitId) : undefined,
         productId: form.productId ? Number(form.productId) : undefined,
         purchaseDate: form.purchaseDate || undefined,
+        warrantyStatus: form.warrantyStatus || undefined,
+        warrantyOverrideReason: isWarrantyOverride ? form.warrantyOverrideReason : undefined,
+        extendedWarrantyMonths: form.extendedWarrantyMonths ? Number(form.extendedWarrantyMonths) : undefined,
       };
       const resp = await requestsAPI.createRequest(payload as any);
       const newId = resp.request?.id;
@@ -108,7 +174,7 @@ const CreateRequestPage: React.FC = () => {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="form-group">
               <label className="form-label required" id="customerId-label" htmlFor="customerId">{t('create.customer')}</label>
-              <select id="customerId" name="customerId" value={form.customerId} onChange={handleChange} className="select-field" required aria-labelledby="customerId-label">
+              <select id="customerId" name="customerId" value={form.customerId} onChange={handleCustomerChange} className="select-field" required aria-labelledby="customerId-label">
                 <option value="" disabled>{t('create.customerPlaceholder')}</option>
                 {customers.map(c => (
                   <option key={c.id} value={c.id}>{c.name} — {c.phone}</option>
@@ -116,9 +182,20 @@ const CreateRequestPage: React.FC = () => {
               </select>
             </div>
 
+            <div className="form-group">
+              <label className="form-label" htmlFor="installedUnitId">{t('units.select')}</label>
+              <select id="installedUnitId" name="installedUnitId" value={form.installedUnitId} onChange={handleUnitChange} className="select-field" disabled={units.length === 0}>
+                <option value="">{t('units.selectNone')}</option>
+                {units.map(u => (
+                  <option key={u.id} value={u.id}>{u.serialNumber} — {u.product.name} {u.product.model}</option>
+                ))}
+              </select>
+              <p className="form-help">{t('units.selectHelp')}</p>
+            </div>
+
             <div className="form-group">
               <label className="form-label" id="productId-label" htmlFor="productId">{t('create.product')}</label>
-              <select id="productId" name="productId" value={form.productId || ''} onChange={handleChange} className="select-field" aria-labelledby="productId-label">
+              <select id="productId" name="productId" value={form.productId || ''} onChange={handleChange} className="select-field" aria-labelledby="productId-label" disabled={!!form.installedUnitId}>
                 <option value="">{t('create.productPlaceholder') || 'Select a product (optional)...'}</option>
                 {products.map(p => (
                   <option key={p.id} value={p.id}>{p.name} — {p.model}</option>
@@ -136,12 +213,62 @@ const CreateRequestPage: React.FC = () => {
 
             <div className="form-group">
               <label className="form-label required" id="warrantyStatus-label" htmlFor="warrantyStatus">{t('create.warrantyStatus') || 'حالة الكفالة'}</label>
-              <select id="warrantyStatus" name="warrantyStatus" value={form.warrantyStatus} onChange={handleChange} className="select-field" required aria-labelledby="warrantyStatus-label">
+              <select id="warrantyStatus" name="warrantyStatus" value={form.warrantyStatus} onChange={handleChange} className="select-field" required={!warranty?.status} aria-labelledby="warrantyStatus-label">
+                <option value="" disabled={!warranty?.status}>
+                  {t('create.warrantyComputed')}
+                  {warranty?.status ? ` — ${t(warranty.status === 'UNDER_WARRANTY' ? 'create.warrantyUnder' : 'create.warrantyOut')}` : ''}
+                </option>
                 <option value="UNDER_WARRANTY">{t('create.warrantyUnder') || 'Under warranty'}</option>
                 <option value="OUT_OF_WARRANTY">{t('create.warrantyOut') || 'Out of warranty'}</option>
               </select>
+              <p className="form-help">
+                {warranty?.expiresAt
+                  ? <>
+                      {t(warranty.status === 'UNDER_WARRANTY' ? 'create.warrantyExpiresOn' : 'create.warrantyExpiredOn', { date: warranty.expiresAt.slice(0, 10) })}
+                      {warranty.warrantyMonths !== null && ` · ${t('create.warrantyMonths', { months: warranty.warrantyMonths })}`}
+                    </>
+                  : t('create.warrantyUnknown')}
+              </p>
+              {coverage && (
+                <p className="form-help text-green-700">
+                  {t('create.contractCoverage', { number: coverage.contractNumber, type: coverage.typeName, date: coverage.endDate.slice(0, 10) })}
+                  {' · '}
+                  {coverage.visitsIncluded === null
+                    ? t('create.contractVisitsUnlimited')
+                    : t('create.contractVisitsLeft', { left: coverage.visitsIncluded - coverage.visitsUsed, total: coverage.visitsIncluded })}
+                </p>
+              )}
+            </div>
+
+            <div className="form-group">
+              <label className="form-label" htmlFor="extendedWarrantyMonths">{t('create.extendedWarrantyMonths')}</label>
+              <input
+                id="extendedWarrantyMonths"
+                type="number"
+                min={0}
+                name="extendedWarrantyMonths"
+                value={form.extendedWarrantyMonths}
+                onChange={handleChange}
+                className="input-field"
+              />
             </div>
 
+            {isWarrantyOverride && (
+              <div className="form-group md:col-span-2">
+                <label className="form-label required" htmlFor="warrantyOverrideReason">{t('create.warrantyOverrideReason')}</label>
+                <textarea
+                  id="warrantyOverrideReason"
+                  name="warrantyOverrideReason"
+                  value={form.warrantyOverrideReason}
+                  onChange={handleChange}
+                  className="textarea-field"
+                  rows={2}
+                  required
+                />
+                <p className="form-help">{t('create.warrantyOverrideHelp')}</p>
+              </div>
+            )}
+
             <div className="form-group">
               <label className="form-label required" id="priority-label" htmlFor="priority">{t('create.priority') || 'الأولوية'}</label>
               <select id="priority" name="priority" value={form.priority} onChange={handleChange} className="select-field" required aria-labelledby="priority-label">
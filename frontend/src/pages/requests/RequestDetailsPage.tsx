@@ -1,9 +1,18 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { Link, useNavigate, useParams } from 'react-router-dom';
-import { requestsAPI, usersAPI, statusAPI } from '../../services/api';
-import { AddCostForm, CloseRequestForm, CostType, Request, RequestStatus, REQUEST_STATUS_LABELS, CustomRequestStatus, UserRole } from '../../types';
+import { requestsAPI, techniciansAPI, statusAPI } from '../../services/api';
+import { AddCostForm, CloseRequestForm, CostType, Request, RequestStatus, REQUEST_STATUS_LABELS, FINISHED_STATUSES, CustomRequestStatus, StatusTransition, UserRole, RequestRealtimeEvent, TechnicianProfile } from '../../types';
 import { useI18n } from '../../contexts/I18nContext';
 import { useAuth } from '../../contexts/AuthContext';
+import { useRealtimeEvent } from '../../contexts/RealtimeContext';
+import RequestAttachments from '../../components/requests/RequestAttachments';
+import RequestVisits from '../../components/requests/RequestVisits';
+import RequestQuotations from '../../components/requests/RequestQuotations';
+import RequestInvoices from '../../components/requests/RequestInvoices';
+import RequestComments from '../../components/requests/RequestComments';
+import RequestEditForm from '../../components/requests/RequestEditForm';
+import RequestLifecycleActions from '../../components/requests/RequestLifecycleActions';
+import ActivityDiff, { getUpdatedField } from '../../components/requests/ActivityDiff';
 import { formatCurrency, getCurrentCurrency } from '../../utils/currency';
 import { useCurrency } from '../../hooks/useCurrency';
 
@@ -18,13 +27,17 @@ const RequestDetailsPage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [request, setRequest] = useState<Request | null>(null);
-  const [technicians, setTechnicians] = useState<any[]>([]);
+  const [technicians, setTechnicians] = useState<TechnicianProfile[]>([]);
+  const [showAllTechnicians, setShowAllTechnicians] = useState(false);
   const [customStatuses, setCustomStatuses] = useState<CustomRequestStatus[]>([]);
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
   const [assignId, setAssignId] = useState<string>('');
-  const [statusTo, setStatusTo] = useState<RequestStatus>('UNDER_INSPECTION');
+  const [assignReason, setAssignReason] = useState<string | null>(null);
+  const [statusTo, setStatusTo] = useState<string>('');
   const [statusComment, setStatusComment] = useState('');
   const [costForm, setCostForm] = useState<AddCostForm>({ description: '', amount: 0, costType: 'PARTS', currency: getCurrentCurrency() });
   const [closeForm, setCloseForm] = useState<CloseRequestForm>({ finalNotes: '', customerSatisfaction: undefined });
+  const [editing, setEditing] = useState(false);
 
 
   const reload = useCallback(async () => {
@@ -33,6 +46,9 @@ const RequestDetailsPage: React.FC = () => {
       setError(null);
       const data = await requestsAPI.getRequestById(requestId);
       setRequest(data.request);
+      const available = await requestsAPI.getAvailableTransitions(requestId);
+      setTransitions(available.transitions);
+      setStatusTo('');
     } catch (e: any) {
       setError(e.message || t('error.failedToLoad'));
     } finally {
@@ -45,20 +61,31 @@ const RequestDetailsPage: React.FC = () => {
     reload();
   }, [requestId, reload]);
 
+  // Reload when someone else changes the status, assignment or details of this request
+  const handleRequestEvent = (event: RequestRealtimeEvent) => {
+    if (event.requestId === requestId && event.updatedBy !== user?.id) {
+      reload();
+    }
+  };
+  useRealtimeEvent('request:status', handleRequestEvent);
+  useRealtimeEvent('request:assigned', handleRequestEvent);
+  useRealtimeEvent('request:updated', handleRequestEvent);
+
   useEffect(() => {
     const loadTechs = async () => {
+      if (!requestId) return;
       try {
         // For managers, load all technicians. For others, filter by department
-        const params: any = { role: UserRole.TECHNICIAN };
+        const params: { departmentId?: number; requestId: number } = { requestId };
         if (!hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER])) {
           params.departmentId = request?.department?.id;
         }
-        const resp = await usersAPI.getUsers(params);
-        setTechnicians(resp.data?.users || []);
+        const resp = await techniciansAPI.getTechnicians(params);
+        setTechnicians(resp.technicians);
       } catch {}
     };
     loadTechs();
-  }, [request?.department?.id, hasRole]);
+  }, [requestId, request?.department?.id, hasRole]);
 
   useEffect(() => {
     const loadCustomStatuses = async () => {
@@ -72,51 +99,32 @@ const RequestDetailsPage: React.FC = () => {
     loadCustomStatuses();
   }, []);
 
-  const statusOptions: RequestStatus[] = useMemo(() => {
-    if (!request?.status) return [];
-    
-    // If request is CLOSED, no status changes allowed
-    if (request.status === 'CLOSED') {
-      return [];
-    }
-    
-    // If request is COMPLETED, can only go to CLOSED
-    if (request.status === 'COMPLETED') {
-      return ['CLOSED'];
-    }
-    
-    // For all other statuses (not COMPLETED and not CLOSED), allow going back to previous statuses
-    // This includes: NEW, ASSIGNED, UNDER_INSPECTION, WAITING_PARTS, IN_REPAIR
-    const allAvailableStatuses: RequestStatus[] = [
-      'ASSIGNED', 
-      'UNDER_INSPECTION', 
-      'WAITING_PARTS', 
-      'IN_REPAIR', 
-      'COMPLETED'
-    ];
-    
-    // Return all available statuses except the current one (to avoid selecting same status)
-    return allAvailableStatuses.filter(status => status !== request.status);
-  }, [request?.status]);
-
-  // Combine standard and custom statuses for display
+  // Status options come from the workflow transitions the current user may perform
   const allStatusOptions = useMemo(() => {
-    const standardStatuses = statusOptions.map(status => ({
-      value: status,
-      label: REQUEST_STATUS_LABELS[status],
-      type: 'standard' as const
+    return transitions.map(transition => ({
+      value: transition.toStatus,
+      label: customStatuses.find(s => s.name === transition.toStatus)?.displayName
+        || REQUEST_STATUS_LABELS[transition.toStatus as RequestStatus]
+        || transition.toStatus,
     }));
-
-      const customStatusesList = customStatuses
-        .filter(status => status.isActive)
-        .map(status => ({
-          value: status.name,
-          label: status.displayName,
-          type: 'custom' as const
-        }));
-
-    return [...standardStatuses, ...customStatusesList];
-  }, [statusOptions, customStatuses]);
+  }, [transitions, customStatuses]);
+
+  const selectedTransition = transitions.find(transition => transition.toStatus === statusTo);
+  const commentRequired = !!selectedTransition?.requiresComment;
+  const canConfirmReceipt = transitions.some(transition => transition.toStatus === 'UNDER_INSPECTION');
+  const canCloseCompleted = transitions.some(transition => transition.toStatus === 'CLOSED');
+  const isFinished = !!request && FINISHED_STATUSES.includes(request.status);
+  const canEdit = request?.status === 'CLOSED'
+    ? hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER])
+    : hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR]);
+
+  // Only available technicians with a matching skill, unless none match or all are requested
+  const pickerTechnicians = useMemo(() => {
+    if (showAllTechnicians) return technicians;
+    const available = technicians.filter(ti => ti.availability.available);
+    const skilled = available.filter(ti => ti.matchesRequest);
+    return skilled.length > 0 ? skilled : available;
+  }, [technicians, showAllTechnicians]);
 
   const handleAssign = async () => {
     if (!assignId) return;
@@ -132,6 +140,19 @@ const RequestDetailsPage: React.FC = () => {
     }
   };
 
+  const handleAutoAssign = async () => {
+    try {
+      setLoading(true);
+      const result = await requestsAPI.autoAssignTechnician(requestId);
+      setAssignReason(result.reason);
+      await reload();
+    } catch (e: any) {
+      setError(e.message || t('error.failedToUpdate'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleStatus = async () => {
     try {
       setLoading(true);
@@ -208,8 +229,20 @@ const RequestDetailsPage: React.FC = () => {
           {/* Left: info */}
           <div className="lg:col-span-2 space-y-6">
             <div className="card">
-              <div className="card-header">{t('details.overview')}</div>
+              <div className="card-header flex items-center justify-between">
+                <span>{t('details.overview')}</span>
+                {canEdit && !editing && (
+                  <button type="button" className="btn" onClick={() => setEditing(true)}>{t('requestEdit.edit')}</button>
+                )}
+              </div>
               <div className="card-content space-y-2">
+                {editing ? (
+                  <RequestEditForm
+                    request={request}
+                    onCancel={() => setEditing(false)}
+                    onSaved={() => { setEditing(false); reload(); }}
+                  />
+                ) : (
                 <div className="grid grid-cols-2 gap-2 text-sm">
                   <div><span className="text-gray-500">{t('details.number')}:</span> {request.requestNumber}</div>
                   <div><span className="text-gray-500">{t('details.status')}:</span> 
@@ -218,14 +251,88 @@ const RequestDetailsPage: React.FC = () => {
                     </span>
                   </div>
                   <div><span className="text-gray-500">{t('details.customer')}:</span> {request.customer?.name}</div>
+                  {request.installedUnit && (
+                    <div>
+                      <span className="text-gray-500">{t('units.select')}:</span>{' '}
+                      <Link to={`/units/${request.installedUnit.id}`} className="text-blue-600 hover:underline ltr-text">{request.installedUnit.serialNumber}</Link>
+                    </div>
+                  )}
                   <div><span className="text-gray-500">{t('details.department')}:</span> {request.department?.name}</div>
                   <div><span className="text-gray-500">{t('details.technician')}:</span> {request.assignedTechnician ? `${request.assignedTechnician.firstName} ${request.assignedTechnician.lastName}` : '-'}</div>
                   <div><span className="text-gray-500">{t('details.priority')}:</span> {request.priority}</div>
+                  <div>
+                    <span className="text-gray-500">{t('details.warranty')}:</span>{' '}
+                    {t(request.warrantyStatus === 'UNDER_WARRANTY' ? 'create.warrantyUnder' : 'create.warrantyOut')}
+                    {request.warrantyExpiresAt && ` (${t('details.warrantyUntil', { date: request.warrantyExpiresAt.slice(0, 10) })})`}
+                    {request.warrantyOverridden && <span className="text-xs text-yellow-700"> ({t('details.warrantyOverridden')})</span>}
+                  </div>
+                  {request.contract && (
+                    <div>
+                      <span className="text-gray-500">{t('details.contract')}:</span>{' '}
+                      <Link to={`/contracts?customerId=${request.customerId}`} className="text-blue-600 hover:underline ltr-text">{request.contract.contractNumber}</Link>
+                      {' '}— {request.contract.type.name} ({t('details.warrantyUntil', { date: request.contract.endDate.slice(0, 10) })})
+                    </div>
+                  )}
+                  <div><span className="text-gray-500">{t('details.slaPolicy')}:</span> {request.slaPolicy?.name || t('details.slaDefault')}{request.slaTargetHours ? ` (${request.slaTargetHours} ${t('details.hours')})` : ''}</div>
+                  {request.slaRemainingHours !== undefined && request.slaRemainingHours !== null && (
+                    <div><span className="text-gray-500">{t('details.slaRemaining')}:</span> <span className={request.slaRemainingHours < 0 ? 'text-red-600' : ''}>{request.slaRemainingHours} {t('details.hours')}</span>{request.slaPausedAt && <span className="text-xs text-yellow-700"> ({t('details.slaPaused')})</span>}</div>
+                  )}
+                  {!!request.reopenCount && (
+                    <div><span className="text-gray-500">{t('lifecycle.reopenCount')}:</span> {request.reopenCount}</div>
+                  )}
                   <div className="col-span-2"><span className="text-gray-500">{t('details.issue')}:</span> {request.issueDescription}</div>
+                  {request.closureReason && (
+                    <div className="col-span-2"><span className="text-gray-500">{t(`lifecycle.closureReason.${request.status}`)}:</span> {request.closureReason}</div>
+                  )}
                 </div>
+                )}
               </div>
       </div>
 
+      {request.slaEscalations && request.slaEscalations.length > 0 && (
+        <div className="card border-orange-200">
+          <div className="card-header">{t('details.escalations')}</div>
+          <div className="card-content">
+            <div className="space-y-2">
+              {request.slaEscalations.map(escalation => (
+                <div key={escalation.id} className={`border-l-4 pl-4 py-2 rounded text-sm ${escalation.level >= 3 ? 'border-red-400 bg-red-50' : escalation.level === 2 ? 'border-orange-400 bg-orange-50' : 'border-yellow-300 bg-yellow-50'}`}>
+                  <div className="flex justify-between items-start">
+                    <div className="font-medium text-gray-900">
+                      {t(`details.escalations.level${Math.min(escalation.level, 3)}`)} ({escalation.thresholdPercent}%)
+                    </div>
+                    <div className="text-xs text-gray-500">{new Date(escalation.triggeredAt).toLocaleString()}</div>
+                  </div>
+                  <div className="text-xs text-gray-600">{t('details.escalations.notified', { count: escalation.notifiedCount })}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <RequestComments requestId={request.id} />
+
+      <RequestAttachments requestId={request.id} />
+
+      {request.warrantyStatus === 'OUT_OF_WARRANTY' && (
+        <RequestQuotations
+          requestId={request.id}
+          canManage={!isFinished && hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR])}
+        />
+      )}
+
+      {hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR]) && (
+        <RequestInvoices requestId={request.id} />
+      )}
+
+      {request.executionMethod === 'ON_SITE' && (
+        <RequestVisits
+          request={request}
+          technicians={technicians}
+          canManage={!isFinished && hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR])}
+        />
+      )}
+
       <div className="card">
               <div className="card-header">{t('details.activities')}</div>
         <div className="card-content">
@@ -251,14 +358,8 @@ const RequestDetailsPage: React.FC = () => {
                       <div key={activity.id} className="border-l-4 border-blue-200 pl-4 py-2 rounded">
                         <div className="flex justify-between items-start">
                           <div className="flex-1">
-                            <p className="text-sm text-gray-900 font-medium">{activity.description}</p>
-                            {activity.oldValue && activity.newValue && (
-                              <p className="text-xs text-gray-600 mt-1">
-                                <span className="text-red-600">من: {activity.oldValue}</span>
-                                {' → '}
-                                <span className="text-green-600">إلى: {activity.newValue}</span>
-                              </p>
-                            )}
+                            <p className="text-sm text-gray-900 font-medium">{getUpdatedField(activity) ? t('requestEdit.activity') : activity.description}</p>
+                            <ActivityDiff activity={activity} />
                             <div className="flex items-center gap-2 text-xs text-gray-500 mt-2">
                               <span className="font-medium">{activity.user.firstName} {activity.user.lastName}</span>
                               <span>({activity.user.role?.replace('_', ' ') || 'Unknown Role'})</span>
@@ -283,7 +384,7 @@ const RequestDetailsPage: React.FC = () => {
               </div>
               <div className="card-content space-y-6">
                 {/* Only show cost form if request is not completed or if user is manager */}
-                {(!['COMPLETED', 'CLOSED'].includes(request?.status || '') || hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER])) && (
+                {(!isFinished || hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER])) && (
                   <form className="space-y-4" onSubmit={handleAddCost}>
                   <div className="form-group">
                     <label className="form-label required">وصف التكلفة</label>
@@ -323,6 +424,11 @@ const RequestDetailsPage: React.FC = () => {
                               <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                                 {c.costType === 'PARTS' ? 'قطع غيار' : c.costType === 'LABOR' ? 'عمالة' : c.costType === 'TRANSPORTATION' ? 'مواصلات' : 'أخرى'}
                               </span>
+                              {!c.isBillable && (
+                                <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 ml-2">
+                                  {t('details.costs.covered')}
+                                </span>
+                              )}
                             </p>
                           </div>
                           <div className="text-left">
@@ -356,21 +462,44 @@ const RequestDetailsPage: React.FC = () => {
                     <label className="form-label" htmlFor="assignTechnician">الفني المختص</label>
                     <select id="assignTechnician" className="select-field" value={assignId} onChange={(e)=>setAssignId(e.target.value)}>
                       <option value="">اختر الفني...</option>
-                      {technicians.map(ti => (
-                        <option key={ti.id} value={ti.id}>{ti.firstName} {ti.lastName}</option>
+                      {pickerTechnicians.map(ti => (
+                        <option key={ti.id} value={ti.id}>
+                          {ti.firstName} {ti.lastName}
+                          {ti.matchesRequest ? ` ✓ ${t('assign.skilled')}` : ''}
+                          {!ti.availability.available ? ` – ${t('assign.unavailable')}` : ''}
+                          {` (${ti.openRequests ?? 0} ${t('assign.openRequests')})`}
+                        </option>
                       ))}
                     </select>
                   </div>
+                  {pickerTechnicians.length < technicians.length || showAllTechnicians ? (
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={showAllTechnicians}
+                        onChange={(e) => setShowAllTechnicians(e.target.checked)}
+                      />
+                      {t('assign.showAll')} ({technicians.length})
+                    </label>
+                  ) : null}
                   <button className="btn-primary w-full" disabled={!assignId || loading} onClick={handleAssign}>
                     {loading ? <div className="loading-spinner ml-2"></div> : null}
                     {t('details.assign') || 'تعيين الفني'}
                   </button>
+                  {(request?.status === 'NEW' || request?.status === 'ASSIGNED') && (
+                    <>
+                      <button className="btn w-full" disabled={loading} onClick={handleAutoAssign} title={t('autoAssign.hint')}>
+                        {t('autoAssign.button')}
+                      </button>
+                      {assignReason && <p className="text-sm text-gray-600">{assignReason}</p>}
+                    </>
+                  )}
                 </div>
               </div>
             )}
 
             {/* Technician-specific: Mark as Received */}
-            {user?.role === UserRole.TECHNICIAN && request?.status === 'ASSIGNED' && (
+            {user?.role === UserRole.TECHNICIAN && request?.status === 'ASSIGNED' && canConfirmReceipt && (
               <div className="card border-blue-200">
                 <div className="card-header bg-gradient-to-r from-blue-50 to-indigo-50">
                   <h3 className="text-blue-800">تأكيد استلام الطلب</h3>
@@ -389,10 +518,11 @@ const RequestDetailsPage: React.FC = () => {
               </div>
             )}
 
-            {/* Only show status update if request is not closed, not completed, has available status options, and user has permission */}
-            {/* Only admin and supervisor roles can change status */}
-            {request?.status !== 'CLOSED' && request?.status !== 'COMPLETED' && allStatusOptions.length > 0 && 
-             (hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR])) && (
+            <RequestLifecycleActions request={request} onChanged={reload} />
+
+            {/* Only show status update if request is not closed, not completed and the workflow allows this user a transition */}
+            {!isFinished && allStatusOptions.length > 0 &&
+             !(user?.role === UserRole.TECHNICIAN && request?.status === 'ASSIGNED' && canConfirmReceipt) && (
               <div className="card">
                 <div className="card-header">
                   <h3>{t('details.updateStatus') || 'تحديث الحالة'}</h3>
@@ -401,7 +531,7 @@ const RequestDetailsPage: React.FC = () => {
                 <div className="card-content space-y-4">
                   <div className="form-group">
                     <label className="form-label" htmlFor="statusTo">الحالة الجديدة</label>
-                    <select id="statusTo" className="select-field" value={statusTo} onChange={(e)=>setStatusTo(e.target.value as RequestStatus)}>
+                    <select id="statusTo" className="select-field" value={statusTo} onChange={(e)=>setStatusTo(e.target.value)}>
                       <option value="">اختر الحالة الجديدة...</option>
                       {allStatusOptions.map(option => (
                         <option key={option.value} value={option.value}>
@@ -411,10 +541,10 @@ const RequestDetailsPage: React.FC = () => {
                     </select>
                   </div>
                   <div className="form-group">
-                    <label className="form-label">ملاحظات (اختياري)</label>
+                    <label className="form-label">{commentRequired ? 'ملاحظات (مطلوبة)' : 'ملاحظات (اختياري)'}</label>
                     <textarea className="textarea-field" rows={3} placeholder="أضف أي ملاحظات حول تحديث الحالة..." value={statusComment} onChange={(e)=>setStatusComment(e.target.value)} />
                   </div>
-                  <button className="btn-primary w-full" onClick={handleStatus} disabled={loading || !statusTo}>
+                  <button className="btn-primary w-full" onClick={handleStatus} disabled={loading || !statusTo || (commentRequired && !statusComment.trim())}>
                     {loading ? <div className="loading-spinner ml-2"></div> : null}
                     {t('common.update') || 'تحديث الحالة'}
                   </button>
@@ -422,17 +552,17 @@ const RequestDetailsPage: React.FC = () => {
               </div>
             )}
 
-            {/* Show message for technicians that they cannot change status */}
-            {request?.status !== 'CLOSED' && request?.status !== 'COMPLETED' && 
-             user?.role === UserRole.TECHNICIAN && (
+            {/* Show message for technicians when the workflow gives them no transition */}
+            {!isFinished &&
+             user?.role === UserRole.TECHNICIAN && allStatusOptions.length === 0 && (
               <div className="card border-yellow-200 bg-yellow-50">
                 <div className="card-header">
                   <h3 className="text-yellow-800">تحديث الحالة</h3>
-                  <p className="text-yellow-700">يمكن للمديرين والمشرفين فقط تغيير حالة الطلب</p>
+                  <p className="text-yellow-700">لا توجد تغييرات حالة متاحة لك في هذه المرحلة</p>
                 </div>
                 <div className="card-content">
                   <p className="text-sm text-yellow-700">
-                    كفني، يمكنك إضافة التكاليف والملاحظات، ولكن لا يمكنك تغيير حالة الطلب. 
+                    كفني، يمكنك إضافة التكاليف والملاحظات، ولكن سير العمل الحالي لا يسمح لك بتغيير حالة الطلب من هذه المرحلة.
                     يرجى التواصل مع المشرف أو المدير لتغيير الحالة.
                   </p>
                 </div>
@@ -449,14 +579,14 @@ const RequestDetailsPage: React.FC = () => {
                 <div className="card-content">
                   <p className="text-sm text-gray-600">
                     هذا الطلب في حالة "مغلق" ولا يمكن تغيير حالته إلى أي حالة أخرى. 
-                    الطلبات المغلقة تعتبر مكتملة نهائياً.
+                    الطلبات المغلقة تعتبر مكتملة نهائياً، ويمكن للمديرين فقط إعادة فتحها مع ذكر السبب.
                   </p>
                 </div>
               </div>
             )}
 
             {/* Show status update for COMPLETED requests for admins and supervisors */}
-            {request.status === 'COMPLETED' && hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR]) && (
+            {request.status === 'COMPLETED' && canCloseCompleted && (
               <div className="card border-green-200">
                 <div className="card-header bg-gradient-to-r from-green-50 to-emerald-50">
                   <h3 className="text-green-800">تحديث حالة الطلب</h3>
@@ -465,16 +595,16 @@ const RequestDetailsPage: React.FC = () => {
                 <div className="card-content space-y-4">
                   <div className="form-group">
                     <label className="form-label" htmlFor="statusToCompleted">الحالة الجديدة</label>
-                    <select id="statusToCompleted" className="select-field" value={statusTo} onChange={(e)=>setStatusTo(e.target.value as RequestStatus)}>
+                    <select id="statusToCompleted" className="select-field" value={statusTo} onChange={(e)=>setStatusTo(e.target.value)}>
                       <option value="">اختر الحالة الجديدة...</option>
                       <option value="CLOSED">مغلق</option>
                     </select>
                   </div>
                   <div className="form-group">
-                    <label className="form-label">ملاحظات (اختياري)</label>
+                    <label className="form-label">{commentRequired ? 'ملاحظات (مطلوبة)' : 'ملاحظات (اختياري)'}</label>
                     <textarea className="textarea-field" rows={3} placeholder="أضف أي ملاحظات حول إغلاق الطلب..." value={statusComment} onChange={(e)=>setStatusComment(e.target.value)} />
                   </div>
-                  <button className="btn-primary w-full bg-green-600 hover:bg-green-700" onClick={handleStatus} disabled={loading || !statusTo}>
+                  <button className="btn-primary w-full bg-green-600 hover:bg-green-700" onClick={handleStatus} disabled={loading || !statusTo || (commentRequired && !statusComment.trim())}>
                     {loading ? <div className="loading-spinner ml-2"></div> : null}
                     إغلاق الطلب نهائياً
                   </button>
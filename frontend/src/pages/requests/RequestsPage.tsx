@@ -1,9 +1,10 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Link, useSearchParams, useNavigate } from 'react-router-dom';
 import { requestsAPI, departmentsAPI, usersAPI, statusAPI } from '../../services/api';
-import { Request, RequestFilters, RequestPriority, RequestStatus, REQUEST_STATUS_LABELS, PRIORITY_LABELS, WarrantyStatus, Department, User, CustomRequestStatus, UserRole } from '../../types';
+import { Request, RequestFilters, RequestPriority, RequestStatus, REQUEST_STATUS_LABELS, PRIORITY_LABELS, WarrantyStatus, Department, User, CustomRequestStatus, UserRole, RequestRealtimeEvent } from '../../types';
 import { useI18n } from '../../contexts/I18nContext';
 import { useAuth } from '../../contexts/AuthContext';
+import { useRealtimeEvent } from '../../contexts/RealtimeContext';
 
 const RequestsPage: React.FC = () => {
   const { t, lang } = useI18n();
@@ -103,6 +104,20 @@ const RequestsPage: React.FC = () => {
     load();
   }, [params, t]);
 
+  // Apply pushed status and assignment changes to the rows on this page
+  const applyRequestEvent = (event: RequestRealtimeEvent) => {
+    setRequests(prev => prev.map(r => r.id === event.requestId
+      ? {
+          ...r,
+          status: event.status,
+          ...(event.technician ? { assignedTechnician: event.technician, assignedTechnicianId: event.technician.id } : {}),
+        }
+      : r
+    ));
+  };
+  useRealtimeEvent('request:status', applyRequestEvent);
+  useRealtimeEvent('request:assigned', applyRequestEvent);
+
   // Helper function to get status display info
   const getStatusDisplay = (status: RequestStatus) => {
     const customStatus = customStatuses.find(s => s.name === status);
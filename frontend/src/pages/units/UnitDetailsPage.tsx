@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { contractsAPI, unitsAPI } from '../../services/api';
+import { InstalledUnit, REQUEST_STATUS_LABELS, ServiceContract, UnitRepair } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+
+const formatDate = (value?: string | null) => (value ? value.slice(0, 10) : '-');
+
+// Costs and parts of a repair, totalled per currency
+const getRepairTotals = (repair: UnitRepair): string => {
+  const totals: Record<string, number> = {};
+  for (const cost of repair.costs) {
+    totals[cost.currency] = (totals[cost.currency] || 0) + cost.amount;
+  }
+  for (const part of repair.requestParts) {
+    totals[part.sparePart.currency] = (totals[part.sparePart.currency] || 0) + part.totalCost;
+  }
+  const entries = Object.entries(totals);
+  return entries.length ? entries.map(([currency, total]) => `${total.toLocaleString()} ${currency}`).join(' + ') : '-';
+};
+
+const UnitDetailsPage: React.FC = () => {
+  const { t } = useI18n();
+  const { id } = useParams();
+  const [unit, setUnit] = useState<InstalledUnit | null>(null);
+  const [contracts, setContracts] = useState<ServiceContract[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const [data, contractData] = await Promise.all([
+          unitsAPI.getUnit(Number(id)),
+          contractsAPI.getContracts({ unitId: Number(id), status: 'ACTIVE' }),
+        ]);
+        setUnit(data.unit);
+        setContracts(contractData.contracts || []);
+      } catch (e: any) {
+        setError(e.message || t('error.failedToLoad'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [id, t]);
+
+  const repairs = unit?.requests || [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">{t('units.detailsTitle')}</h1>
+          <p className="mt-2 text-sm text-gray-700 ltr-text">{unit?.serialNumber}</p>
+        </div>
+        <Link to="/units" className="btn">{t('details.back')}</Link>
+      </div>
+
+      {error && <div className="text-red-600">{error}</div>}
+
+      {!unit ? (
+        <div className="card"><div className="card-content py-12 text-center text-gray-500">{loading ? t('requests.loading') : t('units.empty')}</div></div>
+      ) : (
+        <>
+          <div className="card">
+            <div className="card-header">{t('details.overview')}</div>
+            <div className="card-content grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+              <div><span className="text-gray-500">{t('units.product')}:</span> {unit.product.name} — {unit.product.model} ({unit.product.category})</div>
+              <div>
+                <span className="text-gray-500">{t('units.customer')}:</span>{' '}
+                <Link to={`/units?customerId=${unit.customer.id}`} className="text-blue-600 hover:underline">{unit.customer.name}</Link>
+                {' '}<span className="ltr-text">{unit.customer.phone}</span>
+              </div>
+              <div><span className="text-gray-500">{t('units.address')}:</span> {unit.address || unit.customer.address}</div>
+              <div><span className="text-gray-500">{t('units.purchaseDate')}:</span> {formatDate(unit.purchaseDate)}</div>
+              <div><span className="text-gray-500">{t('units.installedAt')}:</span> {formatDate(unit.installedAt)}</div>
+              <div>
+                <span className="text-gray-500">{t('units.installedBy')}:</span>{' '}
+                {unit.installedBy ? `${unit.installedBy.firstName} ${unit.installedBy.lastName}` : unit.installerName || '-'}
+              </div>
+              <div>
+                <span className="text-gray-500">{t('details.warranty')}:</span>{' '}
+                {unit.warranty?.status
+                  ? t(unit.warranty.status === 'UNDER_WARRANTY' ? 'create.warrantyUnder' : 'create.warrantyOut')
+                  : '-'}
+                {unit.warranty?.expiresAt && ` (${t('details.warrantyUntil', { date: unit.warranty.expiresAt.slice(0, 10) })})`}
+              </div>
+              <div className="md:col-span-2">
+                <span className="text-gray-500">{t('units.contracts')}:</span>{' '}
+                {contracts.length === 0
+                  ? '-'
+                  : contracts.map(contract => `${contract.contractNumber} — ${contract.type.name} (${t('details.warrantyUntil', { date: formatDate(contract.endDate) })})`).join(', ')}
+              </div>
+              {unit.notes && <div className="md:col-span-2"><span className="text-gray-500">{t('units.notes')}:</span> {unit.notes}</div>}
+            </div>
+          </div>
+
+          <div className="card">
+            <div className="card-header">{t('units.history')} ({repairs.length})</div>
+            <div className="card-content overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="th">{t('details.number')}</th>
+                    <th className="th">{t('units.openedAt')}</th>
+                    <th className="th">{t('details.status')}</th>
+                    <th className="th">{t('create.issue')}</th>
+                    <th className="th">{t('details.technician')}</th>
+                    <th className="th">{t('units.parts')}</th>
+                    <th className="th">{t('units.cost')}</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {repairs.length === 0 ? (
+                    <tr><td colSpan={7} className="py-8 text-center text-gray-500">{t('units.noRepairs')}</td></tr>
+                  ) : (
+                    repairs.map(repair => (
+                      <tr key={repair.id} className="hover:bg-gray-50 align-top">
+                        <td className="td whitespace-nowrap">
+                          <Link to={`/requests/${repair.id}`} className="text-blue-600 hover:underline">{repair.requestNumber}</Link>
+                        </td>
+                        <td className="td whitespace-nowrap">{formatDate(repair.createdAt)}</td>
+                        <td className="td whitespace-nowrap">{REQUEST_STATUS_LABELS[repair.status] || repair.status}</td>
+                        <td className="td">
+                          <div>{repair.issueDescription}</div>
+                          {repair.finalNotes && <div className="text-xs text-gray-500 mt-1">{repair.finalNotes}</div>}
+                        </td>
+                        <td className="td whitespace-nowrap">
+                          {repair.assignedTechnician ? `${repair.assignedTechnician.firstName} ${repair.assignedTechnician.lastName}` : '-'}
+                        </td>
+                        <td className="td">
+                          {repair.requestParts.length === 0
+                            ? '-'
+                            : repair.requestParts.map(part => `${part.sparePart.name} ×${part.quantityUsed}`).join(', ')}
+                        </td>
+                        <td className="td whitespace-nowrap">{getRepairTotals(repair)}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UnitDetailsPage;
@@ -0,0 +1,235 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { customersAPI, productsAPI, unitsAPI, usersAPI } from '../../services/api';
+import { Customer, InstalledUnit, InstalledUnitForm, Product, User, UserRole } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+
+const EMPTY_FORM: InstalledUnitForm = {
+  productId: '',
+  customerId: '',
+  serialNumber: '',
+  purchaseDate: '',
+  installedAt: '',
+  installedById: '',
+  installerName: '',
+  warrantyExpiresAt: '',
+  address: '',
+  notes: '',
+};
+
+const UnitsPage: React.FC = () => {
+  const { t } = useI18n();
+  const { hasRole } = useAuth();
+  const [searchParams] = useSearchParams();
+  const customerFilter = searchParams.get('customerId');
+  const canRegister = hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER, UserRole.DEPARTMENT_MANAGER, UserRole.SECTION_SUPERVISOR]);
+
+  const [units, setUnits] = useState<InstalledUnit[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<InstalledUnitForm>({ ...EMPTY_FORM, customerId: customerFilter || '' });
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [technicians, setTechnicians] = useState<User[]>([]);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await unitsAPI.getUnits({
+        limit: 100,
+        search: search.trim() || undefined,
+        customerId: customerFilter ? Number(customerFilter) : undefined,
+      });
+      setUnits(data.units || []);
+    } catch (e: any) {
+      setError(e.message || t('error.failedToLoad'));
+    } finally {
+      setLoading(false);
+    }
+  }, [search, customerFilter, t]);
+
+  useEffect(() => { load(); }, [load]);
+
+  useEffect(() => {
+    if (!showForm || customers.length > 0) return;
+    const loadOptions = async () => {
+      try {
+        const [custResp, prodResp, techResp] = await Promise.all([
+          customersAPI.getCustomers({ limit: 100 }),
+          productsAPI.getProducts({ limit: 100 }),
+          usersAPI.getUsers({ role: UserRole.TECHNICIAN }),
+        ]);
+        setCustomers(custResp.data?.customers || []);
+        setProducts(prodResp.data?.products || []);
+        setTechnicians(techResp.data?.users || []);
+      } catch (e: any) {
+        setError(e.message || t('error.failedToLoad'));
+      }
+    };
+    loadOptions();
+  }, [showForm, customers.length, t]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setLoading(true);
+      setError(null);
+      await unitsAPI.createUnit({
+        ...form,
+        productId: Number(form.productId),
+        customerId: Number(form.customerId),
+        installedById: form.installedById ? Number(form.installedById) : undefined,
+      });
+      setShowForm(false);
+      setForm({ ...EMPTY_FORM, customerId: customerFilter || '' });
+      await load();
+    } catch (e: any) {
+      setError(e.message || t('error.failedToCreate'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">{t('units.title')}</h1>
+          <p className="mt-2 text-sm text-gray-700">{t('units.subtitle')}</p>
+        </div>
+        {canRegister && (
+          <button className="btn-primary" onClick={() => setShowForm(v => !v)}>
+            {t('units.add')}
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="card">
+          <form className="card-content grid grid-cols-1 md:grid-cols-2 gap-3" onSubmit={submit}>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="unit-customerId">{t('units.customer')}</label>
+              <select id="unit-customerId" name="customerId" className="select-field" value={form.customerId} onChange={handleChange} required>
+                <option value="" disabled>{t('create.customerPlaceholder')}</option>
+                {customers.map(c => (
+                  <option key={c.id} value={c.id}>{c.name} — {c.phone}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="unit-productId">{t('units.product')}</label>
+              <select id="unit-productId" name="productId" className="select-field" value={form.productId} onChange={handleChange} required>
+                <option value="" disabled>{t('units.productPlaceholder')}</option>
+                {products.map(p => (
+                  <option key={p.id} value={p.id}>{p.name} — {p.model}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label required" htmlFor="unit-serialNumber">{t('units.serialNumber')}</label>
+              <input id="unit-serialNumber" name="serialNumber" className="input-field ltr-text" value={form.serialNumber} onChange={handleChange} required />
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="unit-purchaseDate">{t('units.purchaseDate')}</label>
+              <input id="unit-purchaseDate" type="date" name="purchaseDate" className="input-field" value={form.purchaseDate} onChange={handleChange} />
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="unit-installedAt">{t('units.installedAt')}</label>
+              <input id="unit-installedAt" type="date" name="installedAt" className="input-field" value={form.installedAt} onChange={handleChange} />
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="unit-warrantyExpiresAt">{t('units.warrantyExpiresAt')}</label>
+              <input id="unit-warrantyExpiresAt" type="date" name="warrantyExpiresAt" className="input-field" value={form.warrantyExpiresAt} onChange={handleChange} />
+              <p className="form-help">{t('units.warrantyExpiresAtHelp')}</p>
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="unit-installedById">{t('units.installedBy')}</label>
+              <select id="unit-installedById" name="installedById" className="select-field" value={form.installedById} onChange={handleChange}>
+                <option value="">{t('units.installedByNone')}</option>
+                {technicians.map(tech => (
+                  <option key={tech.id} value={tech.id}>{tech.firstName} {tech.lastName}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="unit-installerName">{t('units.installerName')}</label>
+              <input id="unit-installerName" name="installerName" className="input-field" value={form.installerName} onChange={handleChange} />
+            </div>
+            <div className="form-group md:col-span-2">
+              <label className="form-label" htmlFor="unit-address">{t('units.address')}</label>
+              <input id="unit-address" name="address" className="input-field" value={form.address} onChange={handleChange} placeholder={t('units.addressHelp')} />
+            </div>
+            <div className="form-group md:col-span-2">
+              <label className="form-label" htmlFor="unit-notes">{t('units.notes')}</label>
+              <textarea id="unit-notes" name="notes" className="textarea-field" rows={2} value={form.notes} onChange={handleChange} />
+            </div>
+            <div className="md:col-span-2 flex gap-2">
+              <button className="btn-primary" type="submit" disabled={loading}>{loading ? t('requests.loading') : t('customers.save')}</button>
+              <button className="btn" type="button" onClick={() => setShowForm(false)}>{t('customers.cancel')}</button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="card">
+        <div className="card-content">
+          {error && <div className="text-red-600 mb-3">{error}</div>}
+          <div className="mb-4">
+            <input
+              className="input-field"
+              placeholder={t('units.search')}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="th">{t('units.serialNumber')}</th>
+                  <th className="th">{t('units.product')}</th>
+                  <th className="th">{t('units.customer')}</th>
+                  <th className="th">{t('units.purchaseDate')}</th>
+                  <th className="th">{t('units.warrantyExpiresAt')}</th>
+                  <th className="th">{t('units.repairs')}</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {loading ? (
+                  <tr><td colSpan={6} className="py-8 text-center text-gray-500">{t('requests.loading')}</td></tr>
+                ) : units.length === 0 ? (
+                  <tr><td colSpan={6} className="py-8 text-center text-gray-500">{t('units.empty')}</td></tr>
+                ) : (
+                  units.map(unit => (
+                    <tr key={unit.id} className="hover:bg-gray-50">
+                      <td className="td font-medium ltr-text whitespace-nowrap">
+                        <Link to={`/units/${unit.id}`} className="text-blue-600 hover:underline">{unit.serialNumber}</Link>
+                      </td>
+                      <td className="td">{unit.product.name} — {unit.product.model}</td>
+                      <td className="td">{unit.customer.name}</td>
+                      <td className="td whitespace-nowrap">{unit.purchaseDate ? unit.purchaseDate.slice(0, 10) : '-'}</td>
+                      <td className="td whitespace-nowrap">{unit.warrantyExpiresAt ? unit.warrantyExpiresAt.slice(0, 10) : '-'}</td>
+                      <td className="td">{unit._count?.requests ?? 0}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnitsPage;
@@ -3,6 +3,7 @@ import { Link } from 'react-router-dom';
 import { usersAPI, departmentsAPI } from '../../services/api';
 import { User, Department, UserRole } from '../../types';
 import { useI18n } from '../../contexts/I18nContext';
+import TechnicianProfilePanel from '../../components/users/TechnicianProfilePanel';
 
 const UsersPage: React.FC = () => {
   const { t } = useI18n();
@@ -15,6 +16,7 @@ const UsersPage: React.FC = () => {
     departmentId: '',
     isActive: 'true',
   });
+  const [profileTechnicianId, setProfileTechnicianId] = useState<number | null>(null);
 
   const roleLabels: Record<UserRole, string> = {
   COMPANY_MANAGER: t('users.roles.companyManager'),
@@ -233,6 +235,14 @@ const UsersPage: React.FC = () => {
                           </span>
                         </td>
                         <td className="px-6 py-4">
+                          {user.role === UserRole.TECHNICIAN && (
+                            <button
+                              onClick={() => setProfileTechnicianId(user.id)}
+                              className="text-sm px-3 py-1 rounded text-blue-600 hover:bg-blue-50"
+                            >
+                              {t('technicianProfile.open')}
+                            </button>
+                          )}
                           <button
                             onClick={() => handleToggleActive(user.id, user.isActive)}
                             className={`text-sm px-3 py-1 rounded ${
@@ -284,6 +294,14 @@ const UsersPage: React.FC = () => {
                           <span className="text-gray-500">{user.department.name}</span>
                         )}
                       </div>
+                      {user.role === UserRole.TECHNICIAN && (
+                        <button
+                          onClick={() => setProfileTechnicianId(user.id)}
+                          className="text-sm px-3 py-1 rounded text-blue-600 hover:bg-blue-50"
+                        >
+                          {t('technicianProfile.open')}
+                        </button>
+                      )}
                       <button
                         onClick={() => handleToggleActive(user.id, user.isActive)}
                         className={`text-sm px-3 py-1 rounded ${
@@ -302,6 +320,14 @@ const UsersPage: React.FC = () => {
           )}
         </div>
       </div>
+
+      {profileTechnicianId && (
+        <TechnicianProfilePanel
+          key={profileTechnicianId}
+          technicianId={profileTechnicianId}
+          onClose={() => setProfileTechnicianId(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,237 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import { visitsAPI, departmentsAPI, usersAPI } from '../../services/api';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useRealtimeEvent } from '../../contexts/RealtimeContext';
+import { Department, RequestVisit, User, UserRole } from '../../types';
+
+type CalendarView = 'day' | 'week';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Weeks start on Saturday
+const startOfWeek = (date: Date) => {
+  const day = startOfDay(date);
+  return new Date(day.getTime() - ((day.getDay() + 1) % 7) * DAY_MS);
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const formatTime = (value: string) => new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const STATUS_STYLES: Record<string, string> = {
+  SCHEDULED: 'bg-blue-50 border-blue-200 text-blue-900',
+  COMPLETED: 'bg-green-50 border-green-200 text-green-900',
+  CANCELLED: 'bg-gray-50 border-gray-200 text-gray-500 line-through',
+};
+
+const VisitCalendarPage: React.FC = () => {
+  const { t } = useI18n();
+  const { hasRole } = useAuth();
+  const isTechnician = hasRole([UserRole.TECHNICIAN]);
+  const canPickDepartment = hasRole([UserRole.COMPANY_MANAGER, UserRole.DEPUTY_MANAGER]);
+
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState<Date>(startOfDay(new Date()));
+  const [departmentId, setDepartmentId] = useState<string>('');
+  const [technicianId, setTechnicianId] = useState<string>('');
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [technicians, setTechnicians] = useState<User[]>([]);
+  const [visits, setVisits] = useState<RequestVisit[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rangeStart = useMemo(() => (view === 'day' ? anchor : startOfWeek(anchor)), [view, anchor]);
+  const days = useMemo(
+    () => Array.from({ length: view === 'day' ? 1 : 7 }, (_, index) => addDays(rangeStart, index)),
+    [view, rangeStart]
+  );
+
+  useEffect(() => {
+    if (isTechnician) return;
+    const loadOptions = async () => {
+      try {
+        const [deptResp, techResp] = await Promise.all([
+          departmentsAPI.getDepartments(),
+          usersAPI.getUsers({ role: UserRole.TECHNICIAN }),
+        ]);
+        setDepartments(deptResp.data?.departments || []);
+        setTechnicians(techResp.data?.users || []);
+      } catch (e) {
+        console.error('Failed to load filter options:', e);
+      }
+    };
+    loadOptions();
+  }, [isTechnician]);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await visitsAPI.getCalendar({
+        from: days[0].toISOString(),
+        to: addDays(days[days.length - 1], 1).toISOString(),
+        technicianId: technicianId ? Number(technicianId) : undefined,
+        departmentId: departmentId ? Number(departmentId) : undefined,
+      });
+      setVisits(data.visits);
+    } catch (e: any) {
+      setError(e.message || t('error.failedToLoad'));
+    } finally {
+      setLoading(false);
+    }
+  }, [days, technicianId, departmentId, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useRealtimeEvent('request:updated', (event) => {
+    if (event.visitId) load();
+  });
+
+  const filteredTechnicians = departmentId
+    ? technicians.filter(tech => tech.department?.id === Number(departmentId))
+    : technicians;
+
+  // One row per technician with a visit in the range
+  const rows = useMemo(() => {
+    const byTechnician = new Map<number, { name: string; visits: RequestVisit[] }>();
+    visits.forEach(visit => {
+      const row = byTechnician.get(visit.technicianId)
+        || { name: `${visit.technician.firstName} ${visit.technician.lastName}`, visits: [] };
+      row.visits.push(visit);
+      byTechnician.set(visit.technicianId, row);
+    });
+    return Array.from(byTechnician.entries())
+      .map(([id, row]) => ({ id, ...row }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [visits]);
+
+  const visitsOn = (row: { visits: RequestVisit[] }, day: Date) => {
+    const next = addDays(day, 1);
+    return row.visits.filter(visit => new Date(visit.scheduledStart) < next && new Date(visit.scheduledEnd) > day);
+  };
+
+  const step = view === 'day' ? 1 : 7;
+  const title = view === 'day'
+    ? anchor.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })
+    : `${days[0].toLocaleDateString()} – ${days[days.length - 1].toLocaleDateString()}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="card">
+        <div className="card-header">
+          <h1>{t('visits.calendar.title')}</h1>
+          <p>{t('visits.calendar.subtitle')}</p>
+        </div>
+        <div className="card-content">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex rounded-lg border border-gray-200 overflow-hidden">
+              {(['day', 'week'] as CalendarView[]).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  className={`px-4 py-2 text-sm ${view === option ? 'bg-primary-600 text-white' : 'bg-white text-gray-700'}`}
+                  onClick={() => setView(option)}
+                >
+                  {t(`visits.calendar.${option}`)}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <button type="button" className="btn" onClick={() => setAnchor(addDays(anchor, -step))} title={t('visits.calendar.previous')}>
+                <ChevronRightIcon className="h-4 w-4" />
+              </button>
+              <button type="button" className="btn" onClick={() => setAnchor(startOfDay(new Date()))}>
+                {t('visits.calendar.today')}
+              </button>
+              <button type="button" className="btn" onClick={() => setAnchor(addDays(anchor, step))} title={t('visits.calendar.next')}>
+                <ChevronLeftIcon className="h-4 w-4" />
+              </button>
+            </div>
+            {canPickDepartment && (
+              <select
+                className="input-field w-auto"
+                value={departmentId}
+                onChange={(e) => {
+                  setDepartmentId(e.target.value);
+                  setTechnicianId('');
+                }}
+              >
+                <option value="">{t('visits.calendar.allDepartments')}</option>
+                {departments.map(department => (
+                  <option key={department.id} value={department.id}>{department.name}</option>
+                ))}
+              </select>
+            )}
+            {!isTechnician && (
+              <select className="input-field w-auto" value={technicianId} onChange={(e) => setTechnicianId(e.target.value)}>
+                <option value="">{t('visits.calendar.allTechnicians')}</option>
+                {filteredTechnicians.map(technician => (
+                  <option key={technician.id} value={technician.id}>{technician.firstName} {technician.lastName}</option>
+                ))}
+              </select>
+            )}
+            <span className="text-sm font-medium text-gray-700">{title}</span>
+          </div>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      <div className="card">
+        <div className="card-content overflow-x-auto">
+          {loading ? (
+            <p className="text-sm text-gray-500">{t('common.loading')}</p>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('visits.calendar.empty')}</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-600">
+                  <th className="py-2 px-2 text-right w-40">{t('visits.technician')}</th>
+                  {days.map(day => (
+                    <th key={day.getTime()} className="py-2 px-2 text-right">
+                      {day.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'numeric' })}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows.map(row => (
+                  <tr key={row.id} className="align-top">
+                    <td className="py-2 px-2 font-medium text-gray-900">{row.name}</td>
+                    {days.map(day => (
+                      <td key={day.getTime()} className="py-2 px-2 space-y-2">
+                        {visitsOn(row, day).map(visit => (
+                          <Link
+                            key={visit.id}
+                            to={`/requests/${visit.request.id}`}
+                            className={`block rounded border px-2 py-1 ${STATUS_STYLES[visit.status]}`}
+                          >
+                            <div className="font-medium">{formatTime(visit.scheduledStart)} - {formatTime(visit.scheduledEnd)}</div>
+                            <div>{visit.request.requestNumber} · {visit.request.customer.name}</div>
+                            {view === 'day' && (
+                              <div className="text-xs opacity-80">{visit.address}{visit.city ? `، ${visit.city}` : ''}</div>
+                            )}
+                          </Link>
+                        ))}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VisitCalendarPage;
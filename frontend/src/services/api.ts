@@ -1,11 +1,13 @@
 import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
-import { ApiResponse, LoginResponse, Request, DashboardStats, CustomRequestStatus } from '../types';
+import { ApiResponse, LoginResponse, Request, DashboardStats, CustomRequestStatus, StatusTransition, ReportFilters, PerformanceReport, SLAStats, SLAComplianceReport, CostSummaryReport, NotificationSettings, RequestAttachment, AttachmentCategory, RequestComment, RequestCommentRevision, CommentVisibility, UpdateRequestForm, TechnicianProfile, TechnicianSkill, TechnicianSkillForm, TechnicianLeave, RequestVisit, VisitForm, VisitOutcome, WarrantyResolution, InstalledUnit, InstalledUnitForm, ContractCoverage, ContractType, ContractTypeForm, ServiceContract, ServiceContractForm, MaintenancePlan, MaintenancePlanForm, Quotation, QuotationDecision, QuotationForm, PublicQuotation, Invoice, InvoiceForm, InvoiceStatus, BillableLine, PaymentForm, UnpaidInvoicesReport } from '../types';
+
+export const API_BASE_URL = (typeof window !== 'undefined' && window.location.hostname === 'localhost')
+  ? 'http://127.0.0.1:3001/api'
+  : '/api';
 
 // Create axios instance
 const api: AxiosInstance = axios.create({
-  baseURL: (typeof window !== 'undefined' && window.location.hostname === 'localhost')
-    ? 'http://127.0.0.1:3001/api'
-    : '/api',
+  baseURL: API_BASE_URL,
   headers: {
     'Content-Type': 'application/json',
   },
@@ -117,6 +119,24 @@ export const authAPI = {
     }
   },
 
+  getNotificationPreferences: async (): Promise<NotificationSettings> => {
+    try {
+      const response = await api.get<ApiResponse<NotificationSettings>>('/auth/notification-preferences');
+      return handleResponse<NotificationSettings>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  updateNotificationPreferences: async (data: Partial<NotificationSettings>): Promise<NotificationSettings> => {
+    try {
+      const response = await api.put<ApiResponse<NotificationSettings>>('/auth/notification-preferences', data);
+      return handleResponse<NotificationSettings>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
   verifyToken: async () => {
     try {
       const response = await api.get('/auth/verify');
@@ -198,6 +218,127 @@ export const requestsAPI = {
     }
   },
 
+  previewWarranty: async (params: { customerId?: number; installedUnitId?: number; productId?: number; purchaseDate?: string; extendedWarrantyMonths?: number }): Promise<{ warranty: WarrantyResolution; coverage: ContractCoverage | null }> => {
+    try {
+      const response = await api.get('/requests/warranty-preview', { params });
+      return handleResponse<{ warranty: WarrantyResolution; coverage: ContractCoverage | null }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  updateRequest: async (id: number, data: UpdateRequestForm): Promise<{ request: Request }> => {
+    try {
+      const response = await api.put(`/requests/${id}`, data);
+      return handleResponse<{ request: Request }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  getAvailableTransitions: async (id: number): Promise<{ transitions: StatusTransition[] }> => {
+    try {
+      const response = await api.get(`/requests/${id}/transitions`);
+      return handleResponse<{ transitions: StatusTransition[] }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  getAttachments: async (id: number): Promise<{ attachments: RequestAttachment[] }> => {
+    try {
+      const response = await api.get(`/requests/${id}/attachments`);
+      return handleResponse<{ attachments: RequestAttachment[] }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  uploadAttachments: async (
+    id: number,
+    files: File[],
+    data: { category: AttachmentCategory; description?: string }
+  ): Promise<{ attachments: RequestAttachment[] }> => {
+    try {
+      const formData = new FormData();
+      files.forEach(file => formData.append('files', file));
+      formData.append('category', data.category);
+      if (data.description) formData.append('description', data.description);
+
+      const response = await api.post(`/requests/${id}/attachments`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      return handleResponse<{ attachments: RequestAttachment[] }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  // Files are fetched as blobs because <img>/<a> cannot send the Authorization header
+  getAttachmentFile: async (id: number, attachmentId: number, thumbnail = false): Promise<Blob> => {
+    try {
+      const path = thumbnail ? 'thumbnail' : 'download';
+      const response = await api.get(`/requests/${id}/attachments/${attachmentId}/${path}`, { responseType: 'blob' });
+      return response.data as Blob;
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  deleteAttachment: async (id: number, attachmentId: number) => {
+    try {
+      const response = await api.delete(`/requests/${id}/attachments/${attachmentId}`);
+      return handleResponse(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  getComments: async (id: number): Promise<{ comments: RequestComment[] }> => {
+    try {
+      const response = await api.get(`/requests/${id}/comments`);
+      return handleResponse<{ comments: RequestComment[] }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  addComment: async (id: number, data: { body: string; visibility: CommentVisibility; parentId?: number }): Promise<{ comment: RequestComment }> => {
+    try {
+      const response = await api.post(`/requests/${id}/comments`, data);
+      return handleResponse<{ comment: RequestComment }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  updateComment: async (id: number, commentId: number, data: { body: string; visibility?: CommentVisibility }): Promise<{ comment: RequestComment }> => {
+    try {
+      const response = await api.put(`/requests/${id}/comments/${commentId}`, data);
+      return handleResponse<{ comment: RequestComment }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  deleteComment: async (id: number, commentId: number) => {
+    try {
+      const response = await api.delete(`/requests/${id}/comments/${commentId}`);
+      return handleResponse(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  getCommentHistory: async (id: number, commentId: number): Promise<{ revisions: RequestCommentRevision[] }> => {
+    try {
+      const response = await api.get(`/requests/${id}/comments/${commentId}/history`);
+      return handleResponse<{ revisions: RequestCommentRevision[] }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
   updateRequestStatus: async (id: number, data: any) => {
     try {
       const response = await api.put(`/requests/${id}/status`, data);
@@ -233,6 +374,42 @@ export const requestsAPI = {
       handleError(error);
     }
   },
+
+  cancelRequest: async (id: number, reason: string): Promise<{ request: Request }> => {
+    try {
+      const response = await api.put(`/requests/${id}/cancel`, { reason });
+      return handleResponse<{ request: Request }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  rejectRequest: async (id: number, reason: string): Promise<{ request: Request }> => {
+    try {
+      const response = await api.put(`/requests/${id}/reject`, { reason });
+      return handleResponse<{ request: Request }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  reopenRequest: async (id: number, reason: string): Promise<{ request: Request }> => {
+    try {
+      const response = await api.put(`/requests/${id}/reopen`, { reason });
+      return handleResponse<{ request: Request }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  autoAssignTechnician: async (id: number): Promise<{ request: Request; reason: string }> => {
+    try {
+      const response = await api.post(`/requests/${id}/auto-assign`);
+      return handleResponse<{ request: Request; reason: string }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
 };
 
 // Status API
@@ -283,6 +460,45 @@ export const statusAPI = {
   },
 };
 
+// Workflow API
+export const workflowAPI = {
+  getTransitions: async (params?: { fromStatus?: string; includeInactive?: boolean }): Promise<{ transitions: StatusTransition[] }> => {
+    try {
+      const response = await api.get('/workflow/transitions', { params });
+      return handleResponse<{ transitions: StatusTransition[] }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  createTransition: async (data: Partial<StatusTransition>) => {
+    try {
+      const response = await api.post('/workflow/transitions', data);
+      return handleResponse(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  updateTransition: async (id: number, data: Partial<StatusTransition>) => {
+    try {
+      const response = await api.put(`/workflow/transitions/${id}`, data);
+      return handleResponse(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  deleteTransition: async (id: number) => {
+    try {
+      const response = await api.delete(`/workflow/transitions/${id}`);
+      return handleResponse(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+};
+
 // Customers API
 export const customersAPI = {
   getCustomers: async (params?: any) => {
@@ -335,6 +551,15 @@ export const departmentsAPI = {
       handleError(error);
     }
   },
+
+  setQuotePolicy: async (id: number, requiresQuoteApproval: boolean) => {
+    try {
+      const response = await api.put(`/departments/${id}/quote-policy`, { requiresQuoteApproval });
+      return handleResponse(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
 };
 
 // Users API
@@ -376,6 +601,395 @@ export const usersAPI = {
   },
 };
 
+// Technician skills, availability and leaves API
+export const techniciansAPI = {
+  getTechnicians: async (params?: { departmentId?: number; requestId?: number }): Promise<{ technicians: TechnicianProfile[] }> => {
+    try {
+      const response = await api.get('/technicians', { params });
+      return handleResponse<{ technicians: TechnicianProfile[] }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  getProfile: async (id: number): Promise<{ technician: TechnicianProfile }> => {
+    try {
+      const response = await api.get(`/technicians/${id}`);
+      return handleResponse<{ technician: TechnicianProfile }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  updateAvailability: async (id: number, isAvailable: boolean) => {
+    try {
+      const response = await api.put(`/technicians/${id}/availability`, { isAvailable });
+      return handleResponse<{ isAvailable: boolean }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  addSkill: async (id: number, data: TechnicianSkillForm): Promise<{ skill: TechnicianSkill }> => {
+    try {
+      const response = await api.post(`/technicians/${id}/skills`, data);
+      return handleResponse<{ skill: TechnicianSkill }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  updateSkill: async (id: number, skillId: number, data: TechnicianSkillForm): Promise<{ skill: TechnicianSkill }> => {
+    try {
+      const response = await api.put(`/technicians/${id}/skills/${skillId}`, data);
+      return handleResponse<{ skill: TechnicianSkill }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  deleteSkill: async (id: number, skillId: number) => {
+    try {
+      const response = await api.delete(`/technicians/${id}/skills/${skillId}`);
+      return handleResponse(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  addLeave: async (id: number, data: { startDate: string; endDate: string; reason?: string }): Promise<{ leave: TechnicianLeave }> => {
+    try {
+      const response = await api.post(`/technicians/${id}/leaves`, data);
+      return handleResponse<{ leave: TechnicianLeave }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  deleteLeave: async (id: number, leaveId: number) => {
+    try {
+      const response = await api.delete(`/technicians/${id}/leaves/${leaveId}`);
+      return handleResponse(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+};
+
+// Installed units API
+export const unitsAPI = {
+  getUnits: async (params?: { search?: string; customerId?: number; productId?: number; limit?: number }): Promise<{ units: InstalledUnit[] }> => {
+    try {
+      const response = await api.get('/units', { params });
+      return handleResponse<{ units: InstalledUnit[] }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  getUnit: async (id: number): Promise<{ unit: InstalledUnit }> => {
+    try {
+      const response = await api.get(`/units/${id}`);
+      return handleResponse<{ unit: InstalledUnit }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  createUnit: async (data: InstalledUnitForm): Promise<{ unit: InstalledUnit }> => {
+    try {
+      const response = await api.post('/units', data);
+      return handleResponse<{ unit: InstalledUnit }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  updateUnit: async (id: number, data: Partial<InstalledUnitForm>): Promise<{ unit: InstalledUnit }> => {
+    try {
+      const response = await api.put(`/units/${id}`, data);
+      return handleResponse<{ unit: InstalledUnit }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+};
+
+// On-site visits API
+export const contractsAPI = {
+  getTypes: async (includeInactive = false): Promise<{ types: ContractType[] }> => {
+    try {
+      const response = await api.get('/contracts/types', { params: includeInactive ? { includeInactive: 'true' } : undefined });
+      return handleResponse<{ types: ContractType[] }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  createType: async (data: ContractTypeForm): Promise<{ type: ContractType }> => {
+    try {
+      const response = await api.post('/contracts/types', data);
+      return handleResponse<{ type: ContractType }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  updateType: async (id: number, data: Partial<ContractTypeForm> & { isActive?: boolean }): Promise<{ type: ContractType }> => {
+    try {
+      const response = await api.put(`/contracts/types/${id}`, data);
+      return handleResponse<{ type: ContractType }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  getContracts: async (params?: { customerId?: number; unitId?: number; status?: string; search?: string; limit?: number }): Promise<{ contracts: ServiceContract[] }> => {
+    try {
+      const response = await api.get('/contracts', { params });
+      return handleResponse<{ contracts: ServiceContract[] }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  getContract: async (id: number): Promise<{ contract: ServiceContract }> => {
+    try {
+      const response = await api.get(`/contracts/${id}`);
+      return handleResponse<{ contract: ServiceContract }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  createContract: async (data: ServiceContractForm): Promise<{ contract: ServiceContract }> => {
+    try {
+      const response = await api.post('/contracts', data);
+      return handleResponse<{ contract: ServiceContract }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  updateContract: async (id: number, data: Partial<ServiceContractForm> & { status?: string }): Promise<{ contract: ServiceContract }> => {
+    try {
+      const response = await api.put(`/contracts/${id}`, data);
+      return handleResponse<{ contract: ServiceContract }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+};
+
+export const maintenanceAPI = {
+  getPlans: async (params?: { customerId?: number; unitId?: number; includeInactive?: boolean }): Promise<{ plans: MaintenancePlan[] }> => {
+    try {
+      const response = await api.get('/maintenance-plans', {
+        params: { ...params, includeInactive: params?.includeInactive ? 'true' : undefined },
+      });
+      return handleResponse<{ plans: MaintenancePlan[] }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  getPlan: async (id: number): Promise<{ plan: MaintenancePlan }> => {
+    try {
+      const response = await api.get(`/maintenance-plans/${id}`);
+      return handleResponse<{ plan: MaintenancePlan }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  createPlan: async (data: MaintenancePlanForm): Promise<{ plan: MaintenancePlan }> => {
+    try {
+      const response = await api.post('/maintenance-plans', data);
+      return handleResponse<{ plan: MaintenancePlan }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  updatePlan: async (id: number, data: Partial<MaintenancePlanForm> & { isActive?: boolean }): Promise<{ plan: MaintenancePlan }> => {
+    try {
+      const response = await api.put(`/maintenance-plans/${id}`, data);
+      return handleResponse<{ plan: MaintenancePlan }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  skipNextVisit: async (id: number, reason: string): Promise<{ plan: MaintenancePlan }> => {
+    try {
+      const response = await api.post(`/maintenance-plans/${id}/skip`, { reason });
+      return handleResponse<{ plan: MaintenancePlan }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+};
+
+export const quotationsAPI = {
+  getRequestQuotations: async (requestId: number): Promise<{ quotations: Quotation[] }> => {
+    try {
+      const response = await api.get(`/requests/${requestId}/quotes`);
+      return handleResponse<{ quotations: Quotation[] }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  createQuotation: async (requestId: number, data: QuotationForm): Promise<{ quotation: Quotation }> => {
+    try {
+      const response = await api.post(`/requests/${requestId}/quotes`, data);
+      return handleResponse<{ quotation: Quotation }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  recordDecision: async (requestId: number, quotationId: number, decision: QuotationDecision, note?: string): Promise<{ quotation: Quotation }> => {
+    try {
+      const response = await api.put(`/requests/${requestId}/quotes/${quotationId}/decision`, { decision, note });
+      return handleResponse<{ quotation: Quotation }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  // Customer link, no login needed
+  getByToken: async (token: string): Promise<{ quotation: PublicQuotation }> => {
+    try {
+      const response = await api.get(`/quotes/${token}`);
+      return handleResponse<{ quotation: PublicQuotation }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  respond: async (token: string, decision: QuotationDecision, note?: string): Promise<{ quotation: PublicQuotation }> => {
+    try {
+      const response = await api.post(`/quotes/${token}/decision`, { decision, note });
+      return handleResponse<{ quotation: PublicQuotation }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+};
+
+export const invoicesAPI = {
+  getInvoices: async (params?: { requestId?: number; customerId?: number; status?: InvoiceStatus; search?: string; page?: number; limit?: number }): Promise<{ invoices: Invoice[] }> => {
+    try {
+      const response = await api.get('/invoices', { params });
+      return handleResponse<{ invoices: Invoice[] }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  getInvoice: async (id: number): Promise<{ invoice: Invoice }> => {
+    try {
+      const response = await api.get(`/invoices/${id}`);
+      return handleResponse<{ invoice: Invoice }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  getUninvoiced: async (requestId: number): Promise<{ lines: BillableLine[]; defaultTaxRate: number }> => {
+    try {
+      const response = await api.get('/invoices/uninvoiced', { params: { requestId } });
+      return handleResponse<{ lines: BillableLine[]; defaultTaxRate: number }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  createInvoice: async (data: InvoiceForm): Promise<{ invoice: Invoice }> => {
+    try {
+      const response = await api.post('/invoices', data);
+      return handleResponse<{ invoice: Invoice }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  addPayment: async (id: number, data: PaymentForm): Promise<{ invoice: Invoice }> => {
+    try {
+      const response = await api.post(`/invoices/${id}/payments`, data);
+      return handleResponse<{ invoice: Invoice }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  voidInvoice: async (id: number, reason: string): Promise<{ invoice: Invoice }> => {
+    try {
+      const response = await api.put(`/invoices/${id}/void`, { reason });
+      return handleResponse<{ invoice: Invoice }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+};
+
+export const visitsAPI = {
+  getRequestVisits: async (requestId: number): Promise<{ visits: RequestVisit[] }> => {
+    try {
+      const response = await api.get(`/requests/${requestId}/visits`);
+      return handleResponse<{ visits: RequestVisit[] }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  getCalendar: async (params: { from: string; to: string; technicianId?: number; departmentId?: number }): Promise<{ visits: RequestVisit[] }> => {
+    try {
+      const response = await api.get('/visits', { params });
+      return handleResponse<{ visits: RequestVisit[] }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  bookVisit: async (requestId: number, data: VisitForm): Promise<{ visit: RequestVisit }> => {
+    try {
+      const response = await api.post(`/requests/${requestId}/visits`, data);
+      return handleResponse<{ visit: RequestVisit }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  updateVisit: async (id: number, data: Partial<VisitForm>): Promise<{ visit: RequestVisit }> => {
+    try {
+      const response = await api.put(`/visits/${id}`, data);
+      return handleResponse<{ visit: RequestVisit }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  recordOutcome: async (id: number, outcome: VisitOutcome, outcomeNotes?: string): Promise<{ visit: RequestVisit }> => {
+    try {
+      const response = await api.put(`/visits/${id}/outcome`, { outcome, outcomeNotes });
+      return handleResponse<{ visit: RequestVisit }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+
+  cancelVisit: async (id: number, reason: string): Promise<{ visit: RequestVisit }> => {
+    try {
+      const response = await api.put(`/visits/${id}/cancel`, { reason });
+      return handleResponse<{ visit: RequestVisit }>(response);
+    } catch (error) {
+      throw handleError(error);
+    }
+  },
+};
+
 // Dashboard API
 export const dashboardAPI = {
   getStats: async (params?: any): Promise<{ data: DashboardStats }> => {
@@ -471,7 +1085,7 @@ export const downloadBlob = (blob: Blob, filename: string) => {
 
 // Reports API
 export const reportsAPI = {
-  getReports: async (params?: any) => {
+  getReports: async (params?: ReportFilters) => {
     try {
       const response = await api.get('/reports', { params });
       return response.data;
@@ -479,6 +1093,42 @@ export const reportsAPI = {
       handleError(error);
     }
   },
+
+  getTechnicianPerformance: async (params?: ReportFilters): Promise<{ technicians: PerformanceReport[] }> => {
+    try {
+      const response = await api.get('/reports/technicians', { params });
+      return handleResponse<{ technicians: PerformanceReport[] }>(response);
+    } catch (error) {
+      return Promise.reject(handleError(error));
+    }
+  },
+
+  getSLACompliance: async (params?: ReportFilters): Promise<{ overall: SLAStats | null; departments: SLAComplianceReport[] }> => {
+    try {
+      const response = await api.get('/reports/sla', { params });
+      return handleResponse<{ overall: SLAStats | null; departments: SLAComplianceReport[] }>(response);
+    } catch (error) {
+      return Promise.reject(handleError(error));
+    }
+  },
+
+  getCostSummary: async (params?: ReportFilters): Promise<{ costs: CostSummaryReport }> => {
+    try {
+      const response = await api.get('/reports/costs', { params });
+      return handleResponse<{ costs: CostSummaryReport }>(response);
+    } catch (error) {
+      return Promise.reject(handleError(error));
+    }
+  },
+
+  getUnpaidInvoices: async (params?: ReportFilters): Promise<{ unpaidInvoices: UnpaidInvoicesReport }> => {
+    try {
+      const response = await api.get('/reports/unpaid-invoices', { params });
+      return handleResponse<{ unpaidInvoices: UnpaidInvoicesReport }>(response);
+    } catch (error) {
+      return Promise.reject(handleError(error));
+    }
+  },
 };
 
 // Storage API
@@ -26,12 +26,55 @@ export interface User {
   createdAt: string;
 }
 
+// Technician skill and availability types
+export interface TechnicianSkill {
+  id: number;
+  technicianId: number;
+  productCategory?: string | null;
+  brand?: string | null;
+  certification?: string | null;
+  certificationExpiresAt?: string | null;
+  createdAt: string;
+}
+
+export interface TechnicianLeave {
+  id: number;
+  technicianId: number;
+  startDate: string;
+  endDate: string;
+  reason?: string | null;
+}
+
+export interface TechnicianProfile {
+  id: number;
+  firstName: string;
+  lastName: string;
+  isActive: boolean;
+  isAvailable: boolean;
+  department?: { id: number; name: string } | null;
+  skills: TechnicianSkill[];
+  leaves: TechnicianLeave[];
+  availability: { available: boolean; reason: string | null };
+  // Only in technician lists
+  openRequests?: number;
+  // Whether a valid skill fits the request the list was loaded for (null without a request)
+  matchesRequest?: boolean | null;
+}
+
+export interface TechnicianSkillForm {
+  productCategory?: string;
+  brand?: string;
+  certification?: string;
+  certificationExpiresAt?: string;
+}
+
 // Department types
 export interface Department {
   id: number;
   name: string;
   description?: string;
   managerId?: number;
+  requiresQuoteApproval?: boolean;
   manager?: {
     id: number;
     firstName: string;
@@ -48,6 +91,8 @@ export interface Customer {
   email?: string;
   address: string;
   city?: string;
+  // Outstanding invoice balance per currency, omitted for technicians
+  outstanding?: Record<string, number>;
   createdAt: string;
   updatedAt: string;
 }
@@ -66,7 +111,10 @@ export interface Product {
 }
 
 // Request types
-export type RequestStatus = 'NEW' | 'ASSIGNED' | 'UNDER_INSPECTION' | 'WAITING_PARTS' | 'IN_REPAIR' | 'COMPLETED' | 'CLOSED';
+export type RequestStatus = 'NEW' | 'ASSIGNED' | 'UNDER_INSPECTION' | 'WAITING_PARTS' | 'IN_REPAIR' | 'COMPLETED' | 'CLOSED' | 'CANCELLED' | 'REJECTED';
+
+// Statuses in which a request is finished (mirrors FINISHED_STATUSES on the backend)
+export const FINISHED_STATUSES: RequestStatus[] = ['COMPLETED', 'CLOSED', 'CANCELLED', 'REJECTED'];
 export type RequestPriority = 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT';
 
 export interface CustomRequestStatus {
@@ -86,6 +134,22 @@ export interface CustomRequestStatus {
     username: string;
   };
 }
+
+export type TransitionTimestampField = 'assignedAt' | 'startedAt' | 'completedAt' | 'closedAt';
+
+export interface StatusTransition {
+  id: number;
+  fromStatus: string;
+  toStatus: string;
+  allowedRoles: UserRole[];
+  requiresComment: boolean;
+  requiresTechnician: boolean;
+  setsTimestamp?: TransitionTimestampField | null;
+  isActive: boolean;
+  createdById?: number;
+  createdAt: string;
+  updatedAt: string;
+}
 export type WarrantyStatus = 'UNDER_WARRANTY' | 'OUT_OF_WARRANTY';
 export type ExecutionMethod = 'ON_SITE' | 'WORKSHOP';
 
@@ -96,6 +160,16 @@ export interface Request {
   customer: Customer;
   productId?: number;
   product?: Product;
+  installedUnitId?: number | null;
+  installedUnit?: { id: number; serialNumber: string; warrantyExpiresAt?: string | null } | null;
+  contractId?: number | null;
+  contract?: {
+    id: number;
+    contractNumber: string;
+    endDate: string;
+    coveredCostTypes: string;
+    type: { name: string; kind: ContractKind };
+  } | null;
   departmentId: number;
   department: Department;
   assignedTechnicianId?: number;
@@ -116,6 +190,9 @@ export interface Request {
   executionMethod: ExecutionMethod;
   warrantyStatus: WarrantyStatus;
   purchaseDate?: string;
+  extendedWarrantyMonths?: number;
+  warrantyExpiresAt?: string | null;
+  warrantyOverridden?: boolean;
   status: RequestStatus;
   priority: RequestPriority;
   createdAt: string;
@@ -125,15 +202,424 @@ export interface Request {
   closedAt?: string;
   slaDueDate?: string;
   isOverdue: boolean;
+  slaPolicyId?: number;
+  slaTargetHours?: number;
+  slaPolicy?: {
+    id: number;
+    name: string;
+    targetHours: number;
+  };
+  slaRemainingHours?: number | null;
+  slaPausedAt?: string | null;
+  slaPausedMinutes?: number;
+  slaEscalations?: SlaEscalation[];
+  reopenCount?: number;
+  reopenedAt?: string | null;
   finalNotes?: string;
   customerSatisfaction?: number;
+  closureReason?: string | null;
   updatedAt: string;
   activities?: RequestActivity[];
   costs?: RequestCost[];
 }
 
+// Warranty computed from the purchase date and the product's warranty months
+export interface WarrantyResolution {
+  status: WarrantyStatus | null;
+  expiresAt: string | null;
+  warrantyMonths: number | null;
+  extendedWarrantyMonths: number;
+  reason: string;
+}
+
+export interface SlaEscalation {
+  id: number;
+  requestId: number;
+  level: number;
+  thresholdPercent: number;
+  notifiedCount: number;
+  triggeredAt: string;
+}
+
+// On-site visit types
+export type VisitStatus = 'SCHEDULED' | 'COMPLETED' | 'CANCELLED';
+export type VisitOutcome = 'RESOLVED' | 'FOLLOW_UP_REQUIRED' | 'PARTS_REQUIRED' | 'CUSTOMER_ABSENT';
+
+export const VISIT_OUTCOMES: VisitOutcome[] = ['RESOLVED', 'FOLLOW_UP_REQUIRED', 'PARTS_REQUIRED', 'CUSTOMER_ABSENT'];
+
+export interface RequestVisit {
+  id: number;
+  requestId: number;
+  technicianId: number;
+  scheduledStart: string;
+  scheduledEnd: string;
+  address: string;
+  city?: string | null;
+  status: VisitStatus;
+  outcome?: VisitOutcome | null;
+  outcomeNotes?: string | null;
+  notes?: string | null;
+  cancelReason?: string | null;
+  completedAt?: string | null;
+  technician: { id: number; firstName: string; lastName: string; phone?: string | null };
+  createdBy: { id: number; firstName: string; lastName: string };
+  request: {
+    id: number;
+    requestNumber: string;
+    status: string;
+    departmentId: number;
+    customer: { id: number; name: string; phone: string };
+    department: { id: number; name: string };
+  };
+}
+
+// Customer-owned unit of a catalog product, identified by its serial number
+export interface InstalledUnit {
+  id: number;
+  productId: number;
+  customerId: number;
+  serialNumber: string;
+  purchaseDate?: string | null;
+  installedAt?: string | null;
+  installedById?: number | null;
+  installerName?: string | null;
+  warrantyExpiresAt?: string | null;
+  address?: string | null;
+  notes?: string | null;
+  createdAt: string;
+  product: { id: number; name: string; model: string; category: string; warrantyMonths: number; departmentId: number };
+  customer: { id: number; name: string; phone: string; address: string; city?: string | null };
+  installedBy?: { id: number; firstName: string; lastName: string } | null;
+  _count?: { requests: number };
+  // Only on a single unit
+  warranty?: WarrantyResolution;
+  requests?: UnitRepair[];
+}
+
+// A request raised on an installed unit, as listed in its history
+export interface UnitRepair {
+  id: number;
+  requestNumber: string;
+  status: RequestStatus;
+  priority: RequestPriority;
+  warrantyStatus: WarrantyStatus;
+  issueDescription: string;
+  finalNotes?: string | null;
+  createdAt: string;
+  completedAt?: string | null;
+  closedAt?: string | null;
+  department: { id: number; name: string };
+  assignedTechnician?: { id: number; firstName: string; lastName: string } | null;
+  costs: { costType: CostType; amount: number; currency: string }[];
+  requestParts: { quantityUsed: number; totalCost: number; sparePart: { name: string; partNumber: string; currency: string } }[];
+}
+
+export interface InstalledUnitForm {
+  productId: number | string;
+  customerId: number | string;
+  serialNumber: string;
+  purchaseDate?: string;
+  installedAt?: string;
+  installedById?: number | string;
+  installerName?: string;
+  warrantyExpiresAt?: string;
+  address?: string;
+  notes?: string;
+}
+
+// Service contract types
+export type ContractKind = 'EXTENDED_WARRANTY' | 'MAINTENANCE';
+export type ContractScope = 'CUSTOMER' | 'UNITS';
+export type ContractStatus = 'ACTIVE' | 'CANCELLED';
+
+export const COST_TYPES: CostType[] = ['PARTS', 'LABOR', 'TRANSPORTATION', 'OTHER'];
+
+export interface ContractType {
+  id: number;
+  name: string;
+  description?: string | null;
+  kind: ContractKind;
+  coveredCostTypes: CostType[];
+  durationMonths: number;
+  visitsIncluded?: number | null;
+  isActive: boolean;
+  _count?: { contracts: number };
+}
+
+export interface ServiceContract {
+  id: number;
+  contractNumber: string;
+  typeId: number;
+  customerId: number;
+  scope: ContractScope;
+  startDate: string;
+  endDate: string;
+  coveredCostTypes: CostType[];
+  visitsIncluded?: number | null;
+  price?: number | null;
+  currency: string;
+  status: ContractStatus;
+  notes?: string | null;
+  createdAt: string;
+  type: { id: number; name: string; kind: ContractKind };
+  customer: { id: number; name: string; phone: string };
+  createdBy: { id: number; firstName: string; lastName: string };
+  units: { unit: { id: number; serialNumber: string; product: { id: number; name: string; model: string } } }[];
+  _count?: { requests: number };
+  // Only on a single contract
+  visitsUsed?: number;
+  requests?: { id: number; requestNumber: string; status: RequestStatus; issueDescription: string; createdAt: string }[];
+}
+
+// Active contract a new request would be raised under
+export interface ContractCoverage {
+  id: number;
+  contractNumber: string;
+  kind: ContractKind;
+  typeName: string;
+  endDate: string;
+  coveredCostTypes: CostType[];
+  visitsIncluded: number | null;
+  visitsUsed: number;
+}
+
+export interface ContractTypeForm {
+  name: string;
+  description?: string;
+  kind: ContractKind;
+  coveredCostTypes: CostType[];
+  durationMonths: number | string;
+  visitsIncluded?: number | string;
+}
+
+export interface ServiceContractForm {
+  contractNumber: string;
+  typeId: number | string;
+  customerId: number | string;
+  scope: ContractScope;
+  unitIds: number[];
+  startDate: string;
+  endDate?: string;
+  price?: number | string;
+  currency: string;
+  notes?: string;
+}
+
+// Preventive maintenance plan types
+export type MaintenanceRecurrence = 'INTERVAL' | 'SEASONAL';
+export type OccurrenceStatus = 'GENERATED' | 'SKIPPED';
+
+export interface MaintenanceOccurrence {
+  id: number;
+  planId: number;
+  dueDate: string;
+  status: OccurrenceStatus;
+  skipReason?: string | null;
+  createdAt: string;
+  request?: { id: number; requestNumber: string; status: RequestStatus } | null;
+  skippedBy?: { id: number; firstName: string; lastName: string } | null;
+}
+
+export interface MaintenancePlan {
+  id: number;
+  name: string;
+  customerId: number;
+  installedUnitId?: number | null;
+  departmentId: number;
+  issueDescription: string;
+  priority: RequestPriority;
+  executionMethod: ExecutionMethod;
+  recurrence: MaintenanceRecurrence;
+  intervalMonths?: number | null;
+  seasonMonths: number[];
+  dayOfMonth: number;
+  leadDays: number;
+  startDate: string;
+  endDate?: string | null;
+  nextDueDate?: string | null;
+  isActive: boolean;
+  notes?: string | null;
+  customer: { id: number; name: string; phone: string };
+  installedUnit?: { id: number; serialNumber: string; product: { id: number; name: string; model: string } } | null;
+  department: { id: number; name: string };
+  createdBy: { id: number; firstName: string; lastName: string };
+  // Only in lists
+  skippedCount?: number;
+  // Only on a single plan
+  occurrences?: MaintenanceOccurrence[];
+}
+
+export interface MaintenancePlanForm {
+  name: string;
+  customerId: number | string;
+  installedUnitId?: number | string;
+  departmentId?: number | string;
+  issueDescription: string;
+  priority: RequestPriority;
+  executionMethod: ExecutionMethod;
+  recurrence: MaintenanceRecurrence;
+  intervalMonths?: number | string;
+  seasonMonths: number[];
+  dayOfMonth: number | string;
+  leadDays: number | string;
+  startDate: string;
+  endDate?: string;
+  notes?: string;
+}
+
+export type QuotationStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED' | 'SUPERSEDED';
+export type QuotationDecision = 'ACCEPTED' | 'REJECTED';
+
+export interface QuotationLine {
+  id: number;
+  lineType: CostType;
+  description: string;
+  sparePartId?: number | null;
+  sparePart?: { id: number; name: string; partNumber: string } | null;
+  quantity: number;
+  unitPrice: number;
+  currency: 'SYP' | 'USD';
+  total: number;
+}
+
+export interface Quotation {
+  id: number;
+  requestId: number;
+  version: number;
+  status: QuotationStatus;
+  validUntil: string;
+  totalSyp: number;
+  totalUsd: number;
+  notes?: string | null;
+  token: string;
+  customerLink: string;
+  decidedAt?: string | null;
+  decisionNote?: string | null;
+  decidedBy?: { id: number; firstName: string; lastName: string } | null;
+  createdBy: { id: number; firstName: string; lastName: string };
+  createdAt: string;
+  lines: QuotationLine[];
+}
+
+// What the customer sees through the quotation link
+export interface PublicQuotation {
+  version: number;
+  status: QuotationStatus;
+  validUntil: string;
+  totalSyp: number;
+  totalUsd: number;
+  notes?: string | null;
+  decidedAt?: string | null;
+  decisionNote?: string | null;
+  createdAt: string;
+  lines: Omit<QuotationLine, 'id' | 'sparePartId' | 'sparePart'>[];
+  request: {
+    requestNumber: string;
+    issueDescription: string;
+    customer: { name: string };
+    product?: { name: string; model: string } | null;
+    department: { name: string };
+  };
+}
+
+export interface QuotationLineForm {
+  lineType: CostType;
+  description: string;
+  sparePartId?: number | string;
+  quantity: number | string;
+  unitPrice: number | string;
+  currency: 'SYP' | 'USD';
+}
+
+export interface QuotationForm {
+  lines: QuotationLineForm[];
+  validUntil?: string;
+  notes?: string;
+}
+
+export type InvoiceStatus = 'ISSUED' | 'PARTIALLY_PAID' | 'PAID' | 'VOID';
+export type PaymentMethod = 'CASH' | 'TRANSFER';
+
+// A billable cost or part line of a request, before or after invoicing
+export interface BillableLine {
+  lineType: CostType;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  currency: 'SYP' | 'USD';
+  requestCostId: number | null;
+  requestPartId: number | null;
+}
+
+export interface InvoiceLine extends Omit<BillableLine, 'currency'> {
+  id: number;
+}
+
+export interface InvoicePayment {
+  id: number;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string | null;
+  paidAt: string;
+  notes?: string | null;
+  receivedBy: { id: number; firstName: string; lastName: string };
+}
+
+export interface Invoice {
+  id: number;
+  invoiceNumber: string;
+  requestId: number;
+  customerId: number;
+  currency: 'SYP' | 'USD';
+  subtotal: number;
+  discountAmount: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+  amountPaid: number;
+  balance: number;
+  status: InvoiceStatus;
+  issuedAt: string;
+  dueDate?: string | null;
+  notes?: string | null;
+  voidReason?: string | null;
+  request: { id: number; requestNumber: string };
+  customer: { id: number; name: string; phone?: string };
+  createdBy?: { id: number; firstName: string; lastName: string };
+  lines?: InvoiceLine[];
+  payments?: InvoicePayment[];
+}
+
+export interface InvoiceForm {
+  requestId: number;
+  currency: 'SYP' | 'USD';
+  discountAmount?: number | string;
+  discountPercent?: number | string;
+  taxRate?: number | string;
+  dueDate?: string;
+  notes?: string;
+}
+
+export interface PaymentForm {
+  amount: number | string;
+  method: PaymentMethod;
+  reference?: string;
+  paidAt?: string;
+  notes?: string;
+}
+
+export interface VisitForm {
+  scheduledStart: string;
+  scheduledEnd: string;
+  technicianId?: number;
+  address?: string;
+  city?: string;
+  notes?: string;
+}
+
 // Activity types
-export type ActivityType = 'STATUS_CHANGE' | 'ASSIGNMENT' | 'COMMENT' | 'COST_ADDED' | 'CREATED' | 'UPDATED';
+export type ActivityType = 'STATUS_CHANGE' | 'ASSIGNMENT' | 'COMMENT' | 'COST_ADDED' | 'CREATED' | 'UPDATED' | 'VISIT' | 'WARRANTY_OVERRIDE' | 'CONTRACT_COVERAGE';
 
 export interface RequestActivity {
   id: number;
@@ -162,6 +648,7 @@ export interface RequestCost {
   amount: number;
   costType: CostType;
   currency: string;
+  isBillable: boolean;
   addedById: number;
   addedBy: {
     id: number;
@@ -172,7 +659,7 @@ export interface RequestCost {
 }
 
 // Notification types
-export type NotificationType = 'ASSIGNMENT' | 'OVERDUE' | 'STATUS_CHANGE' | 'COMPLETION' | 'WAREHOUSE_UPDATE';
+export type NotificationType = 'ASSIGNMENT' | 'OVERDUE' | 'STATUS_CHANGE' | 'COMPLETION' | 'WAREHOUSE_UPDATE' | 'SLA_WARNING' | 'MENTION' | 'CERTIFICATION_EXPIRY' | 'VISIT' | 'QUOTATION';
 
 export interface Notification {
   id: number;
@@ -190,6 +677,89 @@ export interface Notification {
   createdAt: string;
 }
 
+export type AttachmentCategory = 'PHOTO' | 'INVOICE' | 'DIAGNOSTIC' | 'OTHER';
+
+export interface RequestAttachment {
+  id: number;
+  requestId: number;
+  category: AttachmentCategory;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  thumbnailKey?: string | null;
+  description?: string | null;
+  createdAt: string;
+  uploadedById: number;
+  uploadedBy: {
+    id: number;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+export type CommentVisibility = 'INTERNAL' | 'CUSTOMER';
+
+export interface RequestComment {
+  id: number;
+  requestId: number;
+  parentId?: number | null;
+  body: string;
+  visibility: CommentVisibility;
+  editedAt?: string | null;
+  deletedAt?: string | null;
+  createdAt: string;
+  authorId: number;
+  author: {
+    id: number;
+    username: string;
+    firstName: string;
+    lastName: string;
+    role: UserRole;
+  };
+  _count?: { revisions: number };
+  replies?: RequestComment[];
+}
+
+export interface RequestCommentRevision {
+  id: number;
+  action: 'EDITED' | 'DELETED';
+  body: string;
+  visibility: CommentVisibility;
+  createdAt: string;
+  changedBy: {
+    id: number;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+export type RealtimeEventName = 'notification' | 'request:status' | 'request:assigned' | 'request:updated' | 'request:comment';
+
+export interface RequestRealtimeEvent {
+  requestId: number;
+  requestNumber: string;
+  status: RequestStatus;
+  oldStatus?: RequestStatus;
+  technician?: { id: number; firstName: string; lastName: string } | null;
+  previousTechnicianId?: number | null;
+  updatedBy: number;
+}
+
+export type NotificationChannel = 'IN_APP' | 'EMAIL';
+
+export interface NotificationPreference {
+  type: string;
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
+export interface NotificationSettings {
+  preferences: NotificationPreference[];
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  dailyDigest: boolean;
+}
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -230,6 +800,9 @@ export interface DashboardStats {
   pendingRequests: number;
   overdueRequests: number;
   completedRequests: number;
+  cancelledRequests: number;
+  rejectedRequests: number;
+  reopenedRequests: number;
   underWarranty: number;
   outOfWarranty: number;
   requestsByDepartment: Array<{
@@ -245,6 +818,97 @@ export interface DashboardStats {
   customerSatisfactionAverage: number;
 }
 
+// Report types
+export interface ReportFilters {
+  dateFrom?: string;
+  dateTo?: string;
+  departmentId?: number;
+  technicianId?: number;
+  status?: string;
+  warrantyStatus?: WarrantyStatus;
+}
+
+export interface PerformanceReport {
+  technician: {
+    id: number;
+    name: string;
+    department: string;
+  };
+  completedRequests: number;
+  averageResolutionTime: number;
+  customerSatisfactionAverage: number;
+  overdueRequests: number;
+}
+
+export interface SLAStats {
+  totalRequests: number;
+  overdueRequests: number;
+  completedOnTime: number;
+  completedOverdue: number;
+  overduePercentage: number;
+  onTimePercentage: number;
+  averageResolutionHours: number;
+  averageNetResolutionHours: number;
+}
+
+export interface SLAComplianceReport extends SLAStats {
+  department: {
+    id: number;
+    name: string;
+  };
+}
+
+export interface CostSummaryReport {
+  byCostType: Array<{
+    costType: CostType;
+    currency: string;
+    total: number;
+    count: number;
+  }>;
+  parts: Array<{
+    currency: string;
+    total: number;
+    quantity: number;
+  }>;
+  byDepartment: Array<{
+    departmentId: number;
+    departmentName: string;
+    currency: string;
+    laborTotal: number;
+    partsTotal: number;
+    otherTotal: number;
+  }>;
+  totalsByCurrency: Record<string, number>;
+}
+
+export interface UnpaidInvoicesReport {
+  invoices: Array<{
+    id: number;
+    invoiceNumber: string;
+    requestId: number;
+    requestNumber: string;
+    customerId: number;
+    customerName: string;
+    currency: string;
+    total: number;
+    amountPaid: number;
+    balance: number;
+    status: InvoiceStatus;
+    issuedAt: string;
+    dueDate: string | null;
+    daysOverdue: number;
+  }>;
+  byCustomer: Array<{
+    customerId: number;
+    customerName: string;
+    currency: string;
+    balance: number;
+    invoiceCount: number;
+  }>;
+  totalsByCurrency: Record<string, number>;
+  overdueByCurrency: Record<string, number>;
+}
+
 // Auth response types
 export interface LoginResponse {
   user: User;
@@ -259,14 +923,30 @@ export interface LoginForm {
 
 export interface CreateRequestForm {
   customerId: number | string;
+  installedUnitId?: number | string;
   productId?: number | string;
   issueDescription: string;
   executionMethod: ExecutionMethod;
-  warrantyStatus: WarrantyStatus;
+  // Empty to use the computed warranty status
+  warrantyStatus: WarrantyStatus | '';
+  warrantyOverrideReason?: string;
+  extendedWarrantyMonths?: number | string;
   purchaseDate?: string;
   priority: RequestPriority;
 }
 
+export interface UpdateRequestForm {
+  issueDescription?: string;
+  installedUnitId?: number | null;
+  productId?: number | null;
+  executionMethod?: ExecutionMethod;
+  warrantyStatus?: WarrantyStatus;
+  warrantyOverrideReason?: string;
+  extendedWarrantyMonths?: number;
+  purchaseDate?: string | null;
+  priority?: RequestPriority;
+}
+
 export interface CreateCustomerForm {
   name: string;
   phone: string;
@@ -336,6 +1016,8 @@ export const REQUEST_STATUS_LABELS: Record<RequestStatus, string> = {
   'IN_REPAIR': 'In Repair',
   'COMPLETED': 'Completed',
   'CLOSED': 'Closed',
+  'CANCELLED': 'Cancelled',
+  'REJECTED': 'Rejected',
 };
 
 export const PRIORITY_LABELS: Record<RequestPriority, string> = {
@@ -391,6 +1073,7 @@ export interface RequestPart {
   quantityUsed: number;
   unitPrice: number;
   totalCost: number;
+  isBillable: boolean;
   addedById: number;
   addedBy: {
     id: number;